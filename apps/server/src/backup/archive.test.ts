@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { initDatabase, closeDatabase } from '../db/database';
+import { ConfigRepository } from '../db/config.repository';
+import { ProfileRepository } from '../db/profile.repository';
+import { generateMasterKey } from '../crypto/encryption';
+import { createBackupArchive, restoreBackupArchive } from './archive';
+
+describe('Backup Archive', () => {
+  const masterKey = generateMasterKey();
+  let configRepo: ConfigRepository;
+  let profileRepo: ProfileRepository;
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+    configRepo = new ConfigRepository();
+    profileRepo = new ProfileRepository(masterKey);
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  function seed() {
+    const config = configRepo.create({
+      id: randomUUID(),
+      name: 'Main',
+      config: {
+        settings: { cache: true },
+        extras: { custom_overlays: { '4K Badge': { name: '4K Badge', elements: [] } } },
+      },
+    });
+    const profile = profileRepo.create({
+      id: randomUUID(),
+      name: 'Home',
+      secrets: { plex: { url: 'http://localhost:32400', token: 'plex-token' } },
+    });
+    return { config, profile };
+  }
+
+  it('should archive configs, encrypted profiles and saved overlays', () => {
+    const { config, profile } = seed();
+
+    const archive = createBackupArchive(configRepo, profileRepo);
+
+    expect(archive.format).toBe('kometa-studio-backup');
+    expect(archive.configs).toHaveLength(1);
+    expect(archive.configs[0].config.extras).toBeUndefined();
+    expect(archive.overlays).toEqual([
+      { configId: config.id, name: '4K Badge', definition: { name: '4K Badge', elements: [] } },
+    ]);
+    expect(archive.profiles[0].id).toBe(profile.id);
+    expect(archive.profiles[0].secretsEncrypted).not.toContain('plex-token');
+  });
+
+  it('should restore everything into an empty database', () => {
+    const { config, profile } = seed();
+    const archive = createBackupArchive(configRepo, profileRepo);
+    configRepo.delete(config.id);
+    profileRepo.delete(profile.id);
+
+    const report = restoreBackupArchive(archive, 'merge', configRepo, profileRepo);
+
+    expect(report.configs.created).toBe(1);
+    expect(report.profiles.created).toBe(1);
+    expect(report.overlays.created).toBe(1);
+    expect(configRepo.findById(config.id)?.config.extras?.custom_overlays).toBeDefined();
+    expect(profileRepo.findById(profile.id)?.secrets.plex?.token).toBe('plex-token');
+  });
+
+  it('should keep existing records in skip mode', () => {
+    const { config } = seed();
+    const archive = createBackupArchive(configRepo, profileRepo);
+    configRepo.update(config.id, { name: 'Renamed' });
+
+    const report = restoreBackupArchive(archive, 'skip', configRepo, profileRepo);
+
+    expect(report.configs.skipped).toBe(1);
+    expect(report.profiles.skipped).toBe(1);
+    expect(configRepo.findById(config.id)?.name).toBe('Renamed');
+  });
+
+  it('should overwrite existing records in merge mode', () => {
+    const { config } = seed();
+    const archive = createBackupArchive(configRepo, profileRepo);
+    configRepo.update(config.id, { name: 'Renamed' });
+
+    const report = restoreBackupArchive(archive, 'merge', configRepo, profileRepo);
+
+    expect(report.configs.updated).toBe(1);
+    expect(report.overlays.updated).toBe(1);
+    expect(configRepo.findById(config.id)?.name).toBe('Main');
+  });
+
+  it('should remove records missing from the archive in replace mode', () => {
+    seed();
+    const archive = createBackupArchive(configRepo, profileRepo);
+    const extra = configRepo.create({ id: randomUUID(), name: 'Extra', config: {} });
+
+    restoreBackupArchive(archive, 'replace', configRepo, profileRepo);
+
+    expect(configRepo.findById(extra.id)).toBeNull();
+    expect(configRepo.findAll()).toHaveLength(1);
+  });
+
+  it('should roll back when a profile was encrypted with another key', () => {
+    seed();
+    const archive = createBackupArchive(configRepo, profileRepo);
+    const otherRepo = new ProfileRepository(generateMasterKey());
+
+    expect(() => restoreBackupArchive(archive, 'replace', configRepo, otherRepo)).toThrow(
+      /could not be decrypted with the current master key/
+    );
+    expect(configRepo.findAll()).toHaveLength(1);
+    expect(profileRepo.findAll()).toHaveLength(1);
+  });
+
+  it('should roll back when a restored config inherits from a missing parent', () => {
+    const { config } = seed();
+    const archive = createBackupArchive(configRepo, profileRepo);
+    archive.configs.push({
+      ...archive.configs[0],
+      id: randomUUID(),
+      name: 'Orphan',
+      parentId: randomUUID(),
+    });
+
+    expect(() => restoreBackupArchive(archive, 'replace', configRepo, profileRepo)).toThrow(
+      /Config "Orphan" cannot be restored: .* does not exist/
+    );
+    expect(configRepo.findAll().map((record) => record.id)).toEqual([config.id]);
+    expect(configRepo.findById(config.id)?.parentId).toBeUndefined();
+  });
+});
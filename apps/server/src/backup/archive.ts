@@ -0,0 +1,224 @@
+import { getDatabase } from '../db/database.js';
+import type { ConfigRepository } from '../db/config.repository.js';
+import type { ProfileRepository } from '../db/profile.repository.js';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  type BackupArchive,
+  type BackupOverlay,
+  type KometaConfig,
+  type RestoreCounts,
+  type RestoreMode,
+  type RestoreReport,
+} from '@kometa-studio/shared';
+
+// Key under config.extras where the Overlay Builder stores saved overlays
+const CUSTOM_OVERLAYS_KEY = 'custom_overlays';
+
+function emptyCounts(): RestoreCounts {
+  return { created: 0, updated: 0, skipped: 0 };
+}
+
+function getCustomOverlays(config: KometaConfig): Record<string, Record<string, unknown>> {
+  const overlays = config.extras?.[CUSTOM_OVERLAYS_KEY];
+  return overlays && typeof overlays === 'object'
+    ? (overlays as Record<string, Record<string, unknown>>)
+    : {};
+}
+
+/**
+ * Returns the config without its saved overlays, which are archived separately
+ */
+function withoutCustomOverlays(config: KometaConfig): KometaConfig {
+  if (!config.extras || !(CUSTOM_OVERLAYS_KEY in config.extras)) return config;
+
+  const { [CUSTOM_OVERLAYS_KEY]: _overlays, ...extras } = config.extras;
+  return {
+    ...config,
+    extras: Object.keys(extras).length > 0 ? extras : undefined,
+  };
+}
+
+function withCustomOverlays(
+  config: KometaConfig,
+  overlays: Record<string, Record<string, unknown>>
+): KometaConfig {
+  if (Object.keys(overlays).length === 0) return config;
+  return {
+    ...config,
+    extras: { ...config.extras, [CUSTOM_OVERLAYS_KEY]: overlays },
+  };
+}
+
+/**
+ * Snapshots every config, profile and saved overlay into a single archive.
+ * Profile secrets stay encrypted with the current master key.
+ */
+export function createBackupArchive(
+  configRepo: ConfigRepository,
+  profileRepo: ProfileRepository
+): BackupArchive {
+  const overlays: BackupOverlay[] = [];
+
+  const configs = configRepo.findAll().map((record) => {
+    for (const [name, definition] of Object.entries(getCustomOverlays(record.config))) {
+      overlays.push({ configId: record.id, name, definition });
+    }
+    return { ...record, config: withoutCustomOverlays(record.config) };
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    configs,
+    profiles: profileRepo.findAllEncrypted(),
+    overlays,
+  };
+}
+
+/**
+ * Restores an archive in a single transaction.
+ *
+ * - `replace` deletes all existing configs and profiles first
+ * - `merge` overwrites existing records that share an id with the archive
+ * - `skip` keeps existing records and only adds the missing ones
+ *
+ * Throws (and changes nothing) if a profile was encrypted with a different master key,
+ * or if a restored config inherits from a missing parent or through a cycle.
+ */
+export function restoreBackupArchive(
+  archive: BackupArchive,
+  mode: RestoreMode,
+  configRepo: ConfigRepository,
+  profileRepo: ProfileRepository
+): RestoreReport {
+  const report: RestoreReport = {
+    mode,
+    configs: emptyCounts(),
+    profiles: emptyCounts(),
+    overlays: emptyCounts(),
+  };
+
+  const overlaysByConfig = new Map<string, BackupOverlay[]>();
+  for (const overlay of archive.overlays) {
+    const list = overlaysByConfig.get(overlay.configId) ?? [];
+    list.push(overlay);
+    overlaysByConfig.set(overlay.configId, list);
+  }
+
+  const db = getDatabase();
+  db.transaction(() => {
+    if (mode === 'replace') {
+      configRepo.findAll().forEach((config) => configRepo.delete(config.id));
+      profileRepo.findAll().forEach((profile) => profileRepo.delete(profile.id));
+    }
+
+    const restored: BackupArchive['configs'] = [];
+    for (const archived of archive.configs) {
+      const overlays = overlaysByConfig.get(archived.id) ?? [];
+      overlaysByConfig.delete(archived.id);
+      const existing = configRepo.findById(archived.id);
+
+      if (existing && mode === 'skip') {
+        report.configs.skipped++;
+        report.overlays.skipped += overlays.length;
+        continue;
+      }
+
+      // Saved overlays are merged by name, archived definitions win
+      const existingOverlays = existing ? getCustomOverlays(existing.config) : {};
+      const mergedOverlays = { ...existingOverlays };
+      for (const overlay of overlays) {
+        if (overlay.name in existingOverlays) {
+          report.overlays.updated++;
+        } else {
+          report.overlays.created++;
+        }
+        mergedOverlays[overlay.name] = overlay.definition;
+      }
+
+      const config = withCustomOverlays(archived.config, mergedOverlays);
+      const description = archived.description ?? undefined;
+      const { sourceYaml, ruleSettings, parentId } = archived;
+
+      if (existing) {
+        configRepo.update(
+          archived.id,
+          {
+            name: archived.name,
+            description,
+            config,
+            sourceYaml,
+            ruleSettings,
+            parentId: parentId ?? null,
+          },
+          'Restored from backup'
+        );
+        report.configs.updated++;
+      } else {
+        configRepo.create({
+          id: archived.id,
+          name: archived.name,
+          description,
+          config,
+          sourceYaml,
+          ruleSettings,
+          parentId,
+        });
+        report.configs.created++;
+      }
+      restored.push(archived);
+    }
+
+    // Parents are only checked once every config is written, as the archive
+    // may list a child before its parent
+    for (const archived of restored) {
+      if (!archived.parentId) continue;
+      try {
+        configRepo.findChain(archived.id);
+      } catch (error) {
+        throw new Error(
+          `Config "${archived.name}" cannot be restored: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    }
+
+    // Overlays whose config is not part of the archive have nowhere to go
+    for (const orphaned of overlaysByConfig.values()) {
+      report.overlays.skipped += orphaned.length;
+    }
+
+    for (const archived of archive.profiles) {
+      const exists = profileRepo.exists(archived.id);
+
+      if (exists && mode === 'skip') {
+        report.profiles.skipped++;
+        continue;
+      }
+
+      try {
+        profileRepo.saveEncrypted({
+          ...archived,
+          description: archived.description ?? undefined,
+        });
+      } catch (error) {
+        throw new Error(
+          `Profile "${archived.name}" could not be decrypted with the current master key: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+
+      if (exists) {
+        report.profiles.updated++;
+      } else {
+        report.profiles.created++;
+      }
+    }
+  })();
+
+  return report;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { encrypt, decrypt, validateMasterKey, generateMasterKey } from './encryption';
+import {
+  encrypt,
+  decrypt,
+  validateMasterKey,
+  generateMasterKey,
+  getKeyId,
+  needsReencryption,
+} from './encryption';
 
 describe('Encryption', () => {
   const masterKey = generateMasterKey();
@@ -38,4 +45,39 @@ describe('Encryption', () => {
     const decrypted = decrypt(encrypted, masterKey);
     expect(decrypted).toBe(unicode);
   });
+
+  describe('Key rotation', () => {
+    const previousKey = generateMasterKey();
+
+    it('should record the key id in the envelope', () => {
+      const envelope = JSON.parse(encrypt(plaintext, masterKey));
+      expect(envelope.version).toBe(2);
+      expect(envelope.keyId).toBe(getKeyId(masterKey));
+      expect(envelope.keyId).not.toBe(getKeyId(previousKey));
+    });
+
+    it('should decrypt with a previous key from the keyring', () => {
+      const encrypted = encrypt(plaintext, previousKey);
+      expect(decrypt(encrypted, [masterKey, previousKey])).toBe(plaintext);
+    });
+
+    it('should report a missing key id clearly', () => {
+      const encrypted = encrypt(plaintext, previousKey);
+      expect(() => decrypt(encrypted, [masterKey])).toThrow(/No master key available/);
+    });
+
+    it('should decrypt version 1 envelopes without a key id', () => {
+      const { keyId: _keyId, ...legacy } = JSON.parse(encrypt(plaintext, previousKey));
+      const encrypted = JSON.stringify({ ...legacy, version: 1 });
+      expect(decrypt(encrypted, [masterKey, previousKey])).toBe(plaintext);
+    });
+
+    it('should flag envelopes that need re-encryption', () => {
+      expect(needsReencryption(encrypt(plaintext, masterKey), masterKey)).toBe(false);
+      expect(needsReencryption(encrypt(plaintext, previousKey), masterKey)).toBe(true);
+
+      const { keyId: _keyId, ...legacy } = JSON.parse(encrypt(plaintext, masterKey));
+      expect(needsReencryption(JSON.stringify({ ...legacy, version: 1 }), masterKey)).toBe(true);
+    });
+  });
 });
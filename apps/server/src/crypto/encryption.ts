@@ -6,9 +6,12 @@ const _AUTH_TAG_LENGTH = 16; // GCM auth tag length (documented for reference)
 const SALT_LENGTH = 32;
 const KEY_LENGTH = 32;
 const ITERATIONS = 100000;
+const ENVELOPE_VERSION = 2;
 
 interface EncryptedEnvelope {
   version: number;
+  /** Identifies the master key used for encryption (absent in version 1 envelopes) */
+  keyId?: string;
   salt: string;
   iv: string;
   authTag: string;
@@ -28,6 +31,17 @@ function deriveKey(masterKey: string, salt: Buffer): Buffer {
   );
 }
 
+/**
+ * Returns a stable, non-reversible identifier for a master key
+ */
+export function getKeyId(masterKey: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.from(masterKey, 'base64'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
 /**
  * Encrypts data using AES-256-GCM
  */
@@ -45,7 +59,8 @@ export function encrypt(plaintext: string, masterKey: string): string {
     const authTag = cipher.getAuthTag();
 
     const envelope: EncryptedEnvelope = {
-      version: 1,
+      version: ENVELOPE_VERSION,
+      keyId: getKeyId(masterKey),
       salt: salt.toString('base64'),
       iv: iv.toString('base64'),
       authTag: authTag.toString('base64'),
@@ -60,29 +75,55 @@ export function encrypt(plaintext: string, masterKey: string): string {
   }
 }
 
+function decryptEnvelope(envelope: EncryptedEnvelope, masterKey: string): string {
+  const salt = Buffer.from(envelope.salt, 'base64');
+  const key = deriveKey(masterKey, salt);
+  const iv = Buffer.from(envelope.iv, 'base64');
+  const authTag = Buffer.from(envelope.authTag, 'base64');
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  let decrypted = decipher.update(envelope.encrypted, 'base64', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
 /**
  * Decrypts data using AES-256-GCM
+ *
+ * Accepts a keyring (current key first, then previous keys). Envelopes that
+ * record a key id are decrypted with the matching key; version 1 envelopes
+ * without one are tried against every key.
  */
-export function decrypt(envelopeStr: string, masterKey: string): string {
+export function decrypt(envelopeStr: string, masterKey: string | string[]): string {
+  const keys = Array.isArray(masterKey) ? masterKey : [masterKey];
+
   try {
     const envelope: EncryptedEnvelope = JSON.parse(envelopeStr);
 
-    if (envelope.version !== 1) {
+    if (envelope.version !== 1 && envelope.version !== ENVELOPE_VERSION) {
       throw new Error(`Unsupported encryption version: ${envelope.version}`);
     }
 
-    const salt = Buffer.from(envelope.salt, 'base64');
-    const key = deriveKey(masterKey, salt);
-    const iv = Buffer.from(envelope.iv, 'base64');
-    const authTag = Buffer.from(envelope.authTag, 'base64');
-
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
+    const candidates = envelope.keyId
+      ? keys.filter((key) => getKeyId(key) === envelope.keyId)
+      : keys;
 
-    let decrypted = decipher.update(envelope.encrypted, 'base64', 'utf8');
-    decrypted += decipher.final('utf8');
+    if (candidates.length === 0) {
+      throw new Error(`No master key available for key id ${envelope.keyId}`);
+    }
 
-    return decrypted;
+    let lastError: unknown;
+    for (const key of candidates) {
+      try {
+        return decryptEnvelope(envelope, key);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
   } catch (error) {
     throw new Error(
       `Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -90,6 +131,19 @@ export function decrypt(envelopeStr: string, masterKey: string): string {
   }
 }
 
+/**
+ * Returns true if an envelope was not produced by the given master key with the
+ * current envelope format, i.e. it should be re-encrypted during key rotation
+ */
+export function needsReencryption(envelopeStr: string, masterKey: string): boolean {
+  try {
+    const envelope: EncryptedEnvelope = JSON.parse(envelopeStr);
+    return envelope.version !== ENVELOPE_VERSION || envelope.keyId !== getKeyId(masterKey);
+  } catch {
+    return true;
+  }
+}
+
 /**
  * Validates that a master key is properly formatted
  */
@@ -102,6 +156,16 @@ export function validateMasterKey(masterKey: string): boolean {
   }
 }
 
+/**
+ * Parses a comma-separated list of master keys (e.g. KOMETA_STUDIO_PREVIOUS_MASTER_KEYS)
+ */
+export function parseMasterKeyList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0);
+}
+
 /**
  * Generates a new master key
  */
@@ -0,0 +1,47 @@
+/**
+ * Master key rotation CLI
+ *
+ * Re-encrypts every profile with KOMETA_STUDIO_MASTER_KEY. Profiles encrypted
+ * with an older key are decrypted using KOMETA_STUDIO_PREVIOUS_MASTER_KEYS.
+ *
+ * Usage:
+ *   1. Generate a new key and set it as KOMETA_STUDIO_MASTER_KEY
+ *   2. Move the old key to KOMETA_STUDIO_PREVIOUS_MASTER_KEYS
+ *   3. pnpm --filter @kometa-studio/server rotate-key
+ *   4. Remove the old key from KOMETA_STUDIO_PREVIOUS_MASTER_KEYS
+ */
+import dotenv from 'dotenv';
+import { initDatabase, closeDatabase } from '../db/database.js';
+import { ProfileRepository } from '../db/profile.repository.js';
+import { validateMasterKey, parseMasterKeyList } from './encryption.js';
+
+dotenv.config();
+
+const DATABASE_PATH = process.env.DATABASE_PATH || './data/kometa-studio.db';
+const MASTER_KEY = process.env.KOMETA_STUDIO_MASTER_KEY;
+const PREVIOUS_MASTER_KEYS = parseMasterKeyList(process.env.KOMETA_STUDIO_PREVIOUS_MASTER_KEYS);
+
+try {
+  if (!MASTER_KEY || !validateMasterKey(MASTER_KEY)) {
+    throw new Error('KOMETA_STUDIO_MASTER_KEY must be a valid 32-byte base64-encoded key');
+  }
+  if (!PREVIOUS_MASTER_KEYS.every(validateMasterKey)) {
+    throw new Error(
+      'KOMETA_STUDIO_PREVIOUS_MASTER_KEYS must be a comma-separated list of 32-byte base64-encoded keys'
+    );
+  }
+
+  initDatabase(DATABASE_PATH);
+  const profileRepo = new ProfileRepository(MASTER_KEY, PREVIOUS_MASTER_KEYS);
+
+  const rotated = profileRepo.rotateKey();
+  const { total } = profileRepo.verifyEncryption();
+
+  console.log(`Database: ${DATABASE_PATH}`);
+  console.log(`Re-encrypted ${rotated} of ${total} profiles with the current master key`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  closeDatabase();
+}
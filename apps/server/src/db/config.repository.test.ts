@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { diffKometaConfigs, type KometaConfig } from '@kometa-studio/shared';
+import { initDatabase, closeDatabase } from './database';
+import { ConfigRepository } from './config.repository';
+
+describe('ConfigRepository inheritance', () => {
+  let repo: ConfigRepository;
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+    repo = new ConfigRepository();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  function createConfig(name: string, config: KometaConfig, parentId?: string) {
+    return repo.create({
+      id: randomUUID(),
+      name,
+      config: repo.overridesFor(parentId, config),
+      parentId,
+    });
+  }
+
+  it('should store only the overrides of a child config', () => {
+    const base = createConfig('Base', {
+      settings: { cache: true, run_order: ['operations'] },
+      libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+    });
+    const child = createConfig(
+      'Child',
+      {
+        settings: { cache: false, run_order: ['operations'] },
+        libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+      },
+      base.id
+    );
+
+    expect(repo.findById(child.id)?.config).toEqual({ settings: { cache: false } });
+    expect(repo.findResolved(child.id)).toMatchObject({
+      parentId: base.id,
+      config: {
+        settings: { cache: false, run_order: ['operations'] },
+        libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+      },
+      overrides: { settings: { cache: false } },
+    });
+  });
+
+  it('should pick up edits to a parent when resolving', () => {
+    const base = createConfig('Base', { settings: { cache: true } });
+    const child = createConfig('Child', { settings: { cache: true, sync_mode: 'sync' } }, base.id);
+
+    repo.update(base.id, { config: { settings: { cache: false } } });
+
+    expect(repo.findAllResolved().find((record) => record.id === child.id)?.config).toEqual({
+      settings: { cache: false, sync_mode: 'sync' },
+    });
+  });
+
+  it('should reject edits that leave out inherited values', () => {
+    const base = createConfig('Base', {
+      settings: { cache: true },
+      libraries: { Movies: {}, 'TV Shows': {} },
+    });
+
+    expect(() =>
+      repo.editedOverridesFor(base.id, { settings: { cache: false }, libraries: { Movies: {} } })
+    ).toThrow('Inherited values cannot be removed: libraries.TV Shows');
+    expect(
+      repo.editedOverridesFor(base.id, {
+        settings: { cache: false },
+        libraries: { Movies: {}, 'TV Shows': {} },
+      })
+    ).toEqual({ settings: { cache: false } });
+    expect(repo.editedOverridesFor(undefined, {})).toEqual({});
+  });
+
+  it('should reject parents that would close a cycle', () => {
+    const base = createConfig('Base', {});
+    const child = createConfig('Child', {}, base.id);
+
+    expect(() => repo.checkParent(base.id, child.id)).toThrow(
+      'Inheritance cycle: "Base" -> "Child" -> "Base"'
+    );
+    expect(() => repo.checkParent(base.id, base.id)).toThrow('Inheritance cycle');
+    expect(() => repo.checkParent(child.id, randomUUID())).toThrow('does not exist');
+    expect(repo.findChildren(base.id).map((record) => record.name)).toEqual(['Child']);
+  });
+
+  it('should still list configs whose parent is missing', () => {
+    const base = createConfig('Base', { settings: { cache: true } });
+    const child = createConfig('Child', { settings: { cache: false } }, base.id);
+    const other = createConfig('Other', { settings: { cache: true } });
+    repo.delete(base.id);
+
+    const listed = repo.findAllResolved();
+
+    expect(listed.find((record) => record.id === other.id)?.inheritanceError).toBeUndefined();
+    expect(listed.find((record) => record.id === child.id)).toMatchObject({
+      config: { settings: { cache: false } },
+      overrides: { settings: { cache: false } },
+      inheritanceError: expect.stringContaining('does not exist'),
+    });
+  });
+
+  it('should restore a child revision as it was resolved at the time', () => {
+    const base = createConfig('Base', { settings: { cache: true, sync_mode: 'append' } });
+    const child = createConfig(
+      'Child',
+      { settings: { cache: false, sync_mode: 'append' } },
+      base.id
+    );
+    repo.update(base.id, { config: { settings: { cache: false, sync_mode: 'sync' } } });
+
+    expect(repo.findRevision(child.id, 1)).toMatchObject({
+      config: { settings: { cache: false, sync_mode: 'append' } },
+      overrides: { settings: { cache: false } },
+      parentId: base.id,
+    });
+
+    repo.restoreRevision(child.id, 1);
+
+    expect(repo.findResolved(child.id)).toMatchObject({
+      parentId: base.id,
+      config: { settings: { cache: false, sync_mode: 'append' } },
+      overrides: { settings: { sync_mode: 'append' } },
+    });
+  });
+
+  it('should detach a restored revision whose parent is gone', () => {
+    const base = createConfig('Base', { settings: { cache: true } });
+    const child = createConfig('Child', { settings: { cache: false, sync_mode: 'sync' } }, base.id);
+    repo.delete(base.id);
+
+    repo.restoreRevision(child.id, 1);
+
+    expect(repo.findResolved(child.id)).toMatchObject({
+      parentId: undefined,
+      config: { settings: { cache: false, sync_mode: 'sync' } },
+    });
+  });
+});
+
+describe('ConfigRepository revisions', () => {
+  let repo: ConfigRepository;
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+    repo = new ConfigRepository();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  function createConfig(name: string, config: KometaConfig) {
+    return repo.create({ id: randomUUID(), name, config });
+  }
+
+  it('should record every update as a new immutable revision', () => {
+    const config = createConfig('Main', { settings: { cache: true } });
+
+    repo.update(config.id, { config: { settings: { cache: false } } }, 'Disable cache');
+
+    expect(repo.findRevision(config.id, 1)).toMatchObject({
+      note: 'Initial version',
+      config: { settings: { cache: true } },
+    });
+    expect(repo.findRevision(config.id, 2)).toMatchObject({
+      note: 'Disable cache',
+      config: { settings: { cache: false } },
+    });
+    expect(repo.findRevision(config.id, 3)).toBeNull();
+  });
+
+  it('should number revisions per config and list them newest first', () => {
+    const first = createConfig('First', {});
+    const second = createConfig('Second', {});
+    repo.update(first.id, { name: 'First renamed' }, 'Rename');
+    repo.update(first.id, { description: 'Described' }, 'Describe');
+    repo.update(second.id, { name: 'Second renamed' }, 'Rename');
+
+    expect(repo.findRevisions(first.id).map(({ revision, name }) => [revision, name])).toEqual([
+      [3, 'First renamed'],
+      [2, 'First renamed'],
+      [1, 'First'],
+    ]);
+    expect(repo.findRevisions(second.id).map((revision) => revision.revision)).toEqual([2, 1]);
+  });
+
+  it('should fold autosaves in quick succession into one revision', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+      const config = createConfig('Main', {});
+      repo.update(config.id, { config: { settings: { asset_directory: 'c' } } });
+      vi.setSystemTime(new Date('2026-01-01T10:00:01Z'));
+      repo.update(config.id, { config: { settings: { asset_directory: 'config' } } });
+
+      expect(repo.findRevisions(config.id).map((revision) => revision.revision)).toEqual([2, 1]);
+      expect(repo.findRevision(config.id, 2)?.config).toEqual({
+        settings: { asset_directory: 'config' },
+      });
+
+      // Updates with a note and autosaves after a pause start a new revision
+      repo.update(config.id, { name: 'Renamed' }, 'Rename');
+      repo.update(config.id, { description: 'Autosaved' });
+      vi.setSystemTime(new Date('2026-01-01T10:10:00Z'));
+      repo.update(config.id, { description: 'Autosaved later' });
+
+      expect(repo.findRevisions(config.id).map(({ revision, note }) => [revision, note])).toEqual([
+        [5, null],
+        [4, null],
+        [3, 'Rename'],
+        [2, null],
+        [1, 'Initial version'],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should diff the configs of two revisions', () => {
+    const config = createConfig('Main', { settings: { cache: true } });
+    repo.update(config.id, { config: { settings: { cache: false, sync_mode: 'sync' } } });
+
+    const changes = diffKometaConfigs(
+      repo.findRevision(config.id, 1)!.config,
+      repo.findRevision(config.id, 2)!.config
+    );
+
+    expect(changes).toEqual([
+      { kind: 'changed', path: ['settings', 'cache'], before: true, after: false },
+      { kind: 'added', path: ['settings', 'sync_mode'], after: 'sync' },
+    ]);
+  });
+
+  it('should restore a revision by appending a new one', () => {
+    const config = createConfig('Main', { settings: { cache: true } });
+    repo.update(config.id, { config: { settings: { cache: false } } });
+
+    repo.restoreRevision(config.id, 1);
+
+    expect(repo.findById(config.id)?.config).toEqual({ settings: { cache: true } });
+    expect(repo.findRevisions(config.id).map(({ revision, note }) => [revision, note])).toEqual([
+      [3, 'Restored from revision 1'],
+      [2, null],
+      [1, 'Initial version'],
+    ]);
+    expect(repo.findRevision(config.id, 2)?.config).toEqual({ settings: { cache: false } });
+    expect(repo.restoreRevision(config.id, 9)).toBeNull();
+  });
+});
@@ -1,22 +1,65 @@
 import { getDatabase } from './database.js';
-import type { KometaConfig } from '@kometa-studio/shared';
+import {
+  ConfigInheritanceError,
+  overridePatch,
+  removedPaths,
+  resolveConfigChain,
+  resolveInheritanceChain,
+  type KometaConfig,
+  type RuleSettings,
+} from '@kometa-studio/shared';
 
 export interface ConfigRecord {
   id: string;
   name: string;
   description?: string;
   config: KometaConfig;
+  /** Imported config.yml with secrets blanked, patched when generating YAML */
+  sourceYaml?: string;
+  /** Lint rules this config disables or reports at a different severity */
+  ruleSettings?: RuleSettings;
+  /** Config this one inherits from; `config` then only holds the overrides */
+  parentId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ResolvedConfigRecord extends ConfigRecord {
+  /** What the config stores itself, when it inherits from a parent */
+  overrides?: KometaConfig;
+  /** Why the config's parents could not be resolved, in lists that still include it */
+  inheritanceError?: string;
+}
+
+export interface ConfigRevisionRecord {
+  configId: string;
+  revision: number;
+  name: string;
+  description?: string;
+  /** The config as it was resolved at the time, with everything it inherited */
+  config: KometaConfig;
+  /** What the config stored itself, when it inherited from a parent */
+  overrides?: KometaConfig;
+  /** Config it inherited from at the time */
+  parentId?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export type ConfigRevisionSummary = Omit<ConfigRevisionRecord, 'config' | 'overrides'>;
+
+// Updates without a note, such as editor autosaves, that follow each other more
+// closely than this are folded into a single revision
+const AUTOSAVE_WINDOW_MS = 5 * 60 * 1000;
+
 export class ConfigRepository {
   findAll(): ConfigRecord[] {
     const db = getDatabase();
     const rows = db
       .prepare(
         `
-      SELECT id, name, description, config, created_at, updated_at
+      SELECT id, name, description, config, source_yaml, rule_settings, parent_id, created_at,
+        updated_at
       FROM configs
       ORDER BY updated_at DESC
     `
@@ -28,6 +71,9 @@ export class ConfigRepository {
       name: row.name,
       description: row.description,
       config: JSON.parse(row.config),
+      sourceYaml: row.source_yaml ?? undefined,
+      ruleSettings: row.rule_settings ? JSON.parse(row.rule_settings) : undefined,
+      parentId: row.parent_id ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     }));
@@ -38,7 +84,8 @@ export class ConfigRepository {
     const row: any = db
       .prepare(
         `
-      SELECT id, name, description, config, created_at, updated_at
+      SELECT id, name, description, config, source_yaml, rule_settings, parent_id, created_at,
+        updated_at
       FROM configs
       WHERE id = ?
     `
@@ -52,6 +99,9 @@ export class ConfigRepository {
       name: row.name,
       description: row.description,
       config: JSON.parse(row.config),
+      sourceYaml: row.source_yaml ?? undefined,
+      ruleSettings: row.rule_settings ? JSON.parse(row.rule_settings) : undefined,
+      parentId: row.parent_id ?? undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -61,30 +111,52 @@ export class ConfigRepository {
     const db = getDatabase();
     const now = new Date().toISOString();
 
-    db.prepare(
-      `
-      INSERT INTO configs (id, name, description, config, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `
-    ).run(
-      config.id,
-      config.name,
-      config.description || null,
-      JSON.stringify(config.config),
-      now,
-      now
-    );
-
-    return {
+    const record: ConfigRecord = {
       ...config,
       createdAt: now,
       updatedAt: now,
     };
+
+    db.transaction(() => {
+      db.prepare(
+        `
+        INSERT INTO configs (
+          id, name, description, config, source_yaml, rule_settings, parent_id, created_at,
+          updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+      ).run(
+        config.id,
+        config.name,
+        config.description || null,
+        JSON.stringify(config.config),
+        config.sourceYaml ?? null,
+        config.ruleSettings ? JSON.stringify(config.ruleSettings) : null,
+        config.parentId ?? null,
+        now,
+        now
+      );
+
+      this.insertRevision(record, 'Initial version');
+    })();
+
+    return record;
   }
 
+  /**
+   * Updates a config and records the resulting state as a new immutable revision.
+   * Updates without a note replace the latest revision instead while it is a
+   * note-less one written less than AUTOSAVE_WINDOW_MS ago, so typing into the
+   * editor does not record every keystroke.
+   */
   update(
     id: string,
-    updates: Partial<Omit<ConfigRecord, 'id' | 'createdAt' | 'updatedAt'>>
+    updates: Partial<Omit<ConfigRecord, 'id' | 'createdAt' | 'updatedAt' | 'parentId'>> & {
+      /** null detaches the config from its parent */
+      parentId?: string | null;
+    },
+    note?: string
   ): ConfigRecord | null {
     const existing = this.findById(id);
     if (!existing) return null;
@@ -96,23 +168,149 @@ export class ConfigRepository {
     const description =
       updates.description !== undefined ? updates.description : existing.description;
     const config = updates.config ?? existing.config;
+    const sourceYaml = updates.sourceYaml ?? existing.sourceYaml;
+    const ruleSettings = updates.ruleSettings ?? existing.ruleSettings;
+    const parentId =
+      updates.parentId !== undefined ? (updates.parentId ?? undefined) : existing.parentId;
 
-    db.prepare(
-      `
-      UPDATE configs
-      SET name = ?, description = ?, config = ?, updated_at = ?
-      WHERE id = ?
-    `
-    ).run(name, description || null, JSON.stringify(config), now, id);
-
-    return {
+    const record: ConfigRecord = {
       id,
       name,
       description,
       config,
+      sourceYaml,
+      ruleSettings,
+      parentId,
       createdAt: existing.createdAt,
       updatedAt: now,
     };
+
+    db.transaction(() => {
+      // Configs created before revision history existed get their current state
+      // recorded first, so the first tracked update can still be undone
+      if (this.latestRevision(id) === 0) {
+        this.insertRevision(existing, 'Baseline');
+      }
+
+      db.prepare(
+        `
+        UPDATE configs
+        SET name = ?, description = ?, config = ?, source_yaml = ?, rule_settings = ?,
+          parent_id = ?, updated_at = ?
+        WHERE id = ?
+      `
+      ).run(
+        name,
+        description || null,
+        JSON.stringify(config),
+        sourceYaml ?? null,
+        ruleSettings ? JSON.stringify(ruleSettings) : null,
+        parentId ?? null,
+        now,
+        id
+      );
+
+      this.insertRevision(record, note, note ? undefined : this.openAutosave(id, now));
+    })();
+
+    return record;
+  }
+
+  /**
+   * Configs that inherit directly from the given one
+   */
+  findChildren(id: string): ConfigRecord[] {
+    return this.findAll().filter((record) => record.parentId === id);
+  }
+
+  /**
+   * Returns the configs a config inherits from, root first, ending with the
+   * config itself. Throws a ConfigInheritanceError for cycles and missing parents.
+   */
+  findChain(id: string): ConfigRecord[] {
+    return resolveInheritanceChain(id, (configId) => this.findById(configId));
+  }
+
+  /**
+   * Returns a config with everything it inherits applied
+   */
+  resolveConfig(record: ConfigRecord): KometaConfig {
+    if (!record.parentId) return record.config;
+    return resolveConfigChain(this.findChain(record.id).map((config) => config.config));
+  }
+
+  /**
+   * Finds a config with everything it inherits applied. Configs with a parent
+   * also carry the overrides they store.
+   */
+  findResolved(id: string): ResolvedConfigRecord | null {
+    const record = this.findById(id);
+    if (!record?.parentId) return record;
+    return { ...record, config: this.resolveConfig(record), overrides: record.config };
+  }
+
+  /**
+   * Lists every config like findResolved does, reading the table only once.
+   * A config whose parents cannot be resolved is listed with only its own
+   * values and the reason, so it does not take the whole list down.
+   */
+  findAllResolved(): ResolvedConfigRecord[] {
+    const records = this.findAll();
+    const byId = new Map(records.map((record) => [record.id, record]));
+    return records.map((record) => {
+      if (!record.parentId) return record;
+      try {
+        const chain = resolveInheritanceChain(record.id, (id) => byId.get(id));
+        return {
+          ...record,
+          config: resolveConfigChain(chain.map((config) => config.config)),
+          overrides: record.config,
+        };
+      } catch (error) {
+        if (!(error instanceof ConfigInheritanceError)) throw error;
+        return { ...record, overrides: record.config, inheritanceError: error.message };
+      }
+    });
+  }
+
+  /**
+   * Returns what a config inheriting from the given parent stores to end up
+   * as the given config: only the values that differ from the parent
+   */
+  overridesFor(parentId: string | undefined, config: KometaConfig): KometaConfig {
+    if (!parentId) return config;
+    const parent = this.findById(parentId);
+    if (!parent) throw new ConfigInheritanceError(`Parent config ${parentId} does not exist`);
+    return overridePatch(this.resolveConfig(parent), config);
+  }
+
+  /**
+   * Like overridesFor, for a config edited by hand. Leaving out an inherited
+   * value would not remove it, so instead of dropping the edit this throws a
+   * ConfigInheritanceError naming the values that cannot be removed.
+   */
+  editedOverridesFor(parentId: string | undefined, config: KometaConfig): KometaConfig {
+    const overrides = this.overridesFor(parentId, config);
+    if (!parentId) return overrides;
+
+    const removed = removedPaths(this.resolveConfig(this.findById(parentId)!), config);
+    if (removed.length > 0) {
+      throw new ConfigInheritanceError(
+        `Inherited values cannot be removed: ${removed.map((path) => path.join('.')).join(', ')}. Override them or detach the config from its parent`
+      );
+    }
+    return overrides;
+  }
+
+  /**
+   * Throws a ConfigInheritanceError when a config cannot inherit from the
+   * given parent, because it is missing or would close a cycle
+   */
+  checkParent(id: string, parentId: string): void {
+    resolveInheritanceChain(id, (configId) => {
+      const record = this.findById(configId);
+      return configId === id && record ? { ...record, parentId } : record;
+    });
   }
 
   delete(id: string): boolean {
@@ -120,4 +318,178 @@ export class ConfigRepository {
     const result = db.prepare(`DELETE FROM configs WHERE id = ?`).run(id);
     return result.changes > 0;
   }
+
+  findRevisions(configId: string): ConfigRevisionSummary[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare(
+        `
+      SELECT config_id, revision, name, description, parent_id, note, created_at
+      FROM config_revisions
+      WHERE config_id = ?
+      ORDER BY revision DESC
+    `
+      )
+      .all(configId);
+
+    return rows.map((row: any) => ({
+      configId: row.config_id,
+      revision: row.revision,
+      name: row.name,
+      description: row.description,
+      parentId: row.parent_id ?? undefined,
+      note: row.note,
+      createdAt: row.created_at,
+    }));
+  }
+
+  findRevision(configId: string, revision: number): ConfigRevisionRecord | null {
+    const db = getDatabase();
+    const row: any = db
+      .prepare(
+        `
+      SELECT config_id, revision, name, description, config, parent_id, resolved_config, note,
+        created_at
+      FROM config_revisions
+      WHERE config_id = ? AND revision = ?
+    `
+      )
+      .get(configId, revision);
+
+    if (!row) return null;
+
+    const stored: KometaConfig = JSON.parse(row.config);
+    const snapshot = {
+      configId: row.config_id,
+      revision: row.revision,
+      name: row.name,
+      description: row.description,
+      note: row.note,
+      createdAt: row.created_at,
+    };
+    if (row.resolved_config) {
+      const parentId = row.parent_id ?? undefined;
+      return {
+        ...snapshot,
+        config: JSON.parse(row.resolved_config),
+        ...(parentId && { overrides: stored, parentId }),
+      };
+    }
+
+    // Revisions recorded without a resolved config are resolved against the current parents
+    const current = this.findById(configId);
+    if (!current?.parentId) return { ...snapshot, config: stored };
+    try {
+      const parents = this.findChain(current.parentId).map((record) => record.config);
+      return {
+        ...snapshot,
+        config: resolveConfigChain([...parents, stored]),
+        overrides: stored,
+        parentId: current.parentId,
+      };
+    } catch (error) {
+      if (!(error instanceof ConfigInheritanceError)) throw error;
+      return { ...snapshot, config: stored };
+    }
+  }
+
+  /**
+   * Restores the config of a revision as it was resolved at the time. A config
+   * that inherited gets its parent back, with its overrides worked out against
+   * that parent as it is now; when the parent is gone, the config is detached
+   * and stores the whole snapshot. The restore itself is recorded as a new
+   * revision, so history is never rewritten.
+   */
+  restoreRevision(configId: string, revision: number, note?: string): ConfigRecord | null {
+    const snapshot = this.findRevision(configId, revision);
+    if (!snapshot) return null;
+
+    let parentId = snapshot.parentId;
+    if (parentId) {
+      try {
+        this.checkParent(configId, parentId);
+      } catch (error) {
+        if (!(error instanceof ConfigInheritanceError)) throw error;
+        parentId = undefined;
+      }
+    }
+
+    return this.update(
+      configId,
+      { config: this.overridesFor(parentId, snapshot.config), parentId: parentId ?? null },
+      note || `Restored from revision ${revision}`
+    );
+  }
+
+  private latestRevision(configId: string): number {
+    const db = getDatabase();
+    const row = db
+      .prepare(`SELECT MAX(revision) AS latest FROM config_revisions WHERE config_id = ?`)
+      .get(configId) as { latest: number | null };
+    return row.latest ?? 0;
+  }
+
+  /**
+   * The latest revision of a config when later autosaves can still be folded into it
+   */
+  private openAutosave(configId: string, now: string): number | undefined {
+    const db = getDatabase();
+    const row = db
+      .prepare(
+        `
+      SELECT revision, note, created_at
+      FROM config_revisions
+      WHERE config_id = ?
+      ORDER BY revision DESC
+      LIMIT 1
+    `
+      )
+      .get(configId) as { revision: number; note: string | null; created_at: string } | undefined;
+
+    if (!row || row.note) return undefined;
+    return Date.parse(now) - Date.parse(row.created_at) < AUTOSAVE_WINDOW_MS
+      ? row.revision
+      : undefined;
+  }
+
+  /**
+   * Records a config as a revision. It must already be stored as given, since
+   * the resolved config is read through its stored parents. When those cannot
+   * be resolved, such as a child restored from a backup before its parent, the
+   * revision is resolved when it is read instead. Writing an existing revision
+   * number replaces that revision.
+   */
+  private insertRevision(
+    record: ConfigRecord,
+    note?: string,
+    revision = this.latestRevision(record.id) + 1
+  ): void {
+    let resolved: KometaConfig | undefined;
+    try {
+      resolved = this.resolveConfig(record);
+    } catch (error) {
+      if (!(error instanceof ConfigInheritanceError)) throw error;
+    }
+
+    const db = getDatabase();
+    db.prepare(
+      `
+      INSERT OR REPLACE INTO config_revisions (
+        config_id, revision, name, description, config, parent_id, resolved_config, note,
+        created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      record.id,
+      revision,
+      record.name,
+      record.description || null,
+      JSON.stringify(record.config),
+      record.parentId ?? null,
+      resolved ? JSON.stringify(resolved) : null,
+      note || null,
+      record.updatedAt
+    );
+  }
 }
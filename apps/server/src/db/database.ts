@@ -1,10 +1,19 @@
 import Database from 'better-sqlite3';
 import { existsSync, mkdirSync } from 'node:fs';
 import { dirname } from 'node:path';
+import { runMigrations, type MigrationReport } from './migrations.js';
+import { logger } from '../utils/logger.js';
 
 let db: Database.Database | null = null;
 
-export function initDatabase(dbPath: string): Database.Database {
+export interface InitDatabaseOptions {
+  /** Apply pending migrations on startup (default: true) */
+  migrate?: boolean;
+}
+
+export function initDatabase(dbPath: string, options: InitDatabaseOptions = {}): Database.Database {
+  const { migrate = true } = options;
+
   // Ensure directory exists
   const dir = dirname(dbPath);
   if (!existsSync(dir)) {
@@ -15,7 +24,9 @@ export function initDatabase(dbPath: string): Database.Database {
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
 
-  createTables();
+  if (migrate) {
+    logMigrationReport(runMigrations(db));
+  }
 
   return db;
 }
@@ -34,49 +45,21 @@ export function closeDatabase(): void {
   }
 }
 
-function createTables(): void {
-  if (!db) return;
-
-  // Configs table - stores Kometa configurations without secrets
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS configs (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      config TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    )
-  `);
-
-  // Profiles table - stores secrets (encrypted)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS profiles (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      secrets_encrypted TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL
-    )
-  `);
-
-  // Create indexes
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_configs_name ON configs(name);
-    CREATE INDEX IF NOT EXISTS idx_configs_updated_at ON configs(updated_at);
-    CREATE INDEX IF NOT EXISTS idx_profiles_name ON profiles(name);
-    CREATE INDEX IF NOT EXISTS idx_profiles_updated_at ON profiles(updated_at);
-  `);
+function logMigrationReport(report: MigrationReport): void {
+  for (const migration of report.applied) {
+    logger.info('Applied database migration', { ...migration });
+  }
 }
 
 export function resetDatabase(): void {
   if (!db) return;
 
   db.exec(`
+    DROP TABLE IF EXISTS config_revisions;
     DROP TABLE IF EXISTS configs;
     DROP TABLE IF EXISTS profiles;
+    DROP TABLE IF EXISTS schema_migrations;
   `);
 
-  createTables();
+  logMigrationReport(runMigrations(db));
 }
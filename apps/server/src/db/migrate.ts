@@ -0,0 +1,42 @@
+/**
+ * Database migration CLI
+ *
+ * Usage:
+ *   pnpm --filter @kometa-studio/server migrate            # apply pending migrations
+ *   pnpm --filter @kometa-studio/server migrate --dry-run  # only report pending migrations
+ */
+import dotenv from 'dotenv';
+import { initDatabase, closeDatabase } from './database.js';
+import { runMigrations } from './migrations.js';
+
+dotenv.config();
+
+const DATABASE_PATH = process.env.DATABASE_PATH || './data/kometa-studio.db';
+const dryRun = process.argv.includes('--dry-run');
+
+try {
+  const db = initDatabase(DATABASE_PATH, { migrate: false });
+  const report = runMigrations(db, { dryRun });
+
+  console.log(`Database: ${DATABASE_PATH}`);
+  console.log(`Schema version: ${report.currentVersion} (latest: ${report.targetVersion})`);
+
+  if (report.dryRun) {
+    if (report.pending.length === 0) {
+      console.log('No pending migrations');
+    } else {
+      console.log('Pending migrations:');
+      report.pending.forEach((m) => console.log(`  ${m.version} ${m.name}`));
+    }
+  } else if (report.applied.length === 0) {
+    console.log('Database is up to date');
+  } else {
+    console.log('Applied migrations:');
+    report.applied.forEach((m) => console.log(`  ${m.version} ${m.name}`));
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  closeDatabase();
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations, getSchemaVersion, migrations, type Migration } from './migrations';
+
+function tableNames(db: Database.Database): string[] {
+  return (
+    db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as Array<{
+      name: string;
+    }>
+  ).map((row) => row.name);
+}
+
+describe('Database Migrations', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should apply all migrations to a fresh database', () => {
+    const report = runMigrations(db);
+
+    expect(report.currentVersion).toBe(0);
+    expect(report.applied).toHaveLength(migrations.length);
+    expect(getSchemaVersion(db)).toBe(migrations[migrations.length - 1].version);
+    expect(tableNames(db)).toEqual(
+      expect.arrayContaining(['configs', 'profiles', 'config_revisions', 'schema_migrations'])
+    );
+  });
+
+  it('should be a no-op when the database is up to date', () => {
+    runMigrations(db);
+    const report = runMigrations(db);
+
+    expect(report.pending).toHaveLength(0);
+    expect(report.applied).toHaveLength(0);
+  });
+
+  it('should adopt a database created before migrations were tracked', () => {
+    db.exec(`
+      CREATE TABLE configs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        config TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    db.prepare(`INSERT INTO configs VALUES ('a', 'Existing', NULL, '{}', 'now', 'now')`).run();
+
+    runMigrations(db);
+
+    const row = db.prepare(`SELECT name FROM configs WHERE id = 'a'`).get() as { name: string };
+    expect(row.name).toBe('Existing');
+  });
+
+  it('should only report pending migrations in dry-run mode', () => {
+    const report = runMigrations(db, { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.pending).toHaveLength(migrations.length);
+    expect(report.applied).toHaveLength(0);
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(tableNames(db)).not.toContain('configs');
+  });
+
+  it('should apply migrations in version order', () => {
+    const order: number[] = [];
+    const list: Migration[] = [
+      { version: 2, name: 'second', up: () => order.push(2) },
+      { version: 1, name: 'first', up: () => order.push(1) },
+    ];
+
+    runMigrations(db, {}, list);
+
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('should roll back every pending migration when one fails', () => {
+    const list: Migration[] = [
+      { version: 1, name: 'create_a', up: (d) => d.exec(`CREATE TABLE a (id TEXT)`) },
+      {
+        version: 2,
+        name: 'broken',
+        up: () => {
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, {}, list)).toThrow('Migration 2 (broken) failed: boom');
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(tableNames(db)).not.toContain('a');
+  });
+
+  it('should reject duplicate migration versions', () => {
+    const list: Migration[] = [
+      { version: 1, name: 'one', up: () => {} },
+      { version: 1, name: 'again', up: () => {} },
+    ];
+
+    expect(() => runMigrations(db, {}, list)).toThrow('Duplicate migration version: 1');
+  });
+});
@@ -0,0 +1,197 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  /** Strictly increasing schema version this migration upgrades to */
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationReport {
+  currentVersion: number;
+  targetVersion: number;
+  pending: Array<Pick<Migration, 'version' | 'name'>>;
+  applied: Array<Pick<Migration, 'version' | 'name'>>;
+  dryRun: boolean;
+}
+
+/**
+ * Ordered list of schema migrations.
+ *
+ * Never edit a migration that has shipped - add a new one instead. The first
+ * migrations use IF NOT EXISTS so databases created before migrations were
+ * tracked are adopted without changes.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      // Configs table - stores Kometa configurations without secrets
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS configs (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          config TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      // Profiles table - stores secrets (encrypted)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS profiles (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          secrets_encrypted TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_configs_name ON configs(name);
+        CREATE INDEX IF NOT EXISTS idx_configs_updated_at ON configs(updated_at);
+        CREATE INDEX IF NOT EXISTS idx_profiles_name ON profiles(name);
+        CREATE INDEX IF NOT EXISTS idx_profiles_updated_at ON profiles(updated_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'config_revisions',
+    up: (db) => {
+      // Config revisions table - immutable snapshots written on every config update
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS config_revisions (
+          config_id TEXT NOT NULL REFERENCES configs(id) ON DELETE CASCADE,
+          revision INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          config TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (config_id, revision)
+        )
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'config_source_yaml',
+    up: (db) => {
+      // Imported config.yml (secrets blanked), patched on export to keep comments and key order
+      db.exec(`ALTER TABLE configs ADD COLUMN source_yaml TEXT`);
+    },
+  },
+  {
+    version: 4,
+    name: 'config_rule_settings',
+    up: (db) => {
+      // Per-config lint rule levels as JSON, null when every rule uses its default severity
+      db.exec(`ALTER TABLE configs ADD COLUMN rule_settings TEXT`);
+    },
+  },
+  {
+    version: 5,
+    name: 'config_parent',
+    up: (db) => {
+      // Config this one inherits from; its config column then only holds overrides
+      db.exec(`ALTER TABLE configs ADD COLUMN parent_id TEXT`);
+    },
+  },
+  {
+    version: 6,
+    name: 'config_revision_parent',
+    up: (db) => {
+      // Parent and resolved config of each revision, so restoring a child config does not
+      // apply its old overrides to a parent that has changed since. Null in older revisions,
+      // which are resolved against the config's current parents instead.
+      db.exec(`ALTER TABLE config_revisions ADD COLUMN parent_id TEXT`);
+      db.exec(`ALTER TABLE config_revisions ADD COLUMN resolved_config TEXT`);
+    },
+  },
+];
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+/**
+ * Returns the highest applied schema version (0 for a fresh database)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db.prepare(`SELECT MAX(version) AS version FROM schema_migrations`).get() as {
+    version: number | null;
+  };
+  return row.version ?? 0;
+}
+
+/**
+ * Applies all pending migrations in order.
+ *
+ * Pending migrations run inside a single transaction: if any of them throws,
+ * every change made by this run is rolled back and the database stays at its
+ * previous version. With `dryRun` nothing is applied and the report only lists
+ * what would run.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: { dryRun?: boolean } = {},
+  list: Migration[] = migrations
+): MigrationReport {
+  const { dryRun = false } = options;
+
+  const sorted = [...list].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version: ${sorted[i].version}`);
+    }
+  }
+
+  const currentVersion = getSchemaVersion(db);
+  const pending = sorted.filter((migration) => migration.version > currentVersion);
+  const report: MigrationReport = {
+    currentVersion,
+    targetVersion: sorted.length > 0 ? sorted[sorted.length - 1].version : currentVersion,
+    pending: pending.map(({ version, name }) => ({ version, name })),
+    applied: [],
+    dryRun,
+  };
+
+  if (dryRun || pending.length === 0) {
+    return report;
+  }
+
+  const record = db.prepare(
+    `INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`
+  );
+
+  db.transaction(() => {
+    for (const migration of pending) {
+      try {
+        migration.up(db);
+      } catch (error) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+      record.run(migration.version, migration.name, new Date().toISOString());
+    }
+  })();
+
+  report.applied = report.pending;
+  report.pending = [];
+  return report;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import { initDatabase, closeDatabase } from './database';
+import { ProfileRepository } from './profile.repository';
+import { generateMasterKey, getKeyId } from '../crypto/encryption';
+
+describe('ProfileRepository key rotation', () => {
+  const oldKey = generateMasterKey();
+  const newKey = generateMasterKey();
+
+  beforeEach(() => {
+    initDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  function createProfile(repo: ProfileRepository) {
+    return repo.create({
+      id: randomUUID(),
+      name: 'Home',
+      secrets: { tmdb: { apikey: 'tmdb-key' } },
+    });
+  }
+
+  it('should read profiles encrypted with a previous key', () => {
+    const profile = createProfile(new ProfileRepository(oldKey));
+    const repo = new ProfileRepository(newKey, [oldKey]);
+
+    expect(repo.findById(profile.id)?.secrets.tmdb?.apikey).toBe('tmdb-key');
+    expect(repo.verifyEncryption()).toEqual({ total: 1, stale: 1, undecryptable: [] });
+  });
+
+  it('should re-encrypt every stale profile with the current key', () => {
+    const profile = createProfile(new ProfileRepository(oldKey));
+    const repo = new ProfileRepository(newKey, [oldKey]);
+
+    expect(repo.rotateKey()).toBe(1);
+    expect(repo.rotateKey()).toBe(0);
+
+    const [row] = repo.findAllEncrypted();
+    expect(JSON.parse(row.secretsEncrypted).keyId).toBe(getKeyId(newKey));
+    expect(new ProfileRepository(newKey).findById(profile.id)?.secrets.tmdb?.apikey).toBe(
+      'tmdb-key'
+    );
+  });
+
+  it('should report profiles that no key can decrypt', () => {
+    createProfile(new ProfileRepository(oldKey));
+    const repo = new ProfileRepository(newKey);
+
+    const status = repo.verifyEncryption();
+    expect(status.undecryptable).toHaveLength(1);
+    expect(status.undecryptable[0].name).toBe('Home');
+  });
+
+  it('should leave every row untouched when rotation fails', () => {
+    createProfile(new ProfileRepository(newKey, [oldKey]));
+    createProfile(new ProfileRepository(oldKey));
+    const before = new ProfileRepository(newKey).findAllEncrypted();
+
+    expect(() => new ProfileRepository(generateMasterKey(), [newKey]).rotateKey()).toThrow(
+      /could not be decrypted/
+    );
+    expect(new ProfileRepository(newKey).findAllEncrypted()).toEqual(before);
+  });
+});
@@ -1,6 +1,6 @@
 import { getDatabase } from './database.js';
 import type { ProfileSecrets } from '@kometa-studio/shared';
-import { encrypt, decrypt } from '../crypto/encryption.js';
+import { encrypt, decrypt, needsReencryption } from '../crypto/encryption.js';
 
 export interface ProfileRecord {
   id: string;
@@ -11,8 +11,32 @@ export interface ProfileRecord {
   updatedAt: string;
 }
 
+// Profile row with the secrets envelope left encrypted (used for backups)
+export interface EncryptedProfileRecord extends Omit<ProfileRecord, 'secrets'> {
+  secretsEncrypted: string;
+}
+
+export interface EncryptionStatus {
+  total: number;
+  /** Profiles encrypted with a previous key or an older envelope format */
+  stale: number;
+  /** Profiles that no key in the keyring can decrypt */
+  undecryptable: Array<{ id: string; name: string; error: string }>;
+}
+
 export class ProfileRepository {
-  constructor(private masterKey: string) {}
+  /**
+   * @param masterKey - Key used for all new encryption
+   * @param previousKeys - Retired keys that may still decrypt existing rows
+   */
+  constructor(
+    private masterKey: string,
+    private previousKeys: string[] = []
+  ) {}
+
+  private get keyring(): string[] {
+    return [this.masterKey, ...this.previousKeys];
+  }
 
   findAll(): Omit<ProfileRecord, 'secrets'>[] {
     const db = getDatabase();
@@ -49,7 +73,7 @@ export class ProfileRepository {
 
     if (!row) return null;
 
-    const secrets = JSON.parse(decrypt(row.secrets_encrypted, this.masterKey));
+    const secrets = JSON.parse(decrypt(row.secrets_encrypted, this.keyring));
 
     return {
       id: row.id,
@@ -121,4 +145,111 @@ export class ProfileRepository {
     const result = db.prepare(`DELETE FROM profiles WHERE id = ?`).run(id);
     return result.changes > 0;
   }
+
+  exists(id: string): boolean {
+    const db = getDatabase();
+    return !!db.prepare(`SELECT 1 FROM profiles WHERE id = ?`).get(id);
+  }
+
+  findAllEncrypted(): EncryptedProfileRecord[] {
+    const db = getDatabase();
+    const rows = db
+      .prepare(
+        `
+      SELECT id, name, description, secrets_encrypted, created_at, updated_at
+      FROM profiles
+      ORDER BY updated_at DESC
+    `
+      )
+      .all();
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      secretsEncrypted: row.secrets_encrypted,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * Inserts or replaces a profile whose secrets are already encrypted.
+   * Throws if the envelope cannot be decrypted with the current master key.
+   */
+  saveEncrypted(profile: EncryptedProfileRecord): void {
+    decrypt(profile.secretsEncrypted, this.keyring);
+
+    const db = getDatabase();
+    db.prepare(
+      `
+      INSERT OR REPLACE INTO profiles (id, name, description, secrets_encrypted, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      profile.id,
+      profile.name,
+      profile.description || null,
+      profile.secretsEncrypted,
+      profile.createdAt,
+      profile.updatedAt
+    );
+  }
+
+  /**
+   * Checks that every stored envelope can be decrypted with the keyring
+   */
+  verifyEncryption(): EncryptionStatus {
+    const status: EncryptionStatus = { total: 0, stale: 0, undecryptable: [] };
+
+    for (const profile of this.findAllEncrypted()) {
+      status.total++;
+      try {
+        decrypt(profile.secretsEncrypted, this.keyring);
+        if (needsReencryption(profile.secretsEncrypted, this.masterKey)) {
+          status.stale++;
+        }
+      } catch (error) {
+        status.undecryptable.push({
+          id: profile.id,
+          name: profile.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Re-encrypts every profile that is not yet encrypted with the current master
+   * key. Runs in a single transaction: if any row cannot be decrypted, nothing
+   * is changed. Returns the number of re-encrypted profiles.
+   */
+  rotateKey(): number {
+    const db = getDatabase();
+    const updateStatement = db.prepare(`UPDATE profiles SET secrets_encrypted = ? WHERE id = ?`);
+
+    return db.transaction(() => {
+      let rotated = 0;
+      for (const profile of this.findAllEncrypted()) {
+        if (!needsReencryption(profile.secretsEncrypted, this.masterKey)) continue;
+
+        let plaintext: string;
+        try {
+          plaintext = decrypt(profile.secretsEncrypted, this.keyring);
+        } catch (error) {
+          throw new Error(
+            `Profile "${profile.name}" could not be decrypted: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`
+          );
+        }
+
+        updateStatement.run(encrypt(plaintext, this.masterKey), profile.id);
+        rotated++;
+      }
+      return rotated;
+    })();
+  }
 }
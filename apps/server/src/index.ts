@@ -4,11 +4,12 @@ import dotenv from 'dotenv';
 import { initDatabase, closeDatabase } from './db/database.js';
 import { ConfigRepository } from './db/config.repository.js';
 import { ProfileRepository } from './db/profile.repository.js';
-import { validateMasterKey } from './crypto/encryption.js';
+import { validateMasterKey, parseMasterKeyList } from './crypto/encryption.js';
 import { healthRoutes } from './routes/health.routes.js';
 import { configRoutes } from './routes/config.routes.js';
 import { profileRoutes } from './routes/profile.routes.js';
 import { proxyRoutes } from './routes/proxy.routes.js';
+import { backupRoutes } from './routes/backup.routes.js';
 import { logger, getFastifyLoggerOptions } from './utils/logger.js';
 
 // Load environment variables
@@ -18,6 +19,7 @@ const PORT = parseInt(process.env.PORT || '3001', 10);
 const HOST = process.env.HOST || '127.0.0.1';
 const DATABASE_PATH = process.env.DATABASE_PATH || './data/kometa-studio.db';
 const MASTER_KEY = process.env.KOMETA_STUDIO_MASTER_KEY;
+const PREVIOUS_MASTER_KEYS = parseMasterKeyList(process.env.KOMETA_STUDIO_PREVIOUS_MASTER_KEYS);
 
 async function start() {
   // Validate master key
@@ -37,13 +39,43 @@ async function start() {
     process.exit(1);
   }
 
+  if (!PREVIOUS_MASTER_KEYS.every(validateMasterKey)) {
+    logger.fatal(
+      'KOMETA_STUDIO_PREVIOUS_MASTER_KEYS must be a comma-separated list of 32-byte base64-encoded keys'
+    );
+    process.exit(1);
+  }
+
   // Initialize database
   logger.info('Initializing database', { path: DATABASE_PATH });
-  initDatabase(DATABASE_PATH);
+  try {
+    initDatabase(DATABASE_PATH);
+  } catch (err) {
+    logger.fatal('Failed to initialize database', err instanceof Error ? err : undefined);
+    process.exit(1);
+  }
 
   // Create repositories
   const configRepo = new ConfigRepository();
-  const profileRepo = new ProfileRepository(MASTER_KEY);
+  const profileRepo = new ProfileRepository(MASTER_KEY, PREVIOUS_MASTER_KEYS);
+
+  // Verify that every stored profile can be decrypted before accepting requests
+  const encryptionStatus = profileRepo.verifyEncryption();
+  if (encryptionStatus.undecryptable.length > 0) {
+    logger.fatal('Some profiles cannot be decrypted with the configured master keys', {
+      profiles: encryptionStatus.undecryptable.map((profile) => profile.name),
+    });
+    logger.info(
+      'If the master key was changed, add the old key to KOMETA_STUDIO_PREVIOUS_MASTER_KEYS'
+    );
+    process.exit(1);
+  }
+  if (encryptionStatus.stale > 0) {
+    logger.warn('Profiles are encrypted with a previous master key', {
+      count: encryptionStatus.stale,
+    });
+    logger.info('Run "pnpm --filter @kometa-studio/server rotate-key" to re-encrypt them');
+  }
 
   // Create Fastify instance with structured logger
   const fastify = Fastify({
@@ -67,7 +99,8 @@ async function start() {
   await fastify.register(healthRoutes);
   await fastify.register(configRoutes, { configRepo, profileRepo });
   await fastify.register(profileRoutes, { profileRepo });
-  await fastify.register(proxyRoutes, { profileRepo });
+  await fastify.register(proxyRoutes, { profileRepo, configRepo });
+  await fastify.register(backupRoutes, { configRepo, profileRepo });
 
   // Error handler
   fastify.setErrorHandler((error, request, reply) => {
@@ -0,0 +1,59 @@
+import type { FastifyInstance } from 'fastify';
+import { ConfigRepository } from '../db/config.repository.js';
+import { ProfileRepository } from '../db/profile.repository.js';
+import { RestoreRequestSchema, type RestoreRequestInput } from '@kometa-studio/shared';
+import { validateBody } from '../middleware/validation.js';
+import { createBackupArchive, restoreBackupArchive } from '../backup/archive.js';
+
+// Archives contain every config, so allow larger bodies than Fastify's 1 MiB default
+const RESTORE_BODY_LIMIT = 50 * 1024 * 1024;
+
+export async function backupRoutes(
+  fastify: FastifyInstance,
+  opts: { configRepo: ConfigRepository; profileRepo: ProfileRepository }
+) {
+  const { configRepo, profileRepo } = opts;
+
+  // Download a full backup of all configs, profiles and saved overlays
+  fastify.get('/api/backup', async (request, reply) => {
+    try {
+      const archive = createBackupArchive(configRepo, profileRepo);
+      const date = archive.createdAt.slice(0, 10);
+
+      reply.header('Content-Type', 'application/json');
+      reply.header(
+        'Content-Disposition',
+        `attachment; filename="kometa-studio-backup-${date}.json"`
+      );
+      return archive;
+    } catch (error) {
+      reply.status(500);
+      return {
+        error: 'Failed to create backup',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // Restore a backup archive
+  fastify.post<{ Body: RestoreRequestInput }>(
+    '/api/restore',
+    { bodyLimit: RESTORE_BODY_LIMIT },
+    async (request, reply) => {
+      const body = await validateBody(request, reply, RestoreRequestSchema);
+      if (!body) return;
+
+      try {
+        const report = restoreBackupArchive(body.archive, body.mode, configRepo, profileRepo);
+        fastify.log.info({ report }, 'Restored backup');
+        return report;
+      } catch (error) {
+        reply.status(400);
+        return {
+          error: 'Failed to restore backup',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+}
@@ -2,23 +2,82 @@ import type { FastifyInstance } from 'fastify';
 import { ConfigRepository } from '../db/config.repository.js';
 import { ProfileRepository } from '../db/profile.repository.js';
 import { logger } from '../utils/logger.js';
-import { parseKometaYaml, extractSecretsFromYaml } from '../yaml/parser.js';
+import { parseKometaDocument, extractSecretsFromYaml, YamlImportError } from '../yaml/parser.js';
+import { annotateIssues } from '../yaml/positions.js';
+import { blankSourceValues, toSourceYaml } from '../yaml/document.js';
+import {
+  moveSecrets,
+  scanForSecrets,
+  unresolvedLeaks,
+  SecretLeakError,
+  type MovedSecrets,
+} from '../yaml/secret-scan.js';
 import { generateYaml } from '../yaml/generator.js';
+import {
+  exportKometaProject,
+  importKometaProject,
+  readKometaDirectory,
+  unzipProject,
+  zipProject,
+} from '../yaml/project.js';
 import {
   validateConfig,
+  listRules,
+  listDefaults,
+  nextScheduledDays,
+  ScheduleError,
+  applyRuleFix,
+  placeholderSecrets,
+  generateEnvironmentFiles,
   CreateConfigSchema,
   UpdateConfigSchema,
   ImportYamlRequestSchema,
   RenderYamlRequestSchema,
   ValidateConfigRequestSchema,
+  FixIssueRequestSchema,
+  SchedulePreviewRequestSchema,
+  RevisionParamsSchema,
+  RevisionDiffQuerySchema,
+  RestoreRevisionRequestSchema,
+  ExportProjectRequestSchema,
+  ImportProjectRequestSchema,
+  ImportDirectoryRequestSchema,
+  diffKometaConfigs,
+  applyChanges,
+  mergeKometaConfigs,
+  formatConflictMarkers,
+  CompareYamlRequestSchema,
+  ApplyYamlChangesRequestSchema,
   type CreateConfigInput,
   type UpdateConfigInput,
   type ImportYamlRequestInput,
   type RenderYamlRequestInput,
+  type CompareYamlRequestInput,
+  type ApplyYamlChangesRequestInput,
   type ValidateConfigRequestInput,
+  type FixIssueRequestInput,
+  type SchedulePreviewRequestInput,
+  type RevisionParamsInput,
+  type RevisionDiffQueryInput,
+  type RestoreRevisionRequestInput,
+  type ExportProjectRequestInput,
+  type ImportProjectRequestInput,
+  type ImportDirectoryRequestInput,
+  type KometaConfig,
+  type SecretLeak,
+  type SecretLeakHandling,
+  type ProfileSecrets,
 } from '@kometa-studio/shared';
 import { randomUUID } from 'node:crypto';
-import { validateBody, validateIdParam } from '../middleware/validation.js';
+import {
+  validateBody,
+  validateIdParam,
+  validateParams,
+  validateQuery,
+} from '../middleware/validation.js';
+
+// Zipped projects are sent base64 encoded, so allow larger bodies than Fastify's 1 MiB default
+const PROJECT_BODY_LIMIT = 50 * 1024 * 1024;
 
 export async function configRoutes(
   fastify: FastifyInstance,
@@ -26,9 +85,98 @@ export async function configRoutes(
 ) {
   const { configRepo, profileRepo } = opts;
 
+  /**
+   * Creates a profile from the secrets found in the imported YAML files, plus
+   * the secrets moved out of the config that no existing profile took
+   */
+  const createImportedProfile = (
+    configName: string,
+    yamlFiles: string[],
+    movedExtras: MovedSecrets['extras'] = {}
+  ) => {
+    // Sections found in an earlier file, config.yml first, win over later ones
+    const secrets: ProfileSecrets = yamlFiles.reduce<ProfileSecrets>(
+      (found, yaml) => ({ ...extractSecretsFromYaml(yaml), ...found }),
+      {}
+    );
+    for (const [group, values] of Object.entries(movedExtras)) {
+      secrets.extras = { ...secrets.extras, [group]: { ...secrets.extras?.[group], ...values } };
+    }
+    if (Object.keys(secrets).length === 0) {
+      return { profileId: undefined, extractedSecrets: undefined };
+    }
+
+    const profileName = `${configName} - Imported`;
+    const profileId = randomUUID();
+    profileRepo.create({
+      id: profileId,
+      name: profileName,
+      description: `Auto-generated profile from importing ${configName}`,
+      secrets,
+    });
+    fastify.log.info({ profileId, profileName }, 'Created profile from import');
+
+    // Return the unmasked secrets so frontend can cache them
+    return { profileId, extractedSecrets: secrets };
+  };
+
+  /**
+   * Checks imported values for secrets the parser does not know about. Every
+   * finding has to be resolved by the request, either moved into a profile as
+   * an extras secret or explicitly kept, so none is stored without the user
+   * knowing. Returns the open findings, or the config and source to store.
+   * Secrets moved without a chosen profile are returned as `extras`, for the
+   * profile the import creates.
+   */
+  const resolveSecretLeaks = (
+    config: KometaConfig,
+    sourceYaml: string,
+    handling: SecretLeakHandling | undefined
+  ) => {
+    const resolutions = handling?.resolutions ?? [];
+    const leaks = unresolvedLeaks(scanForSecrets(config), resolutions);
+    if (leaks.length > 0) return { leaks };
+
+    const moved = moveSecrets(config, resolutions);
+    const imported = {
+      config: moved.config,
+      sourceYaml: blankSourceValues(sourceYaml, moved.values),
+    };
+    if (!handling?.profileId || Object.keys(moved.extras).length === 0) {
+      return { ...imported, extras: moved.extras };
+    }
+
+    const profile = profileRepo.findById(handling.profileId);
+    if (!profile) throw new SecretLeakError('Profile to move the secrets to not found');
+
+    const extras = { ...profile.secrets.extras };
+    for (const [group, secrets] of Object.entries(moved.extras)) {
+      for (const [key, value] of Object.entries(secrets)) {
+        const existing = extras[group]?.[key];
+        if (existing !== undefined && existing !== value) {
+          throw new SecretLeakError(`Profile already has a different secret ${group}.${key}`);
+        }
+      }
+      extras[group] = { ...extras[group], ...secrets };
+    }
+    profileRepo.update(profile.id, { secrets: { ...profile.secrets, extras } });
+    fastify.log.info({ profileId: profile.id }, 'Moved imported secrets to profile');
+
+    return { ...imported, extras: {} };
+  };
+
+  /**
+   * Response for an import that found secrets no resolution covers
+   */
+  const secretLeaksResponse = (leaks: SecretLeak[]) => ({
+    error: 'Possible secrets found',
+    details: `${leaks.length} imported value(s) look like secrets. Move them to a profile or keep them in the config.`,
+    leaks,
+  });
+
   // List all configs
   fastify.get('/api/configs', async () => {
-    const configs = configRepo.findAll();
+    const configs = configRepo.findAllResolved();
     return { configs };
   });
 
@@ -37,7 +185,7 @@ export async function configRoutes(
     const id = await validateIdParam(request, reply);
     if (!id) return;
 
-    const config = configRepo.findById(id);
+    const config = configRepo.findResolved(id);
     if (!config) {
       reply.status(404);
       return { error: 'Config not found' };
@@ -55,11 +203,12 @@ export async function configRoutes(
         id: randomUUID(),
         name: body.name,
         description: body.description,
-        config: body.config,
+        config: configRepo.overridesFor(body.parentId, body.config),
+        parentId: body.parentId,
       });
 
       reply.status(201);
-      return newConfig;
+      return configRepo.findResolved(newConfig.id);
     } catch (error) {
       reply.status(400);
       return {
@@ -80,12 +229,26 @@ export async function configRoutes(
       if (!body) return;
 
       try {
-        const updated = configRepo.update(id, body);
-        if (!updated) {
+        const { note, config, parentId, ...updates } = body;
+        const existing = configRepo.findResolved(id);
+        if (!existing) {
           reply.status(404);
           return { error: 'Config not found' };
         }
-        return updated;
+
+        // Configs are sent resolved and stored as overrides of their parent.
+        // Changing the parent keeps the resolved config as it is, while an
+        // edit that leaves out inherited values is rejected.
+        const nextParentId = parentId === undefined ? existing.parentId : (parentId ?? undefined);
+        if (nextParentId) configRepo.checkParent(id, nextParentId);
+        const overrides = config
+          ? configRepo.editedOverridesFor(nextParentId, config)
+          : parentId !== undefined
+            ? configRepo.overridesFor(nextParentId, existing.config)
+            : undefined;
+
+        configRepo.update(id, { ...updates, config: overrides, parentId }, note);
+        return configRepo.findResolved(id);
       } catch (error) {
         reply.status(400);
         return {
@@ -101,6 +264,15 @@ export async function configRoutes(
     const id = await validateIdParam(request, reply);
     if (!id) return;
 
+    const children = configRepo.findChildren(id);
+    if (children.length > 0) {
+      reply.status(409);
+      return {
+        error: 'Config has child configs',
+        details: `Detach or delete ${children.map((child) => `"${child.name}"`).join(', ')} first`,
+      };
+    }
+
     const success = configRepo.delete(id);
     if (!success) {
       reply.status(404);
@@ -109,6 +281,98 @@ export async function configRoutes(
     return { success: true };
   });
 
+  // List revisions of a config (newest first)
+  fastify.get<{ Params: { id: string } }>('/api/configs/:id/revisions', async (request, reply) => {
+    const id = await validateIdParam(request, reply);
+    if (!id) return;
+
+    if (!configRepo.findById(id)) {
+      reply.status(404);
+      return { error: 'Config not found' };
+    }
+
+    return { revisions: configRepo.findRevisions(id) };
+  });
+
+  // Get a single revision including its config snapshot
+  fastify.get<{ Params: RevisionParamsInput }>(
+    '/api/configs/:id/revisions/:rev',
+    async (request, reply) => {
+      const params = await validateParams(request, reply, RevisionParamsSchema);
+      if (!params) return;
+
+      const revision = configRepo.findRevision(params.id, params.rev);
+      if (!revision) {
+        reply.status(404);
+        return { error: 'Revision not found' };
+      }
+      return revision;
+    }
+  );
+
+  // Structural diff between a revision and an earlier one (defaults to its predecessor)
+  fastify.get<{ Params: RevisionParamsInput; Querystring: RevisionDiffQueryInput }>(
+    '/api/configs/:id/revisions/:rev/diff',
+    async (request, reply) => {
+      const params = await validateParams(request, reply, RevisionParamsSchema);
+      if (!params) return;
+
+      const query = await validateQuery(request, reply, RevisionDiffQuerySchema);
+      if (!query) return;
+
+      const target = configRepo.findRevision(params.id, params.rev);
+      if (!target) {
+        reply.status(404);
+        return { error: 'Revision not found' };
+      }
+
+      // Revision 0 stands for the empty config before the first revision
+      const against = query.against ?? params.rev - 1;
+      let baseConfig: KometaConfig = {};
+      if (against > 0) {
+        const base = configRepo.findRevision(params.id, against);
+        if (!base) {
+          reply.status(404);
+          return { error: 'Revision to compare against not found' };
+        }
+        baseConfig = base.config;
+      }
+
+      return {
+        from: against,
+        to: params.rev,
+        changes: diffKometaConfigs(baseConfig, target.config),
+      };
+    }
+  );
+
+  // Restore a revision (recorded as a new revision)
+  fastify.post<{ Params: RevisionParamsInput; Body: RestoreRevisionRequestInput }>(
+    '/api/configs/:id/revisions/:rev/restore',
+    async (request, reply) => {
+      const params = await validateParams(request, reply, RevisionParamsSchema);
+      if (!params) return;
+
+      const body = await validateBody(request, reply, RestoreRevisionRequestSchema);
+      if (!body) return;
+
+      try {
+        const restored = configRepo.restoreRevision(params.id, params.rev, body.note);
+        if (!restored) {
+          reply.status(404);
+          return { error: 'Revision not found' };
+        }
+        return configRepo.findResolved(params.id);
+      } catch (error) {
+        reply.status(400);
+        return {
+          error: 'Failed to restore revision',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
   // Import YAML
   fastify.post<{ Params: { id: string }; Body: ImportYamlRequestInput }>(
     '/api/configs/:id/import-yaml',
@@ -121,35 +385,36 @@ export async function configRoutes(
 
       try {
         // Parse the config
-        const config = parseKometaYaml(body.yaml, body.preserveExtras);
-        const updated = configRepo.update(id, { config });
-
-        if (!updated) {
+        const { config, document } = parseKometaDocument(body.yaml, body.preserveExtras);
+        const existing = configRepo.findById(id);
+        if (!existing) {
           reply.status(404);
           return { error: 'Config not found' };
         }
 
-        // Extract secrets and create a profile if any secrets were found
-        const secrets = extractSecretsFromYaml(body.yaml);
-        let profileId: string | undefined;
-        let extractedSecrets: any = undefined;
-
-        if (Object.keys(secrets).length > 0) {
-          const profileName = `${updated.name} - Imported`;
-          profileId = randomUUID();
-          profileRepo.create({
-            id: profileId,
-            name: profileName,
-            description: `Auto-generated profile from importing ${updated.name}`,
-            secrets,
-          });
-          fastify.log.info({ profileId, profileName }, 'Created profile from import');
-
-          // Return the unmasked secrets so frontend can cache them
-          extractedSecrets = secrets;
+        const imported = resolveSecretLeaks(config, toSourceYaml(document), body.secretLeaks);
+        if (imported.leaks) {
+          reply.status(409);
+          return secretLeaksResponse(imported.leaks);
         }
 
-        return { ...updated, profileId, extractedSecrets };
+        configRepo.update(
+          id,
+          {
+            config: configRepo.overridesFor(existing.parentId, imported.config),
+            sourceYaml: imported.sourceYaml,
+          },
+          'Imported from YAML'
+        );
+
+        // Extract secrets and create a profile if any secrets were found
+        const { profileId, extractedSecrets } = createImportedProfile(
+          existing.name,
+          [body.yaml],
+          imported.extras
+        );
+
+        return { ...configRepo.findResolved(id), profileId, extractedSecrets };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         const errorStack = error instanceof Error ? error.stack : undefined;
@@ -158,6 +423,264 @@ export async function configRoutes(
         return {
           error: 'Failed to import YAML',
           details: errorMessage,
+          issues: error instanceof YamlImportError ? error.issues : undefined,
+        };
+      }
+    }
+  );
+
+  // Compare a YAML with the stored config before importing it. With a base
+  // revision, the merge lists the changes it would take and its conflicts.
+  fastify.post<{ Params: { id: string }; Body: CompareYamlRequestInput }>(
+    '/api/configs/:id/compare-yaml',
+    async (request, reply) => {
+      const id = await validateIdParam(request, reply);
+      if (!id) return;
+
+      const body = await validateBody(request, reply, CompareYamlRequestSchema);
+      if (!body) return;
+
+      try {
+        const existing = configRepo.findResolved(id);
+        if (!existing) {
+          reply.status(404);
+          return { error: 'Config not found' };
+        }
+
+        const { config: incoming } = parseKometaDocument(body.yaml, body.preserveExtras);
+        const changes = diffKometaConfigs(existing.config, incoming);
+        if (body.baseRevision === undefined) {
+          return { changes };
+        }
+
+        const revision = configRepo.findRevision(id, body.baseRevision);
+        if (!revision) {
+          reply.status(404);
+          return { error: 'Revision to merge from not found' };
+        }
+
+        const { config: merged, conflicts } = mergeKometaConfigs(
+          revision.config,
+          existing.config,
+          incoming
+        );
+
+        return {
+          changes,
+          merge: {
+            taken: diffKometaConfigs(existing.config, merged).map((change) => change.path),
+            conflicts,
+            markers: formatConflictMarkers(conflicts),
+          },
+        };
+      } catch (error) {
+        reply.status(400);
+        return {
+          error: 'Failed to compare YAML',
+          details: error instanceof Error ? error.message : 'Unknown error',
+          issues: error instanceof YamlImportError ? error.issues : undefined,
+        };
+      }
+    }
+  );
+
+  // Apply the picked changes of a comparison to the stored config
+  fastify.post<{ Params: { id: string }; Body: ApplyYamlChangesRequestInput }>(
+    '/api/configs/:id/apply-yaml',
+    async (request, reply) => {
+      const id = await validateIdParam(request, reply);
+      if (!id) return;
+
+      const body = await validateBody(request, reply, ApplyYamlChangesRequestSchema);
+      if (!body) return;
+
+      try {
+        const existing = configRepo.findResolved(id);
+        if (!existing) {
+          reply.status(404);
+          return { error: 'Config not found' };
+        }
+
+        const { config: incoming } = parseKometaDocument(body.yaml, body.preserveExtras);
+        const config = applyChanges(existing.config, incoming, body.paths);
+        configRepo.update(
+          id,
+          { config: configRepo.overridesFor(existing.parentId, config) },
+          'Merged changes from YAML'
+        );
+
+        return configRepo.findResolved(id);
+      } catch (error) {
+        reply.status(400);
+        return {
+          error: 'Failed to apply changes',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
+  // Import a multi-file Kometa project (config.yml plus referenced local files)
+  fastify.post<{ Params: { id: string }; Body: ImportProjectRequestInput }>(
+    '/api/configs/:id/import-project',
+    { bodyLimit: PROJECT_BODY_LIMIT },
+    async (request, reply) => {
+      const id = await validateIdParam(request, reply);
+      if (!id) return;
+
+      const body = await validateBody(request, reply, ImportProjectRequestSchema);
+      if (!body) return;
+
+      try {
+        const files = body.zip ? unzipProject(Buffer.from(body.zip, 'base64')) : body.files!;
+        const { config, yaml, sourceYaml, unresolved } = importKometaProject(
+          files,
+          body.preserveExtras
+        );
+        const existing = configRepo.findById(id);
+        if (!existing) {
+          reply.status(404);
+          return { error: 'Config not found' };
+        }
+
+        const imported = resolveSecretLeaks(config, sourceYaml, body.secretLeaks);
+        if (imported.leaks) {
+          reply.status(409);
+          return secretLeaksResponse(imported.leaks);
+        }
+
+        configRepo.update(
+          id,
+          {
+            config: configRepo.overridesFor(existing.parentId, imported.config),
+            sourceYaml: imported.sourceYaml,
+          },
+          'Imported from project'
+        );
+
+        const { profileId, extractedSecrets } = createImportedProfile(
+          existing.name,
+          [yaml, ...files.map((file) => file.content)],
+          imported.extras
+        );
+
+        return { ...configRepo.findResolved(id), profileId, extractedSecrets, unresolved };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        fastify.log.error({ error: errorMessage }, 'Import project error');
+        reply.status(400);
+        return {
+          error: 'Failed to import project',
+          details: errorMessage,
+          issues: error instanceof YamlImportError ? error.issues : undefined,
+        };
+      }
+    }
+  );
+
+  // Import a Kometa config directory on the server's disk, such as a mounted /config
+  fastify.post<{ Params: { id: string }; Body: ImportDirectoryRequestInput }>(
+    '/api/configs/:id/import-directory',
+    async (request, reply) => {
+      const id = await validateIdParam(request, reply);
+      if (!id) return;
+
+      const body = await validateBody(request, reply, ImportDirectoryRequestSchema);
+      if (!body) return;
+
+      try {
+        const files = await readKometaDirectory(body.path, body.preserveExtras);
+        const { config, yaml, sourceYaml, unresolved } = importKometaProject(
+          files,
+          body.preserveExtras
+        );
+        const existing = configRepo.findById(id);
+        if (!existing) {
+          reply.status(404);
+          return { error: 'Config not found' };
+        }
+
+        const imported = resolveSecretLeaks(config, sourceYaml, body.secretLeaks);
+        if (imported.leaks) {
+          reply.status(409);
+          return secretLeaksResponse(imported.leaks);
+        }
+
+        configRepo.update(
+          id,
+          {
+            config: configRepo.overridesFor(existing.parentId, imported.config),
+            sourceYaml: imported.sourceYaml,
+          },
+          'Imported from directory'
+        );
+
+        const { profileId, extractedSecrets } = createImportedProfile(
+          existing.name,
+          [yaml, ...files.map((file) => file.content)],
+          imported.extras
+        );
+
+        return { ...configRepo.findResolved(id), profileId, extractedSecrets, unresolved };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        fastify.log.error({ error: errorMessage }, 'Import directory error');
+        reply.status(400);
+        return {
+          error: 'Failed to import directory',
+          details: errorMessage,
+          issues: error instanceof YamlImportError ? error.issues : undefined,
+        };
+      }
+    }
+  );
+
+  // Export as a multi-file Kometa project
+  fastify.post<{ Params: { id: string }; Body: ExportProjectRequestInput }>(
+    '/api/configs/:id/export-project',
+    async (request, reply) => {
+      const id = await validateIdParam(request, reply);
+      if (!id) return;
+
+      const body = await validateBody(request, reply, ExportProjectRequestSchema);
+      if (!body) return;
+
+      try {
+        const configRecord = configRepo.findResolved(id);
+        if (!configRecord) {
+          reply.status(404);
+          return { error: 'Config not found' };
+        }
+
+        let profile;
+        if (body.profileId) {
+          profile = profileRepo.findById(body.profileId);
+          if (!profile) {
+            reply.status(404);
+            return { error: 'Profile not found' };
+          }
+        }
+
+        const files = exportKometaProject({
+          config: configRecord.config,
+          profile,
+          mode: body.mode,
+          pathPrefix: body.pathPrefix,
+          sourceYaml: configRecord.sourceYaml,
+        });
+
+        if (body.format === 'tree') {
+          return { files };
+        }
+
+        reply.header('Content-Type', 'application/zip');
+        reply.header('Content-Disposition', `attachment; filename="${configRecord.name}.zip"`);
+        return reply.send(Buffer.from(zipProject(files)));
+      } catch (error) {
+        reply.status(400);
+        return {
+          error: 'Failed to export project',
+          details: error instanceof Error ? error.message : 'Unknown error',
         };
       }
     }
@@ -189,13 +712,22 @@ export async function configRoutes(
           }
         }
 
+        // Parents are read on every render, so edits to them show up in their children
+        const chain = configRepo.findChain(id);
         const yaml = generateYaml({
           config: configRecord.config,
+          parents: chain.slice(0, -1).map((parent) => parent.config),
           profile,
           mode: body.mode,
           includeComment: body.includeComment,
+          sourceYaml: configRecord.sourceYaml,
         });
 
+        if (body.mode === 'env') {
+          const variables = profile ? placeholderSecrets(profile.secrets).variables : {};
+          return { yaml, ...generateEnvironmentFiles(yaml, variables) };
+        }
+
         return { yaml };
       } catch (error) {
         reply.status(400);
@@ -218,7 +750,7 @@ export async function configRoutes(
       if (!body) return;
 
       try {
-        const configRecord = configRepo.findById(id);
+        const configRecord = configRepo.findResolved(id);
         if (!configRecord) {
           reply.status(404);
           return { error: 'Config not found' };
@@ -232,8 +764,19 @@ export async function configRoutes(
           }
         }
 
-        const validation = validateConfig(configRecord.config, profile);
-        return validation;
+        const validation = validateConfig(configRecord.config, profile, {
+          rules: configRecord.ruleSettings,
+          suppress: body.suppress,
+        });
+
+        // Locate each issue in the YAML the preview renders for the same profile and mode
+        const yaml = generateYaml({
+          config: configRecord.config,
+          profile,
+          mode: body.mode,
+          sourceYaml: configRecord.sourceYaml,
+        });
+        return annotateIssues(validation, yaml);
       } catch (error) {
         reply.status(400);
         return {
@@ -244,6 +787,85 @@ export async function configRoutes(
     }
   );
 
+  // List the lint rules validation runs
+  fastify.get('/api/lint-rules', async () => {
+    return { rules: listRules() };
+  });
+
+  // List the builtin defaults with the template variables they accept
+  fastify.get('/api/kometa-defaults', async () => {
+    return { defaults: listDefaults() };
+  });
+
+  // List the days a schedule expression runs on, as YYYY-MM-DD
+  fastify.post<{ Body: SchedulePreviewRequestInput }>(
+    '/api/schedule/preview',
+    async (request, reply) => {
+      const body = await validateBody(request, reply, SchedulePreviewRequestSchema);
+      if (!body) return;
+
+      const [year, month, day] = (body.from ?? '').split('-').map(Number);
+      const from = body.from ? new Date(year, month - 1, day) : new Date();
+
+      try {
+        const runs = nextScheduledDays(body.schedule, from, body.count).map((date) =>
+          [
+            date.getFullYear(),
+            String(date.getMonth() + 1).padStart(2, '0'),
+            String(date.getDate()).padStart(2, '0'),
+          ].join('-')
+        );
+        return { runs };
+      } catch (error) {
+        if (!(error instanceof ScheduleError)) throw error;
+        reply.status(400);
+        return { error: 'Invalid schedule', details: error.message };
+      }
+    }
+  );
+
+  // Apply the autofix of a lint rule to one reported issue
+  fastify.post<{ Params: { id: string }; Body: FixIssueRequestInput }>(
+    '/api/configs/:id/fix',
+    async (request, reply) => {
+      const id = await validateIdParam(request, reply);
+      if (!id) return;
+
+      const body = await validateBody(request, reply, FixIssueRequestSchema);
+      if (!body) return;
+
+      try {
+        const configRecord = configRepo.findResolved(id);
+        if (!configRecord) {
+          reply.status(404);
+          return { error: 'Config not found' };
+        }
+
+        const fixed = applyRuleFix(configRecord.config, body.rule, body.path);
+        if (!fixed) {
+          reply.status(400);
+          return {
+            error: 'Issue cannot be fixed automatically',
+            details: `Rule "${body.rule}" has no fix for ${body.path.join('.')}`,
+          };
+        }
+
+        configRepo.update(
+          id,
+          { config: configRepo.overridesFor(configRecord.parentId, fixed) },
+          `Applied fix for ${body.rule}`
+        );
+        return configRepo.findResolved(id);
+      } catch (error) {
+        reply.status(400);
+        return {
+          error: 'Failed to fix issue',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+  );
+
   // Export config as JSON
   fastify.post<{ Params: { id: string } }>(
     '/api/configs/:id/export-json',
@@ -251,7 +873,7 @@ export async function configRoutes(
       const id = await validateIdParam(request, reply);
       if (!id) return;
 
-      const config = configRepo.findById(id);
+      const config = configRepo.findResolved(id);
       if (!config) {
         reply.status(404);
         return { error: 'Config not found' };
@@ -305,7 +927,7 @@ export async function configRoutes(
       if (!id) return;
 
       try {
-        const configRecord = configRepo.findById(id);
+        const configRecord = configRepo.findResolved(id);
         if (!configRecord) {
           reply.status(404);
           return { error: 'Config not found' };
@@ -410,7 +1032,7 @@ export async function configRoutes(
       if (!id) return;
 
       try {
-        const configRecord = configRepo.findById(id);
+        const configRecord = configRepo.findResolved(id);
         if (!configRecord) {
           reply.status(404);
           return { error: 'Config not found' };
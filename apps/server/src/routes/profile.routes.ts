@@ -26,6 +26,13 @@ function maskProfileSecrets(profile: any): any {
             token: maskSecret(masked.secrets.plex.token),
           }
         : undefined,
+      plex_servers: masked.secrets.plex_servers
+        ? Object.fromEntries(
+            Object.entries(
+              masked.secrets.plex_servers as Record<string, { url?: string; token?: string }>
+            ).map(([name, server]) => [name, { url: server.url, token: maskSecret(server.token) }])
+          )
+        : undefined,
       tmdb: masked.secrets.tmdb
         ? {
             apikey: maskSecret(masked.secrets.tmdb.apikey),
@@ -65,6 +72,59 @@ function maskProfileSecrets(profile: any): any {
               : undefined,
           }
         : undefined,
+      omdb: masked.secrets.omdb
+        ? {
+            apikey: maskSecret(masked.secrets.omdb.apikey),
+          }
+        : undefined,
+      anidb: masked.secrets.anidb
+        ? {
+            username: masked.secrets.anidb.username,
+            password: maskSecret(masked.secrets.anidb.password),
+          }
+        : undefined,
+      mal: masked.secrets.mal
+        ? {
+            client_id: masked.secrets.mal.client_id,
+            client_secret: maskSecret(masked.secrets.mal.client_secret),
+            authorization: masked.secrets.mal.authorization
+              ? {
+                  ...masked.secrets.mal.authorization,
+                  access_token: maskSecret(masked.secrets.mal.authorization.access_token),
+                  refresh_token: maskSecret(masked.secrets.mal.authorization.refresh_token),
+                }
+              : undefined,
+          }
+        : undefined,
+      github: masked.secrets.github
+        ? {
+            token: maskSecret(masked.secrets.github.token),
+          }
+        : undefined,
+      notifiarr: masked.secrets.notifiarr
+        ? {
+            apikey: maskSecret(masked.secrets.notifiarr.apikey),
+          }
+        : undefined,
+      gotify: masked.secrets.gotify
+        ? {
+            url: masked.secrets.gotify.url,
+            token: maskSecret(masked.secrets.gotify.token),
+          }
+        : undefined,
+      ntfy: masked.secrets.ntfy
+        ? {
+            url: masked.secrets.ntfy.url,
+            token: maskSecret(masked.secrets.ntfy.token),
+          }
+        : undefined,
+      webhooks: masked.secrets.webhooks
+        ? Object.fromEntries(
+            Object.entries(masked.secrets.webhooks as Record<string, string[]>).map(
+              ([event, urls]) => [event, urls.map((url) => maskSecret(url))]
+            )
+          )
+        : undefined,
       extras: masked.secrets.extras,
     };
   }
@@ -1,6 +1,8 @@
 import type { FastifyInstance } from 'fastify';
 import { ProfileRepository } from '../db/profile.repository.js';
+import { ConfigRepository } from '../db/config.repository.js';
 import { z } from 'zod';
+import { ConfigInheritanceError, type ProfileSecrets } from '@kometa-studio/shared';
 import { validateBody } from '../middleware/validation.js';
 
 // Validation schemas
@@ -12,7 +14,8 @@ const TmdbSearchSchema = z.object({
 
 const TmdbGetSchema = z.object({
   profileId: z.string().uuid(),
-  type: z.enum(['movie', 'tv']),
+  // Collections list their movies under `parts`, used by the collection builder preview
+  type: z.enum(['movie', 'tv', 'collection']),
   id: z.number().int().positive(),
 });
 
@@ -35,32 +38,56 @@ const TmdbFindSchema = z.object({
   externalSource: z.enum(['imdb_id', 'tvdb_id']).default('imdb_id'),
 });
 
+// The library being previewed, which may have its own Plex server
+const PlexLibraryFields = {
+  configId: z.string().uuid().optional(),
+  library: z.string().optional(),
+};
+
 const PlexSearchSchema = z.object({
   profileId: z.string().uuid(),
   query: z.string().min(1),
   type: z.enum(['movie', 'show']),
+  ...PlexLibraryFields,
 });
 
 const PlexSeasonsSchema = z.object({
   profileId: z.string().uuid(),
   showKey: z.string().min(1),
+  ...PlexLibraryFields,
 });
 
 const PlexEpisodesSchema = z.object({
   profileId: z.string().uuid(),
   seasonKey: z.string().min(1),
+  ...PlexLibraryFields,
 });
 
 const ConnectionTestSchema = z.object({
-  service: z.enum(['tmdb', 'plex', 'radarr', 'sonarr', 'tautulli', 'mdblist', 'trakt']),
+  service: z.enum([
+    'tmdb',
+    'plex',
+    'radarr',
+    'sonarr',
+    'tautulli',
+    'mdblist',
+    'trakt',
+    'omdb',
+    'anidb',
+    'mal',
+    'github',
+    'notifiarr',
+    'gotify',
+    'ntfy',
+  ]),
   secrets: z.record(z.string()),
 });
 
 export async function proxyRoutes(
   fastify: FastifyInstance,
-  opts: { profileRepo: ProfileRepository }
+  opts: { profileRepo: ProfileRepository; configRepo: ConfigRepository }
 ) {
-  const { profileRepo } = opts;
+  const { profileRepo, configRepo } = opts;
 
   // Helper to get profile secrets
   const getProfileSecrets = (profileId: string, service: string) => {
@@ -73,6 +100,43 @@ export async function proxyRoutes(
       | undefined;
   };
 
+  // Resolves the Plex server of a library: its own server from the profile's
+  // plex_servers when it has one, the main Plex server otherwise. A library
+  // naming a server the profile lacks is an error rather than a silent fallback,
+  // which would preview another server's items.
+  const getPlexSecrets = (body: {
+    profileId: string;
+    configId?: string;
+    library?: string;
+  }): { secrets?: ProfileSecrets['plex'] } | { error: string } => {
+    const profile = profileRepo.findById(body.profileId);
+    if (!profile) {
+      return {};
+    }
+
+    let server: string | undefined;
+    if (body.configId && body.library) {
+      try {
+        server = configRepo.findResolved(body.configId)?.config.libraries?.[body.library]?.plex
+          ?.server;
+      } catch (error) {
+        if (!(error instanceof ConfigInheritanceError)) throw error;
+        return { error: error.message };
+      }
+    }
+    if (!server) {
+      return { secrets: profile.secrets.plex };
+    }
+
+    const secrets = profile.secrets.plex_servers?.[server];
+    if (!secrets) {
+      return {
+        error: `Library "${body.library}" uses Plex server "${server}", which is not in the profile's plex_servers`,
+      };
+    }
+    return { secrets };
+  };
+
   // ============================================
   // TMDB Proxy Routes
   // ============================================
@@ -110,7 +174,7 @@ export async function proxyRoutes(
     }
   });
 
-  // Get movie or TV show details
+  // Get movie, TV show or collection details
   fastify.post('/api/proxy/tmdb/get', async (request, reply) => {
     const body = await validateBody(request, reply, TmdbGetSchema);
     if (!body) return;
@@ -122,8 +186,9 @@ export async function proxyRoutes(
     }
 
     try {
-      const endpoint = body.type === 'movie' ? 'movie' : 'tv';
-      const url = `https://api.themoviedb.org/3/${endpoint}/${body.id}?api_key=${secrets.apikey}`;
+      // Shows include their external IDs, so metadata can be keyed by TVDb ID
+      const append = body.type === 'tv' ? '&append_to_response=external_ids' : '';
+      const url = `https://api.themoviedb.org/3/${body.type}/${body.id}?api_key=${secrets.apikey}${append}`;
 
       const response = await fetch(url);
       const data = await response.json();
@@ -248,7 +313,12 @@ export async function proxyRoutes(
     const body = await validateBody(request, reply, PlexSearchSchema);
     if (!body) return;
 
-    const secrets = getProfileSecrets(body.profileId, 'plex');
+    const plex = getPlexSecrets(body);
+    if ('error' in plex) {
+      reply.status(400);
+      return { error: plex.error };
+    }
+    const { secrets } = plex;
     if (!secrets?.url || !secrets?.token) {
       reply.status(400);
       return { error: 'Plex URL and token not configured in profile' };
@@ -256,7 +326,8 @@ export async function proxyRoutes(
 
     try {
       const plexType = body.type === 'movie' ? 1 : 2;
-      const url = `${secrets.url}/search?query=${encodeURIComponent(body.query)}&type=${plexType}`;
+      // includeGuids adds the TMDb and TVDb IDs of each result
+      const url = `${secrets.url}/search?query=${encodeURIComponent(body.query)}&type=${plexType}&includeGuids=1`;
 
       const response = await fetch(url, {
         headers: {
@@ -286,7 +357,12 @@ export async function proxyRoutes(
     const body = await validateBody(request, reply, PlexSeasonsSchema);
     if (!body) return;
 
-    const secrets = getProfileSecrets(body.profileId, 'plex');
+    const plex = getPlexSecrets(body);
+    if ('error' in plex) {
+      reply.status(400);
+      return { error: plex.error };
+    }
+    const { secrets } = plex;
     if (!secrets?.url || !secrets?.token) {
       reply.status(400);
       return { error: 'Plex URL and token not configured in profile' };
@@ -323,7 +399,12 @@ export async function proxyRoutes(
     const body = await validateBody(request, reply, PlexEpisodesSchema);
     if (!body) return;
 
-    const secrets = getProfileSecrets(body.profileId, 'plex');
+    const plex = getPlexSecrets(body);
+    if ('error' in plex) {
+      reply.status(400);
+      return { error: plex.error };
+    }
+    const { secrets } = plex;
     if (!secrets?.url || !secrets?.token) {
       reply.status(400);
       return { error: 'Plex URL and token not configured in profile' };
@@ -455,6 +536,126 @@ export async function proxyRoutes(
           return { success: true, message: 'Trakt credentials saved' };
         }
 
+        case 'omdb': {
+          if (!secrets.apikey) {
+            reply.status(400);
+            return { error: 'OMDb API key is required' };
+          }
+          const response = await fetch(
+            `https://www.omdbapi.com/?apikey=${encodeURIComponent(secrets.apikey)}&i=tt0133093`
+          );
+          // OMDb reports an invalid key in the body as well as with a 401
+          const data = (await response.json().catch(() => ({}))) as {
+            Response?: string;
+            Error?: string;
+          };
+          if (response.ok && data.Response === 'True') {
+            return { success: true, message: 'OMDb connection successful' };
+          }
+          reply.status(response.ok ? 401 : response.status);
+          return { success: false, error: data.Error || response.statusText };
+        }
+
+        case 'anidb': {
+          if (!secrets.username || !secrets.password) {
+            reply.status(400);
+            return { error: 'AniDB username and password are required' };
+          }
+          // AniDB bans clients that log in too often, just validate credentials exist
+          return { success: true, message: 'AniDB credentials saved' };
+        }
+
+        case 'mal': {
+          if (!secrets.client_id) {
+            reply.status(400);
+            return { error: 'MyAnimeList client ID is required' };
+          }
+          const response = await fetch('https://api.myanimelist.net/v2/anime/1?fields=id', {
+            headers: { 'X-MAL-CLIENT-ID': secrets.client_id },
+          });
+          if (response.ok) {
+            return { success: true, message: 'MyAnimeList connection successful' };
+          }
+          reply.status(response.status);
+          return { success: false, error: response.statusText };
+        }
+
+        case 'github': {
+          if (!secrets.token) {
+            reply.status(400);
+            return { error: 'GitHub token is required' };
+          }
+          const response = await fetch('https://api.github.com/user', {
+            headers: {
+              Authorization: `Bearer ${secrets.token}`,
+              Accept: 'application/vnd.github+json',
+              'User-Agent': 'Kometa-Studio',
+            },
+          });
+          if (response.ok) {
+            const data = (await response.json()) as { login?: string };
+            return { success: true, message: `GitHub connection successful (${data.login})` };
+          }
+          reply.status(response.status);
+          return { success: false, error: response.statusText };
+        }
+
+        case 'notifiarr': {
+          if (!secrets.apikey) {
+            reply.status(400);
+            return { error: 'Notifiarr API key is required' };
+          }
+          const response = await fetch('https://notifiarr.com/api/v1/user/validate', {
+            headers: { 'X-API-Key': secrets.apikey },
+          });
+          if (response.ok) {
+            return { success: true, message: 'Notifiarr connection successful' };
+          }
+          reply.status(response.status);
+          return { success: false, error: response.statusText };
+        }
+
+        // Gotify app tokens can only post messages, so the test sends one
+        case 'gotify': {
+          if (!secrets.url || !secrets.token) {
+            reply.status(400);
+            return { error: 'Gotify URL and app token are required' };
+          }
+          const response = await fetch(`${secrets.url}/message`, {
+            method: 'POST',
+            headers: { 'X-Gotify-Key': secrets.token, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              title: 'Kometa Studio',
+              message: 'Gotify connection test',
+            }),
+          });
+          if (response.ok) {
+            return { success: true, message: 'Gotify connection successful, test message sent' };
+          }
+          reply.status(response.status);
+          return { success: false, error: response.statusText };
+        }
+
+        case 'ntfy': {
+          if (!secrets.url || !secrets.topic) {
+            reply.status(400);
+            return { error: 'ntfy URL and topic are required' };
+          }
+          const response = await fetch(`${secrets.url}/${encodeURIComponent(secrets.topic)}`, {
+            method: 'POST',
+            headers: {
+              Title: 'Kometa Studio',
+              ...(secrets.token ? { Authorization: `Bearer ${secrets.token}` } : {}),
+            },
+            body: 'ntfy connection test',
+          });
+          if (response.ok) {
+            return { success: true, message: 'ntfy connection successful, test message sent' };
+          }
+          reply.status(response.status);
+          return { success: false, error: response.statusText };
+        }
+
         default:
           reply.status(400);
           return { error: `Unknown service: ${service}` };
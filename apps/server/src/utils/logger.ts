@@ -1,7 +1,7 @@
 import pino from 'pino';
 
 // Patterns that indicate sensitive data
-const SENSITIVE_KEYS = [
+export const SENSITIVE_KEYS = [
   'password',
   'secret',
   'token',
@@ -19,7 +19,7 @@ const SENSITIVE_KEYS = [
 ];
 
 // Values that look like secrets (base64, hex, JWT)
-const SECRET_PATTERNS = [
+export const SECRET_PATTERNS = [
   /^[A-Za-z0-9+/]{32,}={0,2}$/, // Base64
   /^[a-f0-9]{32,}$/i, // Hex
   /^eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, // JWT
@@ -0,0 +1,411 @@
+import YAML, {
+  isAlias,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  type Document,
+  type Node,
+  type Pair,
+  type Scalar,
+  type YAMLMap,
+  type YAMLSeq,
+} from 'yaml';
+import {
+  WebhookServiceSchema,
+  type YamlAnchor,
+  type YamlAnchors,
+  type YamlAnchorUse,
+} from '@kometa-studio/shared';
+
+const STRINGIFY_OPTIONS = { indent: 2, lineWidth: 0, minContentWidth: 0 };
+
+// Kometa loads config.yml with YAML 1.1 merge keys (`<<: *anchor`) enabled
+const PARSE_OPTIONS = { merge: true };
+
+/**
+ * Paths of values that live in a profile rather than in the stored config
+ */
+export const SECRET_PATHS: string[][] = [
+  ['plex', 'url'],
+  ['plex', 'token'],
+  ['tmdb', 'apikey'],
+  ['tautulli', 'url'],
+  ['tautulli', 'apikey'],
+  ['mdblist', 'apikey'],
+  ['radarr', 'url'],
+  ['radarr', 'token'],
+  ['sonarr', 'url'],
+  ['sonarr', 'token'],
+  ['trakt', 'client_secret'],
+  ['trakt', 'authorization', 'access_token'],
+  ['trakt', 'authorization', 'refresh_token'],
+  ['omdb', 'apikey'],
+  ['anidb', 'username'],
+  ['anidb', 'password'],
+  ['mal', 'client_secret'],
+  ['mal', 'authorization', 'access_token'],
+  ['mal', 'authorization', 'refresh_token'],
+  ['github', 'token'],
+  ['notifiarr', 'apikey'],
+  ['gotify', 'url'],
+  ['gotify', 'token'],
+  ['ntfy', 'url'],
+  ['ntfy', 'token'],
+];
+
+/**
+ * Whether a `webhooks` target is a custom webhook URL rather than the name of
+ * a notification integration. Custom URLs are secrets and live in the profile.
+ */
+export function isCustomWebhook(target: unknown): target is string {
+  return typeof target === 'string' && !WebhookServiceSchema.safeParse(target).success;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep equality for JSON-compatible values, ignoring object key order
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+/**
+ * Whether a map key is a `<<` merge key. Newer yaml versions represent the
+ * key as a symbol rather than the plain string.
+ */
+function isMergeKey(key: unknown): boolean {
+  if (!isScalar(key)) return false;
+  return key.value === '<<' || (typeof key.value === 'symbol' && key.value.description === '<<');
+}
+
+function keyOf(pair: Pair): string {
+  return String(isScalar(pair.key) ? pair.key.value : pair.key);
+}
+
+/**
+ * Returns the values a map pulls in through its `<<` merge keys
+ */
+function mergedValues(document: Document, node: YAMLMap): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const pair of node.items) {
+    if (!isMergeKey(pair.key)) continue;
+    const sources = isSeq(pair.value) ? pair.value.items : [pair.value];
+    // Earlier sources win over later ones
+    for (const source of [...sources].reverse()) {
+      const value = isNode(source) ? source.toJS(document) : undefined;
+      if (isPlainObject(value)) Object.assign(merged, value);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Paths of the secrets in a document: SECRET_PATHS plus the URL and token of
+ * every library with its own plex block
+ */
+function secretPaths(document: Document): string[][] {
+  const libraries = document.get('libraries', true);
+  if (!isMap(libraries)) return SECRET_PATHS;
+
+  const libraryPaths = libraries.items.flatMap((pair) =>
+    isMap(pair.value) && pair.value.has('plex')
+      ? [
+          ['libraries', keyOf(pair), 'plex', 'url'],
+          ['libraries', keyOf(pair), 'plex', 'token'],
+        ]
+      : []
+  );
+  return [...SECRET_PATHS, ...libraryPaths];
+}
+
+/**
+ * Returns the source of a parsed document with every secret value blanked out,
+ * so it can be stored next to a config. Blanked keys stay in place and are
+ * filled in (or dropped) again when the document is patched.
+ */
+export function toSourceYaml(document: Document): string {
+  const sanitized = document.clone();
+  for (const path of secretPaths(sanitized)) {
+    const node = sanitized.getIn(path, true);
+    if (isScalar(node)) {
+      node.value = null;
+    }
+  }
+
+  const webhooks = sanitized.get('webhooks', true);
+  if (isMap(webhooks)) {
+    for (const pair of webhooks.items) {
+      const targets = isSeq(pair.value) ? pair.value.items : [pair.value];
+      for (const target of targets) {
+        if (isScalar(target) && isCustomWebhook(target.value)) target.value = null;
+      }
+    }
+  }
+
+  return sanitized.toString(STRINGIFY_OPTIONS);
+}
+
+/**
+ * Blanks every scalar of a stored source that holds one of the given values,
+ * for values that were moved out of the config after it was imported
+ */
+export function blankSourceValues(sourceYaml: string, values: string[]): string {
+  if (values.length === 0) return sourceYaml;
+
+  const document = YAML.parseDocument(sourceYaml, PARSE_OPTIONS);
+  YAML.visit(document, {
+    Scalar(_key, node) {
+      if (typeof node.value === 'string' && values.includes(node.value)) node.value = null;
+    },
+  });
+  return document.toString(STRINGIFY_OPTIONS);
+}
+
+/**
+ * Makes a node match `value`, reusing the existing node wherever possible so
+ * its comments, scalar style and anchor survive. Map keys keep their source
+ * order; new keys are appended.
+ */
+function patchNode(document: Document, node: unknown, value: unknown): unknown {
+  if (isNode(node) && isDeepEqual(node.toJS(document), value)) {
+    return node;
+  }
+
+  if (isMap(node) && isPlainObject(value)) {
+    // Merge keys stay as long as every key they provide still has the merged
+    // value or is overridden by an explicit key
+    const merged = mergedValues(document, node);
+    const explicitKeys = new Set(node.items.filter((p) => !isMergeKey(p.key)).map(keyOf));
+    const keepMerge = Object.entries(merged).every(
+      ([key, mergedValue]) =>
+        key in value && (explicitKeys.has(key) || isDeepEqual(mergedValue, value[key]))
+    );
+
+    const seen = new Set<string>();
+    node.items = node.items.filter((pair) => {
+      if (isMergeKey(pair.key)) return keepMerge;
+      const key = keyOf(pair);
+      if (!(key in value)) return false;
+      seen.add(key);
+      pair.value = patchNode(document, pair.value, value[key]);
+      return true;
+    });
+    for (const [key, child] of Object.entries(value)) {
+      if (seen.has(key)) continue;
+      if (keepMerge && key in merged && isDeepEqual(merged[key], child)) continue;
+      node.items.push(document.createPair(key, child));
+    }
+    return node;
+  }
+
+  if (isSeq(node) && Array.isArray(value)) {
+    node.items = value.map((item, index) =>
+      index < node.items.length
+        ? patchNode(document, node.items[index], item)
+        : document.createNode(item)
+    );
+    return node;
+  }
+
+  if (isScalar(node) && (value === null || typeof value !== 'object')) {
+    node.value = value;
+    return node;
+  }
+
+  const created = document.createNode(value);
+  if (isNode(node)) {
+    created.commentBefore = node.commentBefore;
+    created.comment = node.comment;
+    created.spaceBefore = node.spaceBefore;
+  }
+  return created;
+}
+
+/**
+ * Patches a previously imported document so it describes `value`, leaving the
+ * comments, key order, anchors and quoting of everything unchanged untouched.
+ * Returns undefined when the patched document would not reproduce `value`
+ * exactly (for example after an edit inside a block shared through an alias),
+ * in which case the caller should generate the YAML from scratch.
+ */
+export function patchSourceYaml(
+  sourceYaml: string,
+  value: Record<string, unknown>
+): string | undefined {
+  const document: Document = YAML.parseDocument(sourceYaml, PARSE_OPTIONS);
+  if (document.errors.length > 0) return undefined;
+
+  // Undefined properties count as absent keys, just like in YAML.stringify
+  const target: unknown = JSON.parse(JSON.stringify(value));
+
+  try {
+    document.contents = patchNode(document, document.contents, target) as Node;
+    const output = document.toString(STRINGIFY_OPTIONS);
+    return isDeepEqual(YAML.parse(output, PARSE_OPTIONS), target) ? output : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function touchesSecret(path: string[], paths: string[][]): boolean {
+  if (path[0] === 'webhooks') return true;
+  return paths.some((secretPath) => {
+    const length = Math.min(path.length, secretPath.length);
+    return path.slice(0, length).every((segment, index) => segment === secretPath[index]);
+  });
+}
+
+/**
+ * Collects the anchors of a parsed document that are used more than once,
+ * together with every place they are used. Anchors touching secrets are
+ * skipped, since their values would end up in the stored config.
+ */
+export function collectAnchors(document: Document): YamlAnchors {
+  const found = new Map<string, YamlAnchor>();
+
+  const visit = (node: unknown, path: string[], merge: boolean) => {
+    const use: YamlAnchorUse = merge ? { path, merge } : { path };
+
+    if (isAlias(node)) {
+      found.get(node.source)?.uses.push(use);
+      return;
+    }
+    if (!isNode(node)) return;
+
+    if (node.anchor) {
+      found.set(node.anchor, { value: node.toJS(document), uses: [use] });
+    }
+
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        if (isMergeKey(pair.key)) {
+          const sources = isSeq(pair.value) ? pair.value.items : [pair.value];
+          sources.forEach((source) => visit(source, path, true));
+        } else {
+          visit(pair.value, [...path, keyOf(pair)], false);
+        }
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => visit(item, [...path, String(index)], false));
+    }
+  };
+
+  visit(document.contents, [], false);
+
+  const paths = secretPaths(document);
+  return Object.fromEntries(
+    [...found].filter(
+      ([, anchor]) =>
+        anchor.uses.length > 1 && !anchor.uses.some((use) => touchesSecret(use.path, paths))
+    )
+  );
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (Array.isArray(current)) current = current[Number(segment)];
+    else if (isPlainObject(current)) current = current[segment];
+    else return undefined;
+  }
+  return current;
+}
+
+/**
+ * Whether a use still matches the anchored value. A merge use only needs
+ * every merged key to be present; differing values are explicit overrides.
+ */
+function isUseValid(target: unknown, use: YamlAnchorUse, value: unknown): boolean {
+  const current = getPath(target, use.path);
+  if (!use.merge) return isDeepEqual(current, value);
+  return (
+    isPlainObject(current) && isPlainObject(value) && Object.keys(value).every((k) => k in current)
+  );
+}
+
+/**
+ * Numbers every path of a value in document order
+ */
+function documentOrder(value: unknown): Map<string, number> {
+  const order = new Map<string, number>();
+  const walk = (current: unknown, path: string[]) => {
+    order.set(JSON.stringify(path), order.size);
+    if (Array.isArray(current)) current.forEach((item, i) => walk(item, [...path, String(i)]));
+    else if (isPlainObject(current)) {
+      Object.entries(current).forEach(([key, child]) => walk(child, [...path, key]));
+    }
+  };
+  walk(value, []);
+  return order;
+}
+
+/**
+ * Stringifies a value, re-emitting shared blocks as anchors and aliases at
+ * every use whose value still matches. Returns undefined when the result would
+ * not reproduce `value` exactly, in which case the caller should stringify it
+ * plainly.
+ */
+export function stringifyWithAnchors(
+  value: Record<string, unknown>,
+  anchors: YamlAnchors
+): string | undefined {
+  const target: unknown = JSON.parse(JSON.stringify(value));
+  const document = new YAML.Document(target);
+  const order = documentOrder(target);
+  const position = (use: YamlAnchorUse) =>
+    order.get(JSON.stringify(use.path)) ?? Number.POSITIVE_INFINITY;
+
+  try {
+    for (const [name, anchor] of Object.entries(anchors)) {
+      const uses = anchor.uses
+        .filter((use) => isUseValid(target, use, anchor.value))
+        .sort((a, b) => position(a) - position(b));
+      if (uses.length < 2) continue;
+
+      let anchored: Scalar | YAMLMap | YAMLSeq | undefined;
+      for (const use of uses) {
+        const shared = anchored
+          ? document.createAlias(anchored, name)
+          : (document.createNode(anchor.value) as Scalar | YAMLMap | YAMLSeq);
+
+        if (use.merge) {
+          // Keys provided by the merge are dropped, overrides stay explicit
+          const map = document.getIn(use.path, true) as YAMLMap;
+          const merged = anchor.value as Record<string, unknown>;
+          map.items = map.items.filter((pair) => {
+            const key = keyOf(pair);
+            const current = isNode(pair.value) ? pair.value.toJS(document) : pair.value;
+            return !(key in merged && isDeepEqual(current, merged[key]));
+          });
+          map.items.unshift(document.createPair('<<', shared));
+        } else if (use.path.length > 0) {
+          document.setIn(use.path, shared);
+        }
+
+        if (!anchored && !isAlias(shared)) {
+          anchored = shared;
+          anchored.anchor = name;
+        }
+      }
+    }
+
+    const output = document.toString(STRINGIFY_OPTIONS);
+    return isDeepEqual(YAML.parse(output, PARSE_OPTIONS), target) ? output : undefined;
+  } catch {
+    return undefined;
+  }
+}
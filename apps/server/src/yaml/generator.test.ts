@@ -76,6 +76,22 @@ describe('YAML Generator', () => {
     expect(yaml).toContain('collection');
   });
 
+  it('should write playlist_files after libraries', () => {
+    const config: KometaConfig = {
+      libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+      playlist_files: [
+        { default: 'playlist', template_variables: { libraries: 'Movies', sync_to_users: 'all' } },
+      ],
+    };
+
+    const yaml = generateYaml({ config, mode: 'template' });
+
+    expect(yaml.indexOf('libraries:')).toBeLessThan(yaml.indexOf('playlist_files:'));
+    expect(yaml).toContain(
+      '  - default: playlist\n    template_variables:\n      libraries: Movies'
+    );
+  });
+
   it('should not include secrets in template mode', () => {
     const config: KometaConfig = {
       plex: { enabled: true },
@@ -1,15 +1,36 @@
 import YAML from 'yaml';
+import { patchSourceYaml, stringifyWithAnchors } from './document.js';
 import type { KometaConfig } from '@kometa-studio/shared';
 import type { ProfileRecord } from '../db/profile.repository.js';
-import { maskSecret } from '@kometa-studio/shared';
-
-export type YamlMode = 'template' | 'masked' | 'full';
+import {
+  WebhookEventSchema,
+  envPlaceholder,
+  lookupSecret,
+  maskSecret,
+  placeholderSecrets,
+  replaceSecretReferences,
+  resolveConfigChain,
+  secretEnvName,
+} from '@kometa-studio/shared';
+
+export type YamlMode = 'template' | 'masked' | 'full' | 'env';
 
 interface GenerateOptions {
   config: KometaConfig;
   profile?: ProfileRecord;
   mode: YamlMode;
   includeComment?: boolean;
+  /**
+   * Previously imported config.yml (secrets blanked). When set, this document is
+   * patched instead of rewritten, so its comments and key order are kept and no
+   * header comment is added.
+   */
+  sourceYaml?: string;
+  /**
+   * Configs this one inherits from, root first. `config` then only holds its
+   * overrides of them.
+   */
+  parents?: KometaConfig[];
 }
 
 /**
@@ -27,7 +48,14 @@ function mergeExtras<T extends Record<string, unknown>>(
  * Generates a complete Kometa YAML from config and profile
  */
 export function generateYaml(options: GenerateOptions): string {
-  const { config, profile, mode, includeComment = true } = options;
+  const { mode, includeComment = true, sourceYaml, parents = [] } = options;
+  const config = resolveConfigChain([...parents, options.config]);
+
+  // Env mode writes the profile's secrets as placeholders, in place of the secrets themselves
+  const profile =
+    mode === 'env' && options.profile
+      ? { ...options.profile, secrets: placeholderSecrets(options.profile.secrets).secrets }
+      : options.profile;
 
   // Build the output object in the correct order
   const output: Record<string, unknown> = {};
@@ -40,6 +68,24 @@ export function generateYaml(options: GenerateOptions): string {
     );
   }
 
+  // Webhooks: integrations from the config, followed by the profile's custom URLs
+  const webhookUrls = mode !== 'template' ? profile?.secrets.webhooks : undefined;
+  if (config.webhooks || webhookUrls) {
+    const webhooks: Record<string, unknown> = {};
+    for (const event of WebhookEventSchema.options) {
+      const targets: string[] = [
+        ...(config.webhooks?.[event] ?? []),
+        ...(webhookUrls?.[event] ?? []).map((url) =>
+          mode === 'masked' ? (maskSecret(url) as string) : url
+        ),
+      ];
+      if (targets.length > 0) {
+        webhooks[event] = targets.length === 1 ? targets[0] : targets;
+      }
+    }
+    output.webhooks = mergeExtras(webhooks, config.webhooks?.extras);
+  }
+
   // Plex
   if (config.plex && config.plex.enabled !== false) {
     const plexConfig: Record<string, unknown> = { ...config.plex, enabled: undefined };
@@ -175,12 +221,154 @@ export function generateYaml(options: GenerateOptions): string {
     output.trakt = mergeExtras(traktConfig, config.trakt.extras);
   }
 
+  // OMDb
+  if (config.omdb?.enabled) {
+    const omdbConfig: Record<string, unknown> = { ...config.omdb, enabled: undefined };
+    delete omdbConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.omdb?.apikey) {
+      omdbConfig.apikey =
+        mode === 'masked' ? maskSecret(profile.secrets.omdb.apikey) : profile.secrets.omdb.apikey;
+    }
+
+    output.omdb = mergeExtras(omdbConfig, config.omdb.extras);
+  }
+
+  // AniDB
+  if (config.anidb?.enabled) {
+    const anidbConfig: Record<string, unknown> = { ...config.anidb, enabled: undefined };
+    delete anidbConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.anidb) {
+      if (profile.secrets.anidb.username) {
+        anidbConfig.username = profile.secrets.anidb.username;
+      }
+      if (profile.secrets.anidb.password) {
+        anidbConfig.password =
+          mode === 'masked'
+            ? maskSecret(profile.secrets.anidb.password)
+            : profile.secrets.anidb.password;
+      }
+    }
+
+    output.anidb = mergeExtras(anidbConfig, config.anidb.extras);
+  }
+
+  // MyAnimeList
+  if (config.mal?.enabled) {
+    const malConfig: Record<string, unknown> = { ...config.mal, enabled: undefined };
+    delete malConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.mal) {
+      if (profile.secrets.mal.client_secret) {
+        malConfig.client_secret =
+          mode === 'masked'
+            ? maskSecret(profile.secrets.mal.client_secret)
+            : profile.secrets.mal.client_secret;
+      }
+      if (profile.secrets.mal.authorization) {
+        const { access_token, refresh_token } = profile.secrets.mal.authorization;
+        malConfig.authorization = {
+          ...profile.secrets.mal.authorization,
+          access_token: mode === 'masked' ? maskSecret(access_token || '') : access_token,
+          refresh_token: mode === 'masked' ? maskSecret(refresh_token || '') : refresh_token,
+        };
+      }
+    }
+
+    output.mal = mergeExtras(malConfig, config.mal.extras);
+  }
+
+  // GitHub
+  if (config.github?.enabled) {
+    const githubConfig: Record<string, unknown> = { ...config.github, enabled: undefined };
+    delete githubConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.github?.token) {
+      githubConfig.token =
+        mode === 'masked' ? maskSecret(profile.secrets.github.token) : profile.secrets.github.token;
+    }
+
+    output.github = mergeExtras(githubConfig, config.github.extras);
+  }
+
+  // Notifiarr
+  if (config.notifiarr?.enabled) {
+    const notifiarrConfig: Record<string, unknown> = { ...config.notifiarr, enabled: undefined };
+    delete notifiarrConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.notifiarr?.apikey) {
+      notifiarrConfig.apikey =
+        mode === 'masked'
+          ? maskSecret(profile.secrets.notifiarr.apikey)
+          : profile.secrets.notifiarr.apikey;
+    }
+
+    output.notifiarr = mergeExtras(notifiarrConfig, config.notifiarr.extras);
+  }
+
+  // Gotify
+  if (config.gotify?.enabled) {
+    const gotifyConfig: Record<string, unknown> = { ...config.gotify, enabled: undefined };
+    delete gotifyConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.gotify) {
+      if (profile.secrets.gotify.url) {
+        gotifyConfig.url = profile.secrets.gotify.url;
+      }
+      if (profile.secrets.gotify.token) {
+        gotifyConfig.token =
+          mode === 'masked'
+            ? maskSecret(profile.secrets.gotify.token)
+            : profile.secrets.gotify.token;
+      }
+    }
+
+    output.gotify = mergeExtras(gotifyConfig, config.gotify.extras);
+  }
+
+  // ntfy
+  if (config.ntfy?.enabled) {
+    const ntfyConfig: Record<string, unknown> = { ...config.ntfy, enabled: undefined };
+    delete ntfyConfig.extras;
+
+    if (mode !== 'template' && profile?.secrets.ntfy) {
+      if (profile.secrets.ntfy.url) {
+        ntfyConfig.url = profile.secrets.ntfy.url;
+      }
+      if (profile.secrets.ntfy.token) {
+        ntfyConfig.token =
+          mode === 'masked' ? maskSecret(profile.secrets.ntfy.token) : profile.secrets.ntfy.token;
+      }
+    }
+
+    output.ntfy = mergeExtras(ntfyConfig, config.ntfy.extras);
+  }
+
   // Libraries
   if (config.libraries) {
     const libraries: Record<string, unknown> = {};
     for (const [libraryName, library] of Object.entries(config.libraries)) {
       const libraryConfig: Record<string, unknown> = {};
 
+      // A library's own Plex server, filled in from the named profile entry
+      if (library.plex) {
+        const { server, extras, ...plexOptions } = library.plex;
+        const plexConfig: Record<string, unknown> = { ...plexOptions };
+        const plexSecrets = server ? profile?.secrets.plex_servers?.[server] : undefined;
+
+        if (mode !== 'template' && plexSecrets) {
+          if (plexSecrets.url) {
+            plexConfig.url = plexSecrets.url;
+          }
+          if (plexSecrets.token) {
+            plexConfig.token =
+              mode === 'masked' ? maskSecret(plexSecrets.token) : plexSecrets.token;
+          }
+        }
+
+        libraryConfig.plex = mergeExtras(plexConfig, extras);
+      }
       if (library.template_variables) {
         libraryConfig.template_variables = library.template_variables;
       }
@@ -203,7 +391,10 @@ export function generateYaml(options: GenerateOptions): string {
         libraryConfig.metadata_files = library.metadata_files;
       }
       if (library.operations) {
-        libraryConfig.operations = library.operations;
+        libraryConfig.operations = mergeExtras(
+          { ...library.operations, extras: undefined },
+          library.operations.extras
+        );
       }
       if (library.settings) {
         libraryConfig.settings = library.settings;
@@ -214,16 +405,36 @@ export function generateYaml(options: GenerateOptions): string {
     output.libraries = libraries;
   }
 
-  // Add root-level extras
-  const finalOutput = mergeExtras(output, config.extras);
+  // Playlist files
+  if (config.playlist_files) {
+    output.playlist_files = config.playlist_files;
+  }
 
-  // Generate YAML
-  let yamlStr = YAML.stringify(finalOutput, {
-    indent: 2,
-    lineWidth: 0,
-    minContentWidth: 0,
+  // Add root-level extras, then fill in secret references: the secret itself in
+  // full mode, masked in masked mode, and a Kometa environment placeholder in
+  // template and env mode or when the profile does not have the secret
+  const finalOutput = replaceSecretReferences(mergeExtras(output, config.extras), (reference) => {
+    const secret = mode === 'template' ? undefined : lookupSecret(reference, profile?.secrets);
+    if (secret === undefined) return envPlaceholder(secretEnvName(reference));
+    return mode === 'masked' ? (maskSecret(secret) as string) : secret;
   });
 
+  if (sourceYaml) {
+    const patched = patchSourceYaml(sourceYaml, finalOutput);
+    if (patched !== undefined) {
+      return patched;
+    }
+  }
+
+  // Generate YAML, re-emitting shared blocks as anchors and aliases where they still match
+  let yamlStr =
+    (config.anchors && stringifyWithAnchors(finalOutput, config.anchors)) ||
+    YAML.stringify(finalOutput, {
+      indent: 2,
+      lineWidth: 0,
+      minContentWidth: 0,
+    });
+
   // Add comment at the top
   if (includeComment) {
     const comment =
@@ -231,7 +442,9 @@ export function generateYaml(options: GenerateOptions): string {
         ? '# Kometa Configuration Template (no secrets)\n# Generated by Kometa Studio\n\n'
         : mode === 'masked'
           ? '# Kometa Configuration (secrets masked)\n# Generated by Kometa Studio\n\n'
-          : '# Kometa Configuration\n# Generated by Kometa Studio\n# WARNING: This file contains secrets!\n\n';
+          : mode === 'env'
+            ? '# Kometa Configuration (secrets from environment variables)\n# Generated by Kometa Studio\n\n'
+            : '# Kometa Configuration\n# Generated by Kometa Studio\n# WARNING: This file contains secrets!\n\n';
     yamlStr = comment + yamlStr;
   }
 
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseKometaYaml } from './parser';
+import { YamlImportError, parseKometaYaml } from './parser';
 
 describe('YAML Parser', () => {
   it('should parse basic Kometa YAML', () => {
@@ -71,6 +71,38 @@ libraries:
     });
   });
 
+  it('should parse playlist_files', () => {
+    const yaml = `
+libraries:
+  Movies:
+    collection_files:
+      - default: imdb
+playlist_files:
+  - default: playlist
+    template_variables:
+      libraries: Movies, TV Shows
+      sync_to_users: all
+      exclude_users:
+        - guest
+  - file: config/Playlists.yml
+`;
+
+    const config = parseKometaYaml(yaml, true);
+
+    expect(config.playlist_files).toEqual([
+      {
+        default: 'playlist',
+        template_variables: {
+          libraries: 'Movies, TV Shows',
+          sync_to_users: 'all',
+          exclude_users: ['guest'],
+        },
+      },
+      { file: 'config/Playlists.yml' },
+    ]);
+    expect(config.extras).toBeUndefined();
+  });
+
   it('should handle empty libraries', () => {
     const yaml = `
 libraries:
@@ -89,4 +121,31 @@ libraries:
 
     expect(() => parseKometaYaml(invalidYaml)).toThrow();
   });
+
+  it('should report the position of YAML syntax errors', () => {
+    try {
+      parseKometaYaml('settings:\n  cache: true\n  - broken\n');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(YamlImportError);
+      expect((error as YamlImportError).issues[0].range?.start.line).toBe(3);
+    }
+  });
+
+  it('should locate schema failures in the source', () => {
+    try {
+      parseKometaYaml(
+        'libraries:\n  Movies:\n    collection_files: []\nsettings:\n  cache: "yes"\n'
+      );
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(YamlImportError);
+      expect((error as YamlImportError).issues).toEqual([
+        expect.objectContaining({
+          path: ['settings', 'cache'],
+          range: { start: { line: 5, column: 3 }, end: { line: 5, column: 15 } },
+        }),
+      ]);
+    }
+  });
 });
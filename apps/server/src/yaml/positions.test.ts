@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { annotateIssues, createPathLocator } from './positions';
+
+const yaml = `settings:
+  cache: true
+  custom_key: 1
+plex:
+  timeout: 60
+libraries:
+  Movies:
+    collection_files:
+      - default: imdb
+      - file: config/Movies.yml
+`;
+
+describe('YAML path locator', () => {
+  const locate = createPathLocator(yaml);
+
+  it('should locate a scalar entry', () => {
+    expect(locate(['settings', 'cache'])).toEqual({
+      start: { line: 2, column: 3 },
+      end: { line: 2, column: 14 },
+    });
+  });
+
+  it('should locate sequence items', () => {
+    expect(locate(['libraries', 'Movies', 'collection_files', '1'])).toEqual({
+      start: { line: 10, column: 9 },
+      end: { line: 10, column: 32 },
+    });
+  });
+
+  it('should span a whole block without its trailing newline', () => {
+    expect(locate(['libraries', 'Movies'])).toEqual({
+      start: { line: 7, column: 3 },
+      end: { line: 10, column: 32 },
+    });
+  });
+
+  it('should skip extras segments', () => {
+    expect(locate(['settings', 'extras', 'custom_key'])?.start).toEqual({ line: 3, column: 3 });
+  });
+
+  it('should fall back to the deepest existing ancestor', () => {
+    expect(locate(['plex', 'token'])).toEqual({
+      start: { line: 4, column: 1 },
+      end: { line: 5, column: 14 },
+    });
+    expect(locate(['tmdb', 'apikey'])).toBeUndefined();
+  });
+});
+
+describe('annotateIssues', () => {
+  it('should add ranges to errors and warnings', () => {
+    const result = annotateIssues(
+      {
+        valid: false,
+        errors: [{ type: 'error', path: ['settings', 'cache'], message: 'Bad' }],
+        warnings: [{ type: 'warning', path: ['tmdb'], message: 'Missing' }],
+      },
+      yaml
+    );
+
+    expect(result.errors[0].range?.start.line).toBe(2);
+    expect(result.warnings[0]).toEqual({ type: 'warning', path: ['tmdb'], message: 'Missing' });
+  });
+});
@@ -0,0 +1,88 @@
+import YAML, { isMap, isNode, isScalar, isSeq } from 'yaml';
+import type {
+  SourcePosition,
+  SourceRange,
+  ValidationIssue,
+  ValidationResult,
+} from '@kometa-studio/shared';
+
+/**
+ * Converts a character offset into a 1-based line and column
+ */
+function toPosition(lineStarts: number[], offset: number): SourcePosition {
+  let line = 0;
+  while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+    line++;
+  }
+  return { line: line + 1, column: offset - lineStarts[line] + 1 };
+}
+
+/**
+ * Creates a function that maps config paths to their range in a YAML source.
+ * `extras` segments of a KometaConfig path have no YAML counterpart and are
+ * skipped. A path that does not exist in the source (such as a secret that is
+ * only in the profile) maps to its deepest existing ancestor, so `plex.token`
+ * points at the `plex:` block when no token is written out.
+ */
+export function createPathLocator(source: string): (path: string[]) => SourceRange | undefined {
+  const document = YAML.parseDocument(source, { merge: true });
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const toRange = (start: number, end: number): SourceRange => {
+    // Block collections end after their trailing newline; stop at the last character instead
+    while (end > start && /\s/.test(source[end - 1])) end--;
+    return { start: toPosition(lineStarts, start), end: toPosition(lineStarts, end) };
+  };
+
+  return (path) => {
+    let node: unknown = document.contents;
+    let found: [number, number] | undefined;
+
+    for (const segment of path) {
+      if (isMap(node)) {
+        const pair = node.items.find(
+          (item) => String(isScalar(item.key) ? item.key.value : item.key) === segment
+        );
+        if (!pair) {
+          if (segment === 'extras') continue;
+          break;
+        }
+        const keyRange = isNode(pair.key) ? pair.key.range : undefined;
+        const valueRange = isNode(pair.value) ? pair.value.range : undefined;
+        if (!keyRange) break;
+        found = [keyRange[0], valueRange ? valueRange[1] : keyRange[1]];
+        node = pair.value;
+      } else if (isSeq(node)) {
+        const item = node.items[Number(segment)];
+        if (!isNode(item) || !item.range) break;
+        found = [item.range[0], item.range[1]];
+        node = item;
+      } else {
+        break;
+      }
+    }
+
+    return found ? toRange(found[0], found[1]) : undefined;
+  };
+}
+
+/**
+ * Adds source ranges to every issue of a validation result, resolved against
+ * the YAML the result is displayed next to
+ */
+export function annotateIssues(result: ValidationResult, source: string): ValidationResult {
+  const locate = createPathLocator(source);
+  const annotate = (issue: ValidationIssue): ValidationIssue => {
+    const range = issue.range ?? locate(issue.path);
+    return range ? { ...issue, range } : issue;
+  };
+
+  return {
+    ...result,
+    errors: result.errors.map(annotate),
+    warnings: result.warnings.map(annotate),
+  };
+}
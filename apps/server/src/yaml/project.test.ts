@@ -0,0 +1,268 @@
+import { describe, it, expect } from 'vitest';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import YAML from 'yaml';
+import type { KometaConfig } from '@kometa-studio/shared';
+import {
+  exportKometaProject,
+  importKometaProject,
+  readKometaDirectory,
+  unzipProject,
+  zipProject,
+} from './project';
+
+const config: KometaConfig = {
+  settings: { cache: true },
+  libraries: {
+    Movies: {
+      collection_files: [{ default: 'imdb' }, { file: 'config/Movies.yml' }],
+      overlay_files: [{ file: 'config/overlays/ratings.yml' }, { file: 'config/missing.yml' }],
+    },
+    'TV Shows': {
+      collection_files: [{ file: 'config/TV Shows.yml' }, { file: 'config/Movies.yml' }],
+      metadata_files: [{ file: '/config/shows-metadata.yml' }],
+    },
+  },
+  local_files: {
+    'config/Movies.yml': { collections: { 'Top Movies': { plex_search: { all: {} } } } },
+    'config/TV Shows.yml': { collections: { 'Top Shows': { plex_search: { all: {} } } } },
+    'config/overlays/ratings.yml': { overlays: { rating: { plex_all: true } } },
+    '/config/shows-metadata.yml': { metadata: { 1399: { title: 'Game of Thrones' } } },
+  },
+};
+
+function fileMap(files: { path: string; content: string }[]): Record<string, string> {
+  return Object.fromEntries(files.map((file) => [file.path, file.content]));
+}
+
+describe('Kometa project export', () => {
+  it('should write each local file into its kind directory', () => {
+    const files = fileMap(exportKometaProject({ config, mode: 'template' }));
+
+    expect(Object.keys(files).sort()).toEqual([
+      'collections/Movies.yml',
+      'collections/TV Shows.yml',
+      'config.yml',
+      'metadata/shows-metadata.yml',
+      'overlays/ratings.yml',
+    ]);
+    expect(YAML.parse(files['overlays/ratings.yml'])).toEqual(
+      config.local_files!['config/overlays/ratings.yml']
+    );
+  });
+
+  it('should rewrite file paths and leave other entries alone', () => {
+    const files = fileMap(exportKometaProject({ config, mode: 'template' }));
+    const parsed = YAML.parse(files['config.yml']);
+
+    expect(parsed.libraries.Movies.collection_files).toEqual([
+      { default: 'imdb' },
+      { file: 'config/collections/Movies.yml' },
+    ]);
+    expect(parsed.libraries.Movies.overlay_files).toEqual([
+      { file: 'config/overlays/ratings.yml' },
+      { file: 'config/missing.yml' },
+    ]);
+    expect(parsed.libraries['TV Shows'].collection_files[1]).toEqual({
+      file: 'config/collections/Movies.yml',
+    });
+    expect(parsed.local_files).toBeUndefined();
+  });
+
+  it('should honour a custom path prefix', () => {
+    const files = fileMap(exportKometaProject({ config, mode: 'template', pathPrefix: '/kometa' }));
+    const parsed = YAML.parse(files['config.yml']);
+
+    expect(parsed.libraries.Movies.collection_files[1]).toEqual({
+      file: '/kometa/collections/Movies.yml',
+    });
+  });
+
+  it('should keep files with the same name apart', () => {
+    const files = fileMap(
+      exportKometaProject({
+        config: {
+          libraries: {
+            Movies: { collection_files: [{ file: 'a/Movies.yml' }, { file: 'b/Movies.yml' }] },
+          },
+          local_files: { 'a/Movies.yml': { collections: {} }, 'b/Movies.yml': { collections: {} } },
+        },
+        mode: 'template',
+      })
+    );
+
+    expect(Object.keys(files)).toContain('collections/Movies.yml');
+    expect(Object.keys(files)).toContain('collections/Movies-2.yml');
+  });
+
+  it('should write local playlist files into the playlists directory', () => {
+    const playlist = { playlists: { Marvel: { libraries: 'Movies', trakt_list: 'x' } } };
+    const files = fileMap(
+      exportKometaProject({
+        config: {
+          playlist_files: [{ default: 'playlist' }, { file: 'config/Playlists.yml' }],
+          local_files: { 'config/Playlists.yml': playlist },
+        },
+        mode: 'template',
+      })
+    );
+
+    expect(YAML.parse(files['config.yml']).playlist_files).toEqual([
+      { default: 'playlist' },
+      { file: 'config/playlists/Playlists.yml' },
+    ]);
+    expect(YAML.parse(files['playlists/Playlists.yml'])).toEqual(playlist);
+  });
+});
+
+describe('Kometa project import', () => {
+  it('should round-trip an exported project', () => {
+    const files = exportKometaProject({ config, mode: 'template' });
+    const { config: imported, unresolved } = importKometaProject(files);
+
+    expect(unresolved).toEqual(['config/missing.yml']);
+    expect(imported.local_files).toEqual({
+      'config/collections/Movies.yml': config.local_files!['config/Movies.yml'],
+      'config/collections/TV Shows.yml': config.local_files!['config/TV Shows.yml'],
+      'config/overlays/ratings.yml': config.local_files!['config/overlays/ratings.yml'],
+      'config/metadata/shows-metadata.yml': config.local_files!['/config/shows-metadata.yml'],
+    });
+
+    // Exporting again is stable
+    expect(exportKometaProject({ config: imported, mode: 'template' })).toEqual(files);
+  });
+
+  it('should resolve Docker paths against a nested config directory', () => {
+    const { config: imported, unresolved } = importKometaProject([
+      {
+        path: 'kometa/config/config.yml',
+        content: 'libraries:\n  Movies:\n    collection_files:\n      - file: /config/Movies.yml\n',
+      },
+      { path: 'kometa/config/Movies.yml', content: 'collections:\n  Test: {}\n' },
+    ]);
+
+    expect(unresolved).toEqual([]);
+    expect(imported.local_files).toEqual({ '/config/Movies.yml': { collections: { Test: {} } } });
+  });
+
+  it('should resolve playlist file references', () => {
+    const { config: imported, unresolved } = importKometaProject([
+      { path: 'config.yml', content: 'playlist_files:\n  - file: config/Playlists.yml\n' },
+      { path: 'Playlists.yml', content: 'playlists:\n  Test:\n    libraries: Movies\n' },
+    ]);
+
+    expect(unresolved).toEqual([]);
+    expect(imported.local_files).toEqual({
+      'config/Playlists.yml': { playlists: { Test: { libraries: 'Movies' } } },
+    });
+  });
+
+  it('should reject projects without config.yml', () => {
+    expect(() => importKometaProject([{ path: 'Movies.yml', content: 'collections: {}' }])).toThrow(
+      'Project does not contain a config.yml'
+    );
+  });
+
+  it('should report which referenced file is invalid', () => {
+    expect(() =>
+      importKometaProject([
+        {
+          path: 'config.yml',
+          content: 'libraries:\n  Movies:\n    collection_files:\n      - file: Movies.yml\n',
+        },
+        { path: 'Movies.yml', content: '- not a mapping' },
+      ])
+    ).toThrow('Invalid YAML in Movies.yml');
+  });
+
+  it('should read projects back from a zip archive', () => {
+    const files = exportKometaProject({ config, mode: 'template' });
+
+    expect(unzipProject(zipProject(files))).toEqual(files);
+  });
+});
+
+describe('Kometa directory import', () => {
+  it('should read config.yml and the files it references', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'kometa-config-'));
+    try {
+      await mkdir(join(root, 'overlays'));
+      await writeFile(
+        join(root, 'config.yml'),
+        [
+          'libraries:',
+          '  Movies:',
+          '    collection_files:',
+          '      - file: /config/Movies.yml',
+          '      - file: config/Missing.yml',
+          '      - file: ../secrets.yml',
+          '    overlay_files:',
+          '      - file: config/overlays/ratings.yml',
+          '',
+        ].join('\n')
+      );
+      await writeFile(join(root, 'Movies.yml'), 'collections:\n  Test: {}\n');
+      await writeFile(join(root, 'overlays', 'ratings.yml'), 'overlays:\n  rating: {}\n');
+      await writeFile(join(root, 'Unused.yml'), 'collections: {}\n');
+
+      const files = await readKometaDirectory(root);
+      expect(files.map((file) => file.path)).toEqual([
+        'config.yml',
+        'Movies.yml',
+        'overlays/ratings.yml',
+      ]);
+
+      const { config: imported, unresolved } = importKometaProject(files);
+      expect(unresolved).toEqual(['config/Missing.yml', '../secrets.yml']);
+      expect(Object.keys(imported.local_files ?? {})).toEqual([
+        '/config/Movies.yml',
+        'config/overlays/ratings.yml',
+      ]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('should not follow symlinks out of the directory', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'kometa-outside-'));
+    const root = await mkdtemp(join(tmpdir(), 'kometa-config-'));
+    try {
+      await writeFile(join(outside, 'secrets.yml'), 'collections:\n  Leaked: {}\n');
+      await writeFile(join(root, 'Movies.yml'), 'collections:\n  Test: {}\n');
+      await symlink(join(outside, 'secrets.yml'), join(root, 'Linked.yml'));
+      await symlink(outside, join(root, 'shared'));
+      await symlink(join(root, 'Movies.yml'), join(root, 'Alias.yml'));
+      await writeFile(
+        join(root, 'config.yml'),
+        [
+          'libraries:',
+          '  Movies:',
+          '    collection_files:',
+          '      - file: config/Linked.yml',
+          '      - file: config/shared/secrets.yml',
+          '      - file: config/Alias.yml',
+          '',
+        ].join('\n')
+      );
+
+      const files = await readKometaDirectory(root);
+      expect(files.map((file) => file.path)).toEqual(['config.yml', 'Alias.yml']);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject paths that are not a config directory', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'kometa-config-'));
+    try {
+      await expect(readKometaDirectory(join(root, 'missing'))).rejects.toThrow(
+        'is not a directory'
+      );
+      await expect(readKometaDirectory(root)).rejects.toThrow('does not contain a config.yml');
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,319 @@
+import YAML from 'yaml';
+import { posix, resolve, sep } from 'node:path';
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { KometaConfig, Library, LocalFiles, ProjectFile } from '@kometa-studio/shared';
+import type { ProfileRecord } from '../db/profile.repository.js';
+import { generateYaml, type YamlMode } from './generator.js';
+import { parseKometaDocument } from './parser.js';
+import { toSourceYaml } from './document.js';
+
+export const PROJECT_CONFIG_FILE = 'config.yml';
+
+/**
+ * File lists that can reference local files, and the project directory each
+ * kind is written to. Playlist files are listed at the top level, the others
+ * per library.
+ */
+const FILE_KINDS = {
+  collection_files: 'collections',
+  overlay_files: 'overlays',
+  metadata_files: 'metadata',
+  playlist_files: 'playlists',
+} as const;
+
+type FileKind = keyof typeof FILE_KINDS;
+
+const LIBRARY_FILE_KINDS = ['collection_files', 'overlay_files', 'metadata_files'] as const;
+
+interface ExportProjectOptions {
+  config: KometaConfig;
+  profile?: ProfileRecord;
+  mode: YamlMode;
+  includeComment?: boolean;
+  /** Prefix Kometa resolves `file:` paths against, "config/" in the official Docker image */
+  pathPrefix?: string;
+  /** Imported config.yml to patch, see generateYaml */
+  sourceYaml?: string;
+}
+
+export interface ImportedProject {
+  config: KometaConfig;
+  /** Raw config.yml content, used to extract secrets into a profile */
+  yaml: string;
+  /** config.yml with secrets blanked, stored to keep its comments and key order */
+  sourceYaml: string;
+  /** `file:` references that did not match any file in the project */
+  unresolved: string[];
+}
+
+/**
+ * Normalizes a project path to a relative POSIX path without leading "./" or "/"
+ */
+function normalizePath(filePath: string): string {
+  const normalized = posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+  return normalized === '.' ? '' : normalized;
+}
+
+/**
+ * Returns the first path not already taken, appending -2, -3, ... to the file name
+ */
+function uniquePath(filePath: string, used: Set<string>): string {
+  const ext = posix.extname(filePath);
+  const stem = filePath.slice(0, filePath.length - ext.length);
+  let candidate = filePath;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${stem}-${i}${ext}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * Guesses the kind of a local file that no library references from its top-level keys
+ */
+function inferFileKind(content: Record<string, unknown>): FileKind {
+  if ('overlays' in content) return 'overlay_files';
+  if ('metadata' in content) return 'metadata_files';
+  if ('playlists' in content) return 'playlist_files';
+  return 'collection_files';
+}
+
+function stringifyFile(content: unknown): string {
+  return YAML.stringify(content, { indent: 2, lineWidth: 0, minContentWidth: 0 });
+}
+
+/**
+ * Splits a config into a Kometa project: config.yml plus one file per locally
+ * defined collection, overlay, metadata and playlist file. `file:` entries pointing at
+ * local files are rewritten to where those files land in the project.
+ */
+export function exportKometaProject(options: ExportProjectOptions): ProjectFile[] {
+  const { config, pathPrefix = 'config/', ...generateOptions } = options;
+  const localFiles = config.local_files ?? {};
+  const prefix = pathPrefix && !pathPrefix.endsWith('/') ? `${pathPrefix}/` : pathPrefix;
+
+  // Original `file:` path -> path inside the project
+  const projectPaths = new Map<string, string>();
+  const usedPaths = new Set<string>([PROJECT_CONFIG_FILE]);
+
+  const assignPath = (original: string, kind: FileKind): string => {
+    let projectPath = projectPaths.get(original);
+    if (!projectPath) {
+      projectPath = uniquePath(`${FILE_KINDS[kind]}/${posix.basename(original)}`, usedPaths);
+      projectPaths.set(original, projectPath);
+    }
+    return projectPath;
+  };
+
+  let libraries: Record<string, Library> | undefined;
+  if (config.libraries) {
+    libraries = {};
+    for (const [libraryName, library] of Object.entries(config.libraries)) {
+      const rewritten: Library = { ...library };
+      for (const kind of LIBRARY_FILE_KINDS) {
+        rewritten[kind] = library[kind]?.map((entry) =>
+          'file' in entry && localFiles[entry.file]
+            ? { ...entry, file: prefix + assignPath(entry.file, kind) }
+            : entry
+        );
+      }
+      libraries[libraryName] = rewritten;
+    }
+  }
+
+  const playlistFiles = config.playlist_files?.map((entry) =>
+    'file' in entry && localFiles[entry.file]
+      ? { ...entry, file: prefix + assignPath(entry.file, 'playlist_files') }
+      : entry
+  );
+
+  // Files no library references are still part of the project
+  for (const [original, content] of Object.entries(localFiles)) {
+    assignPath(original, inferFileKind(content));
+  }
+
+  const files: ProjectFile[] = [
+    {
+      path: PROJECT_CONFIG_FILE,
+      content: generateYaml({
+        ...generateOptions,
+        config: { ...config, libraries, playlist_files: playlistFiles },
+      }),
+    },
+  ];
+
+  const sorted = [...projectPaths.entries()].sort(([, a], [, b]) => a.localeCompare(b));
+  for (const [original, projectPath] of sorted) {
+    files.push({ path: projectPath, content: stringifyFile(localFiles[original]) });
+  }
+
+  return files;
+}
+
+/**
+ * Finds the project's config.yml, preferring the one closest to the root
+ */
+function findConfigFile(paths: string[]): string | undefined {
+  return paths
+    .filter((p) => ['config.yml', 'config.yaml'].includes(posix.basename(p)))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+}
+
+/**
+ * Resolves a `file:` reference against the project. Kometa paths are usually
+ * written relative to the Kometa root ("config/Movies.yml") or as Docker
+ * absolute paths ("/config/Movies.yml"), so leading directories are dropped
+ * one at a time until the reference matches a file next to config.yml.
+ */
+function resolveReference(
+  reference: string,
+  configDir: string,
+  files: Map<string, string>
+): string | undefined {
+  const normalized = normalizePath(reference);
+  if (files.has(normalized)) return normalized;
+
+  const segments = normalized.split('/');
+  for (let i = 0; i < segments.length; i++) {
+    const candidate = posix.join(configDir, ...segments.slice(i));
+    if (files.has(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Every `file:` reference of the libraries and playlist files
+ */
+function fileReferences(config: KometaConfig): string[] {
+  const entries = [
+    ...Object.values(config.libraries ?? {}).flatMap((library) =>
+      LIBRARY_FILE_KINDS.flatMap((kind) => library[kind] ?? [])
+    ),
+    ...(config.playlist_files ?? []),
+  ];
+  return entries.flatMap((entry) => ('file' in entry ? [entry.file] : []));
+}
+
+/**
+ * Reassembles a Kometa project into a single config. Every `file:` reference
+ * that resolves to a file in the project is stored in `local_files` under the
+ * path it was referenced by.
+ */
+export function importKometaProject(files: ProjectFile[], preserveExtras = true): ImportedProject {
+  const byPath = new Map(files.map((file) => [normalizePath(file.path), file.content]));
+
+  const configPath = findConfigFile([...byPath.keys()]);
+  if (!configPath) {
+    throw new Error(`Project does not contain a ${PROJECT_CONFIG_FILE}`);
+  }
+
+  const yaml = byPath.get(configPath) as string;
+  const { config, document } = parseKometaDocument(yaml, preserveExtras);
+  const configDir = posix.dirname(configPath) === '.' ? '' : posix.dirname(configPath);
+
+  const localFiles: LocalFiles = {};
+  const unresolved = new Set<string>();
+
+  for (const reference of fileReferences(config)) {
+    if (reference in localFiles) continue;
+
+    const match = resolveReference(reference, configDir, byPath);
+    if (!match) {
+      unresolved.add(reference);
+      continue;
+    }
+
+    let content: unknown;
+    try {
+      content = YAML.parse(byPath.get(match) as string);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Invalid YAML in ${match}: ${message}`);
+    }
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error(`Invalid YAML in ${match}: expected an object`);
+    }
+    localFiles[reference] = content as Record<string, unknown>;
+  }
+
+  if (Object.keys(localFiles).length > 0) {
+    config.local_files = localFiles;
+  }
+
+  return { config, yaml, sourceYaml: toSourceYaml(document), unresolved: [...unresolved] };
+}
+
+/**
+ * Reads a Kometa config directory on disk as a project: its config.yml plus
+ * the YAML files its `file:` references point to. References are resolved the
+ * way importKometaProject resolves them, and never outside the directory, also
+ * not through symlinks; anything not found is left for the import to report
+ * as unresolved.
+ */
+export async function readKometaDirectory(
+  directory: string,
+  preserveExtras = true
+): Promise<ProjectFile[]> {
+  const root = await realpath(resolve(directory)).catch(() => resolve(directory));
+  const info = await stat(root).catch(() => undefined);
+  if (!info?.isDirectory()) {
+    throw new Error(`${root} is not a directory`);
+  }
+
+  // Files are checked by the path their symlinks lead to, the one that is read
+  const readYaml = async (file: string) => {
+    const target = await realpath(file).catch(() => undefined);
+    if (!target?.startsWith(root + sep)) return undefined;
+    return readFile(target, 'utf8').catch(() => undefined);
+  };
+
+  let files: ProjectFile[] = [];
+  for (const name of ['config.yml', 'config.yaml']) {
+    const content = await readYaml(resolve(root, name));
+    if (content !== undefined) {
+      files = [{ path: name, content }];
+      break;
+    }
+  }
+  if (files.length === 0) {
+    throw new Error(`${root} does not contain a ${PROJECT_CONFIG_FILE}`);
+  }
+
+  const { config } = parseKometaDocument(files[0].content, preserveExtras);
+  const read = new Set<string>();
+  for (const reference of fileReferences(config)) {
+    const segments = normalizePath(reference).split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const projectPath = posix.join(...segments.slice(i));
+      const file = resolve(root, projectPath);
+      if (!file.startsWith(root + sep) || !/\.ya?ml$/i.test(file)) continue;
+      if (read.has(projectPath)) break;
+
+      const content = await readYaml(file);
+      if (content === undefined) continue;
+      read.add(projectPath);
+      files.push({ path: projectPath, content });
+      break;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Packs project files into a zip archive
+ */
+export function zipProject(files: ProjectFile[]): Uint8Array {
+  return zipSync(Object.fromEntries(files.map((file) => [file.path, strToU8(file.content)])));
+}
+
+/**
+ * Unpacks the YAML files of a zip archive, ignoring directories and other files
+ */
+export function unzipProject(data: Uint8Array): ProjectFile[] {
+  const entries = unzipSync(data, {
+    filter: (file) => /\.ya?ml$/i.test(file.name) && !file.name.startsWith('__MACOSX/'),
+  });
+  return Object.entries(entries).map(([path, content]) => ({ path, content: strFromU8(content) }));
+}
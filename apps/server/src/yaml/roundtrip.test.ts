@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { parseKometaYaml, extractSecretsFromYaml } from './parser';
+import { parseKometaYaml, parseKometaDocument, extractSecretsFromYaml } from './parser';
 import { generateYaml } from './generator';
+import { toSourceYaml } from './document';
 
 /**
  * YAML Round-Trip Test Suite
@@ -10,9 +11,10 @@ import { generateYaml } from './generator';
  * 2. Unknown keys are preserved in extras fields
  * 3. Edge cases are handled correctly
  *
+ * 4. Comments, anchors and key order survive when the imported document is kept
+ *
  * Known limitations (documented):
- * - YAML comments are not preserved (standard YAML behavior)
- * - Key ordering may change (semantic equivalence maintained)
+ * - Without a source document, comments and key order are not preserved
  * - Secrets are extracted to profiles, not preserved in config
  */
 
@@ -688,24 +690,540 @@ tmdb:
       expect(generatedYaml).not.toContain('http://plex.local:32400');
     });
   });
+
+  describe('Notification Integrations', () => {
+    const notificationsYaml = `webhooks:
+  error: notifiarr
+  run_end:
+    - notifiarr
+    - https://discord.com/api/webhooks/123/abc
+  changes: https://discord.com/api/webhooks/456/def
+notifiarr:
+  apikey: notifiarr_key
+gotify:
+  url: http://gotify.local
+  token: gotify_token
+ntfy:
+  url: https://ntfy.sh
+  token: ntfy_token
+  topic: kometa
+`;
+
+    const toProfile = (secrets: ReturnType<typeof extractSecretsFromYaml>) => ({
+      id: 'test',
+      name: 'Test Profile',
+      secrets,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    it('should move tokens and custom webhook URLs into the profile', () => {
+      const config = parseKometaYaml(notificationsYaml);
+      const secrets = extractSecretsFromYaml(notificationsYaml);
+
+      expect(config.webhooks).toEqual({ error: ['notifiarr'], run_end: ['notifiarr'] });
+      expect(config.notifiarr).toEqual({ enabled: true });
+      expect(config.gotify).toEqual({ enabled: true });
+      expect(config.ntfy).toEqual({ enabled: true, topic: 'kometa' });
+      expect(config.extras).toBeUndefined();
+
+      expect(secrets.notifiarr).toEqual({ apikey: 'notifiarr_key' });
+      expect(secrets.gotify).toEqual({ url: 'http://gotify.local', token: 'gotify_token' });
+      expect(secrets.ntfy).toEqual({ url: 'https://ntfy.sh', token: 'ntfy_token' });
+      expect(secrets.webhooks).toEqual({
+        run_end: ['https://discord.com/api/webhooks/123/abc'],
+        changes: ['https://discord.com/api/webhooks/456/def'],
+      });
+    });
+
+    it('should put the secrets back in full mode only', () => {
+      const config = parseKometaYaml(notificationsYaml);
+      const profile = toProfile(extractSecretsFromYaml(notificationsYaml));
+
+      const full = generateYaml({ config, profile, mode: 'full', includeComment: false });
+      expect(parseKometaYaml(full)).toEqual(config);
+      expect(extractSecretsFromYaml(full)).toEqual(profile.secrets);
+
+      const template = generateYaml({ config, profile, mode: 'template', includeComment: false });
+      expect(template).not.toContain('discord.com');
+      expect(template).not.toContain('_token');
+      expect(template).toContain('error: notifiarr');
+    });
+
+    it('should blank custom webhook URLs in the stored source', () => {
+      const { config, document } = parseKometaDocument(notificationsYaml);
+      const sourceYaml = toSourceYaml(document);
+      const profile = toProfile(extractSecretsFromYaml(notificationsYaml));
+
+      expect(sourceYaml).not.toContain('discord.com');
+      expect(sourceYaml).not.toContain('notifiarr_key');
+      expect(generateYaml({ config, profile, mode: 'full', sourceYaml })).toBe(notificationsYaml);
+    });
+  });
+
+  describe('Metadata Integrations', () => {
+    const metadataYaml = `omdb:
+  apikey: omdb_key
+  cache_expiration: 60
+anidb:
+  client: kometa
+  version: 1
+  language: en
+  enable_mature: true
+  username: anidb_user
+  password: anidb_password
+mal:
+  client_id: mal_client
+  client_secret: mal_secret
+  localhost_url: http://localhost/?code=abc
+  authorization:
+    access_token: mal_access
+    token_type: Bearer
+    expires_in: 2678400
+    refresh_token: mal_refresh
+github:
+  token: github_token
+`;
+
+    it('should move credentials into the profile', () => {
+      const config = parseKometaYaml(metadataYaml);
+      const secrets = extractSecretsFromYaml(metadataYaml);
+
+      expect(config.omdb).toEqual({ enabled: true, cache_expiration: 60 });
+      expect(config.anidb).toEqual({
+        enabled: true,
+        client: 'kometa',
+        version: 1,
+        language: 'en',
+        enable_mature: true,
+      });
+      expect(config.mal).toEqual({
+        enabled: true,
+        client_id: 'mal_client',
+        localhost_url: 'http://localhost/?code=abc',
+      });
+      expect(config.github).toEqual({ enabled: true });
+      expect(config.extras).toBeUndefined();
+
+      expect(secrets.omdb).toEqual({ apikey: 'omdb_key' });
+      expect(secrets.anidb).toEqual({ username: 'anidb_user', password: 'anidb_password' });
+      expect(secrets.mal).toEqual({
+        client_secret: 'mal_secret',
+        authorization: {
+          access_token: 'mal_access',
+          token_type: 'Bearer',
+          expires_in: 2678400,
+          refresh_token: 'mal_refresh',
+        },
+      });
+      expect(secrets.github).toEqual({ token: 'github_token' });
+    });
+
+    it('should round trip with the profile and mask tokens', () => {
+      const config = parseKometaYaml(metadataYaml);
+      const profile = {
+        id: 'test',
+        name: 'Test Profile',
+        secrets: extractSecretsFromYaml(metadataYaml),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      const full = generateYaml({ config, profile, mode: 'full', includeComment: false });
+      expect(parseKometaYaml(full)).toEqual(config);
+      expect(extractSecretsFromYaml(full)).toEqual(profile.secrets);
+
+      const masked = generateYaml({ config, profile, mode: 'masked', includeComment: false });
+      expect(masked).not.toContain('mal_access');
+      expect(masked).not.toContain('anidb_password');
+      expect(masked).toContain('token_type: Bearer');
+    });
+  });
+
+  describe('Library Plex Servers', () => {
+    const librariesYaml = `plex:
+  url: http://main:32400
+  token: main_token
+libraries:
+  Movies:
+    collection_files:
+      - default: imdb
+  Movies 4K:
+    plex:
+      url: http://uhd:32400
+      token: uhd_token
+      timeout: 120
+    collection_files:
+      - default: imdb
+  TV Shows 4K:
+    plex:
+      url: http://uhd:32400
+      token: uhd_token
+    collection_files:
+      - default: imdb
+`;
+
+    it('should store library servers by name in the profile', () => {
+      const config = parseKometaYaml(librariesYaml);
+      const secrets = extractSecretsFromYaml(librariesYaml);
+
+      expect(config.libraries?.['Movies 4K'].plex).toEqual({ server: 'Movies 4K', timeout: 120 });
+      expect(config.libraries?.['TV Shows 4K'].plex).toEqual({ server: 'Movies 4K' });
+      expect(config.libraries?.Movies.plex).toBeUndefined();
+      expect(secrets.plex_servers).toEqual({
+        'Movies 4K': { url: 'http://uhd:32400', token: 'uhd_token' },
+      });
+    });
+
+    it('should inject library servers in full and masked modes only', () => {
+      const { config, document } = parseKometaDocument(librariesYaml);
+      const profile = {
+        id: 'test',
+        name: 'Test Profile',
+        secrets: extractSecretsFromYaml(librariesYaml),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      const sourceYaml = toSourceYaml(document);
+      expect(sourceYaml).not.toContain('uhd_token');
+
+      expect(generateYaml({ config, profile, mode: 'full', sourceYaml })).toBe(librariesYaml);
+
+      const masked = generateYaml({ config, profile, mode: 'masked', includeComment: false });
+      expect(masked).toContain('url: http://uhd:32400');
+      expect(masked).not.toContain('uhd_token');
+
+      const template = generateYaml({ config, profile, mode: 'template', includeComment: false });
+      expect(template).not.toContain('http://uhd:32400');
+      expect(template).toContain('timeout: 120');
+    });
+  });
+
+  describe('Library Operations', () => {
+    const operationsYaml = `libraries:
+  Movies:
+    operations:
+      mass_genre_update:
+        - imdb
+        - tmdb
+        - Unknown
+      mass_critic_rating_update: mdb_tomatoes
+      mass_originally_available_update:
+        - mdb_digital
+        - 2000-01-01
+      mass_poster_update:
+        source: tmdb
+        ignore_locked: true
+      delete_collections:
+        managed: true
+        less: 2
+      genre_mapper:
+        Sci-Fi & Fantasy: Science Fiction
+        Talk: null
+      mass_future_update: tmdb
+`;
+
+    it('should type known operations and keep unknown ones in extras', () => {
+      const config = parseKometaYaml(operationsYaml);
+      const operations = config.libraries?.Movies.operations;
+
+      expect(operations?.mass_genre_update).toEqual(['imdb', 'tmdb', 'Unknown']);
+      expect(operations?.mass_poster_update).toEqual({ source: 'tmdb', ignore_locked: true });
+      expect(operations?.extras).toEqual({ mass_future_update: 'tmdb' });
+
+      const generatedYaml = generateYaml({ config, mode: 'template', includeComment: false });
+      expect(generatedYaml).toContain('mass_future_update: tmdb');
+      expect(parseKometaYaml(generatedYaml)).toEqual(config);
+    });
+
+    it('should reject a source an operation does not accept', () => {
+      expect(() =>
+        parseKometaYaml(`libraries:
+  Movies:
+    operations:
+      mass_imdb_parental_labels: extreme
+`)
+      ).toThrow();
+    });
+  });
+
+  describe('Source Document Preservation', () => {
+    const regenerate = (
+      yaml: string,
+      edit: (config: ReturnType<typeof parseKometaYaml>) => void = () => {}
+    ) => {
+      const { config, document } = parseKometaDocument(yaml);
+      edit(config);
+      return generateYaml({ config, mode: 'template', sourceYaml: toSourceYaml(document) });
+    };
+
+    it('should reproduce a commented config unchanged', () => {
+      const originalYaml = `# Main Kometa config
+# maintained by hand
+
+libraries:
+  # 4K and HD movies
+  Movies:
+    collection_files:
+      - default: imdb # IMDb charts
+      # - default: tmdb
+      - file: config/Movies.yml
+
+settings:
+  cache: true # keep the cache
+  cache_expiration: 60
+`;
+
+      expect(regenerate(originalYaml)).toBe(originalYaml);
+    });
+
+    it('should keep anchors, aliases and merge keys', () => {
+      const originalYaml = `libraries:
+  Movies:
+    template_variables: &shared
+      use_separator: false
+      sep_style: gray
+    collection_files:
+      - default: imdb
+  Anime:
+    template_variables: *shared
+    settings:
+      <<: &asset_settings
+        asset_directory: config/assets
+      asset_depth: 1
+  Shows:
+    settings:
+      <<: *asset_settings
+`;
+
+      expect(regenerate(originalYaml)).toBe(originalYaml);
+    });
+
+    it('should keep custom key order', () => {
+      const originalYaml = `libraries:
+  Movies:
+    operations:
+      mass_critic_rating_update: imdb
+    collection_files:
+      - default: imdb
+    schedule: weekly(sunday)
+tmdb:
+  region: US
+  language: en
+settings:
+  sync_mode: sync
+  cache: false
+`;
+
+      expect(regenerate(originalYaml)).toBe(originalYaml);
+    });
+
+    it('should patch only what changed', () => {
+      const originalYaml = `settings:
+  cache: true # keep the cache
+  cache_expiration: 60
+
+libraries:
+  # Main library
+  Movies:
+    collection_files:
+      - default: imdb # IMDb charts
+`;
+
+      const output = regenerate(originalYaml, (config) => {
+        config.settings!.cache_expiration = 120;
+        config.libraries!.Movies.collection_files!.push({ default: 'tmdb' });
+        config.libraries!.Shows = { collection_files: [{ default: 'network' }] };
+      });
+
+      expect(output).toBe(`settings:
+  cache: true # keep the cache
+  cache_expiration: 120
+
+libraries:
+  # Main library
+  Movies:
+    collection_files:
+      - default: imdb # IMDb charts
+      - default: tmdb
+  Shows:
+    collection_files:
+      - default: network
+`);
+    });
+
+    it('should blank secrets in the stored source and fill them in place', () => {
+      const originalYaml = `plex:
+  url: http://plex.local:32400 # LAN address
+  token: original_token
+  timeout: 60
+`;
+      const { config, document } = parseKometaDocument(originalYaml);
+      const sourceYaml = toSourceYaml(document);
+      const profile = {
+        id: 'test',
+        name: 'Test Profile',
+        secrets: { plex: { url: 'http://plex.local:32400', token: 'new_token' } },
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      expect(sourceYaml).not.toContain('original_token');
+      expect(sourceYaml).not.toContain('http://plex.local:32400');
+      expect(generateYaml({ config, profile, mode: 'full', sourceYaml })).toBe(`plex:
+  url: http://plex.local:32400 # LAN address
+  token: new_token
+  timeout: 60
+`);
+      expect(generateYaml({ config, profile, mode: 'template', sourceYaml })).toBe(`plex:
+  timeout: 60
+`);
+    });
+
+    it('should fall back to a full rewrite when a shared block diverges', () => {
+      const originalYaml = `libraries:
+  Movies:
+    template_variables: &shared
+      sep_style: gray
+  Shows:
+    template_variables: *shared
+`;
+
+      const output = regenerate(originalYaml, (config) => {
+        config.libraries!.Shows.template_variables = { sep_style: 'blue' };
+      });
+      const reparsed = parseKometaYaml(output);
+
+      expect(reparsed.libraries?.Movies.template_variables).toEqual({ sep_style: 'gray' });
+      expect(reparsed.libraries?.Shows.template_variables).toEqual({ sep_style: 'blue' });
+    });
+  });
+
+  describe('Anchors and Merge Keys', () => {
+    const anchoredYaml = `libraries:
+  Movies:
+    template_variables: &shared
+      use_separator: false
+      sep_style: gray
+    settings:
+      <<: &asset_settings
+        asset_directory: config/assets
+        asset_depth: 1
+  Anime:
+    template_variables: *shared
+    settings:
+      <<: *asset_settings
+      asset_depth: 2
+  Shows:
+    template_variables: *shared
+`;
+
+    it('should resolve aliases and merge keys into plain values', () => {
+      const config = parseKometaYaml(anchoredYaml);
+
+      expect(config.libraries?.Shows.template_variables).toEqual({
+        use_separator: false,
+        sep_style: 'gray',
+      });
+      expect(config.libraries?.Anime.settings).toEqual({
+        asset_directory: 'config/assets',
+        asset_depth: 2,
+      });
+    });
+
+    it('should record where each anchor is used', () => {
+      const config = parseKometaYaml(anchoredYaml);
+
+      expect(config.anchors).toEqual({
+        shared: {
+          value: { use_separator: false, sep_style: 'gray' },
+          uses: [
+            { path: ['libraries', 'Movies', 'template_variables'] },
+            { path: ['libraries', 'Anime', 'template_variables'] },
+            { path: ['libraries', 'Shows', 'template_variables'] },
+          ],
+        },
+        asset_settings: {
+          value: { asset_directory: 'config/assets', asset_depth: 1 },
+          uses: [
+            { path: ['libraries', 'Movies', 'settings'], merge: true },
+            { path: ['libraries', 'Anime', 'settings'], merge: true },
+          ],
+        },
+      });
+    });
+
+    it('should re-emit anchors and aliases without a source document', () => {
+      const config = parseKometaYaml(anchoredYaml);
+      const generated = generateYaml({ config, mode: 'template', includeComment: false });
+
+      expect(generated).toBe(`libraries:
+  Movies:
+    template_variables: &shared
+      use_separator: false
+      sep_style: gray
+    settings:
+      <<: &asset_settings
+        asset_directory: config/assets
+        asset_depth: 1
+  Anime:
+    template_variables: *shared
+    settings:
+      <<: *asset_settings
+      asset_depth: 2
+  Shows:
+    template_variables: *shared
+`);
+    });
+
+    it('should write a diverged use out in full and keep the rest shared', () => {
+      const config = parseKometaYaml(anchoredYaml);
+      config.libraries!.Anime.template_variables = { use_separator: true, sep_style: 'gray' };
+
+      const generated = generateYaml({ config, mode: 'template', includeComment: false });
+      const reparsed = parseKometaYaml(generated);
+
+      expect(generated).toContain('template_variables: *shared');
+      expect(generated.match(/\*shared/g)).toHaveLength(1);
+      expect(reparsed.libraries?.Anime.template_variables).toEqual({
+        use_separator: true,
+        sep_style: 'gray',
+      });
+      expect(reparsed.libraries?.Shows.template_variables).toEqual({
+        use_separator: false,
+        sep_style: 'gray',
+      });
+    });
+
+    it('should not store anchors that hold secrets', () => {
+      const config = parseKometaYaml(`plex:
+  url: &plex_url http://plex.local:32400
+tautulli:
+  url: *plex_url
+`);
+
+      expect(config.anchors).toBeUndefined();
+    });
+  });
 });
 
 /**
  * Known Limitations (Documented)
  *
- * 1. YAML Comments: Comments in the original YAML are not preserved.
- *    This is standard behavior for YAML parsers that parse to objects.
+ * 1. YAML Comments: Without a stored source document (configs created in the
+ *    editor rather than imported), there are no comments to preserve.
  *
- * 2. Key Ordering: The order of keys may change between input and output.
- *    The generator uses a fixed order for consistency:
+ * 2. Key Ordering: Without a source document the generator uses a fixed order:
  *    settings → plex → tmdb → tautulli → mdblist → radarr → sonarr → trakt → libraries
+ *    With one, source order is kept and new keys are appended to their map.
  *
- * 3. Whitespace/Formatting: Exact whitespace and formatting is not preserved.
- *    The generator uses consistent 2-space indentation.
+ * 3. Whitespace/Formatting: Indentation is normalized to 2 spaces, even when
+ *    patching a source document, and a comment trailing a key whose value is a
+ *    nested block (`Movies: # note`) moves to its own line.
  *
  * 4. Secrets Separation: Secrets are extracted to profiles and not stored in configs.
  *    This is intentional for security - configs can be shared without exposing credentials.
  *
- * 5. Anchors/Aliases: YAML anchors and aliases are resolved during parsing.
- *    They are not preserved in the output.
+ * 5. Anchors/Aliases: Anchors and aliases are kept while the shared block is
+ *    unchanged. Editing one library's copy of a shared block rewrites the file.
  */
@@ -0,0 +1,198 @@
+import {
+  hasSecretReference,
+  maskSecret,
+  secretReference,
+  type KometaConfig,
+  type SecretLeak,
+  type SecretLeakReason,
+  type SecretLeakResolution,
+} from '@kometa-studio/shared';
+import { SECRET_PATTERNS, SENSITIVE_KEYS } from '../utils/logger.js';
+
+// URL path segments that look like embedded tokens, such as Discord webhook tokens
+const URL_TOKEN_PATTERN = /^(?=.*[a-z])(?=.*\d)[A-Za-z0-9_-]{32,}$/i;
+
+// Query parameters that carry credentials, next to the sensitive keys
+const URL_CREDENTIAL_PARAMS = ['key', 'auth', 'sig', 'signature'];
+
+/**
+ * Thrown when the findings of an import are not all resolved correctly
+ */
+export class SecretLeakError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretLeakError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEYS.some((sensitiveKey) => key.toLowerCase().includes(sensitiveKey));
+}
+
+/**
+ * Whether a URL carries credentials: a password, a credential query parameter
+ * or a path segment that looks like a token
+ */
+function hasUrlCredentials(value: string): boolean {
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) return false;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.password) return true;
+  for (const [param, paramValue] of url.searchParams) {
+    const name = param.toLowerCase();
+    if (paramValue && (isSensitiveKey(name) || URL_CREDENTIAL_PARAMS.includes(name))) return true;
+  }
+  return url.pathname
+    .split('/')
+    .some(
+      (segment) =>
+        URL_TOKEN_PATTERN.test(segment) || SECRET_PATTERNS.some((pattern) => pattern.test(segment))
+    );
+}
+
+function leakReason(key: string, value: string): SecretLeakReason | undefined {
+  if (hasUrlCredentials(value)) return 'url-credentials';
+  if (isSensitiveKey(key)) return 'key';
+  if (SECRET_PATTERNS.some((pattern) => pattern.test(value))) return 'pattern';
+  return undefined;
+}
+
+function toSecretName(part: string): string {
+  return (
+    part
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, '_')
+      .replace(/^_+|_+$/g, '') || 'secret'
+  );
+}
+
+/**
+ * Suggests the extras secret a finding moves to: grouped by its section, or
+ * by library and local file, and named after its key. Unknown top-level keys
+ * are grouped as imported.
+ */
+function suggestName(path: string[], taken: Set<string>): string {
+  const grouped =
+    path[0] === 'extras'
+      ? 'imported'
+      : ['libraries', 'local_files'].includes(path[0])
+        ? path[1]
+        : path[0];
+  const key = [...path].reverse().find((part) => !/^\d+$/.test(part) && part !== 'extras');
+  const base = `${toSecretName(grouped ?? 'imported')}.${toSecretName(key ?? 'secret')}`;
+
+  let name = base;
+  for (let index = 2; taken.has(name); index++) name = `${base}_${index}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Scans every string of an imported config for values that look like secrets.
+ * Known secrets never reach the config, so anything found here would be
+ * stored unencrypted.
+ */
+export function scanForSecrets(config: KometaConfig): SecretLeak[] {
+  const leaks: SecretLeak[] = [];
+  const taken = new Set<string>();
+
+  const visit = (value: unknown, path: string[]) => {
+    if (typeof value === 'string') {
+      const key = [...path].reverse().find((part) => !/^\d+$/.test(part)) ?? '';
+      // Values holding a secret reference already keep their secret in a profile
+      const reason =
+        value.trim() && !hasSecretReference(value) ? leakReason(key, value) : undefined;
+      if (reason) {
+        leaks.push({
+          path,
+          reason,
+          preview: maskSecret(value) ?? '',
+          name: suggestName(path, taken),
+        });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, String(index)]));
+    } else if (isPlainObject(value)) {
+      for (const [key, item] of Object.entries(value)) visit(item, [...path, key]);
+    }
+  };
+
+  visit(config, []);
+  return leaks;
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, index) => part === b[index]);
+}
+
+/**
+ * Findings the resolutions of a request do not cover
+ */
+export function unresolvedLeaks(
+  leaks: SecretLeak[],
+  resolutions: SecretLeakResolution[] = []
+): SecretLeak[] {
+  return leaks.filter((leak) => !resolutions.some(({ path }) => samePath(path, leak.path)));
+}
+
+function valueAt(config: KometaConfig, path: string[]): unknown {
+  let value: unknown = config;
+  for (const part of path) {
+    if (!isPlainObject(value) && !Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+export interface MovedSecrets {
+  /** The config with secret references in place of the moved values */
+  config: KometaConfig;
+  /** Extras secrets to add to the profile, by group and key */
+  extras: Record<string, Record<string, string>>;
+  /** The moved values, to blank out of the stored source */
+  values: string[];
+}
+
+/**
+ * Takes the values resolved with `move` out of a config, leaving a reference
+ * to the extras secret each one moves to in its place
+ */
+export function moveSecrets(
+  config: KometaConfig,
+  resolutions: SecretLeakResolution[]
+): MovedSecrets {
+  const moved = structuredClone(config) as Record<string, unknown>;
+  const extras: Record<string, Record<string, string>> = {};
+  const values: string[] = [];
+
+  for (const resolution of resolutions) {
+    if (resolution.action !== 'move') continue;
+
+    const value = valueAt(config, resolution.path);
+    if (typeof value !== 'string') {
+      throw new SecretLeakError(`Nothing to move at ${resolution.path.join('.')}`);
+    }
+    const name = resolution.name as string;
+    const [group, key] = name.split('.');
+    if (extras[group]?.[key] !== undefined) {
+      throw new SecretLeakError(`Two values are moved to the secret ${name}`);
+    }
+    extras[group] = { ...extras[group], [key]: value };
+    values.push(value);
+
+    const parent = valueAt(moved, resolution.path.slice(0, -1)) as Record<string, unknown>;
+    parent[resolution.path[resolution.path.length - 1]] = secretReference(`extras.${name}`);
+  }
+
+  return { config: moved as KometaConfig, extras, values };
+}
@@ -6,6 +6,8 @@ import { ProfilesPage } from './pages/ProfilesPage';
 import { ImportExportPage } from './pages/ImportExportPage';
 import { OverlayBuilderPage } from './pages/OverlayBuilderPage';
 import { CommunityOverlaysPage } from './pages/CommunityOverlaysPage';
+import { CollectionBuilderPage } from './pages/CollectionBuilderPage';
+import { MetadataEditorPage } from './pages/MetadataEditorPage';
 
 export default function App() {
   return (
@@ -18,6 +20,8 @@ export default function App() {
           <Route path="/import-export" element={<ImportExportPage />} />
           <Route path="/overlay-builder" element={<OverlayBuilderPage />} />
           <Route path="/community-overlays" element={<CommunityOverlaysPage />} />
+          <Route path="/collection-builder" element={<CollectionBuilderPage />} />
+          <Route path="/metadata-editor" element={<MetadataEditorPage />} />
         </Routes>
       </IDELayout>
     </BrowserRouter>
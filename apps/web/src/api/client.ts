@@ -6,6 +6,20 @@ import type {
   UpdateConfigInput,
   CreateProfileInput,
   UpdateProfileInput,
+  BackupArchive,
+  RestoreMode,
+  RestoreReport,
+  ProjectFile,
+  ValidationIssue,
+  RuleSettings,
+  LintRuleInfo,
+  KometaDefaultInfo,
+  SecretLeak,
+  SecretLeakHandlingInput,
+  RenderYamlResponse,
+  SemanticChange,
+  MergeConflict,
+  YamlMode,
 } from '@kometa-studio/shared';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://127.0.0.1:3001';
@@ -16,10 +30,63 @@ export interface ConfigEntity {
   name: string;
   description?: string;
   config: KometaConfig;
+  ruleSettings?: RuleSettings;
+  /** Config this one inherits from; `config` is then resolved against it */
+  parentId?: string;
+  /** What the config changes compared to its parent */
+  overrides?: KometaConfig;
+  /** Set in config lists when the config's parents could not be resolved */
+  inheritanceError?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Immutable snapshot written on every config update
+export interface ConfigRevisionSummary {
+  configId: string;
+  revision: number;
+  name: string;
+  description?: string;
+  /** Config it inherited from at the time */
+  parentId?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface ConfigRevision extends ConfigRevisionSummary {
+  /** The config as it was resolved at the time */
+  config: KometaConfig;
+  /** What the config stored itself, when it inherited from a parent */
+  overrides?: KometaConfig;
+}
+
+export interface ConfigRevisionDiff {
+  from: number;
+  to: number;
+  changes: SemanticChange[];
+}
+
+// How a YAML differs from a stored config, see the compare-yaml route
+export interface ConfigComparison {
+  changes: SemanticChange[];
+  /** Three-way merge against the revision both sides started from */
+  merge?: {
+    /** Paths of the changes the merge takes from the YAML */
+    taken: string[][];
+    conflicts: MergeConflict[];
+    /** The conflicts with git-style conflict markers */
+    markers: string;
+  };
+}
+
+// A multi-file project, either as individual files or a base64 encoded zip archive
+export type ProjectUpload = { files: ProjectFile[] } | { zip: string };
+
+export interface ProjectImportResult extends ConfigEntity {
+  profileId?: string;
+  unresolved: string[];
+}
+
 export interface ProfileEntity {
   id: string;
   name: string;
@@ -44,17 +111,11 @@ export interface OverlayFileEntry {
   customFilePath?: string;
 }
 
-// Validation result
+// Validation result, with each issue located in the rendered YAML when possible
 export interface ValidationResult {
   valid: boolean;
-  errors: Array<{
-    path: string;
-    message: string;
-  }>;
-  warnings: Array<{
-    path: string;
-    message: string;
-  }>;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
 }
 
 // TMDB Types
@@ -81,6 +142,7 @@ export interface TmdbMovieDetails extends TmdbSearchResult {
 }
 
 export interface TmdbTVDetails extends TmdbSearchResult {
+  external_ids?: { tvdb_id?: number | null; imdb_id?: string | null };
   number_of_seasons: number;
   number_of_episodes: number;
   genres: Array<{ id: number; name: string }>;
@@ -121,6 +183,14 @@ export interface TmdbEpisodeDetails {
   vote_average: number;
 }
 
+export interface TmdbCollectionDetails {
+  id: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  parts: TmdbSearchResult[];
+}
+
 export interface TmdbFindResult {
   movie_results: TmdbSearchResult[];
   tv_results: TmdbSearchResult[];
@@ -142,6 +212,8 @@ export interface PlexMetadata {
   duration?: number;
   Media?: PlexMedia[];
   Rating?: PlexRating[];
+  /** External IDs such as `tmdb://603`, only returned when requested */
+  Guid?: Array<{ id: string }>;
   [key: string]: unknown;
 }
 
@@ -177,19 +249,28 @@ export interface PlexMediaContainer {
   };
 }
 
+/** Library being previewed, so the proxy can use the library's own Plex server */
+export interface PlexLibraryTarget {
+  configId: string;
+  library: string;
+}
+
 // API Error
 export class ApiError extends Error {
   constructor(
     message: string,
     public status: number,
-    public details?: unknown
+    public details?: unknown,
+    public issues?: ValidationIssue[],
+    /** Imported values that look like secrets, when an import is refused for them */
+    public leaks?: SecretLeak[]
   ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
-async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+async function send(endpoint: string, options: RequestInit = {}): Promise<Response> {
   const url = `${API_BASE_URL}${endpoint}`;
 
   const response = await fetch(url, {
@@ -205,13 +286,25 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
     throw new ApiError(
       (errorData as { error?: string }).error || 'Request failed',
       response.status,
-      (errorData as { details?: unknown }).details
+      (errorData as { details?: unknown }).details,
+      (errorData as { issues?: ValidationIssue[] }).issues,
+      (errorData as { leaks?: SecretLeak[] }).leaks
     );
   }
 
+  return response;
+}
+
+async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  const response = await send(endpoint, options);
   return response.json() as Promise<T>;
 }
 
+async function requestBlob(endpoint: string, options: RequestInit = {}): Promise<Blob> {
+  const response = await send(endpoint, options);
+  return response.blob();
+}
+
 // Health
 export const healthApi = {
   check: () => request<{ status: string; timestamp: string }>('/api/health'),
@@ -240,22 +333,27 @@ export const configApi = {
       method: 'DELETE',
     }),
 
-  importYaml: (id: string, yaml: string, preserveExtras = true) =>
+  importYaml: (
+    id: string,
+    yaml: string,
+    preserveExtras = true,
+    secretLeaks?: SecretLeakHandlingInput
+  ) =>
     request<ConfigEntity>(`/api/configs/${id}/import-yaml`, {
       method: 'POST',
-      body: JSON.stringify({ yaml, preserveExtras }),
+      body: JSON.stringify({ yaml, preserveExtras, secretLeaks }),
     }),
 
-  renderYaml: (id: string, profileId?: string, mode = 'masked', includeComment = true) =>
-    request<{ yaml: string }>(`/api/configs/${id}/render-yaml`, {
+  renderYaml: (id: string, profileId?: string, mode: YamlMode = 'masked', includeComment = true) =>
+    request<RenderYamlResponse>(`/api/configs/${id}/render-yaml`, {
       method: 'POST',
       body: JSON.stringify({ profileId, mode, includeComment }),
     }),
 
-  validate: (id: string, profileId?: string) =>
+  validate: (id: string, profileId?: string, mode: YamlMode = 'masked') =>
     request<ValidationResult>(`/api/configs/${id}/validate`, {
       method: 'POST',
-      body: JSON.stringify({ profileId }),
+      body: JSON.stringify({ profileId, mode }),
     }),
 
   exportJson: (id: string) =>
@@ -273,6 +371,85 @@ export const configApi = {
 
   getOverlayAssets: (id: string) =>
     request<{ assets: Record<string, string> }>(`/api/configs/${id}/overlay-assets`),
+
+  listRevisions: (id: string) =>
+    request<{ revisions: ConfigRevisionSummary[] }>(`/api/configs/${id}/revisions`),
+
+  getRevision: (id: string, revision: number) =>
+    request<ConfigRevision>(`/api/configs/${id}/revisions/${revision}`),
+
+  diffRevisions: (id: string, revision: number, against?: number) =>
+    request<ConfigRevisionDiff>(
+      `/api/configs/${id}/revisions/${revision}/diff${against !== undefined ? `?against=${against}` : ''}`
+    ),
+
+  restoreRevision: (id: string, revision: number, note?: string) =>
+    request<ConfigEntity>(`/api/configs/${id}/revisions/${revision}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    }),
+
+  compareYaml: (id: string, yaml: string, baseRevision?: number) =>
+    request<ConfigComparison>(`/api/configs/${id}/compare-yaml`, {
+      method: 'POST',
+      body: JSON.stringify({ yaml, baseRevision }),
+    }),
+
+  applyYaml: (id: string, yaml: string, paths: string[][]) =>
+    request<ConfigEntity>(`/api/configs/${id}/apply-yaml`, {
+      method: 'POST',
+      body: JSON.stringify({ yaml, paths }),
+    }),
+
+  exportProject: (id: string, profileId?: string, mode: YamlMode = 'masked') =>
+    requestBlob(`/api/configs/${id}/export-project`, {
+      method: 'POST',
+      body: JSON.stringify({ profileId, mode, format: 'zip' }),
+    }),
+
+  importProject: (
+    id: string,
+    project: ProjectUpload,
+    preserveExtras = true,
+    secretLeaks?: SecretLeakHandlingInput
+  ) =>
+    request<ProjectImportResult>(`/api/configs/${id}/import-project`, {
+      method: 'POST',
+      body: JSON.stringify({ ...project, preserveExtras, secretLeaks }),
+    }),
+
+  importDirectory: (
+    id: string,
+    path: string,
+    preserveExtras = true,
+    secretLeaks?: SecretLeakHandlingInput
+  ) =>
+    request<ProjectImportResult>(`/api/configs/${id}/import-directory`, {
+      method: 'POST',
+      body: JSON.stringify({ path, preserveExtras, secretLeaks }),
+    }),
+
+  fixIssue: (id: string, rule: string, path: string[]) =>
+    request<ConfigEntity>(`/api/configs/${id}/fix`, {
+      method: 'POST',
+      body: JSON.stringify({ rule, path }),
+    }),
+};
+
+// Lint Rule APIs
+export const lintApi = {
+  listRules: () => request<{ rules: LintRuleInfo[] }>('/api/lint-rules'),
+
+  listDefaults: () => request<{ defaults: KometaDefaultInfo[] }>('/api/kometa-defaults'),
+};
+
+// Schedules
+export const scheduleApi = {
+  preview: (schedule: string, from?: string) =>
+    request<{ runs: string[] }>('/api/schedule/preview', {
+      method: 'POST',
+      body: JSON.stringify({ schedule, from }),
+    }),
 };
 
 // Profiles
@@ -316,6 +493,17 @@ export const profileApi = {
     }),
 };
 
+// Full backup and restore
+export const backupApi = {
+  download: () => request<BackupArchive>('/api/backup'),
+
+  restore: (archive: unknown, mode: RestoreMode = 'merge') =>
+    request<RestoreReport>('/api/restore', {
+      method: 'POST',
+      body: JSON.stringify({ archive, mode }),
+    }),
+};
+
 // Proxy APIs - route external API calls through backend
 export const proxyApi = {
   // TMDB
@@ -332,6 +520,12 @@ export const proxyApi = {
         body: JSON.stringify({ profileId, type, id }),
       }),
 
+    getCollection: (profileId: string, id: number) =>
+      request<TmdbCollectionDetails>('/api/proxy/tmdb/get', {
+        method: 'POST',
+        body: JSON.stringify({ profileId, type: 'collection', id }),
+      }),
+
     getSeason: (profileId: string, tvId: number, seasonNumber: number) =>
       request<TmdbSeasonDetails>('/api/proxy/tmdb/season', {
         method: 'POST',
@@ -353,28 +547,47 @@ export const proxyApi = {
 
   // Plex - returns raw Plex MediaContainer responses
   plex: {
-    search: (profileId: string, query: string, type: 'movie' | 'show') =>
+    search: (
+      profileId: string,
+      query: string,
+      type: 'movie' | 'show',
+      target?: PlexLibraryTarget
+    ) =>
       request<PlexMediaContainer>('/api/proxy/plex/search', {
         method: 'POST',
-        body: JSON.stringify({ profileId, query, type }),
+        body: JSON.stringify({ profileId, query, type, ...target }),
       }),
 
-    getSeasons: (profileId: string, showKey: string) =>
+    getSeasons: (profileId: string, showKey: string, target?: PlexLibraryTarget) =>
       request<PlexMediaContainer>('/api/proxy/plex/seasons', {
         method: 'POST',
-        body: JSON.stringify({ profileId, showKey }),
+        body: JSON.stringify({ profileId, showKey, ...target }),
       }),
 
-    getEpisodes: (profileId: string, seasonKey: string) =>
+    getEpisodes: (profileId: string, seasonKey: string, target?: PlexLibraryTarget) =>
       request<PlexMediaContainer>('/api/proxy/plex/episodes', {
         method: 'POST',
-        body: JSON.stringify({ profileId, seasonKey }),
+        body: JSON.stringify({ profileId, seasonKey, ...target }),
       }),
   },
 
   // Connection testing
   testConnection: (
-    service: 'tmdb' | 'plex' | 'radarr' | 'sonarr' | 'tautulli' | 'mdblist' | 'trakt',
+    service:
+      | 'tmdb'
+      | 'plex'
+      | 'radarr'
+      | 'sonarr'
+      | 'tautulli'
+      | 'mdblist'
+      | 'trakt'
+      | 'omdb'
+      | 'anidb'
+      | 'mal'
+      | 'github'
+      | 'notifiarr'
+      | 'gotify'
+      | 'ntfy',
     secrets: Record<string, unknown>
   ) =>
     request<{ success: boolean; message?: string; error?: string; version?: string }>(
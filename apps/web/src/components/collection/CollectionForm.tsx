@@ -0,0 +1,383 @@
+import type {
+  Collection,
+  CollectionBuilder,
+  ImdbChart,
+  PlexSearchBuilder,
+} from '@kometa-studio/shared';
+import styles from './CollectionForm.module.css';
+import {
+  COLLECTION_BUILDERS,
+  COLLECTION_ORDERS,
+  IMDB_CHARTS,
+  PLEX_SEARCH_ATTRIBUTES,
+  PLEX_SEARCH_SORTS,
+  SYNC_MODES,
+} from '../../constants/collection.constants';
+import { ScheduleInput } from '../schedule/ScheduleInput';
+
+interface CollectionFormProps {
+  collection: Collection;
+  onChange: (collection: Collection) => void;
+}
+
+// Attributes edited by this form, everything else is listed as kept
+const FORM_KEYS = [
+  ...Object.keys(COLLECTION_BUILDERS),
+  'filters',
+  'collection_order',
+  'sync_mode',
+  'schedule',
+  'summary',
+  'sort_title',
+];
+
+// Value a builder starts with when it is switched on
+const EMPTY_BUILDERS: Required<Pick<Collection, CollectionBuilder>> = {
+  tmdb_collection: [],
+  trakt_list: [],
+  imdb_chart: 'top_movies',
+  plex_search: { all: {} },
+};
+
+/**
+ * Collapses a list to a single value when it holds one item, like Kometa files usually do
+ */
+function compact<T>(items: T[]): T | T[] {
+  return items.length === 1 ? items[0] : items;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Reads a typed search value: numbers and booleans as such, anything else as text
+ */
+function parseSearchValue(raw: string): unknown {
+  if (raw.trim() !== '' && !isNaN(Number(raw))) return Number(raw);
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  return raw;
+}
+
+function PlexSearchFields({
+  search,
+  onChange,
+}: {
+  search: PlexSearchBuilder;
+  onChange: (search: PlexSearchBuilder) => void;
+}) {
+  const match: 'all' | 'any' = search.any && !search.all ? 'any' : 'all';
+  const conditions = Object.entries(search[match] ?? {});
+
+  const setConditions = (entries: Array<[string, unknown]>) => {
+    onChange({ ...search, [match]: Object.fromEntries(entries) });
+  };
+
+  const setCondition = (index: number, key: string, value: unknown) => {
+    const next = [...conditions];
+    next[index] = [key, value];
+    setConditions(next);
+  };
+
+  const switchMatch = (next: 'all' | 'any') => {
+    const { all: _all, any: _any, ...rest } = search;
+    onChange({ ...rest, [next]: search[match] ?? {} });
+  };
+
+  return (
+    <div className={styles.builderFields}>
+      <div className={styles.inline}>
+        <label className={styles.fieldLabel}>Match</label>
+        <select
+          value={match}
+          onChange={(e) => switchMatch(e.target.value as 'all' | 'any')}
+          className={styles.select}
+        >
+          <option value="all">all conditions</option>
+          <option value="any">any condition</option>
+        </select>
+      </div>
+
+      {conditions.map(([key, value], index) => {
+        const nested = typeof value === 'object' && value !== null && !Array.isArray(value);
+        return (
+          <div key={index} className={styles.inline}>
+            <input
+              type="text"
+              list="plex-search-attributes"
+              value={key}
+              onChange={(e) => setCondition(index, e.target.value, value)}
+              className={styles.input}
+              placeholder="genre"
+            />
+            <input
+              type="text"
+              value={nested ? JSON.stringify(value) : toArray(value).join(', ')}
+              disabled={nested}
+              onChange={(e) => {
+                const values = e.target.value
+                  .split(',')
+                  .map((item) => item.trim())
+                  .filter(Boolean)
+                  .map(parseSearchValue);
+                setCondition(index, key, values.length > 1 ? values : (values[0] ?? ''));
+              }}
+              className={styles.input}
+              placeholder="Action, Comedy"
+              title={nested ? 'Nested blocks are kept as they are' : undefined}
+            />
+            <button
+              type="button"
+              onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+              className={styles.deleteButton}
+              title="Remove condition"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <datalist id="plex-search-attributes">
+        {PLEX_SEARCH_ATTRIBUTES.map((attribute) => (
+          <option key={attribute} value={attribute} />
+        ))}
+      </datalist>
+      <button
+        type="button"
+        onClick={() => setConditions([...conditions, ['', '']])}
+        className={styles.addButton}
+      >
+        + Add condition
+      </button>
+
+      <div className={styles.inline}>
+        <label className={styles.fieldLabel}>Sort by</label>
+        <select
+          value={search.sort_by ?? ''}
+          onChange={(e) => onChange({ ...search, sort_by: e.target.value || undefined })}
+          className={styles.select}
+        >
+          <option value="">Plex default</option>
+          {[...new Set([...PLEX_SEARCH_SORTS, ...(search.sort_by ? [search.sort_by] : [])])].map(
+            (sort) => (
+              <option key={sort} value={sort}>
+                {sort}
+              </option>
+            )
+          )}
+        </select>
+        <label className={styles.fieldLabel}>Limit</label>
+        <input
+          type="number"
+          min={1}
+          value={search.limit ?? ''}
+          onChange={(e) =>
+            onChange({ ...search, limit: e.target.value ? parseInt(e.target.value) : undefined })
+          }
+          className={styles.numberInput}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function CollectionForm({ collection, onChange }: CollectionFormProps) {
+  const handleChange = <K extends keyof Collection>(key: K, value: Collection[K] | undefined) => {
+    const next: Collection = { ...collection, [key]: value };
+    if (value === undefined || value === '') delete next[key];
+    onChange(next);
+  };
+
+  const toggleBuilder = (builder: CollectionBuilder, enabled: boolean) => {
+    handleChange(builder, enabled ? EMPTY_BUILDERS[builder] : undefined);
+  };
+
+  const orders = COLLECTION_ORDERS.some((order) => order.value === collection.collection_order)
+    ? COLLECTION_ORDERS
+    : [
+        ...COLLECTION_ORDERS,
+        ...(collection.collection_order
+          ? [{ value: collection.collection_order, label: collection.collection_order }]
+          : []),
+      ];
+
+  const otherAttributes = Object.keys(collection).filter((key) => !FORM_KEYS.includes(key));
+
+  return (
+    <div className={styles.form}>
+      <section className={styles.section}>
+        <h3 className={styles.sectionTitle}>Builders</h3>
+        <p className={styles.sectionDescription}>
+          The collection holds every item any of its builders returns.
+        </p>
+
+        {(Object.keys(COLLECTION_BUILDERS) as CollectionBuilder[]).map((builder) => (
+          <div key={builder} className={styles.builder}>
+            <label className={styles.builderHeader}>
+              <input
+                type="checkbox"
+                checked={collection[builder] !== undefined}
+                onChange={(e) => toggleBuilder(builder, e.target.checked)}
+              />
+              <span className={styles.builderLabel}>{COLLECTION_BUILDERS[builder].label}</span>
+              <code className={styles.key}>{builder}</code>
+            </label>
+            <p className={styles.help}>{COLLECTION_BUILDERS[builder].help}</p>
+
+            {builder === 'tmdb_collection' && collection.tmdb_collection !== undefined && (
+              <input
+                type="text"
+                value={toArray(collection.tmdb_collection).join(', ')}
+                onChange={(e) =>
+                  handleChange(
+                    'tmdb_collection',
+                    compact(
+                      e.target.value
+                        .split(',')
+                        .map((item) => item.trim())
+                        .filter(Boolean)
+                        .map((item) => (/^\d+$/.test(item) ? Number(item) : item))
+                    )
+                  )
+                }
+                className={styles.input}
+                placeholder="10, https://www.themoviedb.org/collection/1241"
+              />
+            )}
+
+            {builder === 'trakt_list' && collection.trakt_list !== undefined && (
+              <textarea
+                value={toArray(collection.trakt_list).join('\n')}
+                onChange={(e) =>
+                  handleChange(
+                    'trakt_list',
+                    compact(
+                      e.target.value
+                        .split('\n')
+                        .map((url) => url.trim())
+                        .filter(Boolean)
+                    )
+                  )
+                }
+                className={styles.textarea}
+                placeholder="https://trakt.tv/users/username/lists/list-name"
+              />
+            )}
+
+            {builder === 'imdb_chart' && collection.imdb_chart !== undefined && (
+              <div className={styles.checkboxGrid}>
+                {IMDB_CHARTS.map((chart) => {
+                  const charts = toArray(collection.imdb_chart);
+                  return (
+                    <label key={chart.value} className={styles.checkbox}>
+                      <input
+                        type="checkbox"
+                        checked={charts.includes(chart.value)}
+                        onChange={(e) => {
+                          const next: ImdbChart[] = e.target.checked
+                            ? [...charts, chart.value]
+                            : charts.filter((value) => value !== chart.value);
+                          handleChange('imdb_chart', next.length > 0 ? compact(next) : []);
+                        }}
+                      />
+                      {chart.label}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {builder === 'plex_search' && collection.plex_search !== undefined && (
+              <PlexSearchFields
+                search={collection.plex_search}
+                onChange={(search) => handleChange('plex_search', search)}
+              />
+            )}
+          </div>
+        ))}
+      </section>
+
+      <section className={styles.section}>
+        <h3 className={styles.sectionTitle}>Options</h3>
+
+        <div className={styles.field}>
+          <label className={styles.fieldLabel}>Sort Order</label>
+          <select
+            value={collection.collection_order ?? ''}
+            onChange={(e) => handleChange('collection_order', e.target.value || undefined)}
+            className={styles.select}
+          >
+            <option value="">Plex default</option>
+            {orders.map((order) => (
+              <option key={order.value} value={order.value}>
+                {order.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.fieldLabel}>Sync Mode</label>
+          <select
+            value={collection.sync_mode ?? ''}
+            onChange={(e) =>
+              handleChange(
+                'sync_mode',
+                (e.target.value || undefined) as Collection['sync_mode'] | undefined
+              )
+            }
+            className={styles.select}
+          >
+            <option value="">From settings</option>
+            {SYNC_MODES.map((mode) => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.fieldLabel}>Schedule</label>
+          <ScheduleInput
+            value={collection.schedule}
+            onChange={(schedule) => handleChange('schedule', schedule)}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.fieldLabel}>Summary</label>
+          <textarea
+            value={collection.summary ?? ''}
+            onChange={(e) => handleChange('summary', e.target.value || undefined)}
+            className={styles.textarea}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.fieldLabel}>Filters (JSON)</label>
+          <textarea
+            defaultValue={JSON.stringify(collection.filters ?? {}, null, 2)}
+            onChange={(e) => {
+              try {
+                const parsed = JSON.parse(e.target.value);
+                handleChange('filters', Object.keys(parsed).length > 0 ? parsed : undefined);
+              } catch {
+                // Invalid JSON, ignore
+              }
+            }}
+            className={styles.jsonEditor}
+            placeholder={'{\n  "year.gte": 2000\n}'}
+          />
+        </div>
+      </section>
+
+      {otherAttributes.length > 0 && (
+        <p className={styles.sectionDescription}>
+          Other attributes are kept as they are: {otherAttributes.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import styles from './ConfigComparePanel.module.css';
+import { configApi, ConfigComparison, ConfigEntity, ConfigRevisionSummary } from '../../api/client';
+import { formatSide, initialSelection, isConflict, pathKey } from '../../services/compare.service';
+
+interface ConfigComparePanelProps {
+  configId: string;
+  /** Changes whenever the config is saved, so the revision list can refresh */
+  updatedAt: string;
+  onApply: (config: ConfigEntity) => void;
+}
+
+/**
+ * Compares a pasted YAML with the stored config side by side, so its changes
+ * can be taken hunk by hunk instead of overwriting the config on import
+ */
+export function ConfigComparePanel({ configId, updatedAt, onApply }: ConfigComparePanelProps) {
+  const [yaml, setYaml] = useState('');
+  const [revisions, setRevisions] = useState<ConfigRevisionSummary[]>([]);
+  const [baseRevision, setBaseRevision] = useState<number>(0);
+  const [comparison, setComparison] = useState<ConfigComparison | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comparing, setComparing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    configApi
+      .listRevisions(configId)
+      .then(({ revisions: revisionList }) => setRevisions(revisionList))
+      .catch((error) => console.error('Failed to load revisions:', error));
+  }, [configId, updatedAt]);
+
+  const handleCompare = async () => {
+    setComparing(true);
+    try {
+      const result = await configApi.compareYaml(configId, yaml, baseRevision || undefined);
+      setComparison(result);
+      setSelected(initialSelection(result));
+    } catch (error) {
+      console.error('Failed to compare YAML:', error);
+      alert(`Compare failed: ${(error as Error).message}`);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const toggle = (key: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!comparison) return;
+
+    setApplying(true);
+    try {
+      const paths = comparison.changes
+        .map((change) => change.path)
+        .filter((path) => selected.has(pathKey(path)));
+      const updated = await configApi.applyYaml(configId, yaml, paths);
+      setComparison(null);
+      onApply(updated);
+    } catch (error) {
+      console.error('Failed to apply changes:', error);
+      alert(`Failed to apply changes: ${(error as Error).message}`);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const conflicts = comparison?.merge?.conflicts.length ?? 0;
+
+  return (
+    <div className={styles.container}>
+      <textarea
+        value={yaml}
+        onChange={(e) => {
+          setYaml(e.target.value);
+          setComparison(null);
+        }}
+        className={styles.yamlInput}
+        placeholder="Paste a config.yml to compare with this configuration..."
+      />
+
+      <div className={styles.toolbar}>
+        <label className={styles.label}>
+          Started from
+          <select
+            value={baseRevision}
+            onChange={(e) => {
+              setBaseRevision(Number(e.target.value));
+              setComparison(null);
+            }}
+            className={styles.select}
+          >
+            <option value={0}>(no common revision)</option>
+            {revisions.map((revision) => (
+              <option key={revision.revision} value={revision.revision}>
+                #{revision.revision}
+                {revision.note ? ` - ${revision.note}` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleCompare}
+          disabled={!yaml.trim() || comparing}
+          className={styles.button}
+        >
+          {comparing ? 'Comparing...' : 'Compare'}
+        </button>
+      </div>
+
+      {comparison && comparison.changes.length === 0 && (
+        <div className={styles.empty}>The YAML matches this configuration.</div>
+      )}
+
+      {comparison && comparison.changes.length > 0 && (
+        <>
+          <div className={styles.toolbar}>
+            <span className={styles.summary}>
+              {comparison.changes.length} changes, {selected.size} selected
+              {conflicts > 0 && `, ${conflicts} conflicts`}
+            </span>
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() =>
+                setSelected(new Set(comparison.changes.map((change) => pathKey(change.path))))
+              }
+            >
+              Select all
+            </button>
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() => setSelected(new Set())}
+            >
+              Select none
+            </button>
+          </div>
+
+          <div className={styles.columns}>
+            <span className={styles.columnTitle}>This configuration</span>
+            <span className={styles.columnTitle}>YAML</span>
+          </div>
+
+          <div className={styles.hunks}>
+            {comparison.changes.map((change) => {
+              const key = pathKey(change.path);
+              const conflict = isConflict(comparison, change);
+              return (
+                <div
+                  key={key}
+                  className={`${styles.hunk} ${styles[change.kind]} ${conflict ? styles.conflict : ''}`}
+                >
+                  <label className={styles.hunkHeader}>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(key)}
+                      onChange={() => toggle(key)}
+                    />
+                    <span className={styles.hunkPath}>{change.path.join(' › ')}</span>
+                    <span className={styles.hunkKind}>{conflict ? 'conflict' : change.kind}</span>
+                  </label>
+                  <div className={styles.sides}>
+                    <pre className={styles.before}>{formatSide(change, 'before')}</pre>
+                    <pre className={styles.after}>{formatSide(change, 'after')}</pre>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {conflicts > 0 && (
+            <details className={styles.markers}>
+              <summary>Conflict markers</summary>
+              <pre>{comparison.merge?.markers}</pre>
+            </details>
+          )}
+
+          <div className={styles.footer}>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={selected.size === 0 || applying}
+              className={styles.button}
+            >
+              {applying ? 'Applying...' : `Apply ${selected.size} selected changes`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
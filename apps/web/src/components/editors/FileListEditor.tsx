@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { FileEntry, TemplateVariables } from '@kometa-studio/shared';
 import styles from './FileListEditor.module.css';
+import { ScheduleInput } from '../schedule/ScheduleInput';
 
 type FileType = 'file' | 'default' | 'url' | 'git';
 
@@ -60,6 +61,14 @@ export function FileListEditor({ files, onChange }: FileListEditorProps) {
     onChange(newFiles);
   };
 
+  // An undefined schedule removes it from the entry
+  const handleUpdateSchedule = (index: number, schedule: string | undefined) => {
+    const newFiles = [...files];
+    const { schedule: _previous, ...entry } = newFiles[index];
+    newFiles[index] = (schedule === undefined ? entry : { ...entry, schedule }) as FileEntry;
+    onChange(newFiles);
+  };
+
   const getFileDisplay = (file: FileEntry): { type: string; value: string } => {
     if ('file' in file && file.file) return { type: 'file', value: file.file };
     if ('default' in file && file.default) return { type: 'default', value: file.default };
@@ -136,6 +145,24 @@ export function FileListEditor({ files, onChange }: FileListEditorProps) {
                   </div>
                 )}
 
+                {file.schedule !== undefined && (
+                  <div className={styles.templateVars}>
+                    <div className={styles.templateVarsLabel}>
+                      Schedule:
+                      <button
+                        onClick={() => handleUpdateSchedule(index, undefined)}
+                        className={styles.removeScheduleButton}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <ScheduleInput
+                      value={file.schedule}
+                      onChange={(schedule) => handleUpdateSchedule(index, schedule ?? '')}
+                    />
+                  </div>
+                )}
+
                 {!file.template_variables && (
                   <button
                     onClick={() => handleUpdateTemplateVars(index, {})}
@@ -144,6 +171,15 @@ export function FileListEditor({ files, onChange }: FileListEditorProps) {
                     + Add template_variables
                   </button>
                 )}
+
+                {file.schedule === undefined && (
+                  <button
+                    onClick={() => handleUpdateSchedule(index, 'daily')}
+                    className={`${styles.addVarsButton} ${styles.addScheduleButton}`}
+                  >
+                    + Add schedule
+                  </button>
+                )}
               </div>
             );
           })}
@@ -1,14 +1,47 @@
-import type { KometaConfig } from '@kometa-studio/shared';
+import { useState } from 'react';
+import type { KometaConfig, WebhookEvent, WebhookService } from '@kometa-studio/shared';
 import styles from './IntegrationsEditor.module.css';
+import { proxyApi, type ProfileEntity } from '../../api/client';
+import { WEBHOOK_EVENTS, WEBHOOK_SERVICES } from '../../constants/webhook.constants';
 
 interface IntegrationsEditorProps {
   config: KometaConfig;
+  /** Active profile, used to test notification integrations */
+  profile?: ProfileEntity | null;
   onChange: (updates: Partial<KometaConfig>) => void;
 }
 
-type IntegrationKey = 'plex' | 'tmdb' | 'tautulli' | 'mdblist' | 'radarr' | 'sonarr' | 'trakt';
+type IntegrationKey =
+  | 'plex'
+  | 'tmdb'
+  | 'tautulli'
+  | 'mdblist'
+  | 'radarr'
+  | 'sonarr'
+  | 'trakt'
+  | 'omdb'
+  | 'anidb'
+  | 'mal'
+  | 'github'
+  | 'notifiarr'
+  | 'gotify'
+  | 'ntfy';
+
+const NOTIFICATION_DESCRIPTIONS: Record<WebhookService, string> = {
+  notifiarr: 'Notifications through Notifiarr, which forwards them to Discord and others',
+  gotify: 'Self-hosted push notifications',
+  ntfy: 'Push notifications to an ntfy topic',
+};
+
+interface TestResult {
+  success: boolean;
+  message: string;
+}
+
+export function IntegrationsEditor({ config, profile, onChange }: IntegrationsEditorProps) {
+  const [testing, setTesting] = useState<WebhookService | null>(null);
+  const [testResults, setTestResults] = useState<Partial<Record<WebhookService, TestResult>>>({});
 
-export function IntegrationsEditor({ config, onChange }: IntegrationsEditorProps) {
   const handleToggle = (integration: IntegrationKey, enabled: boolean) => {
     const currentConfig = config[integration] ?? {};
     onChange({
@@ -19,6 +52,46 @@ export function IntegrationsEditor({ config, onChange }: IntegrationsEditorProps
     });
   };
 
+  const handleWebhookToggle = (event: WebhookEvent, service: WebhookService, checked: boolean) => {
+    const current = config.webhooks?.[event] ?? [];
+    const targets = checked ? [...current, service] : current.filter((s) => s !== service);
+    onChange({
+      webhooks: {
+        ...config.webhooks,
+        [event]: targets.length > 0 ? targets : undefined,
+      },
+    });
+  };
+
+  // Tests with the active profile's secrets; ntfy also needs the topic from the config
+  const testConnection = async (service: WebhookService) => {
+    setTesting(service);
+    try {
+      const secrets: Record<string, unknown> = { ...profile?.secrets[service] };
+      if (service === 'ntfy') secrets.topic = config.ntfy?.topic;
+
+      const result = await proxyApi.testConnection(service, secrets);
+      setTestResults((results) => ({
+        ...results,
+        [service]: {
+          success: result.success,
+          message: result.success
+            ? result.message || 'Connection successful'
+            : result.error || 'Connection failed',
+        },
+      }));
+    } catch (error) {
+      setTestResults((results) => ({
+        ...results,
+        [service]: { success: false, message: (error as Error).message },
+      }));
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const customWebhooks = profile?.secrets.webhooks;
+
   return (
     <div className={styles.container}>
       <h2 className={styles.title}>Integrations</h2>
@@ -153,6 +226,233 @@ export function IntegrationsEditor({ config, onChange }: IntegrationsEditorProps
             </label>
           </div>
         </div>
+
+        <div className={styles.integration}>
+          <div className={styles.integrationHeader}>
+            <div>
+              <div className={styles.integrationName}>OMDb</div>
+              <div className={styles.integrationDescription}>
+                IMDb ratings and metadata through the OMDb API
+              </div>
+            </div>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={config.omdb?.enabled === true}
+                onChange={(e) => handleToggle('omdb', e.target.checked)}
+              />
+              <span className={styles.toggleSlider}></span>
+            </label>
+          </div>
+        </div>
+
+        <div className={styles.integration}>
+          <div className={styles.integrationHeader}>
+            <div>
+              <div className={styles.integrationName}>AniDB</div>
+              <div className={styles.integrationDescription}>
+                Anime metadata and ratings; a login is only needed for mature content
+              </div>
+            </div>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={config.anidb?.enabled === true}
+                onChange={(e) => handleToggle('anidb', e.target.checked)}
+              />
+              <span className={styles.toggleSlider}></span>
+            </label>
+          </div>
+          {config.anidb?.enabled && (
+            <>
+              <label className={styles.field}>
+                <span className={styles.fieldLabel}>Client</span>
+                <input
+                  type="text"
+                  className={styles.input}
+                  value={config.anidb.client ?? ''}
+                  placeholder="kometa"
+                  onChange={(e) =>
+                    onChange({ anidb: { ...config.anidb!, client: e.target.value || undefined } })
+                  }
+                />
+              </label>
+              <label className={styles.field}>
+                <span className={styles.fieldLabel}>Client version</span>
+                <input
+                  type="number"
+                  className={styles.input}
+                  value={config.anidb.version ?? ''}
+                  placeholder="1"
+                  onChange={(e) =>
+                    onChange({
+                      anidb: {
+                        ...config.anidb!,
+                        version: e.target.value ? Number(e.target.value) : undefined,
+                      },
+                    })
+                  }
+                />
+              </label>
+            </>
+          )}
+        </div>
+
+        <div className={styles.integration}>
+          <div className={styles.integrationHeader}>
+            <div>
+              <div className={styles.integrationName}>MyAnimeList</div>
+              <div className={styles.integrationDescription}>
+                Anime lists and ratings from MyAnimeList
+              </div>
+            </div>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={config.mal?.enabled === true}
+                onChange={(e) => handleToggle('mal', e.target.checked)}
+              />
+              <span className={styles.toggleSlider}></span>
+            </label>
+          </div>
+          {config.mal?.enabled && (
+            <label className={styles.field}>
+              <span className={styles.fieldLabel}>Client ID</span>
+              <input
+                type="text"
+                className={styles.input}
+                value={config.mal.client_id ?? ''}
+                placeholder="Enter client ID"
+                onChange={(e) =>
+                  onChange({ mal: { ...config.mal!, client_id: e.target.value || undefined } })
+                }
+              />
+            </label>
+          )}
+        </div>
+
+        <div className={styles.integration}>
+          <div className={styles.integrationHeader}>
+            <div>
+              <div className={styles.integrationName}>GitHub</div>
+              <div className={styles.integrationDescription}>
+                Raises the GitHub rate limit when loading defaults and git files
+              </div>
+            </div>
+            <label className={styles.toggle}>
+              <input
+                type="checkbox"
+                checked={config.github?.enabled === true}
+                onChange={(e) => handleToggle('github', e.target.checked)}
+              />
+              <span className={styles.toggleSlider}></span>
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <h2 className={styles.title}>Notifications</h2>
+      <p className={styles.description}>
+        Configure credentials in Profiles, then choose which events are sent where.
+      </p>
+
+      <div className={styles.integrationList}>
+        {(Object.keys(WEBHOOK_SERVICES) as WebhookService[]).map((service) => {
+          const result = testResults[service];
+          return (
+            <div key={service} className={styles.integration}>
+              <div className={styles.integrationHeader}>
+                <div>
+                  <div className={styles.integrationName}>{WEBHOOK_SERVICES[service]}</div>
+                  <div className={styles.integrationDescription}>
+                    {NOTIFICATION_DESCRIPTIONS[service]}
+                  </div>
+                </div>
+                <div className={styles.integrationActions}>
+                  <button
+                    type="button"
+                    onClick={() => testConnection(service)}
+                    disabled={!profile || testing !== null}
+                    className={styles.testButton}
+                    title={profile ? undefined : 'Create a profile to test connections'}
+                  >
+                    {testing === service ? 'Testing...' : 'Test'}
+                  </button>
+                  <label className={styles.toggle}>
+                    <input
+                      type="checkbox"
+                      checked={config[service]?.enabled === true}
+                      onChange={(e) => handleToggle(service, e.target.checked)}
+                    />
+                    <span className={styles.toggleSlider}></span>
+                  </label>
+                </div>
+              </div>
+              {service === 'ntfy' && config.ntfy?.enabled && (
+                <label className={styles.field}>
+                  <span className={styles.fieldLabel}>Topic</span>
+                  <input
+                    type="text"
+                    className={styles.input}
+                    value={config.ntfy.topic ?? ''}
+                    placeholder="kometa"
+                    onChange={(e) =>
+                      onChange({ ntfy: { ...config.ntfy!, topic: e.target.value || undefined } })
+                    }
+                  />
+                </label>
+              )}
+              {result && (
+                <div className={result.success ? styles.testSuccess : styles.testError}>
+                  {result.message}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={styles.webhooks}>
+        <div className={styles.integrationName}>Webhooks</div>
+        <table className={styles.webhookTable}>
+          <thead>
+            <tr>
+              <th>Event</th>
+              {(Object.keys(WEBHOOK_SERVICES) as WebhookService[]).map((service) => (
+                <th key={service}>{WEBHOOK_SERVICES[service]}</th>
+              ))}
+              <th>Custom URLs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map((event) => (
+              <tr key={event}>
+                <td>
+                  <div>{WEBHOOK_EVENTS[event].label}</div>
+                  <div className={styles.integrationDescription}>
+                    {WEBHOOK_EVENTS[event].description}
+                  </div>
+                </td>
+                {(Object.keys(WEBHOOK_SERVICES) as WebhookService[]).map((service) => (
+                  <td key={service}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Send ${event} to ${WEBHOOK_SERVICES[service]}`}
+                      checked={config.webhooks?.[event]?.includes(service) ?? false}
+                      onChange={(e) => handleWebhookToggle(event, service, e.target.checked)}
+                    />
+                  </td>
+                ))}
+                <td className={styles.integrationDescription}>
+                  {customWebhooks?.[event]?.length ?? 0}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className={styles.integrationDescription}>
+          Custom webhook URLs, such as Discord webhooks, are secrets and are set in Profiles.
+        </p>
       </div>
     </div>
   );
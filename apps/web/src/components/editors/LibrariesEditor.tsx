@@ -1,14 +1,21 @@
 import { useState } from 'react';
-import type { Library } from '@kometa-studio/shared';
+import type { Library, YamlAnchors } from '@kometa-studio/shared';
 import styles from './LibrariesEditor.module.css';
 import { LibraryEditor } from './LibraryEditor';
 
 interface LibrariesEditorProps {
   libraries: Record<string, Library>;
+  anchors?: YamlAnchors;
+  plexServers?: string[];
   onChange: (libraries: Record<string, Library>) => void;
 }
 
-export function LibrariesEditor({ libraries, onChange }: LibrariesEditorProps) {
+export function LibrariesEditor({
+  libraries,
+  anchors,
+  plexServers,
+  onChange,
+}: LibrariesEditorProps) {
   const [expandedLibrary, setExpandedLibrary] = useState<string | null>(
     Object.keys(libraries)[0] || null
   );
@@ -109,7 +116,10 @@ export function LibrariesEditor({ libraries, onChange }: LibrariesEditorProps) {
               {expandedLibrary === name && (
                 <div className={styles.libraryContent}>
                   <LibraryEditor
+                    name={name}
                     library={libraries[name]}
+                    anchors={anchors}
+                    plexServers={plexServers}
                     onChange={(lib) => handleLibraryChange(name, lib)}
                   />
                 </div>
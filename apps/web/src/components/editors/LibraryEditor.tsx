@@ -1,15 +1,66 @@
 import { useState } from 'react';
-import type { Library } from '@kometa-studio/shared';
+import type { Library, YamlAnchors } from '@kometa-studio/shared';
 import styles from './LibraryEditor.module.css';
 import { FileListEditor } from './FileListEditor';
+import { OperationsEditor } from './OperationsEditor';
+import { TemplateVariablesPanel } from './TemplateVariablesPanel';
+import { ScheduleInput } from '../schedule/ScheduleInput';
 
 interface LibraryEditorProps {
+  name: string;
   library: Library;
+  anchors?: YamlAnchors;
+  /** Names of the extra Plex servers in the active profile */
+  plexServers?: string[];
   onChange: (library: Library) => void;
 }
 
-export function LibraryEditor({ library, onChange }: LibraryEditorProps) {
-  const [activeTab, setActiveTab] = useState<'files' | 'filters' | 'settings'>('files');
+interface SharedBlock {
+  anchor: string;
+  field: string;
+  merge: boolean;
+  sharedWith: string[];
+}
+
+/**
+ * Lists the anchored YAML blocks this library uses and where else they are used
+ */
+function getSharedBlocks(anchors: YamlAnchors, libraryName: string): SharedBlock[] {
+  const isThisLibrary = (path: string[]) => path[0] === 'libraries' && path[1] === libraryName;
+  const blocks: SharedBlock[] = [];
+
+  for (const [anchor, { uses }] of Object.entries(anchors)) {
+    const sharedWith = [
+      ...new Set(
+        uses
+          .filter((use) => !isThisLibrary(use.path))
+          .map((use) => (use.path[0] === 'libraries' ? use.path[1] : use.path.join('.')))
+      ),
+    ];
+    for (const use of uses.filter((u) => isThisLibrary(u.path))) {
+      blocks.push({
+        anchor,
+        field: use.path.slice(2).join('.') || 'library',
+        merge: !!use.merge,
+        sharedWith,
+      });
+    }
+  }
+
+  return blocks;
+}
+
+export function LibraryEditor({
+  name,
+  library,
+  anchors,
+  plexServers = [],
+  onChange,
+}: LibraryEditorProps) {
+  const [activeTab, setActiveTab] = useState<
+    'files' | 'variables' | 'filters' | 'operations' | 'settings'
+  >('files');
+  const sharedBlocks = anchors ? getSharedBlocks(anchors, name) : [];
 
   const handleChange = (field: keyof Library, value: Library[keyof Library]) => {
     onChange({
@@ -18,8 +69,38 @@ export function LibraryEditor({ library, onChange }: LibraryEditorProps) {
     });
   };
 
+  // Keeps the library's other plex options when switching servers
+  const handlePlexServerChange = (server: string) => {
+    const { server: _previous, ...options } = library.plex ?? {};
+    const plex = server ? { server, ...options } : options;
+    handleChange('plex', Object.keys(plex).length > 0 ? plex : undefined);
+  };
+
+  const serverOptions = [
+    ...new Set([...plexServers, ...(library.plex?.server ? [library.plex.server] : [])]),
+  ];
+
   return (
     <div className={styles.container}>
+      {sharedBlocks.length > 0 && (
+        <div className={styles.sharedBlocks}>
+          <h3 className={styles.sectionTitle}>Shared YAML Blocks</h3>
+          <ul className={styles.sharedList}>
+            {sharedBlocks.map((block) => (
+              <li key={`${block.anchor}:${block.field}`}>
+                <code>&amp;{block.anchor}</code> {block.merge ? 'merged into' : 'used as'}{' '}
+                <code>{block.field}</code>
+                {block.sharedWith.length > 0 && <> - also used by {block.sharedWith.join(', ')}</>}
+              </li>
+            ))}
+          </ul>
+          <p className={styles.sectionDescription}>
+            Edits only change this library. The block is written back as an anchor and alias for as
+            long as every copy still matches.
+          </p>
+        </div>
+      )}
+
       <div className={styles.tabs}>
         <button
           className={`${styles.tab} ${activeTab === 'files' ? styles.active : ''}`}
@@ -27,12 +108,24 @@ export function LibraryEditor({ library, onChange }: LibraryEditorProps) {
         >
           Collection & Overlay Files
         </button>
+        <button
+          className={`${styles.tab} ${activeTab === 'variables' ? styles.active : ''}`}
+          onClick={() => setActiveTab('variables')}
+        >
+          Template Variables
+        </button>
         <button
           className={`${styles.tab} ${activeTab === 'filters' ? styles.active : ''}`}
           onClick={() => setActiveTab('filters')}
         >
           Filters
         </button>
+        <button
+          className={`${styles.tab} ${activeTab === 'operations' ? styles.active : ''}`}
+          onClick={() => setActiveTab('operations')}
+        >
+          Operations
+        </button>
         <button
           className={`${styles.tab} ${activeTab === 'settings' ? styles.active : ''}`}
           onClick={() => setActiveTab('settings')}
@@ -70,6 +163,10 @@ export function LibraryEditor({ library, onChange }: LibraryEditorProps) {
           </div>
         )}
 
+        {activeTab === 'variables' && (
+          <TemplateVariablesPanel library={library} onChange={onChange} />
+        )}
+
         {activeTab === 'filters' && (
           <div className={styles.filtersTab}>
             <h3 className={styles.sectionTitle}>Library Filters</h3>
@@ -92,18 +189,42 @@ export function LibraryEditor({ library, onChange }: LibraryEditorProps) {
           </div>
         )}
 
+        {activeTab === 'operations' && (
+          <OperationsEditor
+            operations={library.operations || {}}
+            onChange={(operations) => handleChange('operations', operations)}
+          />
+        )}
+
         {activeTab === 'settings' && (
           <div className={styles.settingsTab}>
             <h3 className={styles.sectionTitle}>Library Settings</h3>
 
             <div className={styles.field}>
-              <label className={styles.label}>Schedule</label>
-              <input
-                type="text"
-                value={library.schedule || ''}
-                onChange={(e) => handleChange('schedule', e.target.value || undefined)}
+              <label className={styles.label}>Plex Server</label>
+              <select
+                value={library.plex?.server ?? ''}
+                onChange={(e) => handlePlexServerChange(e.target.value)}
                 className={styles.input}
-                placeholder="e.g., daily, weekly(sunday)"
+              >
+                <option value="">Main Plex server</option>
+                {serverOptions.map((server) => (
+                  <option key={server} value={server}>
+                    {server}
+                    {!plexServers.includes(server) && ' (not in profile)'}
+                  </option>
+                ))}
+              </select>
+              <p className={styles.sectionDescription}>
+                Add servers with their URL and token under Library Plex Servers in Profiles.
+              </p>
+            </div>
+
+            <div className={styles.field}>
+              <label className={styles.label}>Schedule</label>
+              <ScheduleInput
+                value={library.schedule}
+                onChange={(schedule) => handleChange('schedule', schedule)}
               />
             </div>
 
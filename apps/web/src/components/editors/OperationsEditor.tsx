@@ -0,0 +1,422 @@
+import type { ImageUpdate, Operations } from '@kometa-studio/shared';
+import styles from './OperationsEditor.module.css';
+import {
+  COLLECTION_MODES,
+  IMAGE_SOURCES,
+  OPERATION_HELP,
+  PARENTAL_LABELS,
+  SOURCE_OPERATIONS,
+  TOGGLE_OPERATIONS,
+  type CustomValue,
+  type OperationKey,
+  type SourceOperation,
+} from '../../constants/operations.constants';
+
+interface OperationsEditorProps {
+  operations: Operations;
+  onChange: (operations: Operations | undefined) => void;
+}
+
+type SourceValue = string | number;
+
+// Marks a fixed value in the source dropdown
+const CUSTOM = '__custom__';
+
+const CUSTOM_LABELS: Record<CustomValue, string> = {
+  text: 'Fixed value',
+  date: 'Fixed date',
+  rating: 'Fixed rating',
+};
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function formatTags(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value.join(', ') : (value ?? '');
+}
+
+function OperationLabel({ operation }: { operation: OperationKey }) {
+  return (
+    <div className={styles.operationHeader}>
+      <span className={styles.label}>{OPERATION_HELP[operation].label}</span>
+      <code className={styles.key}>{operation}</code>
+      <p className={styles.help}>{OPERATION_HELP[operation].help}</p>
+    </div>
+  );
+}
+
+/**
+ * Edits a mass update as a priority list of sources, where each entry may also
+ * be a fixed value
+ */
+function SourceListField({
+  operation,
+  value,
+  onChange,
+}: {
+  operation: SourceOperation;
+  value: SourceValue | SourceValue[] | undefined;
+  onChange: (value: SourceValue | SourceValue[] | undefined) => void;
+}) {
+  const entries = toArray(value);
+
+  const update = (next: SourceValue[]) => {
+    onChange(next.length === 0 ? undefined : next.length === 1 ? next[0] : next);
+  };
+
+  const setEntry = (index: number, entry: SourceValue) => {
+    const next = [...entries];
+    next[index] = entry;
+    update(next);
+  };
+
+  const parseCustom = (raw: string): SourceValue =>
+    operation.custom === 'rating' && raw !== '' ? Number(raw) : raw;
+
+  return (
+    <div className={styles.sourceList}>
+      {entries.map((entry, index) => {
+        const isCustom = !operation.options.includes(String(entry));
+        return (
+          <div key={index} className={styles.sourceRow}>
+            <select
+              value={isCustom ? CUSTOM : String(entry)}
+              onChange={(e) =>
+                setEntry(
+                  index,
+                  e.target.value === CUSTOM
+                    ? operation.custom === 'rating'
+                      ? 0
+                      : ''
+                    : e.target.value
+                )
+              }
+              className={styles.select}
+            >
+              {operation.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+              <option value={CUSTOM}>{CUSTOM_LABELS[operation.custom]}</option>
+            </select>
+            {isCustom && (
+              <input
+                type={
+                  operation.custom === 'rating'
+                    ? 'number'
+                    : operation.custom === 'date'
+                      ? 'date'
+                      : 'text'
+                }
+                min={operation.custom === 'rating' ? 0 : undefined}
+                max={operation.custom === 'rating' ? 10 : undefined}
+                step={operation.custom === 'rating' ? 0.1 : undefined}
+                value={entry}
+                onChange={(e) => setEntry(index, parseCustom(e.target.value))}
+                className={styles.input}
+                placeholder={operation.custom === 'text' ? 'Action, Comedy' : undefined}
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => update(entries.filter((_, i) => i !== index))}
+              className={styles.deleteButton}
+              title="Remove"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => update([...entries, operation.options[0]])}
+        className={styles.addButton}
+      >
+        {entries.length === 0 ? '+ Add source' : '+ Add fallback'}
+      </button>
+    </div>
+  );
+}
+
+function ImageUpdateField({
+  value,
+  onChange,
+}: {
+  value: ImageUpdate | undefined;
+  onChange: (value: ImageUpdate | undefined) => void;
+}) {
+  const update = (changes: Partial<ImageUpdate>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...value, ...changes }).filter(([, v]) => v !== undefined && v !== false)
+    ) as ImageUpdate;
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const flags: Array<[keyof ImageUpdate, string]> = [
+    ['seasons', 'Seasons'],
+    ['episodes', 'Episodes'],
+    ['ignore_locked', 'Skip locked images'],
+    ['ignore_overlays', 'Skip images with overlays'],
+  ];
+
+  return (
+    <div className={styles.inline}>
+      <select
+        value={value?.source ?? ''}
+        onChange={(e) => update({ source: (e.target.value || undefined) as ImageUpdate['source'] })}
+        className={styles.select}
+      >
+        <option value="">Not set</option>
+        {IMAGE_SOURCES.map((source) => (
+          <option key={source} value={source}>
+            {source}
+          </option>
+        ))}
+      </select>
+      {flags.map(([flag, label]) => (
+        <label key={flag} className={styles.checkbox}>
+          <input
+            type="checkbox"
+            checked={value?.[flag] === true}
+            onChange={(e) => update({ [flag]: e.target.checked })}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export function OperationsEditor({ operations, onChange }: OperationsEditorProps) {
+  const handleChange = <K extends OperationKey>(key: K, value: Operations[K] | undefined) => {
+    const next: Operations = { ...operations, [key]: value };
+    if (value === undefined || value === '') delete next[key];
+    const hasValues = Object.entries(next).some(
+      ([name, v]) => v !== undefined && (name !== 'extras' || Object.keys(v ?? {}).length > 0)
+    );
+    onChange(hasValues ? next : undefined);
+  };
+
+  const handleTags = (key: 'radarr_remove_by_tag' | 'sonarr_remove_by_tag', raw: string) => {
+    const tags = raw
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    handleChange(key, tags.length === 0 ? undefined : tags.length === 1 ? tags[0] : tags);
+  };
+
+  const deleteCollections = operations.delete_collections;
+  const updateDeleteCollections = (changes: Partial<NonNullable<typeof deleteCollections>>) => {
+    const next = Object.fromEntries(
+      Object.entries({ ...deleteCollections, ...changes }).filter(([, v]) => v !== undefined)
+    );
+    handleChange('delete_collections', Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const otherOperations = Object.keys(operations.extras ?? {});
+
+  return (
+    <div className={styles.container}>
+      <section className={styles.section}>
+        <h3 className={styles.sectionTitle}>Mass Updates</h3>
+        <p className={styles.sectionDescription}>
+          Each update uses the first source in the list that has a value for an item.
+        </p>
+        {SOURCE_OPERATIONS.map((operation) => (
+          <div key={operation.key} className={styles.operation}>
+            <OperationLabel operation={operation.key} />
+            <SourceListField
+              operation={operation}
+              value={operations[operation.key] as SourceValue | SourceValue[] | undefined}
+              onChange={(value) => handleChange(operation.key, value as Operations[OperationKey])}
+            />
+          </div>
+        ))}
+      </section>
+
+      <section className={styles.section}>
+        <h3 className={styles.sectionTitle}>Images and Labels</h3>
+        {(['mass_poster_update', 'mass_background_update'] as const).map((key) => (
+          <div key={key} className={styles.operation}>
+            <OperationLabel operation={key} />
+            <ImageUpdateField
+              value={operations[key]}
+              onChange={(value) => handleChange(key, value)}
+            />
+          </div>
+        ))}
+        <div className={styles.operation}>
+          <OperationLabel operation="mass_imdb_parental_labels" />
+          <select
+            value={operations.mass_imdb_parental_labels ?? ''}
+            onChange={(e) =>
+              handleChange(
+                'mass_imdb_parental_labels',
+                (e.target.value || undefined) as Operations['mass_imdb_parental_labels']
+              )
+            }
+            className={styles.select}
+          >
+            <option value="">Not set</option>
+            {PARENTAL_LABELS.map((label) => (
+              <option key={label} value={label}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.operation}>
+          <OperationLabel operation="mass_collection_mode" />
+          <select
+            value={operations.mass_collection_mode ?? ''}
+            onChange={(e) =>
+              handleChange(
+                'mass_collection_mode',
+                (e.target.value || undefined) as Operations['mass_collection_mode']
+              )
+            }
+            className={styles.select}
+          >
+            <option value="">Not set</option>
+            {COLLECTION_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {mode}
+              </option>
+            ))}
+          </select>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h3 className={styles.sectionTitle}>Library Maintenance</h3>
+        {TOGGLE_OPERATIONS.map((key) => (
+          <label key={key} className={styles.toggleOperation}>
+            <input
+              type="checkbox"
+              checked={operations[key] === true}
+              onChange={(e) => handleChange(key, e.target.checked || undefined)}
+            />
+            <OperationLabel operation={key} />
+          </label>
+        ))}
+        <div className={styles.operation}>
+          <OperationLabel operation="delete_collections" />
+          <div className={styles.inline}>
+            <label className={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={deleteCollections?.managed === true}
+                onChange={(e) =>
+                  updateDeleteCollections({ managed: e.target.checked || undefined })
+                }
+              />
+              Managed by Kometa
+            </label>
+            <label className={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={deleteCollections?.configured === true}
+                onChange={(e) =>
+                  updateDeleteCollections({ configured: e.target.checked || undefined })
+                }
+              />
+              In a config
+            </label>
+            <label className={styles.checkbox}>
+              Fewer than
+              <input
+                type="number"
+                min={1}
+                value={deleteCollections?.less ?? ''}
+                onChange={(e) =>
+                  updateDeleteCollections({
+                    less: e.target.value ? parseInt(e.target.value) : undefined,
+                  })
+                }
+                className={styles.numberInput}
+              />
+              items
+            </label>
+          </div>
+        </div>
+        {(['radarr_remove_by_tag', 'sonarr_remove_by_tag'] as const).map((key) => (
+          <div key={key} className={styles.operation}>
+            <OperationLabel operation={key} />
+            <input
+              type="text"
+              value={formatTags(operations[key])}
+              onChange={(e) => handleTags(key, e.target.value)}
+              className={styles.input}
+              placeholder="tag1, tag2"
+            />
+          </div>
+        ))}
+        <div className={styles.operation}>
+          <OperationLabel operation="metadata_backup" />
+          <div className={styles.inline}>
+            <input
+              type="text"
+              value={operations.metadata_backup?.path ?? ''}
+              onChange={(e) =>
+                handleChange(
+                  'metadata_backup',
+                  e.target.value || operations.metadata_backup?.sync_tags
+                    ? { ...operations.metadata_backup, path: e.target.value || undefined }
+                    : undefined
+                )
+              }
+              className={styles.input}
+              placeholder="config/Movies_backup.yml"
+            />
+            <label className={styles.checkbox}>
+              <input
+                type="checkbox"
+                checked={operations.metadata_backup?.sync_tags === true}
+                disabled={!operations.metadata_backup}
+                onChange={(e) =>
+                  handleChange('metadata_backup', {
+                    ...operations.metadata_backup,
+                    sync_tags: e.target.checked || undefined,
+                  })
+                }
+              />
+              Sync tags
+            </label>
+          </div>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h3 className={styles.sectionTitle}>Mappers</h3>
+        {(['genre_mapper', 'content_rating_mapper'] as const).map((key) => (
+          <div key={key} className={styles.operation}>
+            <OperationLabel operation={key} />
+            <textarea
+              defaultValue={JSON.stringify(operations[key] ?? {}, null, 2)}
+              onChange={(e) => {
+                try {
+                  const parsed = JSON.parse(e.target.value);
+                  handleChange(key, Object.keys(parsed).length > 0 ? parsed : undefined);
+                } catch {
+                  // Invalid JSON, ignore
+                }
+              }}
+              className={styles.jsonEditor}
+              placeholder={'{\n  "Sci-Fi & Fantasy": "Science Fiction",\n  "Talk": null\n}'}
+            />
+          </div>
+        ))}
+      </section>
+
+      {otherOperations.length > 0 && (
+        <p className={styles.sectionDescription}>
+          Other operations are kept as they are: {otherOperations.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import type {
+  FileEntry,
+  KometaConfig,
+  KometaList,
+  Playlist,
+  PlaylistFileEntry,
+  PlaylistTemplateVariables,
+} from '@kometa-studio/shared';
+import styles from './PlaylistsEditor.module.css';
+import { FileListEditor } from './FileListEditor';
+
+interface PlaylistsEditorProps {
+  config: KometaConfig;
+  onChange: (updates: Partial<KometaConfig>) => void;
+}
+
+type PlaylistOption = 'libraries' | 'sync_to_users' | 'exclude_users';
+
+/**
+ * Splits a Kometa list, written either as a comma separated string or a YAML list
+ */
+function toList(value: KometaList | null | undefined): string[] {
+  if (!value) return [];
+  const items = typeof value === 'string' ? value.split(',') : value;
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+function formatList(value: KometaList | null | undefined): string {
+  return typeof value === 'string' ? value : toList(value).join(', ');
+}
+
+function describeEntry(entry: PlaylistFileEntry): string {
+  if ('file' in entry) return `file: ${entry.file}`;
+  if ('default' in entry) return `default: ${entry.default}`;
+  if ('url' in entry) return `url: ${entry.url}`;
+  if ('git' in entry) return `git: ${entry.git}`;
+  return `repo: ${entry.repo}`;
+}
+
+export function PlaylistsEditor({ config, onChange }: PlaylistsEditorProps) {
+  const playlistFiles = config.playlist_files ?? [];
+  const libraryNames = Object.keys(config.libraries ?? {});
+  const settings = config.settings ?? {};
+
+  const defaultSync = settings.playlist_sync_to_users;
+  const defaultSyncLabel = !defaultSync
+    ? 'not set'
+    : typeof defaultSync === 'string'
+      ? defaultSync
+      : defaultSync.join(', ') || 'none';
+  const defaultExcludeLabel = settings.playlist_exclude_users?.join(', ') || 'none';
+
+  const handleFilesChange = (files: PlaylistFileEntry[]) => {
+    onChange({ playlist_files: files.length > 0 ? files : undefined });
+  };
+
+  // Sets a template variable of an entry, dropping it when it is cleared
+  const handleOptionChange = (index: number, option: PlaylistOption, value: string) => {
+    const entry = playlistFiles[index];
+    const templateVariables: PlaylistTemplateVariables = { ...entry.template_variables };
+    if (value.trim()) {
+      templateVariables[option] = value;
+    } else {
+      delete templateVariables[option];
+    }
+
+    const files = [...playlistFiles];
+    files[index] = {
+      ...entry,
+      template_variables: Object.keys(templateVariables).length > 0 ? templateVariables : undefined,
+    };
+    handleFilesChange(files);
+  };
+
+  const handleLibraryToggle = (index: number, library: string, checked: boolean) => {
+    const selected = toList(playlistFiles[index].template_variables?.libraries);
+    const libraries = checked
+      ? [...selected, library]
+      : selected.filter((name) => name !== library);
+    handleOptionChange(index, 'libraries', libraries.join(', '));
+  };
+
+  return (
+    <div className={styles.container}>
+      <h2 className={styles.title}>Playlists</h2>
+      <p className={styles.description}>
+        Playlist files are run once for the whole server and can pull items from several libraries.
+        Playlists without their own sync_to_users are shared with{' '}
+        <strong>{defaultSyncLabel}</strong> (settings.playlist_sync_to_users), excluding{' '}
+        <strong>{defaultExcludeLabel}</strong> (settings.playlist_exclude_users).
+      </p>
+
+      <div className={styles.section}>
+        <h3 className={styles.sectionTitle}>Playlist Files</h3>
+        <FileListEditor
+          files={playlistFiles as FileEntry[]}
+          onChange={(files) => handleFilesChange(files as PlaylistFileEntry[])}
+        />
+      </div>
+
+      {playlistFiles.map((entry, index) => {
+        const variables = entry.template_variables ?? {};
+        const selected = toList(variables.libraries);
+        const localPlaylists =
+          'file' in entry
+            ? (config.local_files?.[entry.file]?.playlists as
+                | Record<string, Partial<Playlist>>
+                | undefined)
+            : undefined;
+
+        return (
+          <div key={index} className={styles.section}>
+            <h3 className={styles.sectionTitle}>{describeEntry(entry)}</h3>
+
+            <div className={styles.field}>
+              <span className={styles.label}>Libraries</span>
+              {libraryNames.length === 0 ? (
+                <span className={styles.hint}>Add libraries to the config first</span>
+              ) : (
+                <div className={styles.libraryList}>
+                  {libraryNames.map((library) => (
+                    <label key={library} className={styles.checkbox}>
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(library)}
+                        onChange={(e) => handleLibraryToggle(index, library, e.target.checked)}
+                      />
+                      {library}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className={styles.grid}>
+              <label className={styles.field}>
+                <span className={styles.label}>Sync to users</span>
+                <input
+                  type="text"
+                  className={styles.input}
+                  value={formatList(variables.sync_to_users)}
+                  placeholder={`Default: ${defaultSyncLabel}`}
+                  onChange={(e) => handleOptionChange(index, 'sync_to_users', e.target.value)}
+                />
+              </label>
+              <label className={styles.field}>
+                <span className={styles.label}>Exclude users</span>
+                <input
+                  type="text"
+                  className={styles.input}
+                  value={formatList(variables.exclude_users)}
+                  placeholder={`Default: ${defaultExcludeLabel}`}
+                  onChange={(e) => handleOptionChange(index, 'exclude_users', e.target.value)}
+                />
+              </label>
+            </div>
+
+            {localPlaylists && (
+              <div className={styles.field}>
+                <span className={styles.label}>Playlists in this file</span>
+                <ul className={styles.playlistList}>
+                  {Object.entries(localPlaylists).map(([name, playlist]) => (
+                    <li key={name}>
+                      <strong>{name}</strong> —{' '}
+                      {toList(playlist.libraries).join(', ') || 'no libraries'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
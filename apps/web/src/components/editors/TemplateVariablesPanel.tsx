@@ -0,0 +1,336 @@
+import { useState, useEffect } from 'react';
+import type {
+  FileEntry,
+  KometaDefaultInfo,
+  Library,
+  TemplateVariableInfo,
+  TemplateVariables,
+} from '@kometa-studio/shared';
+import styles from './TemplateVariablesPanel.module.css';
+import { lintApi } from '../../api/client';
+import {
+  effectiveVariables,
+  formatTextValue,
+  parseTextValue,
+  type EffectiveVariable,
+} from '../../services/template-variables.service';
+
+interface TemplateVariablesPanelProps {
+  library: Library;
+  onChange: (library: Library) => void;
+}
+
+type FileList = 'collection_files' | 'overlay_files';
+
+const FILE_LISTS: Array<{ list: FileList; label: string; kind: 'collection' | 'overlay' }> = [
+  { list: 'collection_files', label: 'Collection Files', kind: 'collection' },
+  { list: 'overlay_files', label: 'Overlay Files', kind: 'overlay' },
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}/;
+
+function describeEntry(entry: FileEntry): string {
+  if ('default' in entry) return `default: ${entry.default}`;
+  if ('file' in entry) return `file: ${entry.file}`;
+  if ('url' in entry) return `url: ${entry.url}`;
+  if ('git' in entry) return `git: ${entry.git}`;
+  if ('repo' in entry) return `repo: ${entry.repo}`;
+  return JSON.stringify(entry);
+}
+
+// Value a variable starts with when it is added
+function initialValue(info?: TemplateVariableInfo): unknown {
+  if (info?.type === 'boolean') return true;
+  if (info?.type === 'number' || info?.type === 'offset') return 0;
+  return info?.options?.[0] ?? '';
+}
+
+/**
+ * Input matching the type of a catalogued variable; text for everything else
+ */
+function VariableInput({
+  name,
+  info,
+  value,
+  onChange,
+}: {
+  name: string;
+  info?: TemplateVariableInfo;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  const label = `Value of ${name}`;
+
+  switch (info?.type) {
+    case 'boolean':
+      return (
+        <select
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value === 'true')}
+          className={styles.input}
+          aria-label={label}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={formatTextValue(value)}
+          onChange={(e) => onChange(parseTextValue(e.target.value))}
+          className={styles.input}
+          aria-label={label}
+        />
+      );
+    case 'offset':
+      return (
+        <span className={styles.inputGroup}>
+          <input
+            type="text"
+            value={formatTextValue(value)}
+            onChange={(e) => onChange(parseTextValue(e.target.value))}
+            className={styles.input}
+            aria-label={label}
+          />
+          <span className={styles.unit}>px or %</span>
+        </span>
+      );
+    case 'color': {
+      const text = formatTextValue(value);
+      return (
+        <span className={styles.inputGroup}>
+          <input
+            type="color"
+            value={HEX_COLOR.test(text) ? text.slice(0, 7) : '#000000'}
+            // Keeps the alpha channel of #RRGGBBAA colors
+            onChange={(e) => onChange(e.target.value + (HEX_COLOR.test(text) ? text.slice(7) : ''))}
+            className={styles.colorInput}
+            aria-label={`Pick ${name}`}
+          />
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            className={styles.input}
+            placeholder="#RRGGBBAA"
+            aria-label={label}
+          />
+        </span>
+      );
+    }
+    case 'alignment':
+    case 'choice': {
+      const options = info.options ?? [];
+      const current = formatTextValue(value);
+      return (
+        <select
+          value={current}
+          onChange={(e) => onChange(e.target.value)}
+          className={styles.input}
+          aria-label={label}
+        >
+          {!options.includes(current) && <option value={current}>{current || '(empty)'}</option>}
+          {options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    default:
+      return (
+        <input
+          type="text"
+          value={formatTextValue(value)}
+          onChange={(e) => onChange(parseTextValue(e.target.value))}
+          className={styles.input}
+          aria-label={label}
+        />
+      );
+  }
+}
+
+function SourceBadges({
+  variable,
+  defaultName,
+}: {
+  variable: EffectiveVariable;
+  defaultName?: string;
+}) {
+  return (
+    <span className={styles.badges}>
+      {variable.overridesLibrary ? (
+        <span className={`${styles.badge} ${styles.override}`}>overrides library</span>
+      ) : (
+        <span className={styles.badge}>{variable.source}</span>
+      )}
+      {variable.known === false && (
+        <span
+          className={`${styles.badge} ${styles.unknown}`}
+          title={`Not used by the ${defaultName} default`}
+        >
+          unknown
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Shows the variables each file entry ends up with after the library's
+ * template_variables are merged with the entry's own, and edits them with
+ * inputs driven by the catalogue of the entry's default. Changing a variable
+ * inherited from the library sets it on the entry.
+ */
+export function TemplateVariablesPanel({ library, onChange }: TemplateVariablesPanelProps) {
+  const [defaults, setDefaults] = useState<KometaDefaultInfo[]>([]);
+  const [newNames, setNewNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    lintApi
+      .listDefaults()
+      .then(({ defaults: defaultList }) => setDefaults(defaultList))
+      .catch((error) => console.error('Failed to load Kometa defaults:', error));
+  }, []);
+
+  const setEntryVariables = (list: FileList, index: number, variables: TemplateVariables) => {
+    const files = [...(library[list] ?? [])];
+    const { template_variables: _previous, ...entry } = files[index];
+    files[index] = (
+      Object.keys(variables).length > 0 ? { ...entry, template_variables: variables } : entry
+    ) as FileEntry;
+    onChange({ ...library, [list]: files });
+  };
+
+  const entryCount = FILE_LISTS.reduce(
+    (count, { list }) => count + (library[list]?.length ?? 0),
+    0
+  );
+
+  return (
+    <div className={styles.container}>
+      <p className={styles.description}>
+        Variables set on the library apply to every file entry; an entry's own variables take
+        precedence. Changing an inherited variable sets it on that entry.
+      </p>
+
+      {entryCount === 0 && <div className={styles.emptyState}>This library has no files yet.</div>}
+
+      {FILE_LISTS.map(({ list, label, kind }) =>
+        (library[list] ?? []).length === 0 ? null : (
+          <section key={list} className={styles.section}>
+            <h3 className={styles.sectionTitle}>{label}</h3>
+            {(library[list] ?? []).map((entry, index) => {
+              const defaultName = 'default' in entry ? entry.default : undefined;
+              const info = defaults.find(
+                (candidate) => candidate.kind === kind && candidate.name === defaultName
+              );
+              const own = entry.template_variables ?? {};
+              const variables = effectiveVariables(library.template_variables, own, info);
+              const inputKey = `${list}-${index}`;
+              const newName = (newNames[inputKey] ?? '').trim();
+              const suggestions = (info?.variables ?? []).filter(
+                (variable) => !variables.some((existing) => existing.name === variable.name)
+              );
+
+              const setVariable = (name: string, value: unknown) =>
+                setEntryVariables(list, index, { ...own, [name]: value });
+
+              const removeVariable = (name: string) => {
+                const { [name]: _removed, ...rest } = own;
+                setEntryVariables(list, index, rest);
+              };
+
+              return (
+                <div key={index} className={styles.entry}>
+                  <div className={styles.entryHeader}>
+                    <code className={styles.entryName}>{describeEntry(entry)}</code>
+                    {defaultName && defaults.length > 0 && !info && (
+                      <span className={styles.hint}>Not in the defaults catalogue</span>
+                    )}
+                  </div>
+
+                  {variables.length === 0 ? (
+                    <p className={styles.hint}>No template variables.</p>
+                  ) : (
+                    <table className={styles.table}>
+                      <tbody>
+                        {variables.map((variable) => (
+                          <tr
+                            key={variable.name}
+                            className={variable.source === 'library' ? styles.inherited : ''}
+                          >
+                            <td className={styles.name}>{variable.name}</td>
+                            <td>
+                              <VariableInput
+                                name={variable.name}
+                                info={variable.info}
+                                value={variable.value}
+                                onChange={(value) => setVariable(variable.name, value)}
+                              />
+                            </td>
+                            <td>
+                              <SourceBadges variable={variable} defaultName={defaultName} />
+                            </td>
+                            <td className={styles.actions}>
+                              {variable.source === 'entry' && (
+                                <button
+                                  onClick={() => removeVariable(variable.name)}
+                                  className={styles.removeButton}
+                                  title={
+                                    variable.overridesLibrary
+                                      ? 'Use the library value again'
+                                      : 'Remove the variable'
+                                  }
+                                >
+                                  {variable.overridesLibrary ? 'Reset' : 'Remove'}
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <form
+                    className={styles.addRow}
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (!newName) return;
+                      setVariable(
+                        newName,
+                        initialValue(info?.variables.find((variable) => variable.name === newName))
+                      );
+                      setNewNames({ ...newNames, [inputKey]: '' });
+                    }}
+                  >
+                    <input
+                      type="text"
+                      list={`${inputKey}-variables`}
+                      value={newNames[inputKey] ?? ''}
+                      onChange={(e) => setNewNames({ ...newNames, [inputKey]: e.target.value })}
+                      className={styles.input}
+                      placeholder="Variable name"
+                    />
+                    <datalist id={`${inputKey}-variables`}>
+                      {suggestions.map((variable) => (
+                        <option key={variable.name} value={variable.name} />
+                      ))}
+                    </datalist>
+                    <button type="submit" disabled={!newName} className={styles.addButton}>
+                      + Add Variable
+                    </button>
+                  </form>
+                </div>
+              );
+            })}
+          </section>
+        )
+      )}
+    </div>
+  );
+}
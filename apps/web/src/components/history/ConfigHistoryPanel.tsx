@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { SemanticChangeKind } from '@kometa-studio/shared';
+import styles from './ConfigHistoryPanel.module.css';
+import {
+  configApi,
+  ConfigEntity,
+  ConfigRevisionSummary,
+  ConfigRevisionDiff,
+} from '../../api/client';
+import { ConfirmDialog } from '../shared/ConfirmDialog';
+
+interface ConfigHistoryPanelProps {
+  configId: string;
+  /** Changes whenever the config is saved, so the revision list can refresh */
+  updatedAt: string;
+  onRestore: (config: ConfigEntity) => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+// Reordered file lists count as changed
+function summarizeDiff(diff: ConfigRevisionDiff): string {
+  const count = (...kinds: SemanticChangeKind[]) =>
+    diff.changes.filter((change) => kinds.includes(change.kind)).length;
+  return `+${count('added')} −${count('removed')} ~${count('changed', 'reordered')}`;
+}
+
+export function ConfigHistoryPanel({ configId, updatedAt, onRestore }: ConfigHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<ConfigRevisionSummary[]>([]);
+  const [baseRevision, setBaseRevision] = useState<number>(0);
+  const [compareRevision, setCompareRevision] = useState<number>(0);
+  const [diff, setDiff] = useState<ConfigRevisionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<number | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const { revisions: revisionList } = await configApi.listRevisions(configId);
+      setRevisions(revisionList);
+
+      // Default to comparing the latest revision with its predecessor
+      if (revisionList.length > 0) {
+        setCompareRevision(revisionList[0].revision);
+        setBaseRevision(revisionList[1]?.revision ?? 0);
+      }
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+    }
+  }, [configId]);
+
+  const loadDiff = useCallback(async () => {
+    if (!compareRevision) {
+      setDiff(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await configApi.diffRevisions(configId, compareRevision, baseRevision);
+      setDiff(result);
+    } catch (error) {
+      console.error('Failed to load diff:', error);
+      setDiff(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [configId, baseRevision, compareRevision]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, updatedAt]);
+
+  useEffect(() => {
+    loadDiff();
+  }, [loadDiff]);
+
+  const handleRestoreConfirm = async () => {
+    if (restoreTarget === null) return;
+
+    const revision = restoreTarget;
+    setRestoreTarget(null);
+    try {
+      const restored = await configApi.restoreRevision(configId, revision);
+      onRestore(restored);
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert(`Failed to restore revision: ${(error as Error).message}`);
+    }
+  };
+
+  if (revisions.length === 0) {
+    return <div className={styles.empty}>No revisions recorded yet.</div>;
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.revisionList}>
+        <h3 className={styles.sectionTitle}>Revisions</h3>
+        {revisions.map((revision) => (
+          <div
+            key={revision.revision}
+            className={`${styles.revision} ${revision.revision === compareRevision ? styles.selected : ''}`}
+          >
+            <div className={styles.revisionHeader}>
+              <span className={styles.revisionNumber}>#{revision.revision}</span>
+              <span className={styles.revisionDate}>
+                {new Date(revision.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {revision.note && <div className={styles.revisionNote}>{revision.note}</div>}
+            <div className={styles.revisionActions}>
+              <button
+                type="button"
+                className={styles.linkButton}
+                onClick={() => setCompareRevision(revision.revision)}
+              >
+                Compare
+              </button>
+              {revision.revision !== revisions[0].revision && (
+                <button
+                  type="button"
+                  className={styles.linkButton}
+                  onClick={() => setRestoreTarget(revision.revision)}
+                >
+                  Restore
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.diffSection}>
+        <div className={styles.diffToolbar}>
+          <label className={styles.label}>
+            From
+            <select
+              value={baseRevision}
+              onChange={(e) => setBaseRevision(Number(e.target.value))}
+              className={styles.select}
+            >
+              <option value={0}>(empty)</option>
+              {revisions.map((revision) => (
+                <option key={revision.revision} value={revision.revision}>
+                  #{revision.revision}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.label}>
+            To
+            <select
+              value={compareRevision}
+              onChange={(e) => setCompareRevision(Number(e.target.value))}
+              className={styles.select}
+            >
+              {revisions.map((revision) => (
+                <option key={revision.revision} value={revision.revision}>
+                  #{revision.revision}
+                </option>
+              ))}
+            </select>
+          </label>
+          {diff && <span className={styles.diffSummary}>{summarizeDiff(diff)}</span>}
+          {loading && <span className={styles.loading}>Loading...</span>}
+        </div>
+
+        {diff && diff.changes.length === 0 && (
+          <div className={styles.empty}>No differences between these revisions.</div>
+        )}
+
+        {diff && diff.changes.length > 0 && (
+          <div className={styles.changes}>
+            {diff.changes.map((change, index) => (
+              <div key={index} className={`${styles.change} ${styles[change.kind]}`}>
+                <div className={styles.changePath}>{change.path.join(' › ') || '(root)'}</div>
+                {change.kind !== 'added' && (
+                  <div className={styles.before}>- {formatValue(change.before)}</div>
+                )}
+                {change.kind !== 'removed' && (
+                  <div className={styles.after}>+ {formatValue(change.after)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={restoreTarget !== null}
+        title="Restore Revision"
+        message={`Restore the configuration from revision #${restoreTarget}?`}
+        warning="The current configuration will be replaced. It stays available in the revision history."
+        confirmText="Restore"
+        onConfirm={handleRestoreConfirm}
+        onCancel={() => setRestoreTarget(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import type { SecretLeak, SecretLeakHandlingInput, SecretLeakReason } from '@kometa-studio/shared';
+import styles from './SecretLeaksDialog.module.css';
+import { profileApi, type ProfileEntity } from '../../api/client';
+
+interface SecretLeaksDialogProps {
+  leaks: SecretLeak[];
+  onSubmit: (handling: SecretLeakHandlingInput) => void;
+  onCancel: () => void;
+}
+
+interface LeakChoice {
+  action: 'move' | 'keep';
+  name: string;
+}
+
+const REASON_LABELS: Record<SecretLeakReason, string> = {
+  key: 'Key name suggests a secret',
+  pattern: 'Value looks like a key or token',
+  'url-credentials': 'URL contains credentials',
+};
+
+const SECRET_NAME = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+/**
+ * Lists the imported values that look like secrets and lets the user move each
+ * one into a profile as an extras secret, or keep it in the config. Without a
+ * chosen profile, moved secrets go to the profile the import creates.
+ */
+export function SecretLeaksDialog({ leaks, onSubmit, onCancel }: SecretLeaksDialogProps) {
+  const [profiles, setProfiles] = useState<ProfileEntity[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [choices, setChoices] = useState<LeakChoice[]>(() =>
+    leaks.map((leak) => ({ action: 'move', name: leak.name }))
+  );
+
+  useEffect(() => {
+    profileApi
+      .list()
+      .then(({ profiles: profileList }) => setProfiles(profileList))
+      .catch((error) => console.error('Failed to load profiles:', error));
+  }, []);
+
+  const updateChoice = (index: number, choice: Partial<LeakChoice>) => {
+    setChoices((current) =>
+      current.map((item, i) => (i === index ? { ...item, ...choice } : item))
+    );
+  };
+
+  const moved = choices.filter((choice) => choice.action === 'move');
+  const names = moved.map((choice) => choice.name);
+  const invalid = names.some(
+    (name, index) => !SECRET_NAME.test(name) || names.indexOf(name) !== index
+  );
+
+  const handleSubmit = () => {
+    onSubmit({
+      profileId: profileId || undefined,
+      resolutions: leaks.map((leak, index) => ({
+        path: leak.path,
+        action: choices[index].action,
+        name: choices[index].action === 'move' ? choices[index].name : undefined,
+      })),
+    });
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="secret-leaks-title"
+      >
+        <div className={styles.header}>
+          <h2 id="secret-leaks-title" className={styles.title}>
+            Possible secrets found
+          </h2>
+        </div>
+
+        <div className={styles.content}>
+          <p className={styles.message}>
+            These imported values look like secrets but are not stored in a profile. Move them to a
+            profile as extras secrets, leaving a secret reference in the config, or keep them in the
+            config, where they are stored unencrypted.
+          </p>
+
+          <label className={styles.profileField}>
+            <span>Move to profile</span>
+            <select
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              className={styles.select}
+            >
+              <option value="">New profile for this import</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <ul className={styles.leaks}>
+            {leaks.map((leak, index) => (
+              <li key={leak.path.join('.')} className={styles.leak}>
+                <div className={styles.leakInfo}>
+                  <code className={styles.path}>{leak.path.join('.')}</code>
+                  <span className={styles.reason}>
+                    {REASON_LABELS[leak.reason]}: <code>{leak.preview}</code>
+                  </span>
+                </div>
+                <div className={styles.leakActions}>
+                  <select
+                    value={choices[index].action}
+                    onChange={(e) =>
+                      updateChoice(index, { action: e.target.value as LeakChoice['action'] })
+                    }
+                    className={styles.select}
+                    aria-label={`Action for ${leak.path.join('.')}`}
+                  >
+                    <option value="move">Move as</option>
+                    <option value="keep">Keep in config</option>
+                  </select>
+                  {choices[index].action === 'move' && (
+                    <input
+                      type="text"
+                      value={choices[index].name}
+                      onChange={(e) => updateChoice(index, { name: e.target.value })}
+                      className={`${styles.input} ${SECRET_NAME.test(choices[index].name) ? '' : styles.invalid}`}
+                      placeholder="group.key"
+                      aria-label={`Secret name for ${leak.path.join('.')}`}
+                    />
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className={styles.footer}>
+          <button className={styles.cancelButton} onClick={onCancel} type="button">
+            Cancel import
+          </button>
+          <button
+            className={styles.confirmButton}
+            onClick={handleSubmit}
+            disabled={invalid}
+            type="button"
+          >
+            Continue import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
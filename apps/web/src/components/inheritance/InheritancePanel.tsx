@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import type { KometaConfig } from '@kometa-studio/shared';
+import styles from './InheritancePanel.module.css';
+import { configApi, type ConfigEntity } from '../../api/client';
+import {
+  inheritanceRows,
+  resetToParent,
+  type InheritanceStatus,
+} from '../../services/inheritance.service';
+
+interface InheritancePanelProps {
+  config: ConfigEntity;
+  onParentChange: (parentId: string | null) => void;
+  onChange: (config: KometaConfig) => void;
+}
+
+const STATUS_LABELS: Record<InheritanceStatus, string> = {
+  inherited: 'Inherited',
+  overridden: 'Overridden',
+  added: 'Added',
+};
+
+export function InheritancePanel({ config, onParentChange, onChange }: InheritancePanelProps) {
+  const [configs, setConfigs] = useState<ConfigEntity[]>([]);
+  const [parent, setParent] = useState<ConfigEntity | null>(null);
+
+  useEffect(() => {
+    configApi
+      .list()
+      .then(({ configs: configList }) => setConfigs(configList))
+      .catch((error) => console.error('Failed to load configs:', error));
+  }, []);
+
+  // Reload the parent after every save, as re-parenting changes what it resolves to
+  useEffect(() => {
+    if (!config.parentId) {
+      setParent(null);
+      return;
+    }
+    configApi
+      .get(config.parentId)
+      .then(setParent)
+      .catch((error) => console.error('Failed to load parent config:', error));
+  }, [config.parentId, config.updatedAt]);
+
+  const rows = config.parentId
+    ? inheritanceRows(config.config, config.overrides ?? {}, parent?.config)
+    : [];
+
+  return (
+    <div className={styles.panel}>
+      <p className={styles.description}>
+        A config can inherit from a parent config and only store what it changes. Edits to the
+        parent show up here the next time this config is loaded or rendered.
+      </p>
+
+      <label className={styles.field}>
+        <span className={styles.label}>Parent config</span>
+        <select
+          value={config.parentId ?? ''}
+          onChange={(e) => onParentChange(e.target.value || null)}
+          className={styles.select}
+        >
+          <option value="">None</option>
+          {configs
+            .filter((candidate) => candidate.id !== config.id)
+            .map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </option>
+            ))}
+        </select>
+      </label>
+
+      {config.parentId ? (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Value</th>
+              <th>Source</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ path, status }) => (
+              <tr key={path.join('.')} className={path.length > 1 ? styles.nested : ''}>
+                <td className={styles.path}>{path[path.length - 1]}</td>
+                <td>
+                  <span className={`${styles.status} ${styles[status]}`}>
+                    {STATUS_LABELS[status]}
+                  </span>
+                </td>
+                <td className={styles.actions}>
+                  {status !== 'inherited' && parent && (
+                    <button
+                      type="button"
+                      onClick={() => onChange(resetToParent(config.config, parent.config, path))}
+                      className={styles.resetButton}
+                      title={
+                        status === 'added'
+                          ? 'Remove this value, the parent does not have it'
+                          : 'Use the value of the parent'
+                      }
+                    >
+                      {status === 'added' ? 'Remove' : 'Reset'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className={styles.description}>This config does not inherit from another config.</p>
+      )}
+    </div>
+  );
+}
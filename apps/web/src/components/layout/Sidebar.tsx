@@ -91,6 +91,20 @@ export function Sidebar() {
           Community Overlays
         </Link>
 
+        <Link
+          to="/collection-builder"
+          className={`${styles.navItem} ${isActive('/collection-builder') ? styles.active : ''}`}
+        >
+          Collection Builder
+        </Link>
+
+        <Link
+          to="/metadata-editor"
+          className={`${styles.navItem} ${isActive('/metadata-editor') ? styles.active : ''}`}
+        >
+          Metadata Editor
+        </Link>
+
         <Link
           to="/import-export"
           className={`${styles.navItem} ${isActive('/import-export') ? styles.active : ''}`}
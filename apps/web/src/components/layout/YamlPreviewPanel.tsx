@@ -1,9 +1,77 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useLocation } from 'react-router-dom';
+import type { SourceRange, ValidationIssue, YamlMode } from '@kometa-studio/shared';
 import styles from './YamlPreviewPanel.module.css';
-import { configApi, profileApi } from '../../api/client';
+import { configApi, profileApi, type ValidationResult } from '../../api/client';
 
-type YamlMode = 'template' | 'masked' | 'full';
+// Env mode renders a .env file and docker-compose.yml snippet next to the YAML
+type PreviewFile = 'config.yml' | '.env' | 'docker-compose.yml';
+
+interface EnvironmentFiles {
+  env: string;
+  compose: string;
+}
+
+/**
+ * Renders one line of YAML, marking the part covered by the highlighted range
+ */
+function YamlLine({
+  line,
+  lineNumber,
+  highlight,
+}: {
+  line: string;
+  lineNumber: number;
+  highlight: SourceRange | null;
+}) {
+  if (!highlight || lineNumber < highlight.start.line || lineNumber > highlight.end.line) {
+    return <div className={styles.yamlLine}>{line}</div>;
+  }
+
+  const from = lineNumber === highlight.start.line ? highlight.start.column - 1 : 0;
+  const to = lineNumber === highlight.end.line ? highlight.end.column - 1 : line.length;
+
+  return (
+    <div className={`${styles.yamlLine} ${styles.yamlLineHighlighted}`} data-line={lineNumber}>
+      {line.slice(0, from)}
+      <mark className={styles.yamlMark}>{line.slice(from, to)}</mark>
+      {line.slice(to)}
+    </div>
+  );
+}
+
+function IssueItem({
+  issue,
+  className,
+  onSelect,
+}: {
+  issue: ValidationIssue;
+  className: string;
+  onSelect: (range: SourceRange) => void;
+}) {
+  const { range } = issue;
+
+  return (
+    <button
+      type="button"
+      className={`${styles.validationIssue} ${className}`}
+      onClick={() => range && onSelect(range)}
+      disabled={!range}
+      title={range ? 'Show in YAML' : undefined}
+    >
+      <div className={styles.validationPath}>
+        {issue.path.join(' > ')}
+        {range && (
+          <span className={styles.validationLine}>
+            Line {range.start.line}:{range.start.column}
+          </span>
+        )}
+        {issue.code && <span className={styles.validationCode}>{issue.code}</span>}
+      </div>
+      <div className={styles.validationMessage}>{issue.message}</div>
+    </button>
+  );
+}
 
 export function YamlPreviewPanel() {
   const location = useLocation();
@@ -13,11 +81,15 @@ export function YamlPreviewPanel() {
     : undefined;
   const [yaml, setYaml] = useState('');
   const [mode, setMode] = useState<YamlMode>('masked');
+  const [envFiles, setEnvFiles] = useState<EnvironmentFiles | null>(null);
+  const [previewFile, setPreviewFile] = useState<PreviewFile>('config.yml');
   const [profiles, setProfiles] = useState<any[]>([]);
   const [selectedProfile, setSelectedProfile] = useState<string>('');
-  const [validation, setValidation] = useState<any>(null);
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [showValidation, setShowValidation] = useState(true);
+  const [highlight, setHighlight] = useState<SourceRange | null>(null);
+  const yamlRef = useRef<HTMLPreElement>(null);
 
   const loadProfiles = useCallback(async () => {
     try {
@@ -38,15 +110,18 @@ export function YamlPreviewPanel() {
 
     setLoading(true);
     try {
-      const { yaml: yamlContent } = await configApi.renderYaml(
-        configId,
-        selectedProfile || undefined,
-        mode
-      );
+      const {
+        yaml: yamlContent,
+        env,
+        compose,
+      } = await configApi.renderYaml(configId, selectedProfile || undefined, mode);
       setYaml(yamlContent);
+      setEnvFiles(env !== undefined && compose !== undefined ? { env, compose } : null);
+      setHighlight(null);
     } catch (error) {
       console.error('Failed to load YAML:', error);
       setYaml('# Error loading YAML\n' + (error as Error).message);
+      setEnvFiles(null);
     } finally {
       setLoading(false);
     }
@@ -56,12 +131,12 @@ export function YamlPreviewPanel() {
     if (!configId) return;
 
     try {
-      const result = await configApi.validate(configId, selectedProfile || undefined);
+      const result = await configApi.validate(configId, selectedProfile || undefined, mode);
       setValidation(result);
     } catch (error) {
       console.error('Failed to validate:', error);
     }
-  }, [configId, selectedProfile]);
+  }, [configId, selectedProfile, mode]);
 
   // Load profiles when component mounts or when navigating
   useEffect(() => {
@@ -86,20 +161,60 @@ export function YamlPreviewPanel() {
     }
   }, [configId, loadYaml, loadValidation]);
 
+  // Bring the highlighted range into view once it has been rendered
+  useEffect(() => {
+    if (!highlight) return;
+    const line = yamlRef.current?.querySelector(`[data-line="${highlight.start.line}"]`);
+    line?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, [highlight]);
+
+  // The environment files are only there in env mode, so fall back to the YAML otherwise
+  const shownFile = envFiles ? previewFile : 'config.yml';
+  const shownContent =
+    shownFile === '.env'
+      ? (envFiles?.env ?? '')
+      : shownFile === 'docker-compose.yml'
+        ? (envFiles?.compose ?? '')
+        : yaml;
+
+  const handleSelectIssue = (range: SourceRange) => {
+    setPreviewFile('config.yml');
+    setHighlight(range);
+  };
+
   const handleCopy = () => {
-    navigator.clipboard.writeText(yaml);
+    navigator.clipboard.writeText(shownContent);
   };
 
   const handleDownload = () => {
-    const blob = new Blob([yaml], { type: 'text/yaml' });
+    const blob = new Blob([shownContent], {
+      type: shownFile === '.env' ? 'text/plain' : 'text/yaml',
+    });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'config.yml';
+    a.download = shownFile;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleDownloadProject = async () => {
+    if (!configId) return;
+
+    try {
+      const blob = await configApi.exportProject(configId, selectedProfile || undefined, mode);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'kometa-project.zip';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export project:', error);
+      alert(`Project export failed: ${(error as Error).message}`);
+    }
+  };
+
   if (!configId) {
     return (
       <div className={styles.panel}>
@@ -108,8 +223,8 @@ export function YamlPreviewPanel() {
     );
   }
 
-  const hasErrors = validation?.errors?.length > 0;
-  const hasWarnings = validation?.warnings?.length > 0;
+  const hasErrors = (validation?.errors.length ?? 0) > 0;
+  const hasWarnings = (validation?.warnings.length ?? 0) > 0;
 
   return (
     <div className={styles.panel}>
@@ -135,23 +250,53 @@ export function YamlPreviewPanel() {
           <option value="template">Template</option>
           <option value="masked">Masked</option>
           <option value="full">Full</option>
+          <option value="env">Environment</option>
         </select>
 
+        {envFiles && (
+          <select
+            value={previewFile}
+            onChange={(e) => setPreviewFile(e.target.value as PreviewFile)}
+            className={styles.select}
+            aria-label="File to preview"
+          >
+            <option value="config.yml">config.yml</option>
+            <option value=".env">.env</option>
+            <option value="docker-compose.yml">docker-compose.yml</option>
+          </select>
+        )}
+
         <button onClick={handleCopy} className={styles.button} title="Copy">
           Copy
         </button>
         <button onClick={handleDownload} className={styles.button} title="Download">
           Download
         </button>
+        <button
+          onClick={handleDownloadProject}
+          className={styles.button}
+          title="Download config.yml and local collection, overlay and metadata files as a zip"
+        >
+          Project
+        </button>
       </div>
 
       <div className={styles.content}>
         <div className={styles.yamlSection}>
           <div className={styles.sectionHeader}>
-            <span>YAML Preview</span>
+            <span>{shownFile === 'config.yml' ? 'YAML Preview' : shownFile}</span>
             {loading && <span className={styles.loading}>Loading...</span>}
           </div>
-          <pre className={styles.yaml}>{yaml}</pre>
+          <pre className={styles.yaml} ref={yamlRef}>
+            {shownContent.split('\n').map((line, index) => (
+              <YamlLine
+                key={index}
+                line={line}
+                lineNumber={index + 1}
+                highlight={shownFile === 'config.yml' ? highlight : null}
+              />
+            ))}
+          </pre>
         </div>
 
         {showValidation && validation && (
@@ -172,11 +317,13 @@ export function YamlPreviewPanel() {
                   <div className={styles.validationGroupTitle}>
                     Errors ({validation.errors.length})
                   </div>
-                  {validation.errors.map((error: any, i: number) => (
-                    <div key={i} className={styles.validationError}>
-                      <div className={styles.validationPath}>{error.path.join(' > ')}</div>
-                      <div className={styles.validationMessage}>{error.message}</div>
-                    </div>
+                  {validation.errors.map((error, i) => (
+                    <IssueItem
+                      key={i}
+                      issue={error}
+                      className={styles.validationError}
+                      onSelect={handleSelectIssue}
+                    />
                   ))}
                 </div>
               )}
@@ -186,11 +333,13 @@ export function YamlPreviewPanel() {
                   <div className={styles.validationGroupTitle}>
                     Warnings ({validation.warnings.length})
                   </div>
-                  {validation.warnings.map((warning: any, i: number) => (
-                    <div key={i} className={styles.validationWarning}>
-                      <div className={styles.validationPath}>{warning.path.join(' > ')}</div>
-                      <div className={styles.validationMessage}>{warning.message}</div>
-                    </div>
+                  {validation.warnings.map((warning, i) => (
+                    <IssueItem
+                      key={i}
+                      issue={warning}
+                      className={styles.validationWarning}
+                      onSelect={handleSelectIssue}
+                    />
                   ))}
                 </div>
               )}
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import type { EpisodeMetadata, ItemMetadata, SeasonMetadata } from '@kometa-studio/shared';
+import styles from './MetadataItemEditor.module.css';
+
+interface MetadataItemEditorProps {
+  item: ItemMetadata;
+  mediaType: 'movie' | 'show';
+  onChange: (item: ItemMetadata) => void;
+}
+
+interface FieldDefinition {
+  key: string;
+  label: string;
+  multiline?: boolean;
+  placeholder?: string;
+}
+
+const TITLE_FIELDS: FieldDefinition[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'sort_title', label: 'Sort Title' },
+];
+
+const SUMMARY_FIELDS: FieldDefinition[] = [
+  { key: 'summary', label: 'Summary', multiline: true },
+  { key: 'url_poster', label: 'Poster URL', placeholder: 'https://image.tmdb.org/t/p/original/…' },
+];
+
+const LABEL_FIELD: FieldDefinition = {
+  key: 'label',
+  label: 'Labels',
+  placeholder: 'Favorite, Rewatch',
+};
+
+const EDITION_FIELD: FieldDefinition = {
+  key: 'edition',
+  label: 'Edition',
+  placeholder: "Director's Cut",
+};
+
+const ITEM_FIELDS = [...TITLE_FIELDS, ...SUMMARY_FIELDS, LABEL_FIELD];
+const SEASON_FIELDS = [TITLE_FIELDS[0], ...SUMMARY_FIELDS, LABEL_FIELD];
+const EPISODE_FIELDS = [...TITLE_FIELDS, ...SUMMARY_FIELDS];
+
+function byNumber(a: string, b: string): number {
+  return Number(a) - Number(b);
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Text inputs for a set of metadata fields. Cleared fields are removed.
+ */
+function MetadataFields<T extends Record<string, unknown>>({
+  value,
+  fields,
+  onChange,
+}: {
+  value: T;
+  fields: FieldDefinition[];
+  onChange: (value: T) => void;
+}) {
+  const handleChange = (key: string, fieldValue: string) => {
+    const next: Record<string, unknown> = { ...value, [key]: fieldValue };
+    if (!fieldValue) delete next[key];
+    onChange(next as T);
+  };
+
+  return (
+    <div className={styles.fields}>
+      {fields.map((field) => (
+        <label key={field.key} className={styles.field}>
+          <span className={styles.label}>{field.label}</span>
+          {field.multiline ? (
+            <textarea
+              value={formatValue(value[field.key])}
+              onChange={(e) => handleChange(field.key, e.target.value)}
+              className={styles.textarea}
+              placeholder={field.placeholder}
+            />
+          ) : (
+            <input
+              type="text"
+              value={formatValue(value[field.key])}
+              onChange={(e) => handleChange(field.key, e.target.value)}
+              className={styles.input}
+              placeholder={field.placeholder}
+            />
+          )}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Adds a numbered entry, such as a season or an episode
+ */
+function AddNumber({
+  label,
+  existing,
+  onAdd,
+}: {
+  label: string;
+  existing: string[];
+  onAdd: (key: string) => void;
+}) {
+  const [value, setValue] = useState('');
+  const taken = existing.includes(String(Number(value)));
+
+  return (
+    <div className={styles.addRow}>
+      <input
+        type="number"
+        min={0}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className={styles.numberInput}
+        placeholder="#"
+      />
+      <button
+        type="button"
+        disabled={value === '' || taken}
+        onClick={() => {
+          onAdd(String(Number(value)));
+          setValue('');
+        }}
+        className={styles.addButton}
+      >
+        + Add {label}
+      </button>
+    </div>
+  );
+}
+
+function EpisodesEditor({
+  episodes,
+  onChange,
+}: {
+  episodes: Record<string, EpisodeMetadata>;
+  onChange: (episodes: Record<string, EpisodeMetadata> | undefined) => void;
+}) {
+  const keys = Object.keys(episodes).sort(byNumber);
+
+  const remove = (key: string) => {
+    const { [key]: _removed, ...rest } = episodes;
+    onChange(Object.keys(rest).length > 0 ? rest : undefined);
+  };
+
+  return (
+    <div className={styles.nested}>
+      {keys.map((key) => (
+        <details key={key} className={styles.entry}>
+          <summary className={styles.entryHeader}>
+            Episode {key}
+            {episodes[key].title && ` - ${episodes[key].title}`}
+            <button
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                remove(key);
+              }}
+              className={styles.removeButton}
+            >
+              Remove
+            </button>
+          </summary>
+          <MetadataFields
+            value={episodes[key]}
+            fields={EPISODE_FIELDS}
+            onChange={(episode) => onChange({ ...episodes, [key]: episode })}
+          />
+        </details>
+      ))}
+      <AddNumber
+        label="episode"
+        existing={keys}
+        onAdd={(key) => onChange({ ...episodes, [key]: {} })}
+      />
+    </div>
+  );
+}
+
+function SeasonsEditor({
+  seasons,
+  onChange,
+}: {
+  seasons: Record<string, SeasonMetadata>;
+  onChange: (seasons: Record<string, SeasonMetadata> | undefined) => void;
+}) {
+  const keys = Object.keys(seasons).sort(byNumber);
+
+  const update = (key: string, season: SeasonMetadata) => {
+    onChange({ ...seasons, [key]: season });
+  };
+
+  const remove = (key: string) => {
+    const { [key]: _removed, ...rest } = seasons;
+    onChange(Object.keys(rest).length > 0 ? rest : undefined);
+  };
+
+  return (
+    <div className={styles.section}>
+      <h4 className={styles.sectionTitle}>Seasons</h4>
+      {keys.map((key) => {
+        const season = seasons[key];
+        return (
+          <details key={key} className={styles.entry}>
+            <summary className={styles.entryHeader}>
+              {key === '0' ? 'Specials' : `Season ${key}`}
+              {season.title && ` - ${season.title}`}
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  remove(key);
+                }}
+                className={styles.removeButton}
+              >
+                Remove
+              </button>
+            </summary>
+            <MetadataFields
+              value={season}
+              fields={SEASON_FIELDS}
+              onChange={(fields) => update(key, fields)}
+            />
+            <EpisodesEditor
+              episodes={season.episodes ?? {}}
+              onChange={(episodes) => {
+                const { episodes: _previous, ...rest } = season;
+                update(key, episodes ? { ...rest, episodes } : rest);
+              }}
+            />
+          </details>
+        );
+      })}
+      <AddNumber label="season" existing={keys} onAdd={(key) => update(key, {})} />
+    </div>
+  );
+}
+
+export function MetadataItemEditor({ item, mediaType, onChange }: MetadataItemEditorProps) {
+  const fields = mediaType === 'movie' ? [...ITEM_FIELDS, EDITION_FIELD] : ITEM_FIELDS;
+
+  return (
+    <div className={styles.editor}>
+      <MetadataFields value={item} fields={fields} onChange={onChange} />
+      {mediaType === 'show' && (
+        <SeasonsEditor
+          seasons={item.seasons ?? {}}
+          onChange={(seasons) => {
+            const { seasons: _previous, ...rest } = item;
+            onChange(seasons ? { ...rest, seasons } : rest);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import styles from './ScheduleInput.module.css';
+import { ApiError, scheduleApi } from '../../api/client';
+import { buildCalendar, today } from '../../services/schedule.service';
+
+interface ScheduleInputProps {
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  placeholder?: string;
+}
+
+const WEEKDAY_LABELS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+// Waits for typing to pause before previewing
+const PREVIEW_DELAY = 300;
+
+/**
+ * Schedule expression input that checks the expression and shows the next 30
+ * days it runs on in a calendar
+ */
+export function ScheduleInput({
+  value,
+  onChange,
+  placeholder = 'e.g., daily, weekly(sunday)',
+}: ScheduleInputProps) {
+  const [runs, setRuns] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!value?.trim()) {
+      setRuns(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      scheduleApi
+        .preview(value, today())
+        .then((preview) => {
+          if (!cancelled) setRuns(preview.runs);
+        })
+        .catch((previewError) => {
+          if (cancelled) return;
+          setRuns(null);
+          setError(
+            previewError instanceof ApiError && typeof previewError.details === 'string'
+              ? previewError.details
+              : 'Could not check the schedule'
+          );
+        });
+    }, PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value]);
+
+  const currentDay = today();
+
+  return (
+    <div className={styles.container}>
+      <input
+        type="text"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className={`${styles.input} ${error ? styles.invalid : ''}`}
+        placeholder={placeholder}
+      />
+      {error && <p className={styles.error}>{error}</p>}
+
+      {runs && runs.length === 0 && (
+        <p className={styles.hint}>
+          Never runs on a schedule. never, non_existing and not_scheduled only run when Kometa is
+          told to ignore schedules or the item does not exist yet.
+        </p>
+      )}
+
+      {runs && runs.length > 0 && (
+        <details className={styles.preview}>
+          <summary className={styles.summary}>
+            Next {runs.length} run days, from {runs[0]}
+          </summary>
+          {/hourly/i.test(value ?? '') && (
+            <p className={styles.hint}>Hourly options also depend on the time Kometa runs at.</p>
+          )}
+          <div className={styles.months}>
+            {buildCalendar(runs).map(({ year, month, weeks }) => (
+              <table key={`${year}-${month}`} className={styles.month}>
+                <caption className={styles.monthTitle}>
+                  {new Date(year, month - 1).toLocaleString(undefined, {
+                    month: 'long',
+                    year: 'numeric',
+                  })}
+                </caption>
+                <thead>
+                  <tr>
+                    {WEEKDAY_LABELS.map((label) => (
+                      <th key={label}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeks.map((week, index) => (
+                    <tr key={index}>
+                      {week.map((day, dayIndex) => (
+                        <td
+                          key={dayIndex}
+                          className={[
+                            day?.runs ? styles.run : '',
+                            day?.date === currentDay ? styles.today : '',
+                          ].join(' ')}
+                        >
+                          {day?.day}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import type { LintRuleInfo, RuleLevel, RuleSettings } from '@kometa-studio/shared';
+import styles from './RuleSettingsPanel.module.css';
+import { lintApi } from '../../api/client';
+
+interface RuleSettingsPanelProps {
+  ruleSettings: RuleSettings;
+  onChange: (ruleSettings: RuleSettings) => void;
+}
+
+export function RuleSettingsPanel({ ruleSettings, onChange }: RuleSettingsPanelProps) {
+  const [rules, setRules] = useState<LintRuleInfo[]>([]);
+
+  useEffect(() => {
+    lintApi
+      .listRules()
+      .then(({ rules: ruleList }) => setRules(ruleList))
+      .catch((error) => console.error('Failed to load lint rules:', error));
+  }, []);
+
+  const handleLevelChange = (ruleId: string, level: RuleLevel | '') => {
+    const { [ruleId]: _previous, ...rest } = ruleSettings;
+    onChange(level ? { ...rest, [ruleId]: level } : rest);
+  };
+
+  return (
+    <div className={styles.panel}>
+      <p className={styles.description}>
+        Choose which validation rules run for this configuration and how their issues are reported.
+      </p>
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>Rule</th>
+            <th>Description</th>
+            <th>Level</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule) => (
+            <tr key={rule.id} className={ruleSettings[rule.id] === 'off' ? styles.disabled : ''}>
+              <td className={styles.ruleId}>
+                {rule.docs ? (
+                  <a href={rule.docs} target="_blank" rel="noopener noreferrer">
+                    {rule.id}
+                  </a>
+                ) : (
+                  rule.id
+                )}
+                {rule.fixable && <span className={styles.fixable}>fixable</span>}
+              </td>
+              <td>{rule.description}</td>
+              <td>
+                <select
+                  value={ruleSettings[rule.id] ?? ''}
+                  onChange={(e) => handleLevelChange(rule.id, e.target.value as RuleLevel | '')}
+                  className={styles.select}
+                  aria-label={`Level for ${rule.id}`}
+                >
+                  <option value="">Default ({rule.severity})</option>
+                  <option value="error">Error</option>
+                  <option value="warning">Warning</option>
+                  <option value="off">Off</option>
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -5,6 +5,11 @@ export interface ValidationIssue {
   type: 'error' | 'warning';
   path: string[];
   message: string;
+  range?: { start: { line: number; column: number }; end: { line: number; column: number } };
+  /** Id of the lint rule that reported the issue */
+  code?: string;
+  fixable?: boolean;
+  docs?: string;
 }
 
 export interface ValidationResult {
@@ -16,12 +21,15 @@ export interface ValidationResult {
 export interface ValidationPanelProps {
   validation: ValidationResult | null;
   onIssueClick?: (issue: ValidationIssue) => void;
+  /** Applies the autofix of a fixable issue */
+  onFix?: (issue: ValidationIssue) => void;
   compact?: boolean;
 }
 
 export function ValidationPanel({
   validation,
   onIssueClick,
+  onFix,
   compact = false,
 }: ValidationPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
@@ -86,32 +94,24 @@ export function ValidationPanel({
       {isExpanded && (
         <div className={styles.issues}>
           {validation.errors.map((issue, index) => (
-            <button
+            <IssueRow
               key={`error-${index}`}
-              className={`${styles.issue} ${styles.error}`}
-              onClick={() => onIssueClick?.(issue)}
-              type="button"
-            >
-              <span className={styles.issueIcon}>!</span>
-              <div className={styles.issueContent}>
-                <span className={styles.issuePath}>{issue.path.join(' › ')}</span>
-                <span className={styles.issueMessage}>{issue.message}</span>
-              </div>
-            </button>
+              issue={issue}
+              icon="!"
+              className={styles.error}
+              onIssueClick={onIssueClick}
+              onFix={onFix}
+            />
           ))}
           {validation.warnings.map((issue, index) => (
-            <button
+            <IssueRow
               key={`warning-${index}`}
-              className={`${styles.issue} ${styles.warning}`}
-              onClick={() => onIssueClick?.(issue)}
-              type="button"
-            >
-              <span className={styles.issueIcon}>⚠</span>
-              <div className={styles.issueContent}>
-                <span className={styles.issuePath}>{issue.path.join(' › ')}</span>
-                <span className={styles.issueMessage}>{issue.message}</span>
-              </div>
-            </button>
+              issue={issue}
+              icon="⚠"
+              className={styles.warning}
+              onIssueClick={onIssueClick}
+              onFix={onFix}
+            />
           ))}
         </div>
       )}
@@ -119,9 +119,74 @@ export function ValidationPanel({
   );
 }
 
+interface IssueRowProps {
+  issue: ValidationIssue;
+  icon: string;
+  className: string;
+  onIssueClick?: (issue: ValidationIssue) => void;
+  onFix?: (issue: ValidationIssue) => void;
+}
+
+function IssueRow({ issue, icon, className, onIssueClick, onFix }: IssueRowProps) {
+  return (
+    <div className={`${styles.issue} ${className}`}>
+      <button className={styles.issueMain} onClick={() => onIssueClick?.(issue)} type="button">
+        <span className={styles.issueIcon}>{icon}</span>
+        <div className={styles.issueContent}>
+          <span className={styles.issuePath}>
+            {issue.path.join(' › ')}
+            {issue.range && ` (line ${issue.range.start.line})`}
+          </span>
+          <span className={styles.issueMessage}>{issue.message}</span>
+        </div>
+      </button>
+      <div className={styles.issueActions}>
+        {issue.code &&
+          (issue.docs ? (
+            <a
+              href={issue.docs}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={styles.issueCode}
+              title="Open documentation"
+            >
+              {issue.code}
+            </a>
+          ) : (
+            <span className={styles.issueCode}>{issue.code}</span>
+          ))}
+        {issue.fixable && onFix && (
+          <button className={styles.fixButton} onClick={() => onFix(issue)} type="button">
+            Fix
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Top-level config keys shown on the Integrations tab
+const INTEGRATION_PATHS = [
+  'plex',
+  'tmdb',
+  'tautulli',
+  'mdblist',
+  'radarr',
+  'sonarr',
+  'trakt',
+  'omdb',
+  'anidb',
+  'mal',
+  'github',
+  'notifiarr',
+  'gotify',
+  'ntfy',
+  'webhooks',
+];
+
 // Tab badge component for showing validation status on tabs
 export interface ValidationTabBadgeProps {
-  section: 'settings' | 'libraries' | 'integrations';
+  section: 'settings' | 'libraries' | 'playlists' | 'integrations';
   validation: ValidationResult | null;
 }
 
@@ -133,10 +198,9 @@ export function ValidationTabBadge({ section, validation }: ValidationTabBadgePr
     const rootPath = issue.path[0]?.toLowerCase();
     if (section === 'settings') return rootPath === 'settings';
     if (section === 'libraries') return rootPath === 'libraries';
+    if (section === 'playlists') return rootPath === 'playlist_files';
     if (section === 'integrations') {
-      return ['plex', 'tmdb', 'tautulli', 'mdblist', 'radarr', 'sonarr', 'trakt'].includes(
-        rootPath
-      );
+      return INTEGRATION_PATHS.includes(rootPath);
     }
     return false;
   });
@@ -145,10 +209,9 @@ export function ValidationTabBadge({ section, validation }: ValidationTabBadgePr
     const rootPath = issue.path[0]?.toLowerCase();
     if (section === 'settings') return rootPath === 'settings';
     if (section === 'libraries') return rootPath === 'libraries';
+    if (section === 'playlists') return rootPath === 'playlist_files';
     if (section === 'integrations') {
-      return ['plex', 'tmdb', 'tautulli', 'mdblist', 'radarr', 'sonarr', 'trakt'].includes(
-        rootPath
-      );
+      return INTEGRATION_PATHS.includes(rootPath);
     }
     return false;
   });
@@ -0,0 +1,85 @@
+/**
+ * Collection Constants
+ *
+ * Builders, charts and sort options for the collection builder.
+ */
+
+import type { CollectionBuilder, CollectionSyncMode, ImdbChart } from '@kometa-studio/shared';
+
+export const COLLECTION_BUILDERS: Record<CollectionBuilder, { label: string; help: string }> = {
+  tmdb_collection: {
+    label: 'TMDB Collection',
+    help: 'Every movie in one or more TMDB collections, by ID or URL',
+  },
+  trakt_list: {
+    label: 'Trakt List',
+    help: 'Every item on one or more Trakt lists, by URL',
+  },
+  imdb_chart: {
+    label: 'IMDb Chart',
+    help: 'Every item on one or more IMDb charts',
+  },
+  plex_search: {
+    label: 'Plex Search',
+    help: 'Every item in the library matching a Plex search',
+  },
+};
+
+export const IMDB_CHARTS: Array<{ value: ImdbChart; label: string }> = [
+  { value: 'box_office', label: 'Box Office' },
+  { value: 'popular_movies', label: 'Most Popular Movies' },
+  { value: 'popular_shows', label: 'Most Popular TV Shows' },
+  { value: 'top_movies', label: 'Top 250 Movies' },
+  { value: 'top_shows', label: 'Top 250 TV Shows' },
+  { value: 'top_english', label: 'Top Rated English Movies' },
+  { value: 'top_indian', label: 'Top Rated Indian Movies' },
+  { value: 'lowest_rated', label: 'Lowest Rated Movies' },
+];
+
+export const SYNC_MODES: Array<{ value: CollectionSyncMode; label: string }> = [
+  { value: 'append', label: 'Append - only add items' },
+  { value: 'sync', label: 'Sync - also remove items the builders no longer return' },
+];
+
+export const COLLECTION_ORDERS = [
+  { value: 'release', label: 'Release date' },
+  { value: 'alpha', label: 'Alphabetical' },
+  { value: 'custom', label: 'Builder order' },
+  { value: 'title.asc', label: 'Title ascending' },
+  { value: 'year.desc', label: 'Year descending' },
+  { value: 'critic_rating.desc', label: 'Critic rating descending' },
+  { value: 'audience_rating.desc', label: 'Audience rating descending' },
+  { value: 'added.desc', label: 'Recently added' },
+];
+
+// Plex search attributes offered for plex_search conditions. Any other
+// attribute can still be typed in.
+export const PLEX_SEARCH_ATTRIBUTES = [
+  'title',
+  'genre',
+  'year',
+  'year.gte',
+  'year.lte',
+  'decade',
+  'actor',
+  'director',
+  'studio',
+  'content_rating',
+  'resolution',
+  'audio_language',
+  'critic_rating.gte',
+  'audience_rating.gte',
+  'added',
+  'unplayed',
+];
+
+export const PLEX_SEARCH_SORTS = [
+  'title.asc',
+  'title.desc',
+  'year.asc',
+  'year.desc',
+  'critic_rating.desc',
+  'audience_rating.desc',
+  'added.desc',
+  'random',
+];
@@ -0,0 +1,263 @@
+/**
+ * Operation Constants
+ *
+ * Labels, help and allowed sources for the library operations editor.
+ */
+
+import type {
+  CollectionMode,
+  ContentRatingSource,
+  DateSource,
+  EpisodeRatingSource,
+  GenreSource,
+  ImageSource,
+  OriginalTitleSource,
+  ParentalLabel,
+  RatingSource,
+  StudioSource,
+  Operations,
+} from '@kometa-studio/shared';
+
+export type OperationKey = Exclude<keyof Operations, 'extras'>;
+
+/** Kind of fixed value a mass update accepts instead of a source */
+export type CustomValue = 'text' | 'date' | 'rating';
+
+export interface SourceOperation {
+  key: OperationKey;
+  options: readonly string[];
+  custom: CustomValue;
+}
+
+// Sources every mass update accepts besides its data sources
+const PLEX_ACTIONS = ['lock', 'unlock', 'remove', 'reset'] as const;
+
+const GENRE_SOURCES: GenreSource[] = [
+  'tmdb',
+  'tvdb',
+  'imdb',
+  'omdb',
+  'anidb',
+  'anidb_3_0',
+  'anidb_2_5',
+  'anidb_2_0',
+  'anidb_1_5',
+  'anidb_1_0',
+  'anidb_0_5',
+  'mal',
+  ...PLEX_ACTIONS,
+];
+
+const CONTENT_RATING_SOURCES: ContentRatingSource[] = [
+  'mdb',
+  'mdb_commonsense',
+  'mdb_commonsense0',
+  'mdb_age_rating',
+  'mdb_age_rating0',
+  'omdb',
+  'mal',
+  ...PLEX_ACTIONS,
+];
+
+const ORIGINAL_TITLE_SOURCES: OriginalTitleSource[] = [
+  'anidb',
+  'anidb_official',
+  'mal',
+  'mal_english',
+  'mal_japanese',
+  ...PLEX_ACTIONS,
+];
+
+const STUDIO_SOURCES: StudioSource[] = ['anidb', 'mal', 'tmdb', ...PLEX_ACTIONS];
+
+const DATE_SOURCES: DateSource[] = [
+  'tmdb',
+  'tvdb',
+  'omdb',
+  'mdb',
+  'mdb_digital',
+  'anidb',
+  'mal',
+  ...PLEX_ACTIONS,
+];
+
+const RATING_SOURCES: RatingSource[] = [
+  'tmdb',
+  'imdb',
+  'trakt_user',
+  'omdb',
+  'mdb',
+  'mdb_average',
+  'mdb_imdb',
+  'mdb_metacritic',
+  'mdb_metacriticuser',
+  'mdb_trakt',
+  'mdb_tomatoes',
+  'mdb_tomatoesaudience',
+  'mdb_tmdb',
+  'mdb_letterboxd',
+  'mdb_myanimelist',
+  'anidb_rating',
+  'anidb_average',
+  'anidb_score',
+  'mal',
+  ...PLEX_ACTIONS,
+];
+
+const EPISODE_RATING_SOURCES: EpisodeRatingSource[] = ['tmdb', 'imdb', ...PLEX_ACTIONS];
+
+export const OPERATION_HELP: Record<OperationKey, { label: string; help: string }> = {
+  assets_for_all: {
+    label: 'Assets for all',
+    help: 'Looks for posters and backgrounds in the asset directory for every item in the library',
+  },
+  delete_collections: {
+    label: 'Delete collections',
+    help: 'Deletes collections before the run, filtered by whether Kometa manages them, whether they are in a config and their size',
+  },
+  mass_genre_update: {
+    label: 'Genres',
+    help: 'Updates the genres of every item, or sets them to a fixed comma separated list',
+  },
+  mass_content_rating_update: {
+    label: 'Content rating',
+    help: 'Updates the content rating of every item, or sets a fixed one',
+  },
+  mass_original_title_update: {
+    label: 'Original title',
+    help: 'Updates the original title of every item, mostly used for anime',
+  },
+  mass_studio_update: {
+    label: 'Studio',
+    help: 'Updates the studio of every item',
+  },
+  mass_originally_available_update: {
+    label: 'Originally available',
+    help: 'Updates the release date of every item, or sets a fixed YYYY-MM-DD date',
+  },
+  mass_added_at_update: {
+    label: 'Added at',
+    help: 'Updates the date items were added to the library, or sets a fixed YYYY-MM-DD date',
+  },
+  mass_audience_rating_update: {
+    label: 'Audience rating',
+    help: 'Updates the audience rating of every item, or sets a fixed rating from 0 to 10',
+  },
+  mass_critic_rating_update: {
+    label: 'Critic rating',
+    help: 'Updates the critic rating of every item, or sets a fixed rating from 0 to 10',
+  },
+  mass_user_rating_update: {
+    label: 'User rating',
+    help: 'Updates the user rating of every item, or sets a fixed rating from 0 to 10',
+  },
+  mass_episode_audience_rating_update: {
+    label: 'Episode audience rating',
+    help: 'Updates the audience rating of every episode',
+  },
+  mass_episode_critic_rating_update: {
+    label: 'Episode critic rating',
+    help: 'Updates the critic rating of every episode',
+  },
+  mass_episode_user_rating_update: {
+    label: 'Episode user rating',
+    help: 'Updates the user rating of every episode',
+  },
+  mass_poster_update: {
+    label: 'Posters',
+    help: 'Resets the poster of every item to the one from the source',
+  },
+  mass_background_update: {
+    label: 'Backgrounds',
+    help: 'Resets the background of every item to the one from the source',
+  },
+  mass_imdb_parental_labels: {
+    label: 'IMDb parental labels',
+    help: 'Adds IMDb parental guide labels of at least this severity',
+  },
+  mass_collection_mode: {
+    label: 'Collection mode',
+    help: 'Sets the collection mode of every collection in the library',
+  },
+  update_blank_track_titles: {
+    label: 'Update blank track titles',
+    help: 'Fills in blank music track titles from the sort title',
+  },
+  remove_title_parentheses: {
+    label: 'Remove title parentheses',
+    help: 'Removes text in parentheses, like the year, from the end of titles',
+  },
+  split_duplicates: {
+    label: 'Split duplicates',
+    help: 'Splits items Plex merged together by mistake',
+  },
+  radarr_add_all: {
+    label: 'Add all to Radarr',
+    help: 'Adds every movie in the library to Radarr',
+  },
+  radarr_remove_by_tag: {
+    label: 'Remove from Radarr by tag',
+    help: 'Removes movies with any of these tags from Radarr',
+  },
+  sonarr_add_all: {
+    label: 'Add all to Sonarr',
+    help: 'Adds every show in the library to Sonarr',
+  },
+  sonarr_remove_by_tag: {
+    label: 'Remove from Sonarr by tag',
+    help: 'Removes shows with any of these tags from Sonarr',
+  },
+  genre_mapper: {
+    label: 'Genre mapper',
+    help: 'Renames genres, or removes them when mapped to null',
+  },
+  content_rating_mapper: {
+    label: 'Content rating mapper',
+    help: 'Renames content ratings, or removes them when mapped to null',
+  },
+  metadata_backup: {
+    label: 'Metadata backup',
+    help: 'Writes the metadata of every item to a metadata file',
+  },
+};
+
+/** Mass updates that take a source, or a priority list of sources */
+export const SOURCE_OPERATIONS: SourceOperation[] = [
+  { key: 'mass_genre_update', options: GENRE_SOURCES, custom: 'text' },
+  { key: 'mass_content_rating_update', options: CONTENT_RATING_SOURCES, custom: 'text' },
+  { key: 'mass_original_title_update', options: ORIGINAL_TITLE_SOURCES, custom: 'text' },
+  { key: 'mass_studio_update', options: STUDIO_SOURCES, custom: 'text' },
+  { key: 'mass_originally_available_update', options: DATE_SOURCES, custom: 'date' },
+  { key: 'mass_added_at_update', options: DATE_SOURCES, custom: 'date' },
+  { key: 'mass_audience_rating_update', options: RATING_SOURCES, custom: 'rating' },
+  { key: 'mass_critic_rating_update', options: RATING_SOURCES, custom: 'rating' },
+  { key: 'mass_user_rating_update', options: RATING_SOURCES, custom: 'rating' },
+  {
+    key: 'mass_episode_audience_rating_update',
+    options: EPISODE_RATING_SOURCES,
+    custom: 'rating',
+  },
+  {
+    key: 'mass_episode_critic_rating_update',
+    options: EPISODE_RATING_SOURCES,
+    custom: 'rating',
+  },
+  {
+    key: 'mass_episode_user_rating_update',
+    options: EPISODE_RATING_SOURCES,
+    custom: 'rating',
+  },
+];
+
+export const TOGGLE_OPERATIONS: OperationKey[] = [
+  'assets_for_all',
+  'split_duplicates',
+  'remove_title_parentheses',
+  'update_blank_track_titles',
+  'radarr_add_all',
+  'sonarr_add_all',
+];
+
+export const IMAGE_SOURCES: ImageSource[] = ['tmdb', 'plex', 'lock', 'unlock'];
+export const PARENTAL_LABELS: ParentalLabel[] = ['none', 'mild', 'moderate', 'severe'];
+export const COLLECTION_MODES: CollectionMode[] = ['default', 'hide', 'hide_items', 'show_items'];
@@ -0,0 +1,22 @@
+/**
+ * Webhook Constants
+ *
+ * Labels for the events Kometa sends webhooks for.
+ */
+
+import type { WebhookEvent, WebhookService } from '@kometa-studio/shared';
+
+export const WEBHOOK_EVENTS: Record<WebhookEvent, { label: string; description: string }> = {
+  error: { label: 'Error', description: 'An error occurs during a run' },
+  version: { label: 'New version', description: 'A new Kometa version is available' },
+  run_start: { label: 'Run start', description: 'A run starts' },
+  run_end: { label: 'Run end', description: 'A run finishes, with its statistics' },
+  changes: { label: 'Changes', description: 'Items are added to or removed from a collection' },
+  delete: { label: 'Delete', description: 'A collection or playlist is deleted' },
+};
+
+export const WEBHOOK_SERVICES: Record<WebhookService, string> = {
+  notifiarr: 'Notifiarr',
+  gotify: 'Gotify',
+  ntfy: 'ntfy',
+};
@@ -31,6 +31,13 @@ export interface MediaMetadata {
 export type MediaType = 'movie' | 'tv';
 export type PosterType = 'show' | 'season' | 'episode';
 
+/**
+ * Library whose overlays and Plex server are used to preview a media type
+ */
+export function previewLibraryName(mediaType: MediaType): string {
+  return mediaType === 'movie' ? 'Movies' : 'TV Shows';
+}
+
 export interface UseMediaSelectionResult {
   mediaType: MediaType;
   setMediaType: (type: MediaType) => void;
@@ -52,7 +59,8 @@ export interface UseMediaSelectionResult {
 
 export function useMediaSelection(
   selectedProfile: string,
-  profileReady: boolean
+  profileReady: boolean,
+  selectedConfig?: string
 ): UseMediaSelectionResult {
   const [mediaType, setMediaType] = useState<MediaType>('movie');
   const [currentMedia, setCurrentMedia] = useState<TmdbMovie | TmdbTVShow | null>(null);
@@ -235,8 +243,16 @@ export function useMediaSelection(
         // Try to fetch Plex info if profile has Plex configured
         try {
           const profile = await profileApi.get(selectedProfile);
-          if (profile.secrets?.plex?.url && profile.secrets?.plex?.token) {
-            const plexService = new PlexService(selectedProfile);
+          const hasPlex =
+            (profile.secrets?.plex?.url && profile.secrets?.plex?.token) ||
+            Object.keys(profile.secrets?.plex_servers ?? {}).length > 0;
+          if (hasPlex) {
+            const plexService = new PlexService(
+              selectedProfile,
+              selectedConfig
+                ? { configId: selectedConfig, library: previewLibraryName(mediaType) }
+                : undefined
+            );
 
             let plexInfo: PlexMediaInfo | null = null;
             if (mediaType === 'movie') {
@@ -270,7 +286,7 @@ export function useMediaSelection(
         return null;
       }
     },
-    [selectedProfile, mediaType]
+    [selectedProfile, selectedConfig, mediaType]
   );
 
   const handleMediaSelect = useCallback(
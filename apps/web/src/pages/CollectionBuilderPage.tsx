@@ -0,0 +1,359 @@
+/**
+ * CollectionBuilderPage
+ *
+ * Authors Kometa collection definitions with builders, filters, sort order,
+ * sync mode and schedule, saves them to a local collection file attached to a
+ * library, and previews the items they match through TMDB and Plex.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import * as yaml from 'js-yaml';
+import type { Collection, KometaConfig } from '@kometa-studio/shared';
+import styles from './CollectionBuilderPage.module.css';
+import { configApi, type ConfigEntity } from '../api/client';
+import { useProfiles } from '../hooks/useProfiles';
+import { useNotification } from '../hooks/useNotification';
+import { Notification } from '../components/overlay/Notification';
+import { CollectionForm } from '../components/collection/CollectionForm';
+import {
+  CollectionPreviewService,
+  collectionBuilders,
+  localCollectionFiles,
+  readCollectionFile,
+  saveCollection,
+  type CollectionPreview,
+} from '../services/collection.service';
+import { COLLECTION_BUILDERS } from '../constants/collection.constants';
+
+// Select value for a collection or file that does not exist yet
+const NEW = '__new__';
+
+function defaultFilePath(library: string): string {
+  return `config/collections/${library}.yml`;
+}
+
+export function CollectionBuilderPage() {
+  const { profiles, selectedProfile, setSelectedProfile } = useProfiles();
+  const { notification, showNotification, clearNotification } = useNotification();
+
+  const [configs, setConfigs] = useState<ConfigEntity[]>([]);
+  const [configId, setConfigId] = useState('');
+  const [config, setConfig] = useState<KometaConfig | null>(null);
+  const [library, setLibrary] = useState('');
+  const [filePath, setFilePath] = useState('');
+  const [loadedName, setLoadedName] = useState<string | undefined>();
+  const [name, setName] = useState('');
+  const [collection, setCollection] = useState<Collection>({});
+  // Bumped whenever another collection is loaded, so the form drops its own state
+  const [formKey, setFormKey] = useState(0);
+
+  const [mediaType, setMediaType] = useState<'movie' | 'show'>('movie');
+  const [preview, setPreview] = useState<CollectionPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    configApi
+      .list()
+      .then(({ configs: configList }) => {
+        setConfigs(configList);
+        if (configList.length > 0) setConfigId(configList[0].id);
+      })
+      .catch((error) => console.error('Failed to load configs:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!configId) return;
+    configApi
+      .get(configId)
+      .then((entity) => {
+        setConfig(entity.config);
+        selectLibrary(entity.config, Object.keys(entity.config.libraries ?? {})[0] ?? '');
+      })
+      .catch((error) => console.error('Failed to load config:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- Only reload when another config is selected
+  }, [configId]);
+
+  const files = useMemo(
+    () => (config && library ? localCollectionFiles(config, library) : []),
+    [config, library]
+  );
+
+  const existingCollections = config && filePath ? readCollectionFile(config, filePath) : {};
+
+  // Starts from the library's first local collection file, or a new one
+  const selectLibrary = (currentConfig: KometaConfig, libraryName: string) => {
+    setLibrary(libraryName);
+    setFilePath(
+      localCollectionFiles(currentConfig, libraryName)[0] ??
+        (libraryName ? defaultFilePath(libraryName) : '')
+    );
+    loadCollection(undefined);
+  };
+
+  const loadCollection = (collectionName: string | undefined) => {
+    setLoadedName(collectionName);
+    setName(collectionName ?? '');
+    setCollection(collectionName ? existingCollections[collectionName] : {});
+    setPreview(null);
+    setFormKey((key) => key + 1);
+  };
+
+  const collectionYaml = useMemo(
+    () => yaml.dump({ collections: { [name || 'New Collection']: collection } }, { lineWidth: -1 }),
+    [name, collection]
+  );
+
+  const handlePreview = async () => {
+    if (!selectedProfile) return;
+    setPreviewing(true);
+    try {
+      const service = new CollectionPreviewService(
+        selectedProfile,
+        configId && library ? { configId, library } : undefined
+      );
+      setPreview(await service.preview(collection, mediaType));
+    } catch (error) {
+      showNotification(`Preview failed: ${(error as Error).message}`, 'error');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!config || !library || !filePath.trim()) {
+      showNotification('Select a config, library and collection file first', 'error');
+      return;
+    }
+    if (!name.trim()) {
+      showNotification('Enter a collection name', 'error');
+      return;
+    }
+    if (collectionBuilders(collection).length === 0) {
+      showNotification('Add at least one builder', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = saveCollection(config, {
+        library,
+        path: filePath.trim(),
+        name: name.trim(),
+        collection,
+        previousName: loadedName,
+      });
+      const entity = await configApi.update(configId, { config: updated });
+      setConfig(entity.config);
+      setLoadedName(name.trim());
+      showNotification(`Saved "${name.trim()}" to ${filePath.trim()}`, 'success');
+    } catch (error) {
+      showNotification(`Failed to save collection: ${(error as Error).message}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const libraries = Object.keys(config?.libraries ?? {});
+
+  return (
+    <div className={styles.page}>
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={clearNotification}
+        />
+      )}
+
+      <div className={styles.header}>
+        <h1 className={styles.title}>Collection Builder</h1>
+        <p className={styles.description}>
+          Build collections and save them to a collection file of a library.
+        </p>
+      </div>
+
+      <div className={styles.toolbar}>
+        <label className={styles.toolbarField}>
+          Config
+          <select
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value)}
+            className={styles.select}
+          >
+            {configs.map((entity) => (
+              <option key={entity.id} value={entity.id}>
+                {entity.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Library
+          <select
+            value={library}
+            onChange={(e) => config && selectLibrary(config, e.target.value)}
+            className={styles.select}
+          >
+            {libraries.map((libraryName) => (
+              <option key={libraryName} value={libraryName}>
+                {libraryName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Collection File
+          <select
+            value={files.includes(filePath) ? filePath : NEW}
+            onChange={(e) => {
+              setFilePath(e.target.value === NEW ? defaultFilePath(library) : e.target.value);
+              loadCollection(undefined);
+            }}
+            className={styles.select}
+          >
+            {files.map((path) => (
+              <option key={path} value={path}>
+                {path}
+              </option>
+            ))}
+            <option value={NEW}>New file</option>
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Path
+          <input
+            type="text"
+            value={filePath}
+            onChange={(e) => setFilePath(e.target.value)}
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.toolbarField}>
+          Collection
+          <select
+            value={loadedName ?? NEW}
+            onChange={(e) => loadCollection(e.target.value === NEW ? undefined : e.target.value)}
+            className={styles.select}
+          >
+            <option value={NEW}>New collection</option>
+            {Object.keys(existingCollections).map((collectionName) => (
+              <option key={collectionName} value={collectionName}>
+                {collectionName}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {libraries.length === 0 ? (
+        <p className={styles.empty}>Add a library to the config to build collections for it.</p>
+      ) : (
+        <div className={styles.content}>
+          <div className={styles.editor}>
+            <div className={styles.nameField}>
+              <label className={styles.label}>Collection Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={styles.input}
+                placeholder="e.g., Star Wars"
+              />
+            </div>
+            <CollectionForm key={formKey} collection={collection} onChange={setCollection} />
+            <button onClick={handleSave} disabled={saving} className={styles.saveButton}>
+              {saving ? 'Saving...' : 'Save Collection'}
+            </button>
+          </div>
+
+          <div className={styles.side}>
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>YAML</h2>
+              <pre className={styles.code}>{collectionYaml}</pre>
+            </section>
+
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>Matched Items</h2>
+              <div className={styles.previewControls}>
+                <select
+                  value={selectedProfile}
+                  onChange={(e) => setSelectedProfile(e.target.value)}
+                  className={styles.select}
+                >
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={mediaType}
+                  onChange={(e) => setMediaType(e.target.value as 'movie' | 'show')}
+                  className={styles.select}
+                >
+                  <option value="movie">Movies</option>
+                  <option value="show">TV Shows</option>
+                </select>
+                <button
+                  onClick={handlePreview}
+                  disabled={previewing || !selectedProfile}
+                  className={styles.previewButton}
+                >
+                  {previewing ? 'Looking up...' : 'Preview'}
+                </button>
+              </div>
+
+              {preview && (
+                <>
+                  {preview.skipped.length > 0 && (
+                    <p className={styles.hint}>
+                      {preview.skipped
+                        .map((builder) => COLLECTION_BUILDERS[builder].label)
+                        .join(', ')}{' '}
+                      can only be resolved when Kometa runs.
+                    </p>
+                  )}
+                  {collection.filters && (
+                    <p className={styles.hint}>Filters are applied by Kometa and not shown here.</p>
+                  )}
+                  {preview.items.length === 0 ? (
+                    <p className={styles.hint}>No items found.</p>
+                  ) : (
+                    <>
+                      <p className={styles.hint}>
+                        {preview.items.filter((item) => item.inLibrary).length} of{' '}
+                        {preview.items.length} items are in the library.
+                      </p>
+                      <ul className={styles.items}>
+                        {preview.items.map((item, index) => (
+                          <li
+                            key={`${item.title}-${index}`}
+                            className={`${styles.item} ${item.inLibrary ? '' : styles.missing}`}
+                          >
+                            {item.posterUrl ? (
+                              <img src={item.posterUrl} alt="" className={styles.poster} />
+                            ) : (
+                              <div className={styles.poster} />
+                            )}
+                            <span className={styles.itemTitle}>
+                              {item.title}
+                              {item.year && ` (${item.year})`}
+                            </span>
+                            <span className={styles.itemStatus}>
+                              {item.inLibrary ? 'In library' : 'Missing'}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </>
+              )}
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
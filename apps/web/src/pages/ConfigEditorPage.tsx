@@ -1,11 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams } from 'react-router-dom';
-import type { KometaConfig, Library } from '@kometa-studio/shared';
+import type { KometaConfig, RuleSettings } from '@kometa-studio/shared';
 import styles from './ConfigEditorPage.module.css';
-import { configApi, profileApi, ConfigEntity, ProfileEntity } from '../api/client';
+import { configApi, profileApi, ApiError, ConfigEntity, ProfileEntity } from '../api/client';
 import { LibrariesEditor } from '../components/editors/LibrariesEditor';
 import { SettingsEditor } from '../components/editors/SettingsEditor';
 import { IntegrationsEditor } from '../components/editors/IntegrationsEditor';
+import { PlaylistsEditor } from '../components/editors/PlaylistsEditor';
+import { ConfigHistoryPanel } from '../components/history/ConfigHistoryPanel';
+import { RuleSettingsPanel } from '../components/validation/RuleSettingsPanel';
+import { InheritancePanel } from '../components/inheritance/InheritancePanel';
+import { ConfigComparePanel } from '../components/compare/ConfigComparePanel';
 import {
   ValidationPanel,
   ValidationTabBadge,
@@ -13,171 +18,15 @@ import {
   ValidationIssue,
 } from '../components/validation/ValidationPanel';
 
-type EditorSection = 'settings' | 'libraries' | 'integrations';
-
-// Client-side validation function (mirrors the shared validator)
-function validateConfig(config: KometaConfig, profile?: ProfileEntity | null): ValidationResult {
-  const errors: ValidationIssue[] = [];
-  const warnings: ValidationIssue[] = [];
-
-  // Check Plex configuration
-  if (config.plex?.enabled !== false) {
-    if (!profile?.secrets?.plex?.url) {
-      warnings.push({
-        type: 'warning',
-        path: ['plex', 'url'],
-        message: 'Plex URL is not configured in the active profile',
-      });
-    }
-    if (!profile?.secrets?.plex?.token) {
-      warnings.push({
-        type: 'warning',
-        path: ['plex', 'token'],
-        message: 'Plex token is not configured in the active profile',
-      });
-    }
-  }
-
-  // Check TMDB configuration
-  if (config.tmdb?.enabled !== false) {
-    if (!profile?.secrets?.tmdb?.apikey) {
-      warnings.push({
-        type: 'warning',
-        path: ['tmdb', 'apikey'],
-        message: 'TMDB API key is not configured in the active profile',
-      });
-    }
-  }
-
-  // Check Tautulli configuration
-  if (config.tautulli?.enabled) {
-    if (!profile?.secrets?.tautulli?.url) {
-      warnings.push({
-        type: 'warning',
-        path: ['tautulli', 'url'],
-        message: 'Tautulli is enabled but no URL is configured',
-      });
-    }
-    if (!profile?.secrets?.tautulli?.apikey) {
-      warnings.push({
-        type: 'warning',
-        path: ['tautulli', 'apikey'],
-        message: 'Tautulli is enabled but no API key is configured',
-      });
-    }
-  }
-
-  // Check MDBList configuration
-  if (config.mdblist?.enabled) {
-    if (!profile?.secrets?.mdblist?.apikey) {
-      warnings.push({
-        type: 'warning',
-        path: ['mdblist', 'apikey'],
-        message: 'MDBList is enabled but no API key is configured',
-      });
-    }
-  }
-
-  // Check Radarr configuration
-  if (config.radarr?.enabled) {
-    if (!profile?.secrets?.radarr?.url) {
-      warnings.push({
-        type: 'warning',
-        path: ['radarr', 'url'],
-        message: 'Radarr is enabled but no URL is configured',
-      });
-    }
-    if (!profile?.secrets?.radarr?.token) {
-      warnings.push({
-        type: 'warning',
-        path: ['radarr', 'token'],
-        message: 'Radarr is enabled but no token is configured',
-      });
-    }
-    if (config.radarr.add_missing && !config.radarr.root_folder_path) {
-      warnings.push({
-        type: 'warning',
-        path: ['radarr', 'root_folder_path'],
-        message: 'Radarr add_missing is enabled but no root_folder_path is specified',
-      });
-    }
-  }
-
-  // Check Sonarr configuration
-  if (config.sonarr?.enabled) {
-    if (!profile?.secrets?.sonarr?.url) {
-      warnings.push({
-        type: 'warning',
-        path: ['sonarr', 'url'],
-        message: 'Sonarr is enabled but no URL is configured',
-      });
-    }
-    if (!profile?.secrets?.sonarr?.token) {
-      warnings.push({
-        type: 'warning',
-        path: ['sonarr', 'token'],
-        message: 'Sonarr is enabled but no token is configured',
-      });
-    }
-    if (config.sonarr.add_missing && !config.sonarr.root_folder_path) {
-      warnings.push({
-        type: 'warning',
-        path: ['sonarr', 'root_folder_path'],
-        message: 'Sonarr add_missing is enabled but no root_folder_path is specified',
-      });
-    }
-  }
-
-  // Check Trakt configuration
-  if (config.trakt?.enabled) {
-    if (!config.trakt.client_id) {
-      warnings.push({
-        type: 'warning',
-        path: ['trakt', 'client_id'],
-        message: 'Trakt is enabled but no client_id is specified',
-      });
-    }
-    if (!profile?.secrets?.trakt?.client_secret) {
-      warnings.push({
-        type: 'warning',
-        path: ['trakt', 'client_secret'],
-        message: 'Trakt is enabled but no client_secret is configured',
-      });
-    }
-  }
-
-  // Check libraries
-  if (config.libraries) {
-    Object.entries(config.libraries).forEach(([libraryName, library]: [string, Library]) => {
-      const hasCollections = library.collection_files && library.collection_files.length > 0;
-      const hasOverlays = library.overlay_files && library.overlay_files.length > 0;
-      const hasMetadata = library.metadata_files && library.metadata_files.length > 0;
-
-      if (!hasCollections && !hasOverlays && !hasMetadata) {
-        warnings.push({
-          type: 'warning',
-          path: ['libraries', libraryName],
-          message: `Library "${libraryName}" has no collection_files, overlay_files, or metadata_files`,
-        });
-      }
-    });
-  }
-
-  // Check if there are any libraries at all
-  if (!config.libraries || Object.keys(config.libraries).length === 0) {
-    warnings.push({
-      type: 'warning',
-      path: ['libraries'],
-      message: 'No libraries are configured',
-    });
-  }
-
-  return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
-  };
-}
+type EditorSection =
+  | 'settings'
+  | 'libraries'
+  | 'playlists'
+  | 'integrations'
+  | 'rules'
+  | 'inheritance'
+  | 'history'
+  | 'compare';
 
 export function ConfigEditorPage() {
   const { configId } = useParams<{ configId: string }>();
@@ -187,14 +36,23 @@ export function ConfigEditorPage() {
   const [activeSection, setActiveSection] = useState<EditorSection>('libraries');
   const [saving, setSaving] = useState(false);
   const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const validationRequest = useRef(0);
+
+  // Validate the saved config with the server's lint rules. Only the latest
+  // request is applied, as saves can finish out of order.
+  const runValidation = useCallback(async () => {
+    if (!configId || !config) return;
 
-  // Run validation when config or profile changes
-  const runValidation = useCallback(() => {
-    if (config?.config) {
-      const result = validateConfig(config.config, profile);
-      setValidation(result);
+    const requestId = ++validationRequest.current;
+    try {
+      const result = await configApi.validate(configId, profile?.id);
+      if (requestId === validationRequest.current) {
+        setValidation(result);
+      }
+    } catch (error) {
+      console.error('Failed to validate config:', error);
     }
-  }, [config, profile]);
+  }, [configId, config, profile]);
 
   const loadConfig = useCallback(async () => {
     if (!configId) return;
@@ -264,6 +122,55 @@ export function ConfigEditorPage() {
     saveConfig(newKometaConfig);
   };
 
+  const handleRuleSettingsChange = async (ruleSettings: RuleSettings) => {
+    if (!configId) return;
+
+    setSaving(true);
+    try {
+      const saved = await configApi.update(configId, { ruleSettings });
+      setConfig(saved);
+    } catch (error) {
+      console.error('Failed to save rule settings:', error);
+      alert('Failed to save rule settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleParentChange = async (parentId: string | null) => {
+    if (!configId) return;
+
+    setSaving(true);
+    try {
+      const saved = await configApi.update(configId, { parentId });
+      setConfig(saved);
+    } catch (error) {
+      console.error('Failed to change parent config:', error);
+      const reason =
+        error instanceof ApiError && typeof error.details === 'string'
+          ? error.details
+          : (error as Error).message;
+      alert(`Failed to change parent config: ${reason}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFix = async (issue: ValidationIssue) => {
+    if (!configId || !issue.code) return;
+
+    setSaving(true);
+    try {
+      const saved = await configApi.fixIssue(configId, issue.code, issue.path);
+      setConfig(saved);
+    } catch (error) {
+      console.error('Failed to apply fix:', error);
+      alert(`Fix failed: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Handle clicking on a validation issue to navigate to the relevant section
   const handleIssueClick = (issue: ValidationIssue) => {
     const rootPath = issue.path[0]?.toLowerCase();
@@ -271,8 +178,26 @@ export function ConfigEditorPage() {
       setActiveSection('settings');
     } else if (rootPath === 'libraries') {
       setActiveSection('libraries');
+    } else if (rootPath === 'playlist_files') {
+      setActiveSection('playlists');
     } else if (
-      ['plex', 'tmdb', 'tautulli', 'mdblist', 'radarr', 'sonarr', 'trakt'].includes(rootPath)
+      [
+        'plex',
+        'tmdb',
+        'tautulli',
+        'mdblist',
+        'radarr',
+        'sonarr',
+        'trakt',
+        'omdb',
+        'anidb',
+        'mal',
+        'github',
+        'notifiarr',
+        'gotify',
+        'ntfy',
+        'webhooks',
+      ].includes(rootPath)
     ) {
       setActiveSection('integrations');
     }
@@ -301,7 +226,11 @@ export function ConfigEditorPage() {
 
         {/* Validation Panel */}
         <div className={styles.validationSection}>
-          <ValidationPanel validation={validation} onIssueClick={handleIssueClick} />
+          <ValidationPanel
+            validation={validation}
+            onIssueClick={handleIssueClick}
+            onFix={handleFix}
+          />
         </div>
       </div>
 
@@ -320,6 +249,13 @@ export function ConfigEditorPage() {
           Libraries
           <ValidationTabBadge section="libraries" validation={validation} />
         </button>
+        <button
+          className={`${styles.tab} ${activeSection === 'playlists' ? styles.active : ''}`}
+          onClick={() => setActiveSection('playlists')}
+        >
+          Playlists
+          <ValidationTabBadge section="playlists" validation={validation} />
+        </button>
         <button
           className={`${styles.tab} ${activeSection === 'integrations' ? styles.active : ''}`}
           onClick={() => setActiveSection('integrations')}
@@ -327,6 +263,30 @@ export function ConfigEditorPage() {
           Integrations
           <ValidationTabBadge section="integrations" validation={validation} />
         </button>
+        <button
+          className={`${styles.tab} ${activeSection === 'rules' ? styles.active : ''}`}
+          onClick={() => setActiveSection('rules')}
+        >
+          Rules
+        </button>
+        <button
+          className={`${styles.tab} ${activeSection === 'inheritance' ? styles.active : ''}`}
+          onClick={() => setActiveSection('inheritance')}
+        >
+          Inheritance
+        </button>
+        <button
+          className={`${styles.tab} ${activeSection === 'history' ? styles.active : ''}`}
+          onClick={() => setActiveSection('history')}
+        >
+          History
+        </button>
+        <button
+          className={`${styles.tab} ${activeSection === 'compare' ? styles.active : ''}`}
+          onClick={() => setActiveSection('compare')}
+        >
+          Compare
+        </button>
       </div>
 
       <div className={styles.content}>
@@ -339,11 +299,50 @@ export function ConfigEditorPage() {
         {activeSection === 'libraries' && (
           <LibrariesEditor
             libraries={config.config.libraries || {}}
+            anchors={config.config.anchors}
+            plexServers={Object.keys(profile?.secrets.plex_servers ?? {})}
             onChange={(libraries) => handleConfigChange({ libraries })}
           />
         )}
+        {activeSection === 'playlists' && (
+          <PlaylistsEditor config={config.config} onChange={handleConfigChange} />
+        )}
         {activeSection === 'integrations' && (
-          <IntegrationsEditor config={config.config} onChange={handleConfigChange} />
+          <IntegrationsEditor
+            config={config.config}
+            profile={profile}
+            onChange={handleConfigChange}
+          />
+        )}
+        {activeSection === 'rules' && (
+          <RuleSettingsPanel
+            ruleSettings={config.ruleSettings ?? {}}
+            onChange={handleRuleSettingsChange}
+          />
+        )}
+        {activeSection === 'inheritance' && (
+          <InheritancePanel
+            config={config}
+            onParentChange={handleParentChange}
+            onChange={(updated) => {
+              setConfig({ ...config, config: updated });
+              saveConfig(updated);
+            }}
+          />
+        )}
+        {activeSection === 'history' && (
+          <ConfigHistoryPanel
+            configId={config.id}
+            updatedAt={config.updatedAt}
+            onRestore={setConfig}
+          />
+        )}
+        {activeSection === 'compare' && (
+          <ConfigComparePanel
+            configId={config.id}
+            updatedAt={config.updatedAt}
+            onApply={setConfig}
+          />
         )}
       </div>
     </div>
@@ -1,16 +1,94 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import styles from './ImportExportPage.module.css';
-import { configApi, profileApi } from '../api/client';
+import type {
+  RestoreMode,
+  RestoreReport,
+  SecretLeak,
+  SecretLeakHandlingInput,
+  SourcePosition,
+  ValidationIssue,
+} from '@kometa-studio/shared';
+import { configApi, profileApi, backupApi, ApiError, type ProjectUpload } from '../api/client';
 import { ConfirmDialog } from '../components/shared/ConfirmDialog';
+import { SecretLeaksDialog } from '../components/import/SecretLeaksDialog';
+
+const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Merge - overwrite items that already exist',
+  skip: 'Skip - keep items that already exist',
+  replace: 'Replace - delete everything not in the backup',
+};
+
+/**
+ * Reads a file as base64 without the data URL prefix
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Converts a 1-based line and column into a character offset of `text`
+ */
+function toOffset(text: string, position: SourcePosition): number {
+  const lines = text.split('\n').slice(0, position.line - 1);
+  return lines.reduce((offset, line) => offset + line.length + 1, 0) + position.column - 1;
+}
 
 export function ImportExportPage() {
   const [yamlInput, setYamlInput] = useState('');
+  const [importIssues, setImportIssues] = useState<ValidationIssue[]>([]);
+  const yamlEditorRef = useRef<HTMLTextAreaElement>(null);
   const [importing, setImporting] = useState(false);
+  const [importingProject, setImportingProject] = useState(false);
+  const [directoryPath, setDirectoryPath] = useState('');
   const [deleting, setDeleting] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [backingUp, setBackingUp] = useState(false);
+  const [restoreArchive, setRestoreArchive] = useState<unknown>(null);
+  const [restoreFileName, setRestoreFileName] = useState('');
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restoring, setRestoring] = useState(false);
+  const [showRestoreConfirm, setShowRestoreConfirm] = useState(false);
+  const [restoreReport, setRestoreReport] = useState<RestoreReport | null>(null);
+  const [leakPrompt, setLeakPrompt] = useState<{
+    leaks: SecretLeak[];
+    resolve: (handling: SecretLeakHandlingInput | null) => void;
+  } | null>(null);
   const navigate = useNavigate();
 
+  /**
+   * Runs an import into a config that was just created for it. When the server
+   * refuses values that look like secrets, the user decides what happens to
+   * each before the import is sent again; cancelling removes the config.
+   * Returns null when the import was cancelled.
+   */
+  const runImport = async <T,>(
+    configId: string,
+    send: (secretLeaks?: SecretLeakHandlingInput) => Promise<T>
+  ): Promise<T | null> => {
+    try {
+      return await send();
+    } catch (error) {
+      if (!(error instanceof ApiError && error.leaks?.length)) throw error;
+
+      const leaks = error.leaks;
+      const handling = await new Promise<SecretLeakHandlingInput | null>((resolve) =>
+        setLeakPrompt({ leaks, resolve })
+      );
+      setLeakPrompt(null);
+      if (!handling) {
+        await configApi.delete(configId);
+        return null;
+      }
+      return send(handling);
+    }
+  };
+
   const handleImportYaml = async () => {
     if (!yamlInput.trim()) {
       alert('Please paste YAML content');
@@ -21,24 +99,145 @@ export function ImportExportPage() {
     if (!configName) return;
 
     setImporting(true);
+    setImportIssues([]);
     try {
       const newConfig = await configApi.create({
         name: configName,
         config: {},
       });
 
-      await configApi.importYaml(newConfig.id, yamlInput, true);
+      const imported = await runImport(newConfig.id, (secretLeaks) =>
+        configApi.importYaml(newConfig.id, yamlInput, true, secretLeaks)
+      );
+      if (!imported) return;
 
       // Navigate to the imported configuration
       navigate(`/config/${newConfig.id}`);
     } catch (error) {
       console.error('Failed to import:', error);
-      alert(`Import failed: ${(error as Error).message}`);
+      if (error instanceof ApiError && error.issues?.length) {
+        setImportIssues(error.issues);
+      } else {
+        alert(`Import failed: ${(error as Error).message}`);
+      }
     } finally {
       setImporting(false);
     }
   };
 
+  const handleSelectIssue = (issue: ValidationIssue) => {
+    const editor = yamlEditorRef.current;
+    if (!editor || !issue.range) return;
+    editor.focus();
+    editor.setSelectionRange(
+      toOffset(yamlInput, issue.range.start),
+      toOffset(yamlInput, issue.range.end)
+    );
+  };
+
+  // A config directory is read by the server itself, so only its path is sent
+  const importProject = async (readProject: () => Promise<ProjectUpload | { path: string }>) => {
+    const configName = prompt('Enter a name for this configuration:');
+    if (!configName) return;
+
+    setImportingProject(true);
+    try {
+      const project = await readProject();
+      const newConfig = await configApi.create({
+        name: configName,
+        config: {},
+      });
+
+      const result = await runImport(newConfig.id, (secretLeaks) =>
+        'path' in project
+          ? configApi.importDirectory(newConfig.id, project.path, true, secretLeaks)
+          : configApi.importProject(newConfig.id, project, true, secretLeaks)
+      );
+      if (!result) return;
+      if (result.unresolved.length > 0) {
+        alert(
+          `These referenced files were not found in the project and were kept as plain references:\n\n${result.unresolved.join('\n')}`
+        );
+      }
+
+      navigate(`/config/${newConfig.id}`, { state: { profileId: result.profileId } });
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      alert(`Import failed: ${(error as Error).message}`);
+    } finally {
+      setImportingProject(false);
+    }
+  };
+
+  const handleProjectZip = (file: File | undefined) => {
+    if (!file) return;
+    importProject(async () => ({ zip: await readFileAsBase64(file) }));
+  };
+
+  const handleProjectFolder = (fileList: FileList | null) => {
+    const yamlFiles = Array.from(fileList ?? []).filter((file) => /\.ya?ml$/i.test(file.name));
+    if (yamlFiles.length === 0) return;
+    importProject(async () => ({
+      files: await Promise.all(
+        yamlFiles.map(async (file) => ({
+          path: file.webkitRelativePath || file.name,
+          content: await file.text(),
+        }))
+      ),
+    }));
+  };
+
+  const handleDownloadBackup = async () => {
+    setBackingUp(true);
+    try {
+      const archive = await backupApi.download();
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `kometa-studio-backup-${archive.createdAt.slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      alert(`Backup failed: ${(error as Error).message}`);
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const handleRestoreFile = async (file: File | undefined) => {
+    setRestoreReport(null);
+    if (!file) {
+      setRestoreArchive(null);
+      setRestoreFileName('');
+      return;
+    }
+
+    try {
+      setRestoreArchive(JSON.parse(await file.text()));
+      setRestoreFileName(file.name);
+    } catch {
+      setRestoreArchive(null);
+      setRestoreFileName('');
+      alert('The selected file is not a valid JSON backup');
+    }
+  };
+
+  const handleRestoreConfirm = async () => {
+    setShowRestoreConfirm(false);
+    setRestoring(true);
+    try {
+      const report = await backupApi.restore(restoreArchive, restoreMode);
+      setRestoreReport(report);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      alert(`Restore failed: ${(error as Error).message}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
   const handleResetConfirm = async () => {
     setShowResetConfirm(false);
     setDeleting(true);
@@ -75,12 +274,38 @@ export function ImportExportPage() {
           </p>
 
           <textarea
+            ref={yamlEditorRef}
             value={yamlInput}
-            onChange={(e) => setYamlInput(e.target.value)}
+            onChange={(e) => {
+              setYamlInput(e.target.value);
+              setImportIssues([]);
+            }}
             className={styles.yamlEditor}
             placeholder="Paste your YAML configuration here..."
           />
 
+          {importIssues.length > 0 && (
+            <ul className={styles.importIssues}>
+              {importIssues.map((issue, i) => (
+                <li key={i}>
+                  <button
+                    type="button"
+                    className={styles.importIssue}
+                    onClick={() => handleSelectIssue(issue)}
+                    disabled={!issue.range}
+                  >
+                    {issue.range && (
+                      <span className={styles.importIssueLine}>
+                        Line {issue.range.start.line}:{issue.range.start.column}
+                      </span>
+                    )}
+                    {issue.message}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
           <button
             onClick={handleImportYaml}
             disabled={!yamlInput.trim() || importing}
@@ -90,6 +315,57 @@ export function ImportExportPage() {
           </button>
         </div>
 
+        <div className={styles.section}>
+          <h2 className={styles.sectionTitle}>Import Kometa Project</h2>
+          <p className={styles.sectionDescription}>
+            Import a config.yml together with the collection, overlay and metadata files it
+            references via <code>file:</code>. Choose a zip archive or your Kometa config folder, or
+            enter the path of a config directory the server can read, such as a mounted /config;
+            referenced files are stored with the configuration and written back out by the "Project"
+            download in the YAML preview panel.
+          </p>
+
+          <div className={styles.restoreForm}>
+            <label className={styles.fileInput}>
+              Zip archive{' '}
+              <input
+                type="file"
+                accept="application/zip,.zip"
+                disabled={importingProject}
+                onChange={(e) => handleProjectZip(e.target.files?.[0])}
+              />
+            </label>
+            <label className={styles.fileInput}>
+              Config folder{' '}
+              <input
+                type="file"
+                multiple
+                disabled={importingProject}
+                onChange={(e) => handleProjectFolder(e.target.files)}
+                {...{ webkitdirectory: '' }}
+              />
+            </label>
+            {importingProject && <span className={styles.fileInput}>Importing...</span>}
+          </div>
+
+          <div className={styles.restoreForm}>
+            <input
+              type="text"
+              value={directoryPath}
+              onChange={(e) => setDirectoryPath(e.target.value)}
+              className={styles.pathInput}
+              placeholder="Directory on the server, e.g. /config"
+            />
+            <button
+              onClick={() => importProject(async () => ({ path: directoryPath.trim() }))}
+              disabled={!directoryPath.trim() || importingProject}
+              className={styles.importButton}
+            >
+              Import Directory
+            </button>
+          </div>
+        </div>
+
         <div className={styles.section}>
           <h2 className={styles.sectionTitle}>Export Configurations</h2>
           <p className={styles.sectionDescription}>To export a configuration:</p>
@@ -98,6 +374,10 @@ export function ImportExportPage() {
             <li>Use the YAML preview panel on the right</li>
             <li>Select your profile and mode (template/masked/full)</li>
             <li>Click "Download" to save the YAML file</li>
+            <li>
+              Or click "Project" to save config.yml and its local collection, overlay and metadata
+              files as a zip
+            </li>
           </ol>
 
           <div className={styles.warning}>
@@ -107,6 +387,61 @@ export function ImportExportPage() {
           </div>
         </div>
 
+        <div className={styles.section}>
+          <h2 className={styles.sectionTitle}>Backup & Restore</h2>
+          <p className={styles.sectionDescription}>
+            Download a single archive with all configurations, profiles and saved overlays. Profile
+            secrets stay encrypted, so a backup can only be restored by a server using the same
+            master key.
+          </p>
+
+          <button
+            onClick={handleDownloadBackup}
+            disabled={backingUp}
+            className={styles.importButton}
+          >
+            {backingUp ? 'Creating Backup...' : 'Download Backup'}
+          </button>
+
+          <div className={styles.restoreForm}>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleRestoreFile(e.target.files?.[0])}
+              className={styles.fileInput}
+            />
+            <select
+              value={restoreMode}
+              onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+              className={styles.select}
+            >
+              {(Object.keys(RESTORE_MODE_LABELS) as RestoreMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {RESTORE_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowRestoreConfirm(true)}
+              disabled={!restoreArchive || restoring}
+              className={styles.importButton}
+            >
+              {restoring ? 'Restoring...' : 'Restore Backup'}
+            </button>
+          </div>
+
+          {restoreReport && (
+            <ul className={styles.restoreReport}>
+              {(['configs', 'profiles', 'overlays'] as const).map((kind) => (
+                <li key={kind}>
+                  <strong>{kind}:</strong> {restoreReport[kind].created} created,{' '}
+                  {restoreReport[kind].updated} updated, {restoreReport[kind].skipped} skipped
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
         <div className={styles.section}>
           <h2 className={styles.sectionTitle}>Reset All Data</h2>
           <p className={styles.sectionDescription}>
@@ -122,6 +457,21 @@ export function ImportExportPage() {
         </div>
       </div>
 
+      <ConfirmDialog
+        isOpen={showRestoreConfirm}
+        title="Restore Backup"
+        message={`Restore ${restoreFileName} using "${restoreMode}" mode?`}
+        warning={
+          restoreMode === 'replace'
+            ? 'All configurations and profiles that are not part of the backup will be permanently deleted.'
+            : undefined
+        }
+        confirmText="Restore"
+        isDanger={restoreMode === 'replace'}
+        onConfirm={handleRestoreConfirm}
+        onCancel={() => setShowRestoreConfirm(false)}
+      />
+
       <ConfirmDialog
         isOpen={showResetConfirm}
         title="Reset All Data"
@@ -134,6 +484,14 @@ export function ImportExportPage() {
         onConfirm={handleResetConfirm}
         onCancel={() => setShowResetConfirm(false)}
       />
+
+      {leakPrompt && (
+        <SecretLeaksDialog
+          leaks={leakPrompt.leaks}
+          onSubmit={leakPrompt.resolve}
+          onCancel={() => leakPrompt.resolve(null)}
+        />
+      )}
     </div>
   );
 }
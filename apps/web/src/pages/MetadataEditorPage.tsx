@@ -0,0 +1,440 @@
+/**
+ * MetadataEditorPage
+ *
+ * Edits per-item metadata overrides, such as titles, summaries, posters,
+ * labels, editions and season and episode fields, in a local metadata file
+ * attached to a library. Items are found through TMDB or Plex and keyed by
+ * their TMDb ID for movies or TVDb ID for shows.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import * as yaml from 'js-yaml';
+import type { ItemMetadata, KometaConfig } from '@kometa-studio/shared';
+import styles from './MetadataEditorPage.module.css';
+import { configApi, type ConfigEntity } from '../api/client';
+import { useProfiles } from '../hooks/useProfiles';
+import { useNotification } from '../hooks/useNotification';
+import { Notification } from '../components/overlay/Notification';
+import { MetadataItemEditor } from '../components/metadata/MetadataItemEditor';
+import {
+  MetadataService,
+  localMetadataFiles,
+  readMetadataFile,
+  saveMetadataFile,
+  type MetadataItems,
+  type MetadataSearchResult,
+} from '../services/metadata.service';
+
+// Select value for a file that does not exist yet
+const NEW = '__new__';
+
+function defaultFilePath(library: string): string {
+  return `config/metadata/${library}.yml`;
+}
+
+export function MetadataEditorPage() {
+  const { profiles, selectedProfile, setSelectedProfile } = useProfiles();
+  const { notification, showNotification, clearNotification } = useNotification();
+
+  const [configs, setConfigs] = useState<ConfigEntity[]>([]);
+  const [configId, setConfigId] = useState('');
+  const [config, setConfig] = useState<KometaConfig | null>(null);
+  const [library, setLibrary] = useState('');
+  const [filePath, setFilePath] = useState('');
+  const [mediaType, setMediaType] = useState<'movie' | 'show'>('movie');
+  const [items, setItems] = useState<MetadataItems>({});
+  const [selectedKey, setSelectedKey] = useState<string | undefined>();
+  const [newKey, setNewKey] = useState('');
+  // Titles of items added from search results, shown until they are overridden
+  const [titles, setTitles] = useState<Record<string, string>>({});
+
+  const [source, setSource] = useState<'tmdb' | 'plex'>('tmdb');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MetadataSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  // Title each key resolves to, or null when it does not resolve
+  const [resolved, setResolved] = useState<Record<string, string | null> | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    configApi
+      .list()
+      .then(({ configs: configList }) => {
+        setConfigs(configList);
+        if (configList.length > 0) setConfigId(configList[0].id);
+      })
+      .catch((error) => console.error('Failed to load configs:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!configId) return;
+    configApi
+      .get(configId)
+      .then((entity) => {
+        setConfig(entity.config);
+        selectLibrary(entity.config, Object.keys(entity.config.libraries ?? {})[0] ?? '');
+      })
+      .catch((error) => console.error('Failed to load config:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- Only reload when another config is selected
+  }, [configId]);
+
+  const files = useMemo(
+    () => (config && library ? localMetadataFiles(config, library) : []),
+    [config, library]
+  );
+
+  // Starts from the library's first local metadata file, or a new one
+  const selectLibrary = (currentConfig: KometaConfig, libraryName: string) => {
+    setLibrary(libraryName);
+    selectFile(
+      currentConfig,
+      localMetadataFiles(currentConfig, libraryName)[0] ??
+        (libraryName ? defaultFilePath(libraryName) : '')
+    );
+  };
+
+  const selectFile = (currentConfig: KometaConfig, path: string) => {
+    const fileItems = readMetadataFile(currentConfig, path);
+    setFilePath(path);
+    setItems(fileItems);
+    setSelectedKey(Object.keys(fileItems)[0]);
+    setResolved(null);
+  };
+
+  const addItem = (key: string, title?: string) => {
+    if (!items[key]) setItems({ ...items, [key]: {} });
+    if (title) setTitles({ ...titles, [key]: title });
+    setSelectedKey(key);
+  };
+
+  const removeItem = (key: string) => {
+    const { [key]: _removed, ...rest } = items;
+    setItems(rest);
+    if (selectedKey === key) setSelectedKey(Object.keys(rest)[0]);
+  };
+
+  const updateItem = (key: string, item: ItemMetadata) => {
+    setItems({ ...items, [key]: item });
+  };
+
+  const metadataYaml = useMemo(() => yaml.dump({ metadata: items }, { lineWidth: -1 }), [items]);
+
+  const service = () =>
+    new MetadataService(selectedProfile, configId && library ? { configId, library } : undefined);
+
+  const handleSearch = async () => {
+    if (!selectedProfile || !query.trim()) return;
+    setSearching(true);
+    try {
+      setResults(await service().search(query.trim(), mediaType, source));
+    } catch (error) {
+      showNotification(`Search failed: ${(error as Error).message}`, 'error');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!selectedProfile) return;
+    setVerifying(true);
+    try {
+      setResolved(await service().resolveIds(Object.keys(items), mediaType));
+    } catch (error) {
+      showNotification(`Verification failed: ${(error as Error).message}`, 'error');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!config || !library || !filePath.trim()) {
+      showNotification('Select a config, library and metadata file first', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = saveMetadataFile(config, {
+        library,
+        path: filePath.trim(),
+        metadata: items,
+      });
+      const entity = await configApi.update(configId, { config: updated });
+      setConfig(entity.config);
+      showNotification(`Saved ${filePath.trim()}`, 'success');
+    } catch (error) {
+      showNotification(`Failed to save metadata: ${(error as Error).message}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const libraries = Object.keys(config?.libraries ?? {});
+  const keys = Object.keys(items);
+  const idLabel = mediaType === 'movie' ? 'TMDb ID' : 'TVDb ID';
+  const titleOf = (key: string) => items[key].title || titles[key] || resolved?.[key] || '';
+
+  return (
+    <div className={styles.page}>
+      {notification && (
+        <Notification
+          message={notification.message}
+          type={notification.type}
+          onClose={clearNotification}
+        />
+      )}
+
+      <div className={styles.header}>
+        <h1 className={styles.title}>Metadata Editor</h1>
+        <p className={styles.description}>
+          Override titles, summaries, posters and labels of individual items in a metadata file.
+        </p>
+      </div>
+
+      <div className={styles.toolbar}>
+        <label className={styles.toolbarField}>
+          Config
+          <select
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value)}
+            className={styles.select}
+          >
+            {configs.map((entity) => (
+              <option key={entity.id} value={entity.id}>
+                {entity.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Library
+          <select
+            value={library}
+            onChange={(e) => config && selectLibrary(config, e.target.value)}
+            className={styles.select}
+          >
+            {libraries.map((libraryName) => (
+              <option key={libraryName} value={libraryName}>
+                {libraryName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Metadata File
+          <select
+            value={files.includes(filePath) ? filePath : NEW}
+            onChange={(e) =>
+              config &&
+              selectFile(config, e.target.value === NEW ? defaultFilePath(library) : e.target.value)
+            }
+            className={styles.select}
+          >
+            {files.map((path) => (
+              <option key={path} value={path}>
+                {path}
+              </option>
+            ))}
+            <option value={NEW}>New file</option>
+          </select>
+        </label>
+        <label className={styles.toolbarField}>
+          Path
+          <input
+            type="text"
+            value={filePath}
+            onChange={(e) => setFilePath(e.target.value)}
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.toolbarField}>
+          Media Type
+          <select
+            value={mediaType}
+            onChange={(e) => {
+              setMediaType(e.target.value as 'movie' | 'show');
+              setResults(null);
+              setResolved(null);
+            }}
+            className={styles.select}
+          >
+            <option value="movie">Movies</option>
+            <option value="show">TV Shows</option>
+          </select>
+        </label>
+      </div>
+
+      {libraries.length === 0 ? (
+        <p className={styles.empty}>Add a library to the config to edit its metadata.</p>
+      ) : (
+        <div className={styles.content}>
+          <div className={styles.main}>
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>Items</h2>
+              {keys.length === 0 ? (
+                <p className={styles.hint}>No items yet. Search for one or add it by its ID.</p>
+              ) : (
+                <ul className={styles.itemList}>
+                  {keys.map((key) => (
+                    <li
+                      key={key}
+                      className={`${styles.itemRow} ${key === selectedKey ? styles.selected : ''}`}
+                    >
+                      <button onClick={() => setSelectedKey(key)} className={styles.itemButton}>
+                        <span className={styles.itemKey}>{key}</span>
+                        <span className={styles.itemTitle}>{titleOf(key)}</span>
+                        {resolved && key in resolved && (
+                          <span
+                            className={resolved[key] !== null ? styles.resolved : styles.unresolved}
+                          >
+                            {resolved[key] ?? 'Does not resolve'}
+                          </span>
+                        )}
+                      </button>
+                      <button onClick={() => removeItem(key)} className={styles.removeButton}>
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className={styles.controls}>
+                <input
+                  type="text"
+                  value={newKey}
+                  onChange={(e) => setNewKey(e.target.value)}
+                  className={styles.input}
+                  placeholder={idLabel}
+                />
+                <button
+                  onClick={() => {
+                    addItem(newKey.trim());
+                    setNewKey('');
+                  }}
+                  disabled={!newKey.trim()}
+                  className={styles.secondaryButton}
+                >
+                  Add Item
+                </button>
+                <button
+                  onClick={handleVerify}
+                  disabled={verifying || !selectedProfile || keys.length === 0}
+                  className={styles.secondaryButton}
+                >
+                  {verifying ? 'Verifying...' : 'Verify IDs'}
+                </button>
+              </div>
+            </section>
+
+            {selectedKey && items[selectedKey] && (
+              <section className={styles.panel}>
+                <h2 className={styles.panelTitle}>
+                  {titleOf(selectedKey) || selectedKey}
+                  <span className={styles.panelSubtitle}>
+                    {idLabel} {selectedKey}
+                  </span>
+                </h2>
+                <MetadataItemEditor
+                  key={`${filePath}-${selectedKey}`}
+                  item={items[selectedKey]}
+                  mediaType={mediaType}
+                  onChange={(item) => updateItem(selectedKey, item)}
+                />
+              </section>
+            )}
+
+            <button onClick={handleSave} disabled={saving} className={styles.saveButton}>
+              {saving ? 'Saving...' : 'Save Metadata'}
+            </button>
+          </div>
+
+          <div className={styles.side}>
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>Search</h2>
+              <div className={styles.controls}>
+                <select
+                  value={selectedProfile}
+                  onChange={(e) => setSelectedProfile(e.target.value)}
+                  className={styles.select}
+                >
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={source}
+                  onChange={(e) => setSource(e.target.value as 'tmdb' | 'plex')}
+                  className={styles.select}
+                >
+                  <option value="tmdb">TMDB</option>
+                  <option value="plex">Plex</option>
+                </select>
+              </div>
+              <form
+                className={styles.controls}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSearch();
+                }}
+              >
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className={styles.input}
+                  placeholder="Title"
+                />
+                <button
+                  type="submit"
+                  disabled={searching || !selectedProfile || !query.trim()}
+                  className={styles.searchButton}
+                >
+                  {searching ? 'Searching...' : 'Search'}
+                </button>
+              </form>
+
+              {results &&
+                (results.length === 0 ? (
+                  <p className={styles.hint}>No results.</p>
+                ) : (
+                  <ul className={styles.results}>
+                    {results.map((result, index) => (
+                      <li key={`${result.title}-${index}`} className={styles.result}>
+                        {result.posterUrl ? (
+                          <img src={result.posterUrl} alt="" className={styles.poster} />
+                        ) : (
+                          <div className={styles.poster} />
+                        )}
+                        <span className={styles.resultTitle}>
+                          {result.title}
+                          {result.year && ` (${result.year})`}
+                        </span>
+                        {result.id ? (
+                          <button
+                            onClick={() => addItem(String(result.id), result.title)}
+                            className={styles.secondaryButton}
+                          >
+                            {items[String(result.id)] ? 'Edit' : 'Add'}
+                          </button>
+                        ) : (
+                          <span className={styles.hint}>No {idLabel}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+            </section>
+
+            <section className={styles.panel}>
+              <h2 className={styles.panelTitle}>YAML</h2>
+              <pre className={styles.code}>{metadataYaml}</pre>
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
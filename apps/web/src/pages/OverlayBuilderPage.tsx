@@ -12,7 +12,7 @@ import styles from './OverlayBuilderPage.module.css';
 // Custom hooks
 import { useProfiles } from '../hooks/useProfiles';
 import { useConfigs } from '../hooks/useConfigs';
-import { useMediaSelection, MediaMetadata } from '../hooks/useMediaSelection';
+import { useMediaSelection, previewLibraryName, MediaMetadata } from '../hooks/useMediaSelection';
 import { useNotification } from '../hooks/useNotification';
 import { useHistory, useHistoryKeyboard } from '../hooks/useHistory';
 
@@ -63,7 +63,7 @@ export function OverlayBuilderPage() {
     handleMediaSelect,
     handlePosterTypeChange,
     handleSeasonChange,
-  } = useMediaSelection(selectedProfile, profileReady);
+  } = useMediaSelection(selectedProfile, profileReady, selectedConfig);
 
   // Notifications
   const { notification, showNotification, clearNotification } = useNotification();
@@ -127,7 +127,7 @@ export function OverlayBuilderPage() {
       const kometaService = new KometaDefaultsService();
       const allElements: OverlayElement[] = [];
 
-      const libraryName = mediaType === 'movie' ? 'Movies' : 'TV Shows';
+      const libraryName = previewLibraryName(mediaType);
 
       let currentLevel = 'movie';
       if (mediaType === 'tv') {
@@ -3,10 +3,25 @@ import styles from './ProfilesPage.module.css';
 import { profileApi, proxyApi } from '../api/client';
 import { ConfirmDialog } from '../components/shared/ConfirmDialog';
 import { TIMING } from '../constants/overlay.constants';
-import type { MaskedProfile, ProfileSecrets } from '@kometa-studio/shared';
+import { WEBHOOK_EVENTS } from '../constants/webhook.constants';
+import type { MaskedProfile, ProfileSecrets, WebhookEvent } from '@kometa-studio/shared';
 
 // Valid service names for secrets
-type ServiceName = 'plex' | 'tmdb' | 'tautulli' | 'mdblist' | 'radarr' | 'sonarr' | 'trakt';
+type ServiceName =
+  | 'plex'
+  | 'tmdb'
+  | 'tautulli'
+  | 'mdblist'
+  | 'radarr'
+  | 'sonarr'
+  | 'trakt'
+  | 'omdb'
+  | 'anidb'
+  | 'mal'
+  | 'github'
+  | 'notifiarr'
+  | 'gotify'
+  | 'ntfy';
 
 // Form data for creating/editing profiles
 interface ProfileFormData {
@@ -40,6 +55,7 @@ export function ProfilesPage() {
   const [unmaskedSecrets, setUnmaskedSecrets] = useState<ProfileSecrets>({});
   const [testing, setTesting] = useState<Record<string, boolean>>({});
   const [showSecrets, setShowSecrets] = useState(false);
+  const [newPlexServer, setNewPlexServer] = useState('');
   const [notification, setNotification] = useState<{
     message: string;
     type: 'success' | 'error' | 'info';
@@ -102,6 +118,13 @@ export function ProfilesPage() {
         'radarr',
         'sonarr',
         'trakt',
+        'omdb',
+        'anidb',
+        'mal',
+        'github',
+        'notifiarr',
+        'gotify',
+        'ntfy',
       ];
       for (const service of services) {
         const unmasked = unmaskedSecrets[service];
@@ -113,6 +136,14 @@ export function ProfilesPage() {
         }
       }
 
+      // Drop the blank lines left over from editing webhook URLs
+      if (mergedSecrets.webhooks) {
+        const webhooks = Object.entries(mergedSecrets.webhooks)
+          .map(([event, urls]) => [event, urls.map((url) => url.trim()).filter(Boolean)] as const)
+          .filter(([, urls]) => urls.length > 0);
+        mergedSecrets.webhooks = webhooks.length > 0 ? Object.fromEntries(webhooks) : undefined;
+      }
+
       const dataToSave = {
         ...formData,
         secrets: mergedSecrets,
@@ -181,6 +212,47 @@ export function ProfilesPage() {
     });
   };
 
+  // Webhook URLs are edited one per line
+  const handleWebhookChange = (event: WebhookEvent, value: string) => {
+    setFormData({
+      ...formData,
+      secrets: {
+        ...formData.secrets,
+        webhooks: { ...formData.secrets?.webhooks, [event]: value.split('\n') },
+      },
+    });
+  };
+
+  // Library Plex servers are keyed by the name libraries refer to them with
+  const handlePlexServerChange = (name: string, field: 'url' | 'token', value: string) => {
+    const servers = formData.secrets?.plex_servers ?? {};
+    setFormData({
+      ...formData,
+      secrets: {
+        ...formData.secrets,
+        plex_servers: { ...servers, [name]: { ...servers[name], [field]: value || undefined } },
+      },
+    });
+  };
+
+  const handleAddPlexServer = () => {
+    const name = newPlexServer.trim();
+    if (!name || formData.secrets?.plex_servers?.[name]) return;
+    handlePlexServerChange(name, 'url', '');
+    setNewPlexServer('');
+  };
+
+  const handleRemovePlexServer = (name: string) => {
+    const { [name]: _removed, ...servers } = formData.secrets?.plex_servers ?? {};
+    setFormData({
+      ...formData,
+      secrets: {
+        ...formData.secrets,
+        plex_servers: Object.keys(servers).length > 0 ? servers : undefined,
+      },
+    });
+  };
+
   const showNotification = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
     setNotification({ message, type });
   };
@@ -227,8 +299,13 @@ export function ProfilesPage() {
         return;
       }
 
+      // Nested values such as OAuth authorizations are not needed for the test
+      const fields = Object.fromEntries(
+        Object.entries(secrets).filter(([, value]) => typeof value === 'string')
+      );
+
       // Use proxy API to test connection (keeps secrets on backend)
-      const result = await proxyApi.testConnection(service, secrets);
+      const result = await proxyApi.testConnection(service, fields);
 
       if (result.success) {
         const message = result.version
@@ -246,6 +323,26 @@ export function ProfilesPage() {
     }
   };
 
+  const testPlexServer = async (name: string) => {
+    const key = `plex_servers.${name}`;
+    setTesting({ ...testing, [key]: true });
+
+    try {
+      const server = formData.secrets?.plex_servers?.[name] ?? {};
+      const result = await proxyApi.testConnection('plex', server);
+      if (result.success) {
+        showNotification(`${name}: ${result.message || 'Plex connection successful!'}`, 'success');
+      } else {
+        showNotification(`${name}: ${result.error || 'Plex connection failed'}`, 'error');
+      }
+    } catch (error) {
+      console.error(`Test Plex server ${name} failed:`, error);
+      showNotification(`Connection test failed: ${(error as Error).message}`, 'error');
+    } finally {
+      setTesting({ ...testing, [key]: false });
+    }
+  };
+
   if (loading) {
     return <div className={styles.loading}>Loading profiles...</div>;
   }
@@ -388,6 +485,73 @@ export function ProfilesPage() {
                 </div>
               </div>
 
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>Library Plex Servers</h4>
+                </div>
+                {Object.entries(formData.secrets?.plex_servers ?? {}).map(([name, server]) => (
+                  <div key={name} className={styles.serverEntry}>
+                    <div className={styles.groupHeader}>
+                      <span className={styles.label}>{name}</span>
+                      <div className={styles.serverActions}>
+                        <button
+                          type="button"
+                          onClick={() => testPlexServer(name)}
+                          disabled={testing[`plex_servers.${name}`]}
+                          className={styles.testButton}
+                        >
+                          {testing[`plex_servers.${name}`] ? 'Testing...' : 'Test'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRemovePlexServer(name)}
+                          className={styles.testButton}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                    <div className={styles.field}>
+                      <label className={styles.label}>URL</label>
+                      <input
+                        type="url"
+                        value={server.url || ''}
+                        onChange={(e) => handlePlexServerChange(name, 'url', e.target.value)}
+                        className={styles.input}
+                        placeholder="http://localhost:32400"
+                      />
+                    </div>
+                    <div className={styles.field}>
+                      <label className={styles.label}>Token</label>
+                      <input
+                        type={showSecrets ? 'text' : 'password'}
+                        value={server.token || ''}
+                        onChange={(e) => handlePlexServerChange(name, 'token', e.target.value)}
+                        className={styles.input}
+                        placeholder="Enter token"
+                      />
+                    </div>
+                  </div>
+                ))}
+                <div className={styles.serverActions}>
+                  <input
+                    type="text"
+                    value={newPlexServer}
+                    onChange={(e) => setNewPlexServer(e.target.value)}
+                    className={styles.input}
+                    placeholder="Server name, chosen per library in the config"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddPlexServer}
+                    disabled={!newPlexServer.trim()}
+                    className={styles.testButton}
+                  >
+                    Add Server
+                  </button>
+                </div>
+              </div>
+
               <div className={styles.secretGroup}>
                 <div className={styles.groupHeader}>
                   <h4 className={styles.groupTitle}>TMDB</h4>
@@ -571,6 +735,238 @@ export function ProfilesPage() {
                   />
                 </div>
               </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>OMDb</h4>
+                  <button
+                    type="button"
+                    onClick={() => testConnection('omdb')}
+                    disabled={testing.omdb}
+                    className={styles.testButton}
+                  >
+                    {testing.omdb ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>API Key</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('omdb', 'apikey')}
+                    onChange={(e) => handleSecretChange('omdb', 'apikey', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter API key"
+                  />
+                </div>
+              </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>AniDB</h4>
+                  <button
+                    type="button"
+                    onClick={() => testConnection('anidb')}
+                    disabled={testing.anidb}
+                    className={styles.testButton}
+                  >
+                    {testing.anidb ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Username</label>
+                  <input
+                    type="text"
+                    value={formData.secrets?.anidb?.username || ''}
+                    onChange={(e) => handleSecretChange('anidb', 'username', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter username"
+                  />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Password</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('anidb', 'password')}
+                    onChange={(e) => handleSecretChange('anidb', 'password', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter password"
+                  />
+                </div>
+              </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>MyAnimeList</h4>
+                  <button
+                    type="button"
+                    onClick={() => testConnection('mal')}
+                    disabled={testing.mal}
+                    className={styles.testButton}
+                  >
+                    {testing.mal ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Client ID</label>
+                  <input
+                    type="text"
+                    value={formData.secrets?.mal?.client_id || ''}
+                    onChange={(e) => handleSecretChange('mal', 'client_id', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter client ID"
+                  />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Client Secret</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('mal', 'client_secret')}
+                    onChange={(e) => handleSecretChange('mal', 'client_secret', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter client secret"
+                  />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Authorization</label>
+                  <input
+                    type="text"
+                    value={
+                      formData.secrets?.mal?.authorization?.access_token
+                        ? 'Authorized'
+                        : 'Not authorized, Kometa asks for it on its first run'
+                    }
+                    className={styles.input}
+                    readOnly
+                  />
+                </div>
+              </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>GitHub</h4>
+                  <button
+                    type="button"
+                    onClick={() => testConnection('github')}
+                    disabled={testing.github}
+                    className={styles.testButton}
+                  >
+                    {testing.github ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Personal Access Token</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('github', 'token')}
+                    onChange={(e) => handleSecretChange('github', 'token', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter token"
+                  />
+                </div>
+              </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>Notifiarr</h4>
+                  <button
+                    type="button"
+                    onClick={() => testConnection('notifiarr')}
+                    disabled={testing.notifiarr}
+                    className={styles.testButton}
+                  >
+                    {testing.notifiarr ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>API Key</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('notifiarr', 'apikey')}
+                    onChange={(e) => handleSecretChange('notifiarr', 'apikey', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter API key"
+                  />
+                </div>
+              </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>Gotify</h4>
+                  <button
+                    type="button"
+                    onClick={() => testConnection('gotify')}
+                    disabled={testing.gotify}
+                    className={styles.testButton}
+                  >
+                    {testing.gotify ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>URL</label>
+                  <input
+                    type="url"
+                    value={formData.secrets?.gotify?.url || ''}
+                    onChange={(e) => handleSecretChange('gotify', 'url', e.target.value)}
+                    className={styles.input}
+                    placeholder="http://localhost:80"
+                  />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>App Token</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('gotify', 'token')}
+                    onChange={(e) => handleSecretChange('gotify', 'token', e.target.value)}
+                    className={styles.input}
+                    placeholder="Enter app token"
+                  />
+                </div>
+              </div>
+
+              {/* ntfy is tested from the config's Integrations tab, where its topic is set */}
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>ntfy</h4>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>URL</label>
+                  <input
+                    type="url"
+                    value={formData.secrets?.ntfy?.url || ''}
+                    onChange={(e) => handleSecretChange('ntfy', 'url', e.target.value)}
+                    className={styles.input}
+                    placeholder="https://ntfy.sh"
+                  />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>Access Token</label>
+                  <input
+                    type={showSecrets ? 'text' : 'password'}
+                    value={getSecretValue('ntfy', 'token')}
+                    onChange={(e) => handleSecretChange('ntfy', 'token', e.target.value)}
+                    className={styles.input}
+                    placeholder="Optional for public topics"
+                  />
+                </div>
+              </div>
+
+              <div className={styles.secretGroup}>
+                <div className={styles.groupHeader}>
+                  <h4 className={styles.groupTitle}>Webhook URLs</h4>
+                </div>
+                {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map((event) => (
+                  <div key={event} className={styles.field}>
+                    <label className={styles.label}>{WEBHOOK_EVENTS[event].label}</label>
+                    <textarea
+                      value={(formData.secrets?.webhooks?.[event] ?? []).join('\n')}
+                      onChange={(e) => handleWebhookChange(event, e.target.value)}
+                      className={styles.input}
+                      rows={2}
+                      placeholder="One webhook URL per line, e.g. a Discord webhook"
+                    />
+                  </div>
+                ))}
+              </div>
             </div>
 
             <div className={styles.actions}>
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { KometaConfig } from '@kometa-studio/shared';
+import {
+  collectionBuilders,
+  localCollectionFiles,
+  readCollectionFile,
+  saveCollection,
+} from './collection.service';
+
+describe('Collection Service', () => {
+  const config: KometaConfig = {
+    libraries: {
+      Movies: {
+        collection_files: [{ default: 'imdb' }, { file: 'config/Movies.yml' }],
+      },
+    },
+    local_files: {
+      'config/Movies.yml': {
+        templates: { Studio: { sync_mode: 'sync' } },
+        collections: { Marvel: { tmdb_collection: 86311 } },
+      },
+    },
+  };
+
+  it('should list builders in the order the builder shows them', () => {
+    expect(collectionBuilders({ plex_search: { all: {} }, tmdb_collection: 10 })).toEqual([
+      'tmdb_collection',
+      'plex_search',
+    ]);
+  });
+
+  it('should list only local collection files', () => {
+    expect(localCollectionFiles(config, 'Movies')).toEqual(['config/Movies.yml']);
+    expect(localCollectionFiles(config, 'TV Shows')).toEqual([]);
+  });
+
+  it('should add a collection to an existing file and keep its other content', () => {
+    const updated = saveCollection(config, {
+      library: 'Movies',
+      path: 'config/Movies.yml',
+      name: 'Star Wars',
+      collection: { tmdb_collection: 10, sync_mode: 'sync' },
+    });
+
+    expect(Object.keys(readCollectionFile(updated, 'config/Movies.yml'))).toEqual([
+      'Marvel',
+      'Star Wars',
+    ]);
+    expect(updated.local_files?.['config/Movies.yml'].templates).toEqual({
+      Studio: { sync_mode: 'sync' },
+    });
+    expect(updated.libraries?.Movies.collection_files).toHaveLength(2);
+  });
+
+  it('should create and attach a new file, and rename collections', () => {
+    const created = saveCollection(config, {
+      library: 'Movies',
+      path: 'config/collections/Movies.yml',
+      name: 'Top 250',
+      collection: { imdb_chart: 'top_movies' },
+    });
+    expect(created.libraries?.Movies.collection_files).toContainEqual({
+      file: 'config/collections/Movies.yml',
+    });
+
+    const renamed = saveCollection(created, {
+      library: 'Movies',
+      path: 'config/collections/Movies.yml',
+      name: 'IMDb Top 250',
+      collection: { imdb_chart: 'top_movies' },
+      previousName: 'Top 250',
+    });
+    expect(readCollectionFile(renamed, 'config/collections/Movies.yml')).toEqual({
+      'IMDb Top 250': { imdb_chart: 'top_movies' },
+    });
+  });
+
+  it('should refuse libraries that are not in the config', () => {
+    expect(() =>
+      saveCollection(config, {
+        library: 'Anime',
+        path: 'config/Anime.yml',
+        name: 'A',
+        collection: {},
+      })
+    ).toThrow('Library "Anime" is not in the config');
+  });
+});
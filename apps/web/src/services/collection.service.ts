@@ -0,0 +1,214 @@
+/**
+ * Collection Service
+ *
+ * Saves collections built in the collection builder as local collection files
+ * and previews the items they match through the TMDB and Plex proxies.
+ */
+
+import type {
+  Collection,
+  CollectionBuilder,
+  CollectionFile,
+  KometaConfig,
+} from '@kometa-studio/shared';
+import type { PlexLibraryTarget } from '../api/client';
+import { COLLECTION_BUILDERS } from '../constants/collection.constants';
+import { PlexService } from './plex.service';
+import { TmdbService } from './tmdb.service';
+
+export interface CollectionPreviewItem {
+  title: string;
+  year?: number;
+  posterUrl?: string | null;
+  /** Whether the item was found in the Plex library */
+  inLibrary: boolean;
+}
+
+export interface CollectionPreview {
+  items: CollectionPreviewItem[];
+  /** Builders that can only be resolved by Kometa itself */
+  skipped: CollectionBuilder[];
+}
+
+export interface SaveCollectionOptions {
+  library: string;
+  /** Path of the local collection file, as referenced by its `file:` entry */
+  path: string;
+  name: string;
+  collection: Collection;
+  /** Name the collection was loaded under, removed when it was renamed */
+  previousName?: string;
+}
+
+/**
+ * Returns the builders a collection uses, in the order the builder lists them
+ */
+export function collectionBuilders(collection: Collection): CollectionBuilder[] {
+  return (Object.keys(COLLECTION_BUILDERS) as CollectionBuilder[]).filter(
+    (builder) => collection[builder] !== undefined
+  );
+}
+
+/**
+ * Lists the local collection files a library references
+ */
+export function localCollectionFiles(config: KometaConfig, library: string): string[] {
+  return (config.libraries?.[library]?.collection_files ?? [])
+    .filter((entry) => 'file' in entry && config.local_files?.[entry.file])
+    .map((entry) => ('file' in entry ? entry.file : ''));
+}
+
+/**
+ * Returns the collections defined in a local file
+ */
+export function readCollectionFile(
+  config: KometaConfig,
+  path: string
+): CollectionFile['collections'] {
+  const content = config.local_files?.[path] as Partial<CollectionFile> | undefined;
+  return content?.collections ?? {};
+}
+
+/**
+ * Writes a collection into a local collection file, creating the file and
+ * attaching it to the library's collection_files when needed
+ */
+export function saveCollection(config: KometaConfig, options: SaveCollectionOptions): KometaConfig {
+  const { library, path, name, collection, previousName } = options;
+  const existing = config.libraries?.[library];
+  if (!existing) {
+    throw new Error(`Library "${library}" is not in the config`);
+  }
+
+  const content = config.local_files?.[path] ?? {};
+  const collections = { ...readCollectionFile(config, path) };
+  if (previousName && previousName !== name) {
+    delete collections[previousName];
+  }
+  collections[name] = collection;
+
+  const files = existing.collection_files ?? [];
+  const attached = files.some((entry) => 'file' in entry && entry.file === path);
+
+  return {
+    ...config,
+    libraries: {
+      ...config.libraries,
+      [library]: {
+        ...existing,
+        collection_files: attached ? files : [...files, { file: path }],
+      },
+    },
+    local_files: {
+      ...config.local_files,
+      [path]: { ...content, collections },
+    },
+  };
+}
+
+/**
+ * Reads TMDB collection IDs from IDs, URLs and comma separated lists
+ */
+function tmdbCollectionIds(value: Collection['tmdb_collection']): number[] {
+  const values: Array<string | number> = Array.isArray(value) ? value : value ? [value] : [];
+  return values
+    .flatMap(
+      (item): Array<string | number> => (typeof item === 'string' ? item.split(',') : [item])
+    )
+    .map((item) => {
+      if (typeof item === 'number') return item;
+      const match = item.match(/collection\/(\d+)/) ?? item.trim().match(/^(\d+)$/);
+      return match ? Number(match[1]) : NaN;
+    })
+    .filter((id) => Number.isInteger(id) && id > 0);
+}
+
+/**
+ * Reads a Plex search attribute from the `all` or `any` block of a plex_search
+ */
+function searchAttribute(collection: Collection, attribute: string): unknown[] {
+  const search = collection.plex_search ?? {};
+  return [search.all?.[attribute], search.any?.[attribute]]
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => value !== undefined && value !== null);
+}
+
+export class CollectionPreviewService {
+  private tmdb: TmdbService;
+  private plex: PlexService;
+
+  /**
+   * @param target Library the collection belongs to, so its own Plex server is searched
+   */
+  constructor(profileId: string, target?: PlexLibraryTarget) {
+    this.tmdb = new TmdbService(profileId);
+    this.plex = new PlexService(profileId, target);
+  }
+
+  /**
+   * Looks up the items a collection's builders return. TMDB collections are
+   * checked against the Plex library; a plex_search with title conditions is
+   * run by its titles and narrowed by its year conditions. Filters and other
+   * builders are left to Kometa.
+   */
+  async preview(collection: Collection, mediaType: 'movie' | 'show'): Promise<CollectionPreview> {
+    const items: CollectionPreviewItem[] = [];
+    const skipped: CollectionBuilder[] = [];
+
+    for (const builder of collectionBuilders(collection)) {
+      if (builder === 'tmdb_collection') {
+        items.push(...(await this.previewTmdbCollection(collection.tmdb_collection)));
+      } else if (builder === 'plex_search' && searchAttribute(collection, 'title').length > 0) {
+        items.push(...(await this.previewPlexSearch(collection, mediaType)));
+      } else {
+        skipped.push(builder);
+      }
+    }
+
+    return { items, skipped };
+  }
+
+  private async previewTmdbCollection(
+    value: Collection['tmdb_collection']
+  ): Promise<CollectionPreviewItem[]> {
+    const items: CollectionPreviewItem[] = [];
+    for (const id of tmdbCollectionIds(value)) {
+      const { parts } = await this.tmdb.getCollection(id);
+      for (const movie of parts) {
+        const year = movie.release_date ? parseInt(movie.release_date.slice(0, 4)) : undefined;
+        const match = await this.plex.searchMovie(movie.title, year);
+        items.push({
+          title: movie.title,
+          year,
+          posterUrl: this.tmdb.getPosterUrl(movie.poster_path, 'w185'),
+          inLibrary: match !== null,
+        });
+      }
+    }
+    return items;
+  }
+
+  private async previewPlexSearch(
+    collection: Collection,
+    mediaType: 'movie' | 'show'
+  ): Promise<CollectionPreviewItem[]> {
+    const [minYear] = searchAttribute(collection, 'year.gte').map(Number);
+    const [maxYear] = searchAttribute(collection, 'year.lte').map(Number);
+    const years = searchAttribute(collection, 'year').map(Number);
+
+    const items: CollectionPreviewItem[] = [];
+    for (const title of searchAttribute(collection, 'title')) {
+      const results = await this.plex.search(String(title), mediaType);
+      for (const result of results) {
+        const year = result.year;
+        if (years.length > 0 && (!year || !years.includes(year))) continue;
+        if (minYear && (!year || year < minYear)) continue;
+        if (maxYear && (!year || year > maxYear)) continue;
+        items.push({ title: result.title, year, inLibrary: true });
+      }
+    }
+
+    const limit = collection.plex_search?.limit;
+    return limit ? items.slice(0, limit) : items;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import type { ConfigComparison } from '../api/client';
+import { formatSide, initialSelection, isConflict, pathKey } from './compare.service';
+
+describe('Compare Service', () => {
+  const comparison: ConfigComparison = {
+    changes: [
+      { kind: 'changed', path: ['settings', 'cache'], before: true, after: false },
+      {
+        kind: 'reordered',
+        path: ['playlist_files'],
+        before: ['default:playlist', 'file:config/Playlists.yml'],
+        after: ['file:config/Playlists.yml', 'default:playlist'],
+      },
+      { kind: 'added', path: ['tmdb'], after: { language: 'en' } },
+    ],
+  };
+
+  it('should pick every change unless a merge decided otherwise', () => {
+    expect(initialSelection(comparison).size).toBe(3);
+
+    const merged: ConfigComparison = {
+      ...comparison,
+      merge: {
+        taken: [['tmdb']],
+        conflicts: [{ path: ['settings', 'cache'], base: 'x', ours: true, theirs: false }],
+        markers: '',
+      },
+    };
+    expect([...initialSelection(merged)]).toEqual([pathKey(['tmdb'])]);
+    expect(isConflict(merged, comparison.changes[0])).toBe(true);
+    expect(isConflict(merged, comparison.changes[2])).toBe(false);
+    expect(isConflict(comparison, comparison.changes[0])).toBe(false);
+  });
+
+  it('should format both sides of a change', () => {
+    const [changed, reordered, added] = comparison.changes;
+
+    expect(formatSide(changed, 'before')).toBe('true');
+    expect(formatSide(reordered, 'after')).toBe('file:config/Playlists.yml\ndefault:playlist');
+    expect(formatSide(added, 'before')).toBe('');
+    expect(formatSide(added, 'after')).toBe('{\n  "language": "en"\n}');
+  });
+});
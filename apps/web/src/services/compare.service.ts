@@ -0,0 +1,48 @@
+/**
+ * Compare Service
+ *
+ * Helpers for picking the changes of a YAML comparison hunk by hunk. The
+ * server computes the changes and applies the picked ones; these helpers only
+ * track the selection and format the two sides of each change.
+ */
+
+import type { SemanticChange } from '@kometa-studio/shared';
+import type { ConfigComparison } from '../api/client';
+
+type Side = 'before' | 'after';
+
+/**
+ * Key of a change path, for selection sets and React keys
+ */
+export function pathKey(path: string[]): string {
+  return JSON.stringify(path);
+}
+
+/**
+ * Changes picked before the user reviews them: the ones a three-way merge
+ * takes, or every change when the YAML is compared without a base revision
+ */
+export function initialSelection(comparison: ConfigComparison): Set<string> {
+  const paths = comparison.merge?.taken ?? comparison.changes.map((change) => change.path);
+  return new Set(paths.map(pathKey));
+}
+
+/**
+ * Whether both sides changed the value of a change since the base revision
+ */
+export function isConflict(comparison: ConfigComparison, change: SemanticChange): boolean {
+  const key = pathKey(change.path);
+  return comparison.merge?.conflicts.some((conflict) => pathKey(conflict.path) === key) ?? false;
+}
+
+/**
+ * Formats one side of a change: plain strings as they are, reordered lists as
+ * their entries one per line and other values as indented JSON
+ */
+export function formatSide(change: SemanticChange, side: Side): string {
+  const value = change[side];
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (change.kind === 'reordered') return (value as string[]).join('\n');
+  return JSON.stringify(value, null, 2);
+}
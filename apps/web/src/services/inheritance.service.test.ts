@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import type { KometaConfig } from '@kometa-studio/shared';
+import { inheritanceRows, resetToParent } from './inheritance.service';
+
+describe('Inheritance Service', () => {
+  const parent: KometaConfig = {
+    settings: { cache: true, sync_mode: 'append' },
+    libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+  };
+  const config: KometaConfig = {
+    settings: { cache: false, sync_mode: 'append' },
+    libraries: {
+      Movies: { collection_files: [{ default: 'imdb' }] },
+      TV: { collection_files: [{ default: 'network' }] },
+    },
+  };
+  const overrides: KometaConfig = {
+    settings: { cache: false },
+    libraries: { TV: { collection_files: [{ default: 'network' }] } },
+  };
+
+  it('should tell inherited, overridden and added values apart', () => {
+    expect(inheritanceRows(config, overrides, parent)).toEqual([
+      { path: ['settings'], status: 'overridden' },
+      { path: ['settings', 'cache'], status: 'overridden' },
+      { path: ['settings', 'sync_mode'], status: 'inherited' },
+      { path: ['libraries'], status: 'overridden' },
+      { path: ['libraries', 'Movies'], status: 'inherited' },
+      { path: ['libraries', 'TV'], status: 'added' },
+    ]);
+  });
+
+  it('should put back the parent value or drop values the parent does not have', () => {
+    expect(resetToParent(config, parent, ['settings', 'cache']).settings).toEqual({
+      cache: true,
+      sync_mode: 'append',
+    });
+    expect(Object.keys(resetToParent(config, parent, ['libraries', 'TV']).libraries!)).toEqual([
+      'Movies',
+    ]);
+    expect(
+      resetToParent({ ...config, tmdb: { enabled: true, language: 'en' } }, parent, ['tmdb'])
+    ).toEqual(config);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Inheritance Service
+ *
+ * Tells which values of a config that inherits from a parent are its own and
+ * which come from the parent. The server resolves configs, so these helpers
+ * only compare the resolved config with the overrides it stores.
+ */
+
+import type { KometaConfig } from '@kometa-studio/shared';
+
+export type InheritanceStatus = 'inherited' | 'overridden' | 'added';
+
+export interface InheritanceRow {
+  /** Section, or section and key within it */
+  path: [string] | [string, string];
+  status: InheritanceStatus;
+}
+
+type Values = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Values {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function valueAt(config: KometaConfig | undefined, path: string[]): unknown {
+  let value: unknown = config;
+  for (const key of path) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+function statusOf(
+  path: string[],
+  overrides: KometaConfig,
+  parent: KometaConfig | undefined
+): InheritanceStatus {
+  if (valueAt(overrides, path) === undefined) return 'inherited';
+  return valueAt(parent, path) === undefined ? 'added' : 'overridden';
+}
+
+/**
+ * Lists the sections of a resolved config, and the keys of sections that are
+ * objects, with where their value comes from
+ */
+export function inheritanceRows(
+  config: KometaConfig,
+  overrides: KometaConfig,
+  parent?: KometaConfig
+): InheritanceRow[] {
+  const rows: InheritanceRow[] = [];
+  for (const [section, value] of Object.entries(config)) {
+    rows.push({ path: [section], status: statusOf([section], overrides, parent) });
+    if (!isPlainObject(value)) continue;
+    for (const key of Object.keys(value)) {
+      rows.push({ path: [section, key], status: statusOf([section, key], overrides, parent) });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Puts the parent's value back at a path, or removes the path when the parent
+ * has no value there, so the config stops overriding it
+ */
+export function resetToParent(
+  config: KometaConfig,
+  parent: KometaConfig,
+  path: InheritanceRow['path']
+): KometaConfig {
+  const [section, key] = path;
+  const next: Values = { ...config };
+
+  if (key === undefined) {
+    next[section] = (parent as Values)[section];
+  } else {
+    const values: Values = { ...(next[section] as Values) };
+    values[key] = valueAt(parent, path);
+    if (values[key] === undefined) delete values[key];
+    next[section] = values;
+  }
+  if (next[section] === undefined) delete next[section];
+  return next as KometaConfig;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { KometaConfig } from '@kometa-studio/shared';
+import { guidId, localMetadataFiles, readMetadataFile, saveMetadataFile } from './metadata.service';
+
+describe('Metadata Service', () => {
+  const config: KometaConfig = {
+    libraries: {
+      Movies: {
+        metadata_files: [{ default: 'imdb' }, { file: 'config/metadata/Movies.yml' }],
+      },
+      'TV Shows': {},
+    },
+    local_files: {
+      'config/metadata/Movies.yml': {
+        templates: { Poster: { url_poster: '<<poster>>' } },
+        metadata: { '603': { title: 'The Matrix' } },
+      },
+    },
+  };
+
+  it('should list only local metadata files', () => {
+    expect(localMetadataFiles(config, 'Movies')).toEqual(['config/metadata/Movies.yml']);
+    expect(localMetadataFiles(config, 'TV Shows')).toEqual([]);
+  });
+
+  it('should replace the items of an existing file and keep its other content', () => {
+    const updated = saveMetadataFile(config, {
+      library: 'Movies',
+      path: 'config/metadata/Movies.yml',
+      metadata: { '603': { title: 'The Matrix', edition: "Director's Cut" } },
+    });
+
+    expect(readMetadataFile(updated, 'config/metadata/Movies.yml')).toEqual({
+      '603': { title: 'The Matrix', edition: "Director's Cut" },
+    });
+    expect(updated.local_files?.['config/metadata/Movies.yml'].templates).toBeDefined();
+    expect(updated.libraries?.Movies.metadata_files).toHaveLength(2);
+  });
+
+  it('should create and attach a new file', () => {
+    const updated = saveMetadataFile(config, {
+      library: 'TV Shows',
+      path: 'config/metadata/TV Shows.yml',
+      metadata: { '81189': { seasons: { '1': { title: 'Season One' } } } },
+    });
+
+    expect(updated.libraries?.['TV Shows'].metadata_files).toEqual([
+      { file: 'config/metadata/TV Shows.yml' },
+    ]);
+    expect(() =>
+      saveMetadataFile(config, { library: 'Anime', path: 'config/Anime.yml', metadata: {} })
+    ).toThrow('Library "Anime" is not in the config');
+  });
+
+  it('should read IDs from Plex GUIDs', () => {
+    const guids = ['imdb://tt0133093', 'tmdb://603', 'tvdb://169'];
+    expect(guidId(guids, 'tmdb')).toBe(603);
+    expect(guidId(guids, 'tvdb')).toBe(169);
+    expect(guidId(['imdb://tt0133093'], 'tmdb')).toBeUndefined();
+    expect(guidId(undefined, 'tvdb')).toBeUndefined();
+  });
+});
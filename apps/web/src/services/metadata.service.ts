@@ -0,0 +1,173 @@
+/**
+ * Metadata Service
+ *
+ * Saves metadata overrides as local metadata files and looks up the TMDb and
+ * TVDb IDs Kometa keys them by, through the TMDB and Plex proxies.
+ */
+
+import type { KometaConfig, MetadataFile } from '@kometa-studio/shared';
+import { proxyApi, type PlexLibraryTarget } from '../api/client';
+import { PlexService } from './plex.service';
+import { TmdbService } from './tmdb.service';
+
+export type MetadataItems = MetadataFile['metadata'];
+
+export interface MetadataSearchResult {
+  /** TMDb ID for movies, TVDb ID for shows; missing when the source does not know it */
+  id?: number;
+  title: string;
+  year?: number;
+  posterUrl?: string | null;
+}
+
+export interface SaveMetadataOptions {
+  library: string;
+  /** Path of the local metadata file, as referenced by its `file:` entry */
+  path: string;
+  metadata: MetadataItems;
+}
+
+/**
+ * Lists the local metadata files a library references
+ */
+export function localMetadataFiles(config: KometaConfig, library: string): string[] {
+  return (config.libraries?.[library]?.metadata_files ?? [])
+    .filter((entry) => 'file' in entry && config.local_files?.[entry.file])
+    .map((entry) => ('file' in entry ? entry.file : ''));
+}
+
+/**
+ * Returns the items of a local metadata file
+ */
+export function readMetadataFile(config: KometaConfig, path: string): MetadataItems {
+  const content = config.local_files?.[path] as Partial<MetadataFile> | undefined;
+  return content?.metadata ?? {};
+}
+
+/**
+ * Writes the items of a local metadata file, creating the file and attaching
+ * it to the library's metadata_files when needed
+ */
+export function saveMetadataFile(config: KometaConfig, options: SaveMetadataOptions): KometaConfig {
+  const { library, path, metadata } = options;
+  const existing = config.libraries?.[library];
+  if (!existing) {
+    throw new Error(`Library "${library}" is not in the config`);
+  }
+
+  const files = existing.metadata_files ?? [];
+  const attached = files.some((entry) => 'file' in entry && entry.file === path);
+
+  return {
+    ...config,
+    libraries: {
+      ...config.libraries,
+      [library]: {
+        ...existing,
+        metadata_files: attached ? files : [...files, { file: path }],
+      },
+    },
+    local_files: {
+      ...config.local_files,
+      [path]: { ...config.local_files?.[path], metadata },
+    },
+  };
+}
+
+/**
+ * Reads an ID from Plex GUIDs such as `tmdb://603`
+ */
+export function guidId(guids: string[] | undefined, source: 'tmdb' | 'tvdb'): number | undefined {
+  const guid = guids?.find((id) => id.startsWith(`${source}://`));
+  const id = guid ? Number(guid.slice(source.length + 3)) : NaN;
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// TMDB shows need a details request each to learn their TVDb ID
+const MAX_SHOW_RESULTS = 8;
+
+export class MetadataService {
+  private profileId: string;
+  private tmdb: TmdbService;
+  private plex: PlexService;
+
+  /**
+   * @param target Library being edited, so its own Plex server is searched
+   */
+  constructor(profileId: string, target?: PlexLibraryTarget) {
+    this.profileId = profileId;
+    this.tmdb = new TmdbService(profileId);
+    this.plex = new PlexService(profileId, target);
+  }
+
+  /**
+   * Searches TMDB or Plex for a title and returns the IDs metadata is keyed by
+   */
+  async search(
+    query: string,
+    mediaType: 'movie' | 'show',
+    source: 'tmdb' | 'plex'
+  ): Promise<MetadataSearchResult[]> {
+    if (source === 'plex') {
+      const results = await this.plex.search(query, mediaType);
+      return results.map((result) => ({
+        id: guidId(result.guids, mediaType === 'movie' ? 'tmdb' : 'tvdb'),
+        title: result.title,
+        year: result.year,
+      }));
+    }
+
+    if (mediaType === 'movie') {
+      const movies = await this.tmdb.searchMovie(query);
+      return movies.map((movie) => ({
+        id: movie.id,
+        title: movie.title,
+        year: movie.release_date ? parseInt(movie.release_date.slice(0, 4)) : undefined,
+        posterUrl: this.tmdb.getPosterUrl(movie.poster_path, 'w92'),
+      }));
+    }
+
+    const shows = (await this.tmdb.searchTV(query)).slice(0, MAX_SHOW_RESULTS);
+    return Promise.all(
+      shows.map(async (show) => {
+        const details = await proxyApi.tmdb.get(this.profileId, 'tv', show.id);
+        const tvdbId = 'external_ids' in details ? details.external_ids?.tvdb_id : undefined;
+        return {
+          id: tvdbId ?? undefined,
+          title: show.name,
+          year: show.first_air_date ? parseInt(show.first_air_date.slice(0, 4)) : undefined,
+          posterUrl: this.tmdb.getPosterUrl(show.poster_path, 'w92'),
+        };
+      })
+    );
+  }
+
+  /**
+   * Resolves metadata keys against TMDB: movies by TMDb ID, shows by TVDb ID.
+   * Returns the title each key resolves to, or null when it does not resolve.
+   */
+  async resolveIds(
+    keys: string[],
+    mediaType: 'movie' | 'show'
+  ): Promise<Record<string, string | null>> {
+    const resolved: Record<string, string | null> = {};
+    for (const key of keys) {
+      if (!/^\d+$/.test(key)) {
+        resolved[key] = null;
+        continue;
+      }
+      try {
+        if (mediaType === 'movie') {
+          const movie = await this.tmdb.getMovie(Number(key));
+          resolved[key] = movie.title || null;
+        } else {
+          const { tv_results } = await proxyApi.tmdb.find(this.profileId, key, 'tvdb_id');
+          resolved[key] = tv_results[0]?.name ?? null;
+        }
+      } catch {
+        resolved[key] = null;
+      }
+    }
+    return resolved;
+  }
+}
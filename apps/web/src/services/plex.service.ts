@@ -3,7 +3,7 @@
  * Uses backend proxy to keep API tokens secure
  */
 
-import { proxyApi, PlexMetadata, PlexStream } from '../api/client';
+import { proxyApi, PlexLibraryTarget, PlexMetadata, PlexStream } from '../api/client';
 
 export interface PlexMediaInfo {
   title: string;
@@ -27,13 +27,19 @@ export interface PlexMediaInfo {
     bitrate?: number;
   };
   key?: string; // Plex key for further API calls
+  guids?: string[]; // e.g., "tmdb://603", "tvdb://81189"
 }
 
 export class PlexService {
   private profileId: string;
+  private target?: PlexLibraryTarget;
 
-  constructor(profileId: string) {
+  /**
+   * @param target Library being previewed; its own Plex server is used when it has one
+   */
+  constructor(profileId: string, target?: PlexLibraryTarget) {
     this.profileId = profileId;
+    this.target = target;
   }
 
   /**
@@ -41,7 +47,7 @@ export class PlexService {
    */
   async searchMovie(title: string, year?: number): Promise<PlexMediaInfo | null> {
     try {
-      const data = await proxyApi.plex.search(this.profileId, title, 'movie');
+      const data = await proxyApi.plex.search(this.profileId, title, 'movie', this.target);
       const results = data.MediaContainer?.Metadata || [];
 
       // Find best match
@@ -66,7 +72,7 @@ export class PlexService {
    */
   async searchTVShow(title: string): Promise<PlexMediaInfo | null> {
     try {
-      const data = await proxyApi.plex.search(this.profileId, title, 'show');
+      const data = await proxyApi.plex.search(this.profileId, title, 'show', this.target);
       const results = data.MediaContainer?.Metadata || [];
 
       if (results.length === 0) {
@@ -80,6 +86,19 @@ export class PlexService {
     }
   }
 
+  /**
+   * Search the Plex library, returning every match
+   */
+  async search(query: string, type: 'movie' | 'show'): Promise<PlexMediaInfo[]> {
+    try {
+      const data = await proxyApi.plex.search(this.profileId, query, type, this.target);
+      return (data.MediaContainer?.Metadata || []).map((item) => this.extractMediaInfo(item));
+    } catch (error) {
+      console.error('Failed to search Plex:', error);
+      return [];
+    }
+  }
+
   /**
    * Get episode information
    */
@@ -90,7 +109,7 @@ export class PlexService {
   ): Promise<PlexMediaInfo | null> {
     try {
       // Get the seasons for this show
-      const seasonData = await proxyApi.plex.getSeasons(this.profileId, showKey);
+      const seasonData = await proxyApi.plex.getSeasons(this.profileId, showKey, this.target);
       const seasons = seasonData.MediaContainer?.Metadata || [];
       const season = seasons.find((s) => s.index === seasonNumber);
 
@@ -99,7 +118,7 @@ export class PlexService {
       }
 
       // Get episodes in that season
-      const episodeData = await proxyApi.plex.getEpisodes(this.profileId, season.key);
+      const episodeData = await proxyApi.plex.getEpisodes(this.profileId, season.key, this.target);
       const episodes = episodeData.MediaContainer?.Metadata || [];
       const episode = episodes.find((e) => e.index === episodeNumber);
 
@@ -126,6 +145,7 @@ export class PlexService {
       criticRating: metadata.rating, // Plex uses 'rating' for critic score
       duration: metadata.duration,
       key: metadata.key,
+      guids: metadata.Guid?.map((guid) => guid.id),
     };
 
     // Extract ratings from Plex's Rating array
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendar } from './schedule.service';
+
+describe('Schedule Service', () => {
+  it('should lay out every month from the first to the last run', () => {
+    const months = buildCalendar(['2026-12-31', '2027-02-01']);
+
+    expect(months.map(({ year, month }) => `${year}-${month}`)).toEqual([
+      '2026-12',
+      '2027-1',
+      '2027-2',
+    ]);
+  });
+
+  it('should start weeks on Sunday and mark run days', () => {
+    // February 2026 starts on a Sunday, January 2026 on a Thursday
+    const [january, february] = buildCalendar(['2026-01-30', '2026-02-01']);
+
+    expect(january.weeks[0].slice(0, 5)).toEqual([
+      null,
+      null,
+      null,
+      null,
+      { day: 1, date: '2026-01-01', runs: false },
+    ]);
+    expect(january.weeks[4][5]).toEqual({ day: 30, date: '2026-01-30', runs: true });
+    expect(february.weeks[0][0]).toEqual({ day: 1, date: '2026-02-01', runs: true });
+    expect(february.weeks).toHaveLength(4);
+  });
+
+  it('should return no months without runs', () => {
+    expect(buildCalendar([])).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Schedule Service
+ *
+ * Lays out the run days of a schedule preview as month calendars.
+ */
+
+export interface CalendarDay {
+  day: number;
+  /** YYYY-MM-DD */
+  date: string;
+  runs: boolean;
+}
+
+export interface CalendarMonth {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** Weeks starting on Sunday; days outside the month are null */
+  weeks: Array<Array<CalendarDay | null>>;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Today as YYYY-MM-DD in local time
+ */
+export function today(): string {
+  const now = new Date();
+  return formatDate(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+/**
+ * Builds a calendar for every month from the first to the last run day
+ */
+export function buildCalendar(runs: string[]): CalendarMonth[] {
+  if (runs.length === 0) return [];
+  const runDays = new Set(runs);
+  const [firstYear, firstMonth] = runs[0].split('-').map(Number);
+  const [lastYear, lastMonth] = runs[runs.length - 1].split('-').map(Number);
+
+  const months: CalendarMonth[] = [];
+  let year = firstYear;
+  let month = firstMonth;
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    const length = new Date(year, month, 0).getDate();
+    const cells: Array<CalendarDay | null> = Array(new Date(year, month - 1, 1).getDay()).fill(
+      null
+    );
+    for (let day = 1; day <= length; day++) {
+      const date = formatDate(year, month, day);
+      cells.push({ day, date, runs: runDays.has(date) });
+    }
+    while (cells.length % 7 !== 0) cells.push(null);
+
+    const weeks: Array<Array<CalendarDay | null>> = [];
+    for (let index = 0; index < cells.length; index += 7) {
+      weeks.push(cells.slice(index, index + 7));
+    }
+    months.push({ year, month, weeks });
+
+    month += 1;
+    if (month > 12) {
+      year += 1;
+      month = 1;
+    }
+  }
+  return months;
+}
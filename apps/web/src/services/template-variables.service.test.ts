@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { KometaDefaultInfo } from '@kometa-studio/shared';
+import {
+  effectiveVariables,
+  formatTextValue,
+  isKnownVariable,
+  parseTextValue,
+} from './template-variables.service';
+
+describe('Template Variables Service', () => {
+  const ratings: KometaDefaultInfo = {
+    name: 'ratings',
+    kind: 'overlay',
+    variables: [
+      { name: 'horizontal_offset', type: 'offset' },
+      { name: 'back_color', type: 'color' },
+    ],
+    prefixes: ['text_', 'rating1'],
+  };
+
+  it('should accept listed variables and prefixed names', () => {
+    expect(isKnownVariable(ratings, 'back_color')).toBe(true);
+    expect(isKnownVariable(ratings, 'rating1_image')).toBe(true);
+    expect(isKnownVariable(ratings, 'starting')).toBe(false);
+  });
+
+  it('should merge library and entry variables with entry values winning', () => {
+    const variables = effectiveVariables(
+      { horizontal_offset: 15, use_separator: false },
+      { horizontal_offset: 30, back_color: '#00000099' },
+      ratings
+    );
+
+    expect(variables).toEqual([
+      {
+        name: 'horizontal_offset',
+        value: 30,
+        source: 'entry',
+        overridesLibrary: true,
+        known: true,
+        info: { name: 'horizontal_offset', type: 'offset' },
+      },
+      {
+        name: 'use_separator',
+        value: false,
+        source: 'library',
+        overridesLibrary: false,
+        known: false,
+        info: undefined,
+      },
+      {
+        name: 'back_color',
+        value: '#00000099',
+        source: 'entry',
+        overridesLibrary: false,
+        known: true,
+        info: { name: 'back_color', type: 'color' },
+      },
+    ]);
+  });
+
+  it('should leave variables of uncatalogued entries unchecked', () => {
+    expect(effectiveVariables(undefined, { key: 'value' })[0].known).toBeUndefined();
+  });
+
+  it('should keep numbers and structured values of text variables', () => {
+    expect(parseTextValue('1980')).toBe(1980);
+    expect(parseTextValue('{"a": 1}')).toEqual({ a: 1 });
+    expect(parseTextValue('{broken')).toBe('{broken');
+    expect(parseTextValue('current_year-10')).toBe('current_year-10');
+    expect(formatTextValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatTextValue(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Template Variables Service
+ *
+ * Works out the template variables a file entry ends up with once the
+ * library's variables and the entry's own are merged, and checks them against
+ * the catalogue of the entry's default.
+ */
+
+import type {
+  KometaDefaultInfo,
+  TemplateVariableInfo,
+  TemplateVariables,
+} from '@kometa-studio/shared';
+
+export interface EffectiveVariable {
+  name: string;
+  value: unknown;
+  /** Where the value comes from; entry values win over library values */
+  source: 'library' | 'entry';
+  /** Whether the entry sets a variable the library sets as well */
+  overridesLibrary: boolean;
+  /** Whether the default accepts the variable; undefined when the default is not catalogued */
+  known?: boolean;
+  info?: TemplateVariableInfo;
+}
+
+/**
+ * Whether a catalogued default accepts a template variable
+ */
+export function isKnownVariable(info: KometaDefaultInfo, name: string): boolean {
+  return (
+    info.variables.some((variable) => variable.name === name) ||
+    info.prefixes.some((prefix) => name.startsWith(prefix))
+  );
+}
+
+/**
+ * Merges library and entry variables, library variables first
+ */
+export function effectiveVariables(
+  libraryVariables: TemplateVariables | undefined,
+  entryVariables: TemplateVariables | undefined,
+  info?: KometaDefaultInfo
+): EffectiveVariable[] {
+  const library = libraryVariables ?? {};
+  const entry = entryVariables ?? {};
+
+  return [...new Set([...Object.keys(library), ...Object.keys(entry)])].map((name) => {
+    const fromEntry = name in entry;
+    return {
+      name,
+      value: fromEntry ? entry[name] : library[name],
+      source: fromEntry ? 'entry' : 'library',
+      overridesLibrary: fromEntry && name in library,
+      known: info ? isKnownVariable(info, name) : undefined,
+      info: info?.variables.find((variable) => variable.name === name),
+    };
+  });
+}
+
+/**
+ * Reads a variable typed as text: numbers stay numbers, and JSON objects and
+ * lists are parsed so they keep their structure
+ */
+export function parseTextValue(text: string): unknown {
+  const trimmed = text.trim();
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * Shows a variable in a text input
+ */
+export function formatTextValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -122,6 +122,23 @@ export class TmdbService {
     } as TmdbTVShow;
   }
 
+  /**
+   * Get the movies of a TMDB collection by its ID
+   */
+  async getCollection(collectionId: number): Promise<{ name: string; parts: TmdbMovie[] }> {
+    const data = await proxyApi.tmdb.getCollection(this.profileId, collectionId);
+    return {
+      name: data.name,
+      parts: (data.parts || [])
+        .filter((part) => part.title)
+        .map((part) => ({
+          ...part,
+          title: part.title as string,
+          release_date: part.release_date || '',
+        })),
+    };
+  }
+
   /**
    * Get season details for a TV show
    */
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyChanges,
+  diffKometaConfigs,
+  formatConflictMarkers,
+  mergeKometaConfigs,
+  ConfigMergeError,
+} from './semantic.js';
+import type { KometaConfig } from '../schemas/config.schema.js';
+
+describe('semantic config diff', () => {
+  const before: KometaConfig = {
+    settings: { cache: true },
+    libraries: {
+      Movies: {
+        collection_files: [
+          { default: 'imdb' },
+          { default: 'studio', template_variables: { sort_by: 'title.asc' } },
+        ],
+      },
+    },
+  };
+  const after: KometaConfig = {
+    settings: { cache: false },
+    libraries: {
+      Movies: {
+        collection_files: [
+          { file: 'config/Movies.yml' },
+          { default: 'imdb' },
+          { default: 'studio', template_variables: { sort_by: 'release.desc' } },
+        ],
+      },
+      'TV Shows': { collection_files: [{ default: 'network' }] },
+    },
+  };
+
+  it('should compare file entries by their source instead of their index', () => {
+    expect(diffKometaConfigs(before, after)).toEqual([
+      { kind: 'changed', path: ['settings', 'cache'], before: true, after: false },
+      {
+        kind: 'changed',
+        path: [
+          'libraries',
+          'Movies',
+          'collection_files',
+          'default:studio',
+          'template_variables',
+          'sort_by',
+        ],
+        before: 'title.asc',
+        after: 'release.desc',
+      },
+      {
+        kind: 'added',
+        path: ['libraries', 'Movies', 'collection_files', 'file:config/Movies.yml'],
+        after: { file: 'config/Movies.yml' },
+      },
+      {
+        kind: 'added',
+        path: ['libraries', 'TV Shows'],
+        after: { collection_files: [{ default: 'network' }] },
+      },
+    ]);
+  });
+
+  it('should report reordered file lists and number repeated sources', () => {
+    const config: KometaConfig = {
+      playlist_files: [{ default: 'playlist' }, { default: 'studio' }, { default: 'studio' }],
+    };
+    const reordered: KometaConfig = {
+      playlist_files: [{ default: 'studio' }, { default: 'playlist' }, { default: 'studio' }],
+    };
+
+    expect(diffKometaConfigs(config, reordered)).toEqual([
+      {
+        kind: 'reordered',
+        path: ['playlist_files'],
+        before: ['default:playlist', 'default:studio', 'default:studio#2'],
+        after: ['default:studio', 'default:playlist', 'default:studio#2'],
+      },
+    ]);
+  });
+
+  it('should apply only the picked changes', () => {
+    const applied = applyChanges(before, after, [
+      ['libraries', 'Movies', 'collection_files', 'file:config/Movies.yml'],
+      ['libraries', 'TV Shows'],
+    ]);
+
+    expect(applied.settings).toEqual({ cache: true });
+    expect(applied.libraries?.Movies.collection_files).toEqual([
+      { file: 'config/Movies.yml' },
+      { default: 'imdb' },
+      { default: 'studio', template_variables: { sort_by: 'title.asc' } },
+    ]);
+    expect(Object.keys(applied.libraries ?? {})).toEqual(['Movies', 'TV Shows']);
+    expect(
+      applyChanges(
+        before,
+        after,
+        diffKometaConfigs(before, after).map((c) => c.path)
+      )
+    ).toEqual(after);
+    expect(() => applyChanges(before, after, [['settings', 'run_order']])).toThrow(
+      ConfigMergeError
+    );
+  });
+
+  it('should merge changes from both sides and report conflicts', () => {
+    const ours: KometaConfig = {
+      settings: { cache: true, run_order: ['operations'] },
+      libraries: {
+        Movies: {
+          collection_files: [
+            { default: 'imdb' },
+            { default: 'studio', template_variables: { sort_by: 'critic_rating.desc' } },
+          ],
+        },
+      },
+    };
+
+    const { config, conflicts } = mergeKometaConfigs(before, ours, after);
+
+    expect(config.settings).toEqual({ cache: false, run_order: ['operations'] });
+    expect(config.libraries?.Movies.collection_files).toEqual([
+      { file: 'config/Movies.yml' },
+      { default: 'imdb' },
+      { default: 'studio', template_variables: { sort_by: 'critic_rating.desc' } },
+    ]);
+    expect(config.libraries?.['TV Shows']).toEqual(after.libraries?.['TV Shows']);
+    expect(conflicts).toEqual([
+      {
+        path: [
+          'libraries',
+          'Movies',
+          'collection_files',
+          'default:studio',
+          'template_variables',
+          'sort_by',
+        ],
+        base: 'title.asc',
+        ours: 'critic_rating.desc',
+        theirs: 'release.desc',
+      },
+    ]);
+    expect(formatConflictMarkers(conflicts)).toBe(
+      [
+        '<<<<<<< ours',
+        'libraries.Movies.collection_files.default:studio.template_variables.sort_by: "critic_rating.desc"',
+        '||||||| base',
+        'libraries.Movies.collection_files.default:studio.template_variables.sort_by: "title.asc"',
+        '=======',
+        'libraries.Movies.collection_files.default:studio.template_variables.sort_by: "release.desc"',
+        '>>>>>>> theirs',
+      ].join('\n')
+    );
+  });
+});
@@ -1,11 +1,91 @@
 // Schemas
 export * from './schemas/config.schema.js';
 export * from './schemas/profile.schema.js';
+export * from './schemas/operations.schema.js';
+export * from './schemas/collection.schema.js';
+export * from './schemas/metadata.schema.js';
 export * from './schemas/validation.schema.js';
 
 // YAML Processing
-export { parseKometaYaml, extractSecretsFromYaml } from './yaml/parser.js';
+export {
+  parseKometaYaml,
+  parseKometaDocument,
+  extractSecretsFromYaml,
+  YamlImportError,
+} from './yaml/parser.js';
+export { createPathLocator, annotateIssues } from './yaml/positions.js';
+export { toSourceYaml, SECRET_PATHS, isCustomWebhook } from './yaml/document.js';
 export { generateYaml, type YamlMode, type ProfileRecord } from './yaml/generator.js';
 
+// Config templating
+export {
+  mergeConfigs,
+  overridePatch,
+  removedPaths,
+  resolveConfigChain,
+  resolveInheritanceChain,
+  ConfigInheritanceError,
+  type InheritableConfig,
+} from './inheritance/inheritance.js';
+
+// Config diff and merge
+export {
+  diffKometaConfigs,
+  applyChanges,
+  mergeKometaConfigs,
+  formatConflictMarkers,
+  ConfigMergeError,
+  type SemanticChange,
+  type SemanticChangeKind,
+  type MergeConflict,
+  type MergeResult,
+} from './diff/semantic.js';
+
+// Secret references
+export {
+  SECRET_REFERENCE_PATTERN,
+  secretReference,
+  hasSecretReference,
+  listSecretReferences,
+  lookupSecret,
+  secretEnvName,
+  replaceSecretReferences,
+  type SecretReference,
+} from './secrets/references.js';
+export {
+  ENV_PLACEHOLDER_PATTERN,
+  envPlaceholder,
+  placeholderSecrets,
+  listEnvPlaceholders,
+  generateEnvironmentFiles,
+  type SecretEnvironment,
+  type EnvironmentFiles,
+} from './secrets/environment.js';
+
 // Validation
-export { validateConfig, maskSecret } from './validation/validator.js';
+export { validateConfig, maskSecret, type ValidateOptions } from './validation/validator.js';
+export {
+  KOMETA_DEFAULTS,
+  acceptsTemplateVariable,
+  listDefaults,
+  type DefaultKind,
+  type KometaDefault,
+} from './validation/defaults.js';
+export {
+  parseSchedule,
+  nextScheduledDays,
+  ScheduleError,
+  WEEKDAYS,
+  type ScheduleOption,
+  type MonthDay,
+} from './validation/schedule.js';
+export {
+  registerRule,
+  getRule,
+  listRules,
+  runRules,
+  applyRuleFix,
+  type LintRule,
+  type RuleContext,
+  type RuleFinding,
+} from './validation/rules.js';
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeConfigs,
+  overridePatch,
+  removedPaths,
+  resolveConfigChain,
+  resolveInheritanceChain,
+  type InheritableConfig,
+} from './inheritance.js';
+import type { KometaConfig } from '../schemas/config.schema.js';
+
+const base: KometaConfig = {
+  settings: { cache: true, cache_expiration: 60, asset_directory: ['config/assets'] },
+  libraries: {
+    Movies: { collection_files: [{ default: 'imdb' }], schedule: 'daily' },
+    'TV Shows': { overlay_files: [{ default: 'ribbon' }] },
+  },
+};
+
+describe('mergeConfigs', () => {
+  it('should merge objects by key and replace lists and values', () => {
+    const merged = mergeConfigs(base, {
+      settings: { cache_expiration: 30, asset_directory: ['config/assets-4k'] },
+      libraries: { Movies: { schedule: 'weekly(sunday)' }, Anime: {} },
+    });
+
+    expect(merged).toEqual({
+      settings: { cache: true, cache_expiration: 30, asset_directory: ['config/assets-4k'] },
+      libraries: {
+        Movies: { collection_files: [{ default: 'imdb' }], schedule: 'weekly(sunday)' },
+        'TV Shows': { overlay_files: [{ default: 'ribbon' }] },
+        Anime: {},
+      },
+    });
+    expect(base.libraries?.Movies.schedule).toBe('daily');
+  });
+});
+
+describe('overridePatch', () => {
+  it('should keep only the values that differ from the base', () => {
+    const config = mergeConfigs(base, {
+      settings: { cache_expiration: 30 },
+      libraries: { Anime: {} },
+    });
+
+    expect(overridePatch(base, config)).toEqual({
+      settings: { cache_expiration: 30 },
+      libraries: { Anime: {} },
+    });
+    expect(overridePatch(base, base)).toEqual({});
+  });
+
+  it('should replace a whole list when one of its entries changes', () => {
+    const config = mergeConfigs(base, {
+      libraries: { Movies: { collection_files: [{ default: 'imdb' }, { default: 'tmdb' }] } },
+    });
+
+    expect(overridePatch(base, config)).toEqual({
+      libraries: { Movies: { collection_files: [{ default: 'imdb' }, { default: 'tmdb' }] } },
+    });
+  });
+});
+
+describe('removedPaths', () => {
+  it('should list the outermost keys a config leaves out', () => {
+    const { settings } = base;
+    const config: KometaConfig = {
+      settings: { ...settings, cache_expiration: undefined },
+      libraries: {},
+    };
+
+    expect(removedPaths(base, config)).toEqual([
+      ['settings', 'cache_expiration'],
+      ['libraries', 'Movies'],
+      ['libraries', 'TV Shows'],
+    ]);
+    expect(removedPaths(base, mergeConfigs(base, { settings: { cache: false } }))).toEqual([]);
+  });
+});
+
+describe('resolveInheritanceChain', () => {
+  const find = (configs: InheritableConfig[]) => (id: string) =>
+    configs.find((config) => config.id === id);
+
+  it('should return the chain root first', () => {
+    const configs = [
+      { id: 'c', name: 'Server C', parentId: 'b' },
+      { id: 'b', name: 'Shared 4K', parentId: 'a' },
+      { id: 'a', name: 'Base' },
+    ];
+
+    expect(resolveInheritanceChain('c', find(configs)).map((config) => config.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('should reject cycles and missing parents', () => {
+    expect(() =>
+      resolveInheritanceChain(
+        'a',
+        find([
+          { id: 'a', name: 'A', parentId: 'b' },
+          { id: 'b', name: 'B', parentId: 'a' },
+        ])
+      )
+    ).toThrow('Inheritance cycle: "A" -> "B" -> "A"');
+    expect(() =>
+      resolveInheritanceChain('a', find([{ id: 'a', name: 'A', parentId: 'a' }]))
+    ).toThrow('Inheritance cycle: "A" -> "A"');
+    expect(() =>
+      resolveInheritanceChain('a', find([{ id: 'a', name: 'A', parentId: 'gone' }]))
+    ).toThrow('Parent config gone of "A" does not exist');
+  });
+
+  it('should resolve a chain of overrides in order', () => {
+    expect(
+      resolveConfigChain([
+        { settings: { cache: true } },
+        { settings: { cache: false } },
+        { settings: { cache_expiration: 30 } },
+      ])
+    ).toEqual({ settings: { cache: false, cache_expiration: 30 } });
+  });
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { OperationsSchema } from './operations.schema.js';
 
 // Settings schema
 export const SettingsSchema = z
@@ -56,39 +57,114 @@ export const FileEntrySchema = z.union([
   z.object({
     file: z.string(),
     template_variables: TemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
   }),
   // Default reference with template variables
   z.object({
     default: z.string(),
     template_variables: TemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
   }),
   // Git reference
   z.object({
     git: z.string(),
     template_variables: TemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
   }),
   // URL reference
   z.object({
     url: z.string(),
     template_variables: TemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
   }),
   // Repo reference
   z.object({
     repo: z.string(),
     template_variables: TemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
   }),
 ]);
 
+// Kometa lists such as playlist libraries and users: a comma separated string or a list
+export const KometaListSchema = z.union([z.string(), z.array(z.string())]);
+
+// Template variables understood by the playlist default and playlist files
+export const PlaylistTemplateVariablesSchema = z
+  .object({
+    libraries: KometaListSchema.optional(),
+    // "all", or the Plex users to share the playlist with
+    sync_to_users: KometaListSchema.nullable().optional(),
+    exclude_users: KometaListSchema.nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+// Top-level playlist_files entry
+export const PlaylistFileEntrySchema = z.union([
+  z.object({
+    file: z.string(),
+    template_variables: PlaylistTemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
+  }),
+  z.object({
+    default: z.string(),
+    template_variables: PlaylistTemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
+  }),
+  z.object({
+    git: z.string(),
+    template_variables: PlaylistTemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
+  }),
+  z.object({
+    url: z.string(),
+    template_variables: PlaylistTemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
+  }),
+  z.object({
+    repo: z.string(),
+    template_variables: PlaylistTemplateVariablesSchema.optional(),
+    schedule: z.string().optional(),
+  }),
+]);
+
+// A playlist in the top-level `playlists:` block of a playlist file. Builders
+// and other playlist attributes are kept as they are.
+export const PlaylistSchema = z
+  .object({
+    libraries: KometaListSchema,
+    sync_to_users: KometaListSchema.nullable().optional(),
+    exclude_users: KometaListSchema.nullable().optional(),
+  })
+  .catchall(z.unknown());
+
+// Content of a playlist file
+export const PlaylistFileSchema = z
+  .object({
+    playlists: z.record(PlaylistSchema),
+  })
+  .catchall(z.unknown());
+
 // Library schema
+// Per-library Plex server. `server` names the profile entry holding its URL and token.
+export const LibraryPlexSchema = z.object({
+  server: z.string().optional(),
+  timeout: z.number().optional(),
+  clean_bundles: z.boolean().optional(),
+  empty_trash: z.boolean().optional(),
+  optimize: z.boolean().optional(),
+  extras: z.record(z.unknown()).optional(),
+});
+
 export const LibrarySchema = z.object({
   library_name: z.string().optional(),
+  plex: LibraryPlexSchema.optional(),
   template_variables: TemplateVariablesSchema.optional(),
   schedule: z.string().optional(),
   run_order: z.array(z.string()).optional(),
   filters: FiltersSchema.optional(),
   collection_files: z.array(FileEntrySchema).optional(),
   overlay_files: z.array(FileEntrySchema).optional(),
-  operations: z.record(z.unknown()).optional(),
+  operations: OperationsSchema.optional(),
   settings: z.record(z.unknown()).optional(),
   metadata_files: z.array(FileEntrySchema).optional(),
   // Allow arbitrary additional keys
@@ -170,6 +246,99 @@ export const TraktConfigSchema = z.object({
   extras: z.record(z.unknown()).optional(),
 });
 
+export const OmdbConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  cache_expiration: z.number().optional(),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export const AniDbConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Client name and version registered with AniDB, used together with the profile's login
+  client: z.string().optional(),
+  version: z.number().optional(),
+  language: z.string().optional(),
+  cache_expiration: z.number().optional(),
+  enable_mature: z.boolean().optional(),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export const MalConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  client_id: z.string().optional(),
+  localhost_url: z.string().optional(),
+  cache_expiration: z.number().optional(),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export const GithubConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export const NotifiarrConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export const GotifyConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export const NtfyConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  topic: z.string().optional(),
+  extras: z.record(z.unknown()).optional(),
+});
+
+// Events Kometa sends webhooks for
+export const WebhookEventSchema = z.enum([
+  'error',
+  'version',
+  'run_start',
+  'run_end',
+  'changes',
+  'delete',
+]);
+
+// Notification integrations a webhook event can be routed to. Custom webhook
+// URLs, such as Discord webhooks, carry credentials and live in the profile.
+export const WebhookServiceSchema = z.enum(['notifiarr', 'gotify', 'ntfy']);
+
+const WebhookTargetsSchema = z.array(WebhookServiceSchema).optional();
+
+export const WebhooksConfigSchema = z.object({
+  error: WebhookTargetsSchema,
+  version: WebhookTargetsSchema,
+  run_start: WebhookTargetsSchema,
+  run_end: WebhookTargetsSchema,
+  changes: WebhookTargetsSchema,
+  delete: WebhookTargetsSchema,
+  extras: z.record(z.unknown()).optional(),
+});
+
+// Locally defined collection, overlay and metadata files, keyed by the path their `file:`
+// entries reference. Kometa Studio only: written as separate files on project export and
+// never emitted into config.yml itself.
+export const LocalFilesSchema = z.record(z.record(z.unknown()));
+
+// Where an anchored YAML block is used: a path into config.yml, either as the
+// whole value there or pulled into the map at that path with a `<<` merge key
+export const YamlAnchorUseSchema = z.object({
+  path: z.array(z.string()),
+  merge: z.boolean().optional(),
+});
+
+// Blocks shared through YAML anchors and aliases, keyed by anchor name. The
+// first use carries the anchor, later uses become aliases while they still match.
+export const YamlAnchorSchema = z.object({
+  value: z.unknown(),
+  uses: z.array(YamlAnchorUseSchema),
+});
+
+export const YamlAnchorsSchema = z.record(YamlAnchorSchema);
+
 // Main config schema (no secrets)
 export const KometaConfigSchema = z.object({
   settings: SettingsSchema.optional(),
@@ -181,6 +350,17 @@ export const KometaConfigSchema = z.object({
   radarr: RadarrConfigSchema.optional(),
   sonarr: SonarrConfigSchema.optional(),
   trakt: TraktConfigSchema.optional(),
+  omdb: OmdbConfigSchema.optional(),
+  anidb: AniDbConfigSchema.optional(),
+  mal: MalConfigSchema.optional(),
+  github: GithubConfigSchema.optional(),
+  notifiarr: NotifiarrConfigSchema.optional(),
+  gotify: GotifyConfigSchema.optional(),
+  ntfy: NtfyConfigSchema.optional(),
+  webhooks: WebhooksConfigSchema.optional(),
+  playlist_files: z.array(PlaylistFileEntrySchema).optional(),
+  local_files: LocalFilesSchema.optional(),
+  anchors: YamlAnchorsSchema.optional(),
   // Root-level extras for unknown top-level keys
   extras: z.record(z.unknown()).optional(),
 });
@@ -188,6 +368,19 @@ export const KometaConfigSchema = z.object({
 export type KometaConfig = z.infer<typeof KometaConfigSchema>;
 export type Settings = z.infer<typeof SettingsSchema>;
 export type Library = z.infer<typeof LibrarySchema>;
+export type LibraryPlex = z.infer<typeof LibraryPlexSchema>;
 export type FileEntry = z.infer<typeof FileEntrySchema>;
 export type TemplateVariables = z.infer<typeof TemplateVariablesSchema>;
+export type KometaList = z.infer<typeof KometaListSchema>;
+export type PlaylistTemplateVariables = z.infer<typeof PlaylistTemplateVariablesSchema>;
+export type PlaylistFileEntry = z.infer<typeof PlaylistFileEntrySchema>;
+export type Playlist = z.infer<typeof PlaylistSchema>;
+export type PlaylistFile = z.infer<typeof PlaylistFileSchema>;
 export type Filters = z.infer<typeof FiltersSchema>;
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+export type WebhookService = z.infer<typeof WebhookServiceSchema>;
+export type WebhooksConfig = z.infer<typeof WebhooksConfigSchema>;
+export type LocalFiles = z.infer<typeof LocalFilesSchema>;
+export type YamlAnchorUse = z.infer<typeof YamlAnchorUseSchema>;
+export type YamlAnchor = z.infer<typeof YamlAnchorSchema>;
+export type YamlAnchors = z.infer<typeof YamlAnchorsSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// Labels as a comma separated string or a list
+const LabelsSchema = z.union([z.string(), z.array(z.string())]);
+
+// Fields every metadata level can override. Other attributes are kept as they are.
+const MetadataFields = {
+  title: z.string().optional(),
+  sort_title: z.string().optional(),
+  summary: z.string().optional(),
+  url_poster: z.string().url().optional(),
+  label: LabelsSchema.optional(),
+};
+
+export const EpisodeMetadataSchema = z.object(MetadataFields).catchall(z.unknown());
+
+// Episodes keyed by episode number
+export const SeasonMetadataSchema = z
+  .object({
+    ...MetadataFields,
+    episodes: z.record(EpisodeMetadataSchema).optional(),
+  })
+  .catchall(z.unknown());
+
+// A movie or show. Seasons, keyed by season number, only apply to shows and
+// editions only to movies.
+export const ItemMetadataSchema = z
+  .object({
+    ...MetadataFields,
+    edition: z.string().optional(),
+    seasons: z.record(SeasonMetadataSchema).optional(),
+  })
+  .catchall(z.unknown());
+
+// Content of a metadata file. Items are keyed by TMDb ID for movies and TVDb ID for shows.
+export const MetadataFileSchema = z
+  .object({
+    metadata: z.record(ItemMetadataSchema),
+  })
+  .catchall(z.unknown());
+
+export type EpisodeMetadata = z.infer<typeof EpisodeMetadataSchema>;
+export type SeasonMetadata = z.infer<typeof SeasonMetadataSchema>;
+export type ItemMetadata = z.infer<typeof ItemMetadataSchema>;
+export type MetadataFile = z.infer<typeof MetadataFileSchema>;
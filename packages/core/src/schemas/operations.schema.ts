@@ -0,0 +1,183 @@
+import { z } from 'zod';
+
+// Sources every mass_*_update operation accepts besides its data sources
+const PLEX_ACTIONS = ['lock', 'unlock', 'remove', 'reset'] as const;
+
+export const GenreSourceSchema = z.enum([
+  'tmdb',
+  'tvdb',
+  'imdb',
+  'omdb',
+  'anidb',
+  'anidb_3_0',
+  'anidb_2_5',
+  'anidb_2_0',
+  'anidb_1_5',
+  'anidb_1_0',
+  'anidb_0_5',
+  'mal',
+  ...PLEX_ACTIONS,
+]);
+
+export const ContentRatingSourceSchema = z.enum([
+  'mdb',
+  'mdb_commonsense',
+  'mdb_commonsense0',
+  'mdb_age_rating',
+  'mdb_age_rating0',
+  'omdb',
+  'mal',
+  ...PLEX_ACTIONS,
+]);
+
+export const OriginalTitleSourceSchema = z.enum([
+  'anidb',
+  'anidb_official',
+  'mal',
+  'mal_english',
+  'mal_japanese',
+  ...PLEX_ACTIONS,
+]);
+
+export const StudioSourceSchema = z.enum(['anidb', 'mal', 'tmdb', ...PLEX_ACTIONS]);
+
+export const DateSourceSchema = z.enum([
+  'tmdb',
+  'tvdb',
+  'omdb',
+  'mdb',
+  'mdb_digital',
+  'anidb',
+  'mal',
+  ...PLEX_ACTIONS,
+]);
+
+export const RatingSourceSchema = z.enum([
+  'tmdb',
+  'imdb',
+  'trakt_user',
+  'omdb',
+  'mdb',
+  'mdb_average',
+  'mdb_imdb',
+  'mdb_metacritic',
+  'mdb_metacriticuser',
+  'mdb_trakt',
+  'mdb_tomatoes',
+  'mdb_tomatoesaudience',
+  'mdb_tmdb',
+  'mdb_letterboxd',
+  'mdb_myanimelist',
+  'anidb_rating',
+  'anidb_average',
+  'anidb_score',
+  'mal',
+  ...PLEX_ACTIONS,
+]);
+
+export const EpisodeRatingSourceSchema = z.enum(['tmdb', 'imdb', ...PLEX_ACTIONS]);
+
+export const ImageSourceSchema = z.enum(['tmdb', 'plex', 'lock', 'unlock']);
+
+export const ParentalLabelSchema = z.enum(['none', 'mild', 'moderate', 'severe']);
+
+export const CollectionModeSchema = z.enum(['default', 'hide', 'hide_items', 'show_items']);
+
+/**
+ * A source, or a priority list of sources where the first one with a value wins
+ */
+function prioritized<T extends z.ZodTypeAny>(source: T) {
+  return z.union([source, z.array(source)]);
+}
+
+// Besides a source, Kometa sets a fixed value: genres or a title as text, a date
+// as YYYY-MM-DD or a rating from 0 to 10
+const TextValueSchema = z.string();
+const DateValueSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+const RatingValueSchema = z.number().min(0).max(10);
+
+const ImageUpdateSchema = z.object({
+  source: ImageSourceSchema.optional(),
+  seasons: z.boolean().optional(),
+  episodes: z.boolean().optional(),
+  ignore_locked: z.boolean().optional(),
+  ignore_overlays: z.boolean().optional(),
+});
+
+const TagListSchema = z.union([z.string(), z.array(z.string())]);
+
+// Library operations. Unknown operations are kept in extras.
+export const OperationsSchema = z.object({
+  assets_for_all: z.boolean().optional(),
+  delete_collections: z
+    .object({
+      managed: z.boolean().optional(),
+      configured: z.boolean().optional(),
+      less: z.number().int().min(1).optional(),
+    })
+    .optional(),
+  mass_genre_update: prioritized(z.union([GenreSourceSchema, TextValueSchema])).optional(),
+  mass_content_rating_update: prioritized(
+    z.union([ContentRatingSourceSchema, TextValueSchema])
+  ).optional(),
+  mass_original_title_update: prioritized(
+    z.union([OriginalTitleSourceSchema, TextValueSchema])
+  ).optional(),
+  mass_studio_update: prioritized(z.union([StudioSourceSchema, TextValueSchema])).optional(),
+  mass_originally_available_update: prioritized(
+    z.union([DateSourceSchema, DateValueSchema])
+  ).optional(),
+  mass_added_at_update: prioritized(z.union([DateSourceSchema, DateValueSchema])).optional(),
+  mass_audience_rating_update: prioritized(
+    z.union([RatingSourceSchema, RatingValueSchema])
+  ).optional(),
+  mass_critic_rating_update: prioritized(
+    z.union([RatingSourceSchema, RatingValueSchema])
+  ).optional(),
+  mass_user_rating_update: prioritized(z.union([RatingSourceSchema, RatingValueSchema])).optional(),
+  mass_episode_audience_rating_update: prioritized(
+    z.union([EpisodeRatingSourceSchema, RatingValueSchema])
+  ).optional(),
+  mass_episode_critic_rating_update: prioritized(
+    z.union([EpisodeRatingSourceSchema, RatingValueSchema])
+  ).optional(),
+  mass_episode_user_rating_update: prioritized(
+    z.union([EpisodeRatingSourceSchema, RatingValueSchema])
+  ).optional(),
+  mass_poster_update: ImageUpdateSchema.optional(),
+  mass_background_update: ImageUpdateSchema.optional(),
+  mass_imdb_parental_labels: ParentalLabelSchema.optional(),
+  mass_collection_mode: CollectionModeSchema.optional(),
+  update_blank_track_titles: z.boolean().optional(),
+  remove_title_parentheses: z.boolean().optional(),
+  split_duplicates: z.boolean().optional(),
+  radarr_add_all: z.boolean().optional(),
+  radarr_remove_by_tag: TagListSchema.optional(),
+  sonarr_add_all: z.boolean().optional(),
+  sonarr_remove_by_tag: TagListSchema.optional(),
+  // Maps a genre or content rating to a replacement, or to null to remove it
+  genre_mapper: z.record(z.string().nullable()).optional(),
+  content_rating_mapper: z.record(z.string().nullable()).optional(),
+  metadata_backup: z
+    .object({
+      path: z.string().optional(),
+      exclude: TagListSchema.optional(),
+      sync_tags: z.boolean().optional(),
+      add_blank_entries: z.boolean().optional(),
+    })
+    .optional(),
+  extras: z.record(z.unknown()).optional(),
+});
+
+export type Operations = z.infer<typeof OperationsSchema>;
+export type GenreSource = z.infer<typeof GenreSourceSchema>;
+export type ContentRatingSource = z.infer<typeof ContentRatingSourceSchema>;
+export type OriginalTitleSource = z.infer<typeof OriginalTitleSourceSchema>;
+export type StudioSource = z.infer<typeof StudioSourceSchema>;
+export type DateSource = z.infer<typeof DateSourceSchema>;
+export type RatingSource = z.infer<typeof RatingSourceSchema>;
+export type EpisodeRatingSource = z.infer<typeof EpisodeRatingSourceSchema>;
+export type ImageSource = z.infer<typeof ImageSourceSchema>;
+export type ParentalLabel = z.infer<typeof ParentalLabelSchema>;
+export type CollectionMode = z.infer<typeof CollectionModeSchema>;
+export type ImageUpdate = z.infer<typeof ImageUpdateSchema>;
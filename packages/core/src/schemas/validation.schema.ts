@@ -1,10 +1,28 @@
 import { z } from 'zod';
 
+// 1-based line and column in a YAML source
+export const SourcePositionSchema = z.object({
+  line: z.number().int().positive(),
+  column: z.number().int().positive(),
+});
+
+// The end position is exclusive
+export const SourceRangeSchema = z.object({
+  start: SourcePositionSchema,
+  end: SourcePositionSchema,
+});
+
 export const ValidationIssueSchema = z.object({
   type: z.enum(['error', 'warning']),
   path: z.array(z.string()),
   message: z.string(),
+  // Id of the lint rule that reported the issue
   code: z.string().optional(),
+  // Where the issue is in the YAML it was reported against, when known
+  range: SourceRangeSchema.optional(),
+  // Whether the rule can fix the issue automatically
+  fixable: z.boolean().optional(),
+  docs: z.string().url().optional(),
 });
 
 export const ValidationResultSchema = z.object({
@@ -13,5 +31,52 @@ export const ValidationResultSchema = z.object({
   warnings: z.array(ValidationIssueSchema),
 });
 
+// Per-config override of a rule's severity, 'off' disables the rule
+export const RuleLevelSchema = z.enum(['off', 'warning', 'error']);
+
+export const RuleSettingsSchema = z.record(RuleLevelSchema);
+
+export const LintRuleInfoSchema = z.object({
+  id: z.string(),
+  severity: z.enum(['error', 'warning']),
+  description: z.string(),
+  docs: z.string().url().optional(),
+  fixable: z.boolean(),
+});
+
+// Input a template variable is edited with. Alignments and choices list their options.
+export const TemplateVariableTypeSchema = z.enum([
+  'boolean',
+  'number',
+  'offset',
+  'color',
+  'alignment',
+  'choice',
+  'text',
+]);
+
+export const TemplateVariableInfoSchema = z.object({
+  name: z.string(),
+  type: TemplateVariableTypeSchema,
+  options: z.array(z.string()).optional(),
+});
+
+// A builtin default with the variables it documents. Names starting with one of
+// its prefixes, such as `use_` or `rating1_`, are accepted as well.
+export const KometaDefaultInfoSchema = z.object({
+  name: z.string(),
+  kind: z.enum(['collection', 'overlay', 'playlist']),
+  variables: z.array(TemplateVariableInfoSchema),
+  prefixes: z.array(z.string()),
+});
+
+export type SourcePosition = z.infer<typeof SourcePositionSchema>;
+export type SourceRange = z.infer<typeof SourceRangeSchema>;
 export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
+export type RuleLevel = z.infer<typeof RuleLevelSchema>;
+export type RuleSettings = z.infer<typeof RuleSettingsSchema>;
+export type LintRuleInfo = z.infer<typeof LintRuleInfoSchema>;
+export type TemplateVariableType = z.infer<typeof TemplateVariableTypeSchema>;
+export type TemplateVariableInfo = z.infer<typeof TemplateVariableInfoSchema>;
+export type KometaDefaultInfo = z.infer<typeof KometaDefaultInfoSchema>;
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateEnvironmentFiles,
+  listEnvPlaceholders,
+  placeholderSecrets,
+} from './environment.js';
+
+/**
+ * What Kometa does with a config at startup: every KOMETA_X environment
+ * variable becomes the secret X, which fills the <<X>> placeholders
+ */
+function fillKometaSecrets(yaml: string, environment: Record<string, string>): string {
+  const secrets = Object.fromEntries(
+    Object.entries(environment)
+      .filter(([name]) => name.startsWith('KOMETA_'))
+      .map(([name, value]) => [name.slice('KOMETA_'.length), value])
+  );
+  return yaml.replace(/<<([A-Z0-9_]+)>>/g, (placeholder, name: string) =>
+    name in secrets ? secrets[name] : placeholder
+  );
+}
+
+describe('secret environment', () => {
+  it('should replace profile secrets with placeholders', () => {
+    const { secrets, variables } = placeholderSecrets({
+      plex: { token: 'plex-token' },
+      webhooks: { error: ['https://hooks.example.com/a'] },
+      mal: {
+        authorization: { access_token: 'mal-token', token_type: 'Bearer', expires_in: 3600 },
+      },
+      github: { token: '' },
+    });
+
+    expect(secrets).toEqual({
+      plex: { token: '<<PLEX_TOKEN>>' },
+      webhooks: { error: ['<<WEBHOOKS_ERROR_0>>'] },
+      mal: {
+        authorization: {
+          access_token: '<<MAL_AUTHORIZATION_ACCESS_TOKEN>>',
+          token_type: 'Bearer',
+          expires_in: 3600,
+        },
+      },
+      github: { token: '' },
+    });
+    expect(variables).toEqual({
+      KOMETA_PLEX_TOKEN: 'plex-token',
+      KOMETA_WEBHOOKS_ERROR_0: 'https://hooks.example.com/a',
+      KOMETA_MAL_AUTHORIZATION_ACCESS_TOKEN: 'mal-token',
+    });
+  });
+
+  it('should name each placeholder after the variable Kometa fills it from', () => {
+    const { secrets, variables } = placeholderSecrets({
+      plex: { url: 'http://plex:32400', token: 'plex-token' },
+      extras: { notifiarr: { apikey: 'notifiarr-key' } },
+    });
+    const yaml = `plex:\n  url: ${secrets.plex?.url}\n  token: ${secrets.plex?.token}\nkey: ${
+      (secrets.extras?.notifiarr as { apikey: string }).apikey
+    }\n`;
+
+    expect(fillKometaSecrets(yaml, variables)).toBe(
+      'plex:\n  url: http://plex:32400\n  token: plex-token\nkey: notifiarr-key\n'
+    );
+    expect(listEnvPlaceholders(yaml)).toEqual(Object.keys(variables));
+  });
+
+  it('should list the variables a YAML uses once each', () => {
+    expect(listEnvPlaceholders('a: <<B>>\nb: <<A>>\nc: x<<B>>\n<<: *anchor\n')).toEqual([
+      'KOMETA_B',
+      'KOMETA_A',
+    ]);
+  });
+
+  it('should build a .env file and compose snippet for the placeholders', () => {
+    const yaml = 'plex:\n  token: <<PLEX_TOKEN>>\nextras:\n  key: <<EXTRAS_X_KEY>>\n';
+    const { env, compose } = generateEnvironmentFiles(yaml, { KOMETA_PLEX_TOKEN: 'a$b c' });
+
+    expect(env.split('\n').filter((line) => line && !line.startsWith('#'))).toEqual([
+      "KOMETA_PLEX_TOKEN='a$b c'",
+      'KOMETA_EXTRAS_X_KEY=',
+    ]);
+    expect(compose).toContain('    environment:\n      KOMETA_PLEX_TOKEN: ${KOMETA_PLEX_TOKEN}\n');
+    expect(compose).toContain('      KOMETA_EXTRAS_X_KEY: ${KOMETA_EXTRAS_X_KEY}');
+  });
+});
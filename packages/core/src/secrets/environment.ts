@@ -0,0 +1,135 @@
+import type { ProfileSecrets } from '../schemas/profile.schema.js';
+import { secretEnvName } from './references.js';
+
+/**
+ * Env mode writes every secret as a Kometa config secret, so the YAML can be
+ * committed and the secrets injected when the container starts. Kometa loads
+ * each `KOMETA_X` environment variable as the secret `X` and fills `<<X>>`
+ * with it, so the variable KOMETA_PLEX_TOKEN ends up in
+ *
+ *   token: <<PLEX_TOKEN>>
+ *
+ * Variables are named after the secret's path in the profile, the same way
+ * secret references are.
+ */
+
+export const ENV_PLACEHOLDER_PATTERN = /<<([A-Z0-9_]+)>>/g;
+
+// Prefix Kometa strips from environment variables to name the secrets they hold
+const ENV_SECRET_PREFIX = 'KOMETA_';
+
+export interface SecretEnvironment {
+  /** The profile secrets, each replaced by its placeholder */
+  secrets: ProfileSecrets;
+  /** The secrets by environment variable name */
+  variables: Record<string, string>;
+}
+
+export interface EnvironmentFiles {
+  /** `.env` file setting every variable the YAML uses */
+  env: string;
+  /** docker-compose.yml snippet passing those variables to Kometa */
+  compose: string;
+}
+
+// Profile settings kept in the YAML as they are: the token type of an OAuth authorization
+const PLAIN_SETTINGS = ['token_type'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the placeholder Kometa replaces with an environment variable, such
+ * as <<PLEX_TOKEN>> for KOMETA_PLEX_TOKEN
+ */
+export function envPlaceholder(name: string): string {
+  const secret = name.startsWith(ENV_SECRET_PREFIX) ? name.slice(ENV_SECRET_PREFIX.length) : name;
+  return `<<${secret}>>`;
+}
+
+/**
+ * Replaces the string values of a profile, URLs included, with their
+ * placeholders, collecting the values by variable name. Empty values, numbers
+ * such as token expiry times and the token type of authorizations are kept as
+ * they are.
+ */
+export function placeholderSecrets(secrets: ProfileSecrets): SecretEnvironment {
+  const variables: Record<string, string> = {};
+
+  const visit = (value: unknown, path: string[]): unknown => {
+    if (typeof value === 'string' && value !== '') {
+      const name = secretEnvName(path.join('.'));
+      variables[name] = value;
+      return envPlaceholder(name);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => visit(item, [...path, String(index)]));
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          PLAIN_SETTINGS.includes(key) ? item : visit(item, [...path, key]),
+        ])
+      );
+    }
+    return value;
+  };
+
+  return { secrets: visit(secrets, []) as ProfileSecrets, variables };
+}
+
+/**
+ * Lists the environment variables the placeholders of a generated YAML are
+ * filled from, in order of first use
+ */
+export function listEnvPlaceholders(yaml: string): string[] {
+  return [
+    ...new Set(
+      [...yaml.matchAll(ENV_PLACEHOLDER_PATTERN)].map((match) => `${ENV_SECRET_PREFIX}${match[1]}`)
+    ),
+  ];
+}
+
+/**
+ * Quotes a `.env` value when needed. Single quotes keep Docker Compose from
+ * interpolating `$` in it.
+ */
+function envValue(value: string): string {
+  if (/^[A-Za-z0-9_./:@+,=-]*$/.test(value)) return value;
+  if (!value.includes("'")) return `'${value}'`;
+  return `"${value.replace(/[\\"$]/g, (char) => `\\${char}`)}"`;
+}
+
+/**
+ * Builds the `.env` file and docker-compose.yml snippet for a YAML rendered
+ * in env mode. Variables the profile has no secret for, such as references it
+ * cannot satisfy, are left empty.
+ */
+export function generateEnvironmentFiles(
+  yaml: string,
+  variables: Record<string, string> = {}
+): EnvironmentFiles {
+  const names = listEnvPlaceholders(yaml);
+
+  const env = [
+    '# Kometa secrets, injected at runtime',
+    '# Generated by Kometa Studio',
+    '# WARNING: This file contains secrets!',
+    '',
+    ...names.map((name) => `${name}=${envValue(variables[name] ?? '')}`),
+  ].join('\n');
+
+  const compose = [
+    'services:',
+    '  kometa:',
+    '    image: kometateam/kometa',
+    '    volumes:',
+    '      - ./config:/config',
+    ...(names.length > 0 ? ['    environment:'] : []),
+    ...names.map((name) => `      ${name}: \${${name}}`),
+  ].join('\n');
+
+  return { env: `${env}\n`, compose: `${compose}\n` };
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  listSecretReferences,
+  lookupSecret,
+  replaceSecretReferences,
+  secretEnvName,
+  secretReference,
+} from './references.js';
+
+describe('secret references', () => {
+  it('should list references with the path of the value holding them', () => {
+    expect(
+      listSecretReferences({
+        webhooks: { error: ['{{secret:profile.webhooks.error.0}}'] },
+        extras: { proxy: 'http://{{ secret:profile.extras.proxy.user }}:{{secret:x}}@proxy' },
+      })
+    ).toEqual([
+      { path: ['webhooks', 'error', '0'], reference: 'profile.webhooks.error.0' },
+      { path: ['extras', 'proxy'], reference: 'profile.extras.proxy.user' },
+      { path: ['extras', 'proxy'], reference: 'x' },
+    ]);
+  });
+
+  it('should look up secrets in the profile', () => {
+    const secrets = { tmdb: { apikey: 'tmdb-key' }, extras: { github: { token: '' } } };
+
+    expect(lookupSecret('profile.tmdb.apikey', secrets)).toBe('tmdb-key');
+    expect(lookupSecret('profile.extras.github.token', secrets)).toBeUndefined();
+    expect(lookupSecret('profile.tmdb', secrets)).toBeUndefined();
+    expect(lookupSecret('tmdb.apikey', secrets)).toBeUndefined();
+  });
+
+  it('should replace references and name their environment variables', () => {
+    const reference = secretReference('extras.notifiarr.apikey');
+
+    expect(reference).toBe('{{secret:profile.extras.notifiarr.apikey}}');
+    expect(secretEnvName('profile.extras.notifiarr.apikey')).toBe('KOMETA_EXTRAS_NOTIFIARR_APIKEY');
+    expect(
+      replaceSecretReferences({ list: [reference, 1], keep: true }, (path) => path.toUpperCase())
+    ).toEqual({ list: ['PROFILE.EXTRAS.NOTIFIARR.APIKEY', 1], keep: true });
+  });
+});
@@ -0,0 +1,750 @@
+import {
+  WebhookEventSchema,
+  type FileEntry,
+  type KometaConfig,
+  type KometaList,
+  type Playlist,
+  type PlaylistFileEntry,
+} from '../schemas/config.schema.js';
+import type { MetadataFile } from '../schemas/metadata.schema.js';
+import type { ProfileSecrets } from '../schemas/profile.schema.js';
+import { KOMETA_DEFAULTS, acceptsTemplateVariable, type DefaultKind } from './defaults.js';
+import type { LintRule, RuleFinding } from './rules.js';
+import { ScheduleError, parseSchedule } from './schedule.js';
+import { listSecretReferences, lookupSecret } from '../secrets/references.js';
+
+const DOCS = 'https://kometa.wiki/en/latest';
+
+// Library file lists and the kind of Kometa default each of them can reference
+const FILE_LISTS = [
+  ['collection_files', 'collection'],
+  ['overlay_files', 'overlay'],
+  ['metadata_files', undefined],
+] as const;
+
+type FileList = (typeof FILE_LISTS)[number][0];
+
+interface FileEntryRef {
+  entry: FileEntry | PlaylistFileEntry;
+  path: string[];
+  kind: DefaultKind | undefined;
+}
+
+/**
+ * Lists the file entries of every library followed by the top-level playlist files
+ */
+function fileEntries(config: KometaConfig): FileEntryRef[] {
+  const refs: FileEntryRef[] = [];
+  for (const [libraryName, library] of Object.entries(config.libraries ?? {})) {
+    for (const [list, kind] of FILE_LISTS) {
+      library[list]?.forEach((entry, index) => {
+        refs.push({ entry, path: ['libraries', libraryName, list, String(index)], kind });
+      });
+    }
+  }
+  config.playlist_files?.forEach((entry, index) => {
+    refs.push({ entry, path: ['playlist_files', String(index)], kind: 'playlist' });
+  });
+  return refs;
+}
+
+/**
+ * Lists the schedules of libraries, file entries and the collections of local
+ * collection files
+ */
+function scheduleRefs(config: KometaConfig): Array<{ schedule: unknown; path: string[] }> {
+  const refs: Array<{ schedule: unknown; path: string[] }> = [];
+  for (const [libraryName, library] of Object.entries(config.libraries ?? {})) {
+    if (library.schedule !== undefined) {
+      refs.push({ schedule: library.schedule, path: ['libraries', libraryName, 'schedule'] });
+    }
+  }
+  for (const { entry, path } of fileEntries(config)) {
+    if (entry.schedule !== undefined) {
+      refs.push({ schedule: entry.schedule, path: [...path, 'schedule'] });
+    }
+  }
+  for (const [file, content] of Object.entries(config.local_files ?? {})) {
+    const collections = content?.collections;
+    if (!collections || typeof collections !== 'object') continue;
+    for (const [name, collection] of Object.entries(collections as Record<string, unknown>)) {
+      const schedule = (collection as { schedule?: unknown } | null)?.schedule;
+      if (schedule !== undefined) {
+        refs.push({ schedule, path: ['local_files', file, 'collections', name, 'schedule'] });
+      }
+    }
+  }
+  return refs;
+}
+
+function clone(config: KometaConfig): KometaConfig {
+  return JSON.parse(JSON.stringify(config));
+}
+
+/**
+ * Returns the file entry a rule path such as `libraries.Movies.collection_files.0`
+ * or `playlist_files.1` points at
+ */
+function findEntry(
+  config: KometaConfig,
+  path: string[]
+): FileEntry | PlaylistFileEntry | undefined {
+  if (path[0] === 'playlist_files') return config.playlist_files?.[Number(path[1])];
+  const [root, libraryName, list, index] = path;
+  if (root !== 'libraries') return undefined;
+  return config.libraries?.[libraryName]?.[list as FileList]?.[Number(index)];
+}
+
+/**
+ * Returns another kind that ships a default with this name, if any
+ */
+function otherDefaultKind(kind: DefaultKind, name: string): DefaultKind | undefined {
+  return (Object.keys(KOMETA_DEFAULTS) as DefaultKind[]).find(
+    (other) => other !== kind && KOMETA_DEFAULTS[other][name]
+  );
+}
+
+/**
+ * Splits a Kometa list, written either as a comma separated string or a YAML list
+ */
+function toList(value: KometaList | null | undefined): string[] {
+  if (!value) return [];
+  const items = typeof value === 'string' ? value.split(',') : value;
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+type PlaylistOptions = Pick<Playlist, 'libraries' | 'sync_to_users' | 'exclude_users'>;
+
+interface PlaylistRef extends Partial<PlaylistOptions> {
+  /** Name of a playlist defined in a local playlist file */
+  name?: string;
+  path: string[];
+}
+
+/**
+ * Lists the playlists of every playlist_files entry. Local playlist files
+ * contribute each playlist they define, falling back to the template variables
+ * of their entry; other entries are described by their template variables.
+ */
+function playlistRefs(config: KometaConfig): PlaylistRef[] {
+  const refs: PlaylistRef[] = [];
+  config.playlist_files?.forEach((entry, index) => {
+    const path = ['playlist_files', String(index)];
+    const variables = entry.template_variables ?? {};
+    const local = 'file' in entry ? config.local_files?.[entry.file]?.playlists : undefined;
+
+    if (!local || typeof local !== 'object') {
+      refs.push({
+        path: [...path, 'template_variables'],
+        libraries: variables.libraries,
+        sync_to_users: variables.sync_to_users,
+        exclude_users: variables.exclude_users,
+      });
+      return;
+    }
+    for (const [name, playlist] of Object.entries(local as Record<string, Partial<Playlist>>)) {
+      refs.push({
+        name,
+        path,
+        libraries: playlist.libraries ?? variables.libraries,
+        sync_to_users: playlist.sync_to_users ?? variables.sync_to_users,
+        exclude_users: playlist.exclude_users ?? variables.exclude_users,
+      });
+    }
+  });
+  return refs;
+}
+
+function playlistLabel({ name }: PlaylistRef): string {
+  return name ? `Playlist "${name}"` : 'The playlist';
+}
+
+/**
+ * Whether a relative path climbs above the directory it is resolved against
+ */
+function escapesDirectory(filePath: string): boolean {
+  let depth = 0;
+  for (const segment of filePath.split(/[\\/]/)) {
+    if (segment === '..') depth--;
+    else if (segment && segment !== '.') depth++;
+    if (depth < 0) return true;
+  }
+  return false;
+}
+
+interface MetadataFileRef {
+  file: string;
+  metadata: MetadataFile['metadata'];
+  path: string[];
+}
+
+/**
+ * Lists the local metadata files the libraries reference
+ */
+function localMetadataFiles(config: KometaConfig): MetadataFileRef[] {
+  const refs: MetadataFileRef[] = [];
+  for (const [libraryName, library] of Object.entries(config.libraries ?? {})) {
+    library.metadata_files?.forEach((entry, index) => {
+      if (!('file' in entry)) return;
+      const content = config.local_files?.[entry.file] as Partial<MetadataFile> | undefined;
+      if (!content?.metadata || typeof content.metadata !== 'object') return;
+      refs.push({
+        file: entry.file,
+        metadata: content.metadata,
+        path: ['libraries', libraryName, 'metadata_files', String(index)],
+      });
+    });
+  }
+  return refs;
+}
+
+const NUMERIC_KEY = /^\d+$/;
+
+const ABSOLUTE_PATH = /^([a-zA-Z]:)?[\\/]/;
+
+// The official Docker image mounts the config directory at /config
+const DOCKER_CONFIG_PATH = /^\/config\//;
+
+type Service =
+  | 'plex'
+  | 'tmdb'
+  | 'tautulli'
+  | 'mdblist'
+  | 'radarr'
+  | 'sonarr'
+  | 'omdb'
+  | 'github'
+  | 'notifiarr'
+  | 'gotify'
+  | 'ntfy';
+
+/**
+ * Warns when an enabled integration is missing profile secrets
+ */
+function credentialsRule(
+  service: Service,
+  label: string,
+  fields: Array<[field: string, description: string]>
+): LintRule {
+  return {
+    id: `${service}-credentials`,
+    severity: 'warning',
+    description: `${label} is enabled but the active profile is missing its credentials`,
+    docs: `${DOCS}/config/${service}/`,
+    check: ({ config, profile }) => {
+      if (!config[service]?.enabled) return [];
+      const secrets = profile?.secrets[service] as Record<string, unknown> | undefined;
+      return fields
+        .filter(([field]) => !secrets?.[field])
+        .map(([field, description]) => ({
+          path: [service, field],
+          message: `${label} is enabled but no ${description} is configured in the active profile`,
+        }));
+    },
+  };
+}
+
+/**
+ * Warns when an Arr integration adds missing items without a root folder
+ */
+function rootFolderRule(service: 'radarr' | 'sonarr', label: string): LintRule {
+  return {
+    id: `${service}-root-folder`,
+    severity: 'warning',
+    description: `${label} add_missing needs a root_folder_path`,
+    docs: `${DOCS}/config/${service}/`,
+    check: ({ config }) =>
+      config[service]?.enabled && config[service]?.add_missing && !config[service]?.root_folder_path
+        ? [
+            {
+              path: [service, 'root_folder_path'],
+              message: `${label} add_missing is enabled but no root_folder_path is specified`,
+            },
+          ]
+        : [],
+  };
+}
+
+export const BUILTIN_RULES: LintRule[] = [
+  credentialsRule('plex', 'Plex', [
+    ['url', 'URL'],
+    ['token', 'token'],
+  ]),
+  credentialsRule('tmdb', 'TMDB', [['apikey', 'API key']]),
+  credentialsRule('tautulli', 'Tautulli', [
+    ['url', 'URL'],
+    ['apikey', 'API key'],
+  ]),
+  credentialsRule('mdblist', 'MDBList', [['apikey', 'API key']]),
+  credentialsRule('radarr', 'Radarr', [
+    ['url', 'URL'],
+    ['token', 'token'],
+  ]),
+  rootFolderRule('radarr', 'Radarr'),
+  credentialsRule('sonarr', 'Sonarr', [
+    ['url', 'URL'],
+    ['token', 'token'],
+  ]),
+  rootFolderRule('sonarr', 'Sonarr'),
+  {
+    id: 'trakt-credentials',
+    severity: 'warning',
+    description: 'Trakt is enabled but its client_id or client_secret is missing',
+    docs: `${DOCS}/config/trakt/`,
+    check: ({ config, profile }) => {
+      if (!config.trakt?.enabled) return [];
+      const findings: RuleFinding[] = [];
+      if (!config.trakt.client_id) {
+        findings.push({
+          path: ['trakt', 'client_id'],
+          message: 'Trakt is enabled but no client_id is specified',
+        });
+      }
+      const secrets: ProfileSecrets['trakt'] = profile?.secrets.trakt;
+      if (!secrets?.client_secret) {
+        findings.push({
+          path: ['trakt', 'client_secret'],
+          message: 'Trakt is enabled but no client_secret is configured in the active profile',
+        });
+      }
+      return findings;
+    },
+  },
+  credentialsRule('omdb', 'OMDb', [['apikey', 'API key']]),
+  {
+    id: 'anidb-credentials',
+    severity: 'warning',
+    description: 'AniDB is enabled but its client, version or login is missing',
+    docs: `${DOCS}/config/anidb/`,
+    check: ({ config, profile }) => {
+      if (!config.anidb?.enabled) return [];
+      const findings: RuleFinding[] = [];
+      if (!config.anidb.client) {
+        findings.push({
+          path: ['anidb', 'client'],
+          message: 'AniDB is enabled but no client is specified',
+        });
+      }
+      if (!config.anidb.version) {
+        findings.push({
+          path: ['anidb', 'version'],
+          message: 'AniDB is enabled but no client version is specified',
+        });
+      }
+      // A login is only needed to see mature content
+      const secrets: ProfileSecrets['anidb'] = profile?.secrets.anidb;
+      if (config.anidb.enable_mature && (!secrets?.username || !secrets?.password)) {
+        findings.push({
+          path: ['anidb', secrets?.username ? 'password' : 'username'],
+          message:
+            'AniDB enable_mature is on but no username and password are configured in the active profile',
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'mal-credentials',
+    severity: 'warning',
+    description: 'MyAnimeList is enabled but its client or authorization is missing',
+    docs: `${DOCS}/config/myanimelist/`,
+    check: ({ config, profile }) => {
+      if (!config.mal?.enabled) return [];
+      const findings: RuleFinding[] = [];
+      if (!config.mal.client_id) {
+        findings.push({
+          path: ['mal', 'client_id'],
+          message: 'MyAnimeList is enabled but no client_id is specified',
+        });
+      }
+      const secrets: ProfileSecrets['mal'] = profile?.secrets.mal;
+      if (!secrets?.client_secret) {
+        findings.push({
+          path: ['mal', 'client_secret'],
+          message:
+            'MyAnimeList is enabled but no client_secret is configured in the active profile',
+        });
+      }
+      if (!secrets?.authorization?.access_token) {
+        findings.push({
+          path: ['mal', 'authorization'],
+          message:
+            'MyAnimeList is enabled but has not been authorized yet; Kometa will ask for it on its first run',
+        });
+      }
+      return findings;
+    },
+  },
+  credentialsRule('github', 'GitHub', [['token', 'token']]),
+  credentialsRule('notifiarr', 'Notifiarr', [['apikey', 'API key']]),
+  credentialsRule('gotify', 'Gotify', [
+    ['url', 'URL'],
+    ['token', 'app token'],
+  ]),
+  credentialsRule('ntfy', 'ntfy', [['url', 'URL']]),
+  {
+    id: 'ntfy-topic',
+    severity: 'warning',
+    description: 'ntfy is enabled but no topic is set',
+    docs: `${DOCS}/config/ntfy/`,
+    check: ({ config }) =>
+      config.ntfy?.enabled && !config.ntfy.topic
+        ? [{ path: ['ntfy', 'topic'], message: 'ntfy is enabled but no topic is specified' }]
+        : [],
+  },
+  {
+    id: 'webhook-integration-disabled',
+    severity: 'warning',
+    description: 'A webhook event is sent to a notification integration that is not enabled',
+    docs: `${DOCS}/config/webhooks/`,
+    check: ({ config }) =>
+      WebhookEventSchema.options.flatMap((event) =>
+        (config.webhooks?.[event] ?? [])
+          .filter((service) => !config[service]?.enabled)
+          .map((service) => ({
+            path: ['webhooks', event],
+            message: `The ${event} webhook is sent to ${service}, which is not enabled`,
+          }))
+      ),
+    // Enables the integrations the event is sent to
+    fix: (config, path) => {
+      const event = WebhookEventSchema.safeParse(path[1]);
+      const disabled = event.success
+        ? (config.webhooks?.[event.data] ?? []).filter((service) => !config[service]?.enabled)
+        : [];
+      if (disabled.length === 0) return undefined;
+
+      const fixed = clone(config);
+      for (const service of disabled) {
+        fixed[service] = { ...fixed[service], enabled: true };
+      }
+      return fixed;
+    },
+  },
+  {
+    id: 'library-without-files',
+    severity: 'warning',
+    description: 'A library has no collection, overlay or metadata files',
+    docs: `${DOCS}/config/libraries/`,
+    check: ({ config }) =>
+      Object.entries(config.libraries ?? {})
+        .filter(
+          ([, library]) =>
+            !library.collection_files?.length &&
+            !library.overlay_files?.length &&
+            !library.metadata_files?.length
+        )
+        .map(([libraryName]) => ({
+          path: ['libraries', libraryName],
+          message: `Library "${libraryName}" has no collection_files, overlay_files, or metadata_files`,
+        })),
+  },
+  {
+    id: 'library-plex-server',
+    severity: 'warning',
+    description: "A library's own Plex server is missing from the active profile",
+    docs: `${DOCS}/config/libraries/#plex`,
+    check: ({ config, profile }) =>
+      Object.entries(config.libraries ?? {})
+        .filter(([, library]) => {
+          const server = library.plex?.server;
+          return server && !profile?.secrets.plex_servers?.[server]?.url;
+        })
+        .map(([libraryName, library]) => ({
+          path: ['libraries', libraryName, 'plex', 'server'],
+          message: `Library "${libraryName}" uses the Plex server "${library.plex?.server}", which has no URL in the active profile`,
+        })),
+  },
+  {
+    id: 'unresolved-secret-reference',
+    severity: 'error',
+    description: 'A secret reference points to a secret the active profile does not have',
+    check: ({ config, profile }) =>
+      listSecretReferences(config).flatMap(({ path, reference }) => {
+        if (!reference.startsWith('profile.')) {
+          return [
+            {
+              path,
+              message: `"{{secret:${reference}}}" does not point into the profile, as in {{secret:profile.extras.group.key}}`,
+            },
+          ];
+        }
+        return lookupSecret(reference, profile?.secrets) === undefined
+          ? [{ path, message: `The active profile has no secret ${reference}` }]
+          : [];
+      }),
+  },
+  {
+    id: 'invalid-schedule',
+    severity: 'error',
+    description: 'A schedule is not a valid Kometa schedule expression',
+    docs: `${DOCS}/config/schedule/`,
+    check: ({ config }) =>
+      scheduleRefs(config).flatMap(({ schedule, path }) => {
+        // Schedules may also be given as a list of options
+        const expression = Array.isArray(schedule) ? schedule.join(', ') : schedule;
+        if (typeof expression !== 'string') {
+          return [{ path, message: 'The schedule must be a string or a list of strings' }];
+        }
+        try {
+          parseSchedule(expression);
+          return [];
+        } catch (error) {
+          if (!(error instanceof ScheduleError)) throw error;
+          return [{ path, message: `Invalid schedule "${expression}": ${error.message}` }];
+        }
+      }),
+  },
+  {
+    id: 'no-libraries',
+    severity: 'warning',
+    description: 'The config has no libraries',
+    docs: `${DOCS}/config/libraries/`,
+    check: ({ config }) =>
+      Object.keys(config.libraries ?? {}).length === 0
+        ? [{ path: ['libraries'], message: 'No libraries are configured' }]
+        : [],
+  },
+  {
+    id: 'unknown-default',
+    // Only a warning: Kometa adds defaults faster than the catalogue follows
+    severity: 'warning',
+    description: 'A default: entry names a default Kometa does not ship',
+    docs: `${DOCS}/defaults/guide/`,
+    check: ({ config }) =>
+      fileEntries(config).flatMap(({ entry, path, kind }) => {
+        if (!('default' in entry)) return [];
+        if (!kind) {
+          return [
+            {
+              path: [...path, 'default'],
+              message: `Kometa has no metadata defaults, "${entry.default}" cannot be used here`,
+            },
+          ];
+        }
+        if (KOMETA_DEFAULTS[kind][entry.default] || otherDefaultKind(kind, entry.default)) {
+          return [];
+        }
+        return [
+          { path: [...path, 'default'], message: `Unknown ${kind} default "${entry.default}"` },
+        ];
+      }),
+  },
+  {
+    id: 'default-kind-mismatch',
+    severity: 'error',
+    description:
+      'A default is listed where defaults of another kind belong, such as a collection default under overlay_files',
+    docs: `${DOCS}/defaults/guide/`,
+    check: ({ config }) =>
+      fileEntries(config).flatMap(({ entry, path, kind }) => {
+        if (!('default' in entry) || !kind || KOMETA_DEFAULTS[kind][entry.default]) return [];
+        const otherKind = otherDefaultKind(kind, entry.default);
+        if (!otherKind) return [];
+        return [
+          {
+            path: [...path, 'default'],
+            message: `"${entry.default}" is a ${otherKind} default, not a ${kind} default`,
+          },
+        ];
+      }),
+    // Moves a library entry to the list of the right kind in the same library
+    fix: (config, path) => {
+      const [root, libraryName, list, index] = path;
+      const entry = findEntry(config, path);
+      const kind = FILE_LISTS.find(([name]) => name === list)?.[1];
+      if (root !== 'libraries' || !entry || !('default' in entry) || !kind) return undefined;
+      const otherKind = otherDefaultKind(kind, entry.default);
+      const target = FILE_LISTS.find(([, listKind]) => listKind === otherKind)?.[0];
+      if (!target) return undefined;
+
+      const fixed = clone(config);
+      const library = fixed.libraries![libraryName];
+      const [moved] = library[list as FileList]!.splice(Number(index), 1);
+      library[target] = [...(library[target] ?? []), moved];
+      return fixed;
+    },
+  },
+  {
+    id: 'unknown-template-variable',
+    severity: 'warning',
+    description: 'A template variable is not used by the default it is passed to',
+    docs: `${DOCS}/defaults/guide/`,
+    check: ({ config }) =>
+      fileEntries(config).flatMap(({ entry, path, kind }) => {
+        if (!('default' in entry) || !kind || !KOMETA_DEFAULTS[kind][entry.default]) return [];
+        return Object.keys(entry.template_variables ?? {})
+          .filter((variable) => !acceptsTemplateVariable(kind, entry.default, variable))
+          .map((variable) => ({
+            path: [...path, 'template_variables', variable],
+            message: `Template variable "${variable}" is not used by the ${entry.default} default`,
+          }));
+      }),
+    // Removes the variable
+    fix: (config, path) => {
+      const variable = path[path.length - 1];
+      const fixed = clone(config);
+      const entry = findEntry(fixed, path);
+      if (!entry?.template_variables || !(variable in entry.template_variables)) return undefined;
+
+      delete entry.template_variables[variable];
+      if (Object.keys(entry.template_variables).length === 0) delete entry.template_variables;
+      return fixed;
+    },
+  },
+  {
+    id: 'absolute-file-path',
+    severity: 'warning',
+    description: 'A file: entry uses an absolute path',
+    docs: `${DOCS}/config/files/`,
+    check: ({ config }) =>
+      fileEntries(config).flatMap(({ entry, path }) =>
+        'file' in entry && ABSOLUTE_PATH.test(entry.file)
+          ? [
+              {
+                path: [...path, 'file'],
+                message: `"${entry.file}" is an absolute path and only works where that exact path exists`,
+              },
+            ]
+          : []
+      ),
+    // Docker paths under /config/ become config/ paths relative to the Kometa root
+    fix: (config, path) => {
+      const fixed = clone(config);
+      const entry = findEntry(fixed, path);
+      if (!entry || !('file' in entry) || !DOCKER_CONFIG_PATH.test(entry.file)) return undefined;
+
+      entry.file = entry.file.slice(1);
+      return fixed;
+    },
+  },
+  {
+    // Relative file: paths are resolved from the Kometa root that holds config/, the same
+    // root the absolute-file-path fix rewrites /config/ paths against. settings.asset_directory
+    // is not the root to check: it holds poster and background images, not the YAML files
+    // these entries load, so every collection file kept next to config.yml would be flagged.
+    id: 'file-outside-config',
+    severity: 'warning',
+    description: 'A relative file: path climbs out of the directory Kometa resolves it against',
+    docs: `${DOCS}/config/files/`,
+    check: ({ config }) =>
+      fileEntries(config).flatMap(({ entry, path }) =>
+        'file' in entry && !ABSOLUTE_PATH.test(entry.file) && escapesDirectory(entry.file)
+          ? [
+              {
+                path: [...path, 'file'],
+                message: `"${entry.file}" points outside the config directory`,
+              },
+            ]
+          : []
+      ),
+  },
+  {
+    // `git:` entries come from the Kometa Community Configs repo, `repo:` ones from custom_repo
+    id: 'repo-without-custom-repo',
+    severity: 'error',
+    description: 'A repo: entry is used but settings.custom_repo is not set',
+    docs: `${DOCS}/config/settings/`,
+    check: ({ config }) =>
+      config.settings?.custom_repo
+        ? []
+        : fileEntries(config).flatMap(({ entry, path }) =>
+            'repo' in entry
+              ? [
+                  {
+                    path: [...path, 'repo'],
+                    message: `"${entry.repo}" is a repo: entry but settings.custom_repo is not set`,
+                  },
+                ]
+              : []
+          ),
+  },
+  {
+    // Items keyed by title are matched by name, which breaks as soon as Plex renames them
+    id: 'metadata-ids',
+    severity: 'warning',
+    description:
+      'A local metadata file keys an item by title instead of its TMDb or TVDb ID, or a season or episode by anything but its number',
+    docs: `${DOCS}/files/metadata/`,
+    check: ({ config }) =>
+      localMetadataFiles(config).flatMap(({ file, metadata, path }) =>
+        Object.entries(metadata).flatMap(([key, item]): RuleFinding[] => {
+          const findings: RuleFinding[] = [];
+          if (!NUMERIC_KEY.test(key) && !item.match && !item.mapping_id) {
+            findings.push({
+              path,
+              message: `"${key}" in ${file} is not keyed by a TMDb or TVDb ID`,
+            });
+          }
+          for (const [seasonKey, season] of Object.entries(item.seasons ?? {})) {
+            if (!NUMERIC_KEY.test(seasonKey)) {
+              findings.push({
+                path,
+                message: `Season "${seasonKey}" of "${key}" in ${file} is not a season number`,
+              });
+            }
+            for (const episodeKey of Object.keys(season.episodes ?? {})) {
+              if (!NUMERIC_KEY.test(episodeKey)) {
+                findings.push({
+                  path,
+                  message: `Episode "${episodeKey}" of "${key}" season ${seasonKey} in ${file} is not an episode number`,
+                });
+              }
+            }
+          }
+          return findings;
+        })
+      ),
+  },
+  {
+    id: 'playlist-libraries',
+    severity: 'error',
+    description: 'A playlist has no libraries or uses a library that is not in the config',
+    docs: `${DOCS}/files/playlists/`,
+    check: ({ config }) => {
+      const libraries = new Set(
+        Object.entries(config.libraries ?? {}).flatMap(([key, library]) => [
+          key,
+          ...(library.library_name ? [library.library_name] : []),
+        ])
+      );
+      return playlistRefs(config).flatMap((playlist): RuleFinding[] => {
+        const listed = toList(playlist.libraries);
+        if (playlist.name && listed.length === 0) {
+          return [{ path: playlist.path, message: `${playlistLabel(playlist)} has no libraries` }];
+        }
+        return listed
+          .filter((library) => !libraries.has(library))
+          .map((library) => ({
+            path: playlist.path,
+            message: `${playlistLabel(playlist)} uses library "${library}", which is not in the config`,
+          }));
+      });
+    },
+  },
+  {
+    id: 'playlist-users',
+    severity: 'warning',
+    description:
+      'A playlist excludes users it does not sync to, falling back to settings.playlist_sync_to_users',
+    docs: `${DOCS}/files/playlists/`,
+    check: ({ config }) => {
+      const settings = config.settings ?? {};
+      const defaultSync =
+        settings.playlist_sync_to_users === 'none' ? [] : settings.playlist_sync_to_users;
+
+      return playlistRefs(config).flatMap((playlist) => {
+        const sync = toList(playlist.sync_to_users ?? defaultSync);
+        const excluded = toList(playlist.exclude_users ?? settings.playlist_exclude_users);
+        if (sync.includes('all')) return [];
+
+        return excluded.map((user) => ({
+          path: playlist.path,
+          message: sync.includes(user)
+            ? `${playlistLabel(playlist)} both syncs to and excludes "${user}"`
+            : `${playlistLabel(playlist)} excludes "${user}" but does not sync to them, exclude_users only applies with sync_to_users: all`,
+        }));
+      });
+    },
+  },
+];
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { acceptsTemplateVariable, listDefaults, KOMETA_DEFAULTS } from './defaults.js';
+
+describe('listDefaults', () => {
+  const find = (kind: string, name: string) =>
+    listDefaults().find((info) => info.kind === kind && info.name === name)!;
+
+  it('should describe the inputs of overlay variables', () => {
+    const ratings = find('overlay', 'ratings');
+
+    expect(ratings.variables).toContainEqual({
+      name: 'horizontal_align',
+      type: 'alignment',
+      options: ['left', 'center', 'right'],
+    });
+    expect(ratings.variables).toContainEqual({ name: 'back_color', type: 'color' });
+    expect(ratings.variables).toContainEqual({
+      name: 'rating_alignment',
+      type: 'alignment',
+      options: ['vertical', 'horizontal'],
+    });
+    expect(ratings.prefixes).toContain('rating1');
+  });
+
+  it('should list suffixed variables as prefixes only', () => {
+    const franchise = find('collection', 'franchise');
+
+    expect(franchise.variables.map((variable) => variable.name)).not.toContain('movie_');
+    expect(franchise.prefixes).toContain('movie_');
+    expect(franchise.variables).toContainEqual({ name: 'build_collection', type: 'boolean' });
+  });
+
+  it('should accept the variables it lists', () => {
+    for (const info of listDefaults()) {
+      for (const variable of info.variables) {
+        expect(acceptsTemplateVariable(info.kind, info.name, variable.name)).toBe(true);
+      }
+    }
+    expect(acceptsTemplateVariable('overlay', 'ratings', 'rating1_image')).toBe(true);
+    expect(acceptsTemplateVariable('overlay', 'ribbon', 'starting')).toBe(false);
+  });
+});
+
+// Every default the Kometa defaults documentation lists, by kind
+const DOCUMENTED_DEFAULTS = {
+  collection: [
+    // Award
+    ...['bafta', 'berlinale', 'cannes', 'cesar', 'choice', 'emmy', 'golden', 'nfr', 'oscars'],
+    ...['pca', 'razzie', 'sag', 'spirit', 'sundance', 'tiff', 'venice', 'other_award'],
+    'separator_award',
+    // Chart
+    ...['basic', 'anilist', 'imdb', 'letterboxd', 'myanimelist', 'other_chart', 'tautulli'],
+    ...['tmdb', 'trakt', 'separator_chart'],
+    // Content
+    ...['genre', 'franchise', 'universe', 'based', 'collectionless', 'content_rating_us'],
+    ...['content_rating_uk', 'content_rating_de', 'content_rating_au', 'content_rating_nz'],
+    ...['content_rating_mal', 'content_rating_cs', 'studio', 'network', 'streaming'],
+    ...['original_language', 'resolution', 'audio_language', 'subtitle_language', 'aspect'],
+    // Location
+    ...['country', 'region', 'continent'],
+    // Time
+    ...['year', 'decade', 'seasonal'],
+    // People
+    ...['actor', 'director', 'producer', 'writer'],
+  ],
+  overlay: [
+    ...['aspect', 'audio_codec', 'commonsense', 'content_rating_us_movie'],
+    ...['content_rating_us_show', 'content_rating_uk', 'content_rating_de', 'content_rating_au'],
+    ...['content_rating_nz', 'direct_play', 'episode_info', 'language_count', 'languages'],
+    ...['mediastinger', 'network', 'ratings', 'resolution', 'ribbon', 'runtimes', 'status'],
+    ...['streaming', 'studio', 'versions', 'video_format'],
+  ],
+  playlist: ['playlist'],
+};
+
+describe('KOMETA_DEFAULTS', () => {
+  it.each(Object.entries(DOCUMENTED_DEFAULTS))(
+    'should list every documented %s default',
+    (kind, names) => {
+      const catalogue = KOMETA_DEFAULTS[kind as keyof typeof KOMETA_DEFAULTS];
+      expect(Object.keys(catalogue).sort()).toEqual([...names].sort());
+    }
+  );
+});
@@ -0,0 +1,337 @@
+/**
+ * Catalogue of the builtin Kometa defaults that can be referenced with
+ * `- default: <name>`, and the template variables each of them accepts.
+ * Based on the Kometa defaults documentation; names missing here are reported
+ * as unknown, so new defaults need to be added as Kometa ships them, along
+ * with the list in defaults.test.ts.
+ */
+
+import type { KometaDefaultInfo, TemplateVariableInfo } from '../schemas/validation.schema.js';
+
+export type DefaultKind = 'collection' | 'overlay' | 'playlist';
+
+export interface KometaDefault {
+  kind: DefaultKind;
+  /** Variables accepted on top of the ones shared by every default of its kind */
+  variables?: string[];
+}
+
+// Variables accepted by every collection default
+const COLLECTION_VARIABLES = [
+  'use_all',
+  'collection_mode',
+  'collection_section',
+  'sort_by',
+  'sort_prefix',
+  'sync_mode',
+  'schedule',
+  'language',
+  'limit',
+  'minimum_items',
+  'delete_collections_named',
+  'ignore_ids',
+  'ignore_imdb_ids',
+  'include',
+  'exclude',
+  'exclude_prefix',
+  'addons',
+  'key_name_override',
+  'name_format',
+  'summary_format',
+  'title_format',
+  'sep_style',
+  'use_separator',
+  'placeholder_imdb_id',
+  'build_collection',
+  'ignore_blank_results',
+  'style',
+  'data',
+];
+
+// Variables accepted by every overlay default
+const OVERLAY_VARIABLES = [
+  'use_all',
+  'builder_level',
+  'overlay_level',
+  'overlay_limit',
+  'addon_offset',
+  'addon_position',
+  'position',
+  'style',
+  'color',
+  'font',
+  'schedule',
+  'suppress_overlays',
+];
+
+// Prefixes of per-key and per-service variables, such as `use_oscars` or `radarr_tag`
+const COLLECTION_PREFIXES = [
+  'use_',
+  'name_',
+  'summary_',
+  'order_',
+  'collection_mode_',
+  'sort_by_',
+  'sync_mode_',
+  'schedule_',
+  'visible_',
+  'url_poster_',
+  'file_poster_',
+  'url_background_',
+  'file_background_',
+  'minimum_items_',
+  'limit_',
+  'append_',
+  'remove_',
+  'include_',
+  'exclude_',
+  'radarr_',
+  'sonarr_',
+  'item_radarr_',
+  'item_sonarr_',
+];
+
+const OVERLAY_PREFIXES = [
+  'use_',
+  'weight_',
+  'text_',
+  'horizontal_',
+  'vertical_',
+  'back_',
+  'font_',
+  'stroke_',
+  'file_',
+  'url_',
+  'git_',
+  'repo_',
+];
+
+// Overlay styling variables. The overlay prefixes accept them already; they are
+// listed so editors can offer them by name.
+const OVERLAY_STYLE_VARIABLES = [
+  'horizontal_align',
+  'vertical_align',
+  'horizontal_offset',
+  'vertical_offset',
+  'back_color',
+  'back_width',
+  'back_height',
+  'back_radius',
+  'back_padding',
+  'font_size',
+  'font_color',
+  'stroke_width',
+  'stroke_color',
+];
+
+// Inputs of the variables that are not plain text
+const VARIABLE_TYPES: Record<string, Omit<TemplateVariableInfo, 'name'>> = {
+  use_all: { type: 'boolean' },
+  use_separator: { type: 'boolean' },
+  use_subtitles: { type: 'boolean' },
+  build_collection: { type: 'boolean' },
+  ignore_blank_results: { type: 'boolean' },
+  originals_only: { type: 'boolean' },
+  color: { type: 'boolean' },
+  limit: { type: 'number' },
+  minimum_items: { type: 'number' },
+  minimum: { type: 'number' },
+  increment: { type: 'number' },
+  in_days: { type: 'number' },
+  list_days: { type: 'number' },
+  list_size: { type: 'number' },
+  overlay_limit: { type: 'number' },
+  back_width: { type: 'number' },
+  back_height: { type: 'number' },
+  back_radius: { type: 'number' },
+  back_padding: { type: 'number' },
+  font_size: { type: 'number' },
+  stroke_width: { type: 'number' },
+  horizontal_offset: { type: 'offset' },
+  vertical_offset: { type: 'offset' },
+  addon_offset: { type: 'offset' },
+  offset: { type: 'offset' },
+  back_color: { type: 'color' },
+  font_color: { type: 'color' },
+  stroke_color: { type: 'color' },
+  horizontal_align: { type: 'alignment', options: ['left', 'center', 'right'] },
+  vertical_align: { type: 'alignment', options: ['top', 'center', 'bottom'] },
+  addon_position: { type: 'alignment', options: ['left', 'right', 'top', 'bottom'] },
+  flag_alignment: { type: 'alignment', options: ['left', 'right'] },
+  group_alignment: { type: 'alignment', options: ['vertical', 'horizontal'] },
+  rating_alignment: { type: 'alignment', options: ['vertical', 'horizontal'] },
+  collection_mode: { type: 'choice', options: ['default', 'hide', 'hide_items', 'show_items'] },
+  sync_mode: { type: 'choice', options: ['append', 'sync'] },
+  rating1: { type: 'choice', options: ['critic', 'audience', 'user'] },
+  rating2: { type: 'choice', options: ['critic', 'audience', 'user'] },
+  rating3: { type: 'choice', options: ['critic', 'audience', 'user'] },
+};
+
+const collection = (...variables: string[]): KometaDefault => ({ kind: 'collection', variables });
+const overlay = (...variables: string[]): KometaDefault => ({ kind: 'overlay', variables });
+
+/**
+ * Collection defaults, keyed by the name used in `default:`
+ */
+const COLLECTION_DEFAULTS: Record<string, KometaDefault> = {
+  // Awards
+  bafta: collection('data'),
+  berlinale: collection('data'),
+  cannes: collection('data'),
+  cesar: collection('data'),
+  choice: collection('data'),
+  emmy: collection('data'),
+  golden: collection('data'),
+  nfr: collection('data'),
+  oscars: collection('data'),
+  pca: collection('data'),
+  razzie: collection('data'),
+  sag: collection('data'),
+  spirit: collection('data'),
+  sundance: collection('data'),
+  tiff: collection('data'),
+  venice: collection('data'),
+  other_award: collection(),
+  separator_award: collection(),
+  // Charts
+  basic: collection('in_days'),
+  anilist: collection(),
+  imdb: collection(),
+  letterboxd: collection(),
+  myanimelist: collection(),
+  other_chart: collection(),
+  tautulli: collection('list_days', 'list_size'),
+  tmdb: collection(),
+  trakt: collection(),
+  separator_chart: collection(),
+  // Content
+  genre: collection(),
+  franchise: collection('movie_', 'build_collection'),
+  universe: collection(),
+  based: collection(),
+  collectionless: collection(),
+  content_rating_us: collection(),
+  content_rating_uk: collection(),
+  content_rating_de: collection(),
+  content_rating_au: collection(),
+  content_rating_nz: collection(),
+  content_rating_mal: collection(),
+  content_rating_cs: collection(),
+  studio: collection(),
+  network: collection(),
+  streaming: collection('region', 'originals_only'),
+  original_language: collection(),
+  resolution: collection(),
+  audio_language: collection(),
+  subtitle_language: collection(),
+  aspect: collection(),
+  // Location
+  country: collection(),
+  region: collection(),
+  continent: collection(),
+  // Time
+  year: collection('starting', 'ending', 'increment'),
+  decade: collection(),
+  seasonal: collection('emoji'),
+  // People
+  actor: collection(),
+  director: collection(),
+  producer: collection(),
+  writer: collection(),
+};
+
+/**
+ * Overlay defaults, keyed by the name used in `default:`
+ */
+const OVERLAY_DEFAULTS: Record<string, KometaDefault> = {
+  aspect: overlay(),
+  audio_codec: overlay(),
+  commonsense: overlay(),
+  content_rating_us_movie: overlay(),
+  content_rating_us_show: overlay(),
+  content_rating_uk: overlay(),
+  content_rating_de: overlay(),
+  content_rating_au: overlay(),
+  content_rating_nz: overlay(),
+  direct_play: overlay(),
+  episode_info: overlay(),
+  language_count: overlay('minimum', 'use_subtitles'),
+  languages: overlay('languages', 'use_subtitles', 'flag_alignment', 'offset', 'group_alignment'),
+  mediastinger: overlay(),
+  network: overlay(),
+  ratings: overlay('rating1', 'rating2', 'rating3', 'rating_alignment'),
+  resolution: overlay(),
+  ribbon: overlay(),
+  runtimes: overlay('text', 'format'),
+  status: overlay('last'),
+  streaming: overlay('region', 'originals_only'),
+  studio: overlay(),
+  versions: overlay(),
+  video_format: overlay(),
+};
+
+/**
+ * Playlist defaults, referenced from the top-level `playlist_files`
+ */
+const PLAYLIST_DEFAULTS: Record<string, KometaDefault> = {
+  playlist: { kind: 'playlist', variables: ['libraries', 'sync_to_users', 'exclude_users'] },
+};
+
+export const KOMETA_DEFAULTS: Record<DefaultKind, Record<string, KometaDefault>> = {
+  collection: COLLECTION_DEFAULTS,
+  overlay: OVERLAY_DEFAULTS,
+  playlist: PLAYLIST_DEFAULTS,
+};
+
+/**
+ * Names a default accepts as they are, and prefixes it accepts any name with.
+ * Variables listed for a default also match with a suffix (`rating1_image`,
+ * `movie_123`), so they count as prefixes too. Playlist defaults build
+ * collections, so they share the collection variables.
+ */
+function templateVariableNames(
+  kind: DefaultKind,
+  name: string
+): { variables: string[]; prefixes: string[] } {
+  const own = KOMETA_DEFAULTS[kind][name]?.variables ?? [];
+  const shared =
+    kind === 'overlay' ? [...OVERLAY_VARIABLES, ...OVERLAY_STYLE_VARIABLES] : COLLECTION_VARIABLES;
+  const prefixes = kind === 'overlay' ? OVERLAY_PREFIXES : COLLECTION_PREFIXES;
+
+  return {
+    variables: [...new Set([...shared, ...own.filter((variable) => !variable.endsWith('_'))])],
+    prefixes: [...prefixes, ...own],
+  };
+}
+
+/**
+ * Whether a default of the given kind accepts a template variable
+ */
+export function acceptsTemplateVariable(
+  kind: DefaultKind,
+  name: string,
+  variable: string
+): boolean {
+  const { variables, prefixes } = templateVariableNames(kind, name);
+  return variables.includes(variable) || prefixes.some((prefix) => variable.startsWith(prefix));
+}
+
+/**
+ * Lists every default with its variables and the inputs they are edited with
+ */
+export function listDefaults(): KometaDefaultInfo[] {
+  return (Object.keys(KOMETA_DEFAULTS) as DefaultKind[]).flatMap((kind) =>
+    Object.keys(KOMETA_DEFAULTS[kind]).map((name) => {
+      const { variables, prefixes } = templateVariableNames(kind, name);
+      return {
+        name,
+        kind,
+        variables: variables.map((variable) => ({
+          name: variable,
+          ...(VARIABLE_TYPES[variable] ?? { type: 'text' as const }),
+        })),
+        prefixes,
+      };
+    })
+  );
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { applyRuleFix, getRule, listRules, registerRule, runRules } from './rules.js';
+import type { KometaConfig } from '../schemas/config.schema.js';
+
+const config: KometaConfig = {
+  libraries: {
+    Movies: {
+      collection_files: [
+        { default: 'imdb', template_variables: { use_all: true, starting: 1980 } },
+        { default: 'ribbon' },
+        { file: '/config/Movies.yml' },
+      ],
+    },
+  },
+};
+
+describe('lint rule registry', () => {
+  it('should list builtin rules with their metadata', () => {
+    const rules = listRules();
+
+    expect(rules.map((rule) => rule.id)).toContain('plex-credentials');
+    expect(rules.find((rule) => rule.id === 'unknown-template-variable')).toEqual({
+      id: 'unknown-template-variable',
+      severity: 'warning',
+      description: expect.any(String),
+      docs: expect.stringMatching(/^https:\/\/kometa\.wiki\//),
+      fixable: true,
+    });
+  });
+
+  it('should reject duplicate rule ids', () => {
+    expect(() => registerRule({ ...getRule('no-libraries')!, check: () => [] })).toThrow(
+      'Duplicate lint rule id: no-libraries'
+    );
+  });
+
+  it('should run custom rules', () => {
+    registerRule({
+      id: 'test-library-name',
+      severity: 'warning',
+      description: 'Library names must not contain spaces',
+      check: ({ config }) =>
+        Object.keys(config.libraries ?? {})
+          .filter((name) => name.includes(' '))
+          .map((name) => ({ path: ['libraries', name], message: 'Name contains a space' })),
+    });
+
+    const issues = runRules({ config: { libraries: { 'TV Shows': { overlay_files: [] } } } });
+
+    expect(issues).toContainEqual({
+      type: 'warning',
+      path: ['libraries', 'TV Shows'],
+      message: 'Name contains a space',
+      code: 'test-library-name',
+    });
+  });
+});
+
+describe('runRules', () => {
+  it('should report rule ids, docs and fixability', () => {
+    const issues = runRules({ config });
+
+    expect(issues.map((issue) => [issue.code, issue.type, issue.fixable])).toEqual([
+      ['default-kind-mismatch', 'error', true],
+      ['unknown-template-variable', 'warning', true],
+      ['absolute-file-path', 'warning', true],
+    ]);
+    expect(issues[0].docs).toBeDefined();
+  });
+
+  it('should disable and re-level rules', () => {
+    const issues = runRules(
+      { config },
+      { 'default-kind-mismatch': 'off', 'absolute-file-path': 'error' }
+    );
+
+    expect(issues.map((issue) => [issue.code, issue.type])).toEqual([
+      ['unknown-template-variable', 'warning'],
+      ['absolute-file-path', 'error'],
+    ]);
+  });
+
+  it('should only mark issues the rule can fix as fixable', () => {
+    const issues = runRules({
+      config: { libraries: { Movies: { collection_files: [{ file: '/data/Movies.yml' }] } } },
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].fixable).toBeUndefined();
+  });
+
+  it('should only ask for an AniDB login when mature content is enabled', () => {
+    const anidb = { enabled: true, client: 'kometa', version: 1 };
+    const anidbIssues = (config: KometaConfig) =>
+      runRules({ config })
+        .filter((issue) => issue.code === 'anidb-credentials')
+        .map((issue) => issue.path);
+
+    expect(anidbIssues({ anidb })).toEqual([]);
+    expect(anidbIssues({ anidb: { ...anidb, enable_mature: true } })).toEqual([
+      ['anidb', 'username'],
+    ]);
+  });
+
+  it('should warn when a library server is missing from the profile', () => {
+    const issues = runRules({
+      config: {
+        libraries: {
+          Movies: { plex: { server: 'uhd' }, collection_files: [{ default: 'imdb' }] },
+        },
+      },
+      profile: { name: 'Test', secrets: { plex_servers: { other: { url: 'http://other' } } } },
+    });
+
+    expect(
+      issues.filter((issue) => issue.code === 'library-plex-server').map((issue) => issue.path)
+    ).toEqual([['libraries', 'Movies', 'plex', 'server']]);
+  });
+
+  it('should warn when MyAnimeList has not been authorized', () => {
+    const issues = runRules({
+      config: { mal: { enabled: true, client_id: 'client' } },
+      profile: {
+        name: 'Test',
+        secrets: { mal: { client_secret: 'secret' } },
+      },
+    });
+
+    expect(
+      issues.filter((issue) => issue.code === 'mal-credentials').map((issue) => issue.path)
+    ).toEqual([['mal', 'authorization']]);
+  });
+});
+
+describe('applyRuleFix', () => {
+  it('should remove unknown template variables', () => {
+    const fixed = applyRuleFix(config, 'unknown-template-variable', [
+      'libraries',
+      'Movies',
+      'collection_files',
+      '0',
+      'template_variables',
+      'starting',
+    ]);
+
+    expect(fixed?.libraries?.Movies.collection_files?.[0]).toEqual({
+      default: 'imdb',
+      template_variables: { use_all: true },
+    });
+    // The original config is left untouched
+    expect(config.libraries?.Movies.collection_files?.[0]).toHaveProperty(
+      'template_variables.starting'
+    );
+  });
+
+  it('should move defaults to the list of their kind', () => {
+    const fixed = applyRuleFix(config, 'default-kind-mismatch', [
+      'libraries',
+      'Movies',
+      'collection_files',
+      '1',
+      'default',
+    ]);
+
+    expect(fixed?.libraries?.Movies.collection_files).toHaveLength(2);
+    expect(fixed?.libraries?.Movies.overlay_files).toEqual([{ default: 'ribbon' }]);
+  });
+
+  it('should make Docker config paths relative', () => {
+    const fixed = applyRuleFix(config, 'absolute-file-path', [
+      'libraries',
+      'Movies',
+      'collection_files',
+      '2',
+      'file',
+    ]);
+
+    expect(fixed?.libraries?.Movies.collection_files?.[2]).toEqual({ file: 'config/Movies.yml' });
+  });
+
+  it('should enable the integrations a webhook is sent to', () => {
+    const webhooks: KometaConfig = {
+      notifiarr: { enabled: true },
+      webhooks: { error: ['notifiarr', 'gotify'] },
+    };
+
+    expect(runRules({ config: webhooks }).map((issue) => issue.message)).toContain(
+      'The error webhook is sent to gotify, which is not enabled'
+    );
+    expect(applyRuleFix(webhooks, 'webhook-integration-disabled', ['webhooks', 'error'])).toEqual({
+      ...webhooks,
+      gotify: { enabled: true },
+    });
+  });
+
+  it('should return undefined for rules without a fix', () => {
+    expect(applyRuleFix(config, 'no-libraries', ['libraries'])).toBeUndefined();
+    expect(applyRuleFix(config, 'missing-rule', ['libraries'])).toBeUndefined();
+  });
+});
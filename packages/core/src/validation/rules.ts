@@ -0,0 +1,93 @@
+import type { KometaConfig } from '../schemas/config.schema.js';
+import type { Profile } from '../schemas/profile.schema.js';
+import type { LintRuleInfo, RuleSettings, ValidationIssue } from '../schemas/validation.schema.js';
+import { BUILTIN_RULES } from './builtin-rules.js';
+
+export interface RuleContext {
+  config: KometaConfig;
+  profile?: Profile;
+}
+
+export interface RuleFinding {
+  path: string[];
+  message: string;
+}
+
+export interface LintRule {
+  /** Stable id, reported as the `code` of every issue the rule finds */
+  id: string;
+  severity: 'error' | 'warning';
+  description: string;
+  docs?: string;
+  check: (context: RuleContext) => RuleFinding[];
+  /**
+   * Returns a fixed copy of the config for an issue at `path`, or undefined
+   * when that particular issue cannot be fixed automatically
+   */
+  fix?: (config: KometaConfig, path: string[]) => KometaConfig | undefined;
+}
+
+const registry = new Map<string, LintRule>();
+
+/**
+ * Adds a rule to the registry. Rule ids must be unique.
+ */
+export function registerRule(rule: LintRule): void {
+  if (registry.has(rule.id)) {
+    throw new Error(`Duplicate lint rule id: ${rule.id}`);
+  }
+  registry.set(rule.id, rule);
+}
+
+export function getRule(id: string): LintRule | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Lists every registered rule in registration order
+ */
+export function listRules(): LintRuleInfo[] {
+  return [...registry.values()].map((rule) => ({
+    id: rule.id,
+    severity: rule.severity,
+    description: rule.description,
+    docs: rule.docs,
+    fixable: Boolean(rule.fix),
+  }));
+}
+
+/**
+ * Runs every enabled rule. `settings` disables rules ('off') or overrides the
+ * severity they report at.
+ */
+export function runRules(context: RuleContext, settings: RuleSettings = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const rule of registry.values()) {
+    const level = settings[rule.id] ?? rule.severity;
+    if (level === 'off') continue;
+
+    for (const finding of rule.check(context)) {
+      const issue: ValidationIssue = { type: level, ...finding, code: rule.id };
+      if (rule.docs) issue.docs = rule.docs;
+      if (rule.fix?.(context.config, finding.path)) issue.fixable = true;
+      issues.push(issue);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Applies the autofix of a rule to the issue at `path`. Returns undefined when
+ * the rule does not exist or cannot fix that issue.
+ */
+export function applyRuleFix(
+  config: KometaConfig,
+  ruleId: string,
+  path: string[]
+): KometaConfig | undefined {
+  return registry.get(ruleId)?.fix?.(config, path);
+}
+
+BUILTIN_RULES.forEach(registerRule);
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { nextScheduledDays, parseSchedule } from './schedule.js';
+
+// Formats days as MM/DD for readable expectations
+const runs = (schedule: string, from: Date, count?: number) =>
+  nextScheduledDays(schedule, from, count).map(
+    (date) => `${date.getMonth() + 1}/${date.getDate()}`
+  );
+
+describe('parseSchedule', () => {
+  it('should parse every kind of option', () => {
+    expect(
+      parseSchedule(
+        'daily, hourly(03), hourly(22-02), weekly(sunday|Wednesday), monthly(15), yearly(02/29), range(12/01-12/31|01/01-01/07), never'
+      )
+    ).toEqual([
+      { type: 'daily' },
+      { type: 'hourly', start: 3, end: 3 },
+      { type: 'hourly', start: 22, end: 2 },
+      { type: 'weekly', days: [0, 3] },
+      { type: 'monthly', day: 15 },
+      { type: 'yearly', date: { month: 2, day: 29 } },
+      {
+        type: 'range',
+        ranges: [
+          { start: { month: 12, day: 1 }, end: { month: 12, day: 31 } },
+          { start: { month: 1, day: 1 }, end: { month: 1, day: 7 } },
+        ],
+      },
+      { type: 'never' },
+    ]);
+  });
+
+  it('should parse all[...] with its own comma separated options', () => {
+    expect(parseSchedule('all[weekly(sunday), hourly(17)], not_scheduled')).toEqual([
+      {
+        type: 'all',
+        options: [
+          { type: 'weekly', days: [0] },
+          { type: 'hourly', start: 17, end: 17 },
+        ],
+      },
+      { type: 'not_scheduled' },
+    ]);
+  });
+
+  it.each([
+    ['weekly(sundy)', 'Unknown day "sundy" in weekly(sundy)'],
+    ['hourly(24)', 'Hour "24" in hourly(24) must be between 0 and 23'],
+    ['range(12/01)', '"12/01" in range(12/01) is not a MM/DD-MM/DD range'],
+    ['yearly(02/30)', 'Day "30" in yearly(02/30) must be between 1 and 29'],
+    ['monthly()', 'monthly() needs a value'],
+    ['weekley(sunday)', 'Unknown schedule "weekley" in weekley(sunday)'],
+    ['all[weekly(sunday)', 'Unclosed bracket in "all[weekly(sunday)"'],
+    ['dialy', 'Unknown schedule "dialy"'],
+    ['daily,', 'Empty schedule option'],
+  ])('should reject %s', (expression, message) => {
+    expect(() => parseSchedule(expression)).toThrow(message);
+  });
+});
+
+describe('nextScheduledDays', () => {
+  // A Friday
+  const from = new Date(2026, 0, 30);
+
+  it('should list matching days starting from the given one', () => {
+    expect(runs('weekly(sunday|friday)', from, 4)).toEqual(['1/30', '2/1', '2/6', '2/8']);
+    expect(runs('daily', from, 3)).toEqual(['1/30', '1/31', '2/1']);
+  });
+
+  it('should run monthly days past the end of a month on its last day', () => {
+    expect(runs('monthly(31)', from, 3)).toEqual(['1/31', '2/28', '3/31']);
+  });
+
+  it('should wrap ranges around the new year and combine all[...] options', () => {
+    expect(runs('range(12/30-01/02)', new Date(2026, 11, 1), 4)).toEqual([
+      '12/30',
+      '12/31',
+      '1/1',
+      '1/2',
+    ]);
+    expect(runs('all[range(02/01-02/28), weekly(monday)]', from, 5)).toEqual([
+      '2/2',
+      '2/9',
+      '2/16',
+      '2/23',
+      '2/1',
+    ]);
+  });
+
+  it('should return nothing for schedules that never run by date', () => {
+    expect(runs('never, non_existing', from)).toEqual([]);
+  });
+});
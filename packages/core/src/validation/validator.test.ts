@@ -125,6 +125,222 @@ describe('validateConfig', () => {
   });
 });
 
+describe('validateConfig file entries', () => {
+  const codes = (config: KometaConfig) => {
+    const result = validateConfig(config);
+    return [...result.errors, ...result.warnings].map((issue) => issue.code).filter(Boolean);
+  };
+
+  it('should accept known defaults and their template variables', () => {
+    const config: KometaConfig = {
+      libraries: {
+        Movies: {
+          collection_files: [
+            { default: 'oscars', template_variables: { use_year_collections: false, data: {} } },
+            { default: 'year', template_variables: { starting: 1980, sort_by: 'title.asc' } },
+          ],
+          overlay_files: [
+            { default: 'ratings', template_variables: { rating1_image: 'imdb' } },
+            { default: 'resolution', template_variables: { horizontal_offset: 15 } },
+          ],
+        },
+      },
+    };
+
+    expect(codes(config)).toEqual([]);
+  });
+
+  it('should report unknown defaults and reject defaults of the wrong kind', () => {
+    const result = validateConfig({
+      libraries: {
+        Movies: {
+          collection_files: [{ default: 'not_a_default' }, { default: 'audio_codec' }],
+          metadata_files: [{ default: 'imdb' }],
+        },
+      },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((issue) => [issue.code, issue.path.join('.')])).toEqual([
+      ['default-kind-mismatch', 'libraries.Movies.collection_files.1.default'],
+    ]);
+    // The catalogue trails Kometa releases, so unknown names are only warnings
+    expect(
+      result.warnings
+        .filter((issue) => issue.code === 'unknown-default')
+        .map((issue) => issue.path.join('.'))
+    ).toEqual([
+      'libraries.Movies.collection_files.0.default',
+      'libraries.Movies.metadata_files.0.default',
+    ]);
+  });
+
+  it('should warn about template variables a default does not use', () => {
+    const result = validateConfig({
+      libraries: {
+        Movies: {
+          overlay_files: [{ default: 'ribbon', template_variables: { starting: 1980 } }],
+        },
+      },
+    });
+
+    expect(result.warnings).toContainEqual(
+      expect.objectContaining({
+        code: 'unknown-template-variable',
+        path: ['libraries', 'Movies', 'overlay_files', '0', 'template_variables', 'starting'],
+      })
+    );
+  });
+
+  it('should flag absolute and escaping file paths', () => {
+    expect(
+      codes({
+        libraries: {
+          Movies: {
+            collection_files: [
+              { file: 'config/Movies.yml' },
+              { file: '/config/Movies.yml' },
+              { file: 'C:\\Kometa\\Movies.yml' },
+              { file: 'config/../../Movies.yml' },
+            ],
+          },
+        },
+      })
+    ).toEqual(['absolute-file-path', 'absolute-file-path', 'file-outside-config']);
+  });
+
+  it('should require custom_repo for repo entries only', () => {
+    const libraries = {
+      Movies: { collection_files: [{ repo: 'Movies.yml' }, { git: 'PMM/chart/imdb' }] },
+    };
+
+    expect(codes({ libraries })).toEqual(['repo-without-custom-repo']);
+    expect(codes({ libraries, settings: { custom_repo: 'https://example.com/repo' } })).toEqual([]);
+  });
+
+  it('should check playlist libraries against the config', () => {
+    const result = validateConfig({
+      libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+      playlist_files: [
+        { default: 'playlist', template_variables: { libraries: 'Movies, Anime' } },
+        { default: 'imdb' },
+        { file: 'config/Playlists.yml' },
+      ],
+      local_files: {
+        'config/Playlists.yml': {
+          playlists: { Marvel: { libraries: [] }, DC: { libraries: 'Movies' } },
+        },
+      },
+    });
+
+    expect(result.errors.map((issue) => [issue.code, issue.message])).toEqual([
+      ['default-kind-mismatch', '"imdb" is a collection default, not a playlist default'],
+      ['playlist-libraries', 'The playlist uses library "Anime", which is not in the config'],
+      ['playlist-libraries', 'Playlist "Marvel" has no libraries'],
+    ]);
+  });
+
+  it('should warn about excluded users that are not synced to', () => {
+    const libraries = { Movies: { collection_files: [{ default: 'imdb' }] } };
+    const playlist_files = [
+      { default: 'playlist', template_variables: { libraries: 'Movies', exclude_users: 'bob' } },
+    ];
+
+    expect(
+      codes({ libraries, playlist_files, settings: { playlist_sync_to_users: 'all' } })
+    ).toEqual([]);
+    expect(
+      validateConfig({ libraries, playlist_files, settings: { playlist_sync_to_users: ['bob'] } })
+        .warnings[0].message
+    ).toBe('The playlist both syncs to and excludes "bob"');
+    expect(
+      codes({ libraries, playlist_files, settings: { playlist_sync_to_users: 'none' } })
+    ).toEqual(['playlist-users']);
+  });
+
+  it('should warn about metadata that is not keyed by ID or number', () => {
+    const result = validateConfig({
+      libraries: { TV: { metadata_files: [{ file: 'config/TV.yml' }] } },
+      local_files: {
+        'config/TV.yml': {
+          metadata: {
+            '81189': { title: 'Breaking Bad', seasons: { '1': { episodes: { '1': {} } } } },
+            Firefly: { summary: 'Matched by title' },
+            Serenity: { match: { title: 'Serenity' } },
+            '73255': { seasons: { Specials: { episodes: { first: {} } } } },
+          },
+        },
+      },
+    });
+
+    expect(result.warnings.map((issue) => [issue.code, issue.message])).toEqual([
+      ['metadata-ids', 'Season "Specials" of "73255" in config/TV.yml is not a season number'],
+      [
+        'metadata-ids',
+        'Episode "first" of "73255" season Specials in config/TV.yml is not an episode number',
+      ],
+      ['metadata-ids', '"Firefly" in config/TV.yml is not keyed by a TMDb or TVDb ID'],
+    ]);
+  });
+
+  it('should report invalid schedules', () => {
+    const result = validateConfig({
+      libraries: {
+        Movies: {
+          schedule: 'weekly(sundy)',
+          collection_files: [{ default: 'imdb', schedule: 'range(12/01-12/31)' }],
+        },
+      },
+      local_files: {
+        'config/Movies.yml': { collections: { Holidays: { schedule: 'monthly(32)' } } },
+      },
+    });
+
+    expect(result.errors.map((issue) => [issue.path.join('.'), issue.message])).toEqual([
+      [
+        'libraries.Movies.schedule',
+        'Invalid schedule "weekly(sundy)": Unknown day "sundy" in weekly(sundy)',
+      ],
+      [
+        'local_files.config/Movies.yml.collections.Holidays.schedule',
+        'Invalid schedule "monthly(32)": Day "32" in monthly(32) must be between 1 and 31',
+      ],
+    ]);
+  });
+
+  it('should report secret references the profile cannot satisfy', () => {
+    const config: KometaConfig = {
+      extras: {
+        found: '{{secret:profile.extras.notifiarr.apikey}}',
+        missing: '{{secret:profile.extras.notifiarr.token}}',
+        malformed: '{{secret:notifiarr.apikey}}',
+      },
+    };
+    const profile: Profile = {
+      name: 'Test',
+      secrets: { extras: { notifiarr: { apikey: 'key' } } },
+    };
+
+    const result = validateConfig(config, profile);
+
+    expect(
+      result.errors
+        .filter((issue) => issue.code === 'unresolved-secret-reference')
+        .map((issue) => issue.path.join('.'))
+    ).toEqual(['extras.missing', 'extras.malformed']);
+  });
+
+  it('should leave out suppressed rules', () => {
+    const config: KometaConfig = {
+      libraries: { Movies: { collection_files: [{ default: 'not_a_default' }] } },
+    };
+
+    const result = validateConfig(config, undefined, { suppress: ['unknown-default'] });
+
+    expect(result.warnings.map((issue) => issue.code)).not.toContain('unknown-default');
+  });
+});
+
 describe('maskSecret', () => {
   it('should mask long secrets', () => {
     const masked = maskSecret('abcdefghijklmnop');
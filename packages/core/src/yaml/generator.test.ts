@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { generateYaml } from './generator.js';
 import type { KometaConfig } from '../schemas/config.schema.js';
+import { parseKometaDocument } from './parser.js';
+import { toSourceYaml } from './document.js';
 
 describe('YAML Generator', () => {
   it('should generate YAML with correct order', () => {
@@ -28,6 +30,27 @@ describe('YAML Generator', () => {
     expect(tmdbPos).toBeLessThan(librariesPos);
   });
 
+  it("should inject a library's own Plex server from the profile", () => {
+    const config: KometaConfig = {
+      libraries: {
+        'Movies 4K': { plex: { server: 'uhd', timeout: 120 } },
+      },
+    };
+    const profile = {
+      id: 'test',
+      name: 'Test',
+      secrets: { plex_servers: { uhd: { url: 'http://uhd:32400', token: 'uhd_token' } } },
+      createdAt: '',
+      updatedAt: '',
+    };
+
+    const yaml = generateYaml({ config, profile, mode: 'full', includeComment: false });
+
+    expect(yaml).toContain('    plex:\n      timeout: 120\n      url: http://uhd:32400\n');
+    expect(yaml).toContain('token: uhd_token');
+    expect(yaml).not.toContain('server:');
+  });
+
   it('should preserve collection_files order', () => {
     const config: KometaConfig = {
       libraries: {
@@ -76,6 +99,22 @@ describe('YAML Generator', () => {
     expect(yaml).toContain('collection');
   });
 
+  it('should write playlist_files after libraries', () => {
+    const config: KometaConfig = {
+      libraries: { Movies: { collection_files: [{ default: 'imdb' }] } },
+      playlist_files: [
+        { default: 'playlist', template_variables: { libraries: 'Movies', sync_to_users: 'all' } },
+      ],
+    };
+
+    const yaml = generateYaml({ config, mode: 'template' });
+
+    expect(yaml.indexOf('libraries:')).toBeLessThan(yaml.indexOf('playlist_files:'));
+    expect(yaml).toContain(
+      '  - default: playlist\n    template_variables:\n      libraries: Movies'
+    );
+  });
+
   it('should not include secrets in template mode', () => {
     const config: KometaConfig = {
       plex: { enabled: true },
@@ -148,6 +187,68 @@ describe('YAML Generator', () => {
     expect(yaml).toContain('localhost:32400');
   });
 
+  it('should fill in secret references by mode', () => {
+    const config: KometaConfig = {
+      libraries: {
+        Movies: {
+          collection_files: [
+            {
+              default: 'imdb',
+              template_variables: { url: 'https://example.com/{{secret:profile.extras.list.key}}' },
+            },
+          ],
+        },
+      },
+      extras: { notifiarr_key: '{{secret:profile.extras.notifiarr.apikey}}' },
+    };
+    const profile = {
+      id: 'test',
+      name: 'Test',
+      secrets: { extras: { notifiarr: { apikey: 'notifiarr-key-12345' } } },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const full = generateYaml({ config, profile, mode: 'full' });
+    expect(full).toContain('notifiarr_key: notifiarr-key-12345');
+    // The profile has no list key, so Kometa has to get it from the environment
+    expect(full).toContain('url: https://example.com/<<EXTRAS_LIST_KEY>>');
+
+    expect(generateYaml({ config, profile, mode: 'masked' })).toContain(
+      'notifiarr_key: noti****2345'
+    );
+    expect(generateYaml({ config, profile, mode: 'template' })).toContain(
+      'notifiarr_key: <<EXTRAS_NOTIFIARR_APIKEY>>'
+    );
+  });
+
+  it('should write secrets as environment placeholders in env mode', () => {
+    const config: KometaConfig = {
+      plex: { timeout: 60 },
+      tmdb: { language: 'en' },
+      extras: { notifiarr_key: '{{secret:profile.extras.notifiarr.apikey}}' },
+    };
+    const profile = {
+      id: 'test',
+      name: 'Test',
+      secrets: {
+        plex: { url: 'http://localhost:32400', token: 'plex-token-12345' },
+        tmdb: { apikey: 'tmdb-key-67890' },
+        extras: { notifiarr: { apikey: 'notifiarr-key-12345' } },
+      },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const yaml = generateYaml({ config, profile, mode: 'env' });
+    expect(yaml).toContain('token: <<PLEX_TOKEN>>');
+    expect(yaml).toContain('url: <<PLEX_URL>>');
+    expect(yaml).toContain('apikey: <<TMDB_APIKEY>>');
+    expect(yaml).toContain('notifiarr_key: <<EXTRAS_NOTIFIARR_APIKEY>>');
+    expect(yaml).not.toContain('plex-token-12345');
+    expect(yaml).toContain('secrets from environment variables');
+  });
+
   it('should add appropriate comments based on mode', () => {
     const config: KometaConfig = { settings: { cache: true } };
 
@@ -169,4 +270,21 @@ describe('YAML Generator', () => {
     expect(yaml).not.toContain('#');
     expect(yaml).toContain('settings:');
   });
+
+  it('should patch the source document when one is given', () => {
+    const source = `# hand-written
+libraries:
+  Movies:
+    collection_files:
+      - default: imdb # charts
+settings:
+  cache: true
+`;
+    const { config, document } = parseKometaDocument(source);
+    config.settings = { ...config.settings, cache: false };
+
+    const yaml = generateYaml({ config, mode: 'template', sourceYaml: toSourceYaml(document) });
+
+    expect(yaml).toBe(source.replace('cache: true', 'cache: false'));
+  });
 });
@@ -71,6 +71,38 @@ libraries:
     });
   });
 
+  it('should parse playlist_files', () => {
+    const yaml = `
+libraries:
+  Movies:
+    collection_files:
+      - default: imdb
+playlist_files:
+  - default: playlist
+    template_variables:
+      libraries: Movies, TV Shows
+      sync_to_users: all
+      exclude_users:
+        - guest
+  - file: config/Playlists.yml
+`;
+
+    const config = parseKometaYaml(yaml, true);
+
+    expect(config.playlist_files).toEqual([
+      {
+        default: 'playlist',
+        template_variables: {
+          libraries: 'Movies, TV Shows',
+          sync_to_users: 'all',
+          exclude_users: ['guest'],
+        },
+      },
+      { file: 'config/Playlists.yml' },
+    ]);
+    expect(config.extras).toBeUndefined();
+  });
+
   it('should handle empty libraries', () => {
     const yaml = `
 libraries:
@@ -138,6 +170,42 @@ radarr:
     expect(secrets.radarr?.token).toBe('radarr-token');
   });
 
+  it('should extract notification secrets and custom webhook URLs', () => {
+    const yaml = `
+webhooks:
+  error: [notifiarr, https://discord.com/api/webhooks/1/a]
+notifiarr:
+  apikey: notifiarr-key
+ntfy:
+  url: https://ntfy.sh
+  topic: kometa
+`;
+
+    const secrets = extractSecretsFromYaml(yaml);
+
+    expect(secrets.notifiarr?.apikey).toBe('notifiarr-key');
+    expect(secrets.ntfy).toEqual({ url: 'https://ntfy.sh' });
+    expect(secrets.webhooks).toEqual({ error: ['https://discord.com/api/webhooks/1/a'] });
+  });
+
+  it('should extract metadata source secrets', () => {
+    const yaml = `
+omdb:
+  apikey: omdb-key
+anidb:
+  username: user
+mal:
+  client_id: client
+  client_secret: secret
+`;
+
+    const secrets = extractSecretsFromYaml(yaml);
+
+    expect(secrets.omdb?.apikey).toBe('omdb-key');
+    expect(secrets.anidb).toEqual({ username: 'user' });
+    expect(secrets.mal).toEqual({ client_secret: 'secret' });
+  });
+
   it('should return empty object for invalid YAML', () => {
     const secrets = extractSecretsFromYaml('not an object');
     expect(secrets).toEqual({});
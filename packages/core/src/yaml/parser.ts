@@ -1,6 +1,27 @@
 import YAML from 'yaml';
-import type { KometaConfig } from '../schemas/config.schema.js';
-import { KometaConfigSchema } from '../schemas/config.schema.js';
+import { collectAnchors, isCustomWebhook } from './document.js';
+import { createPathLocator } from './positions.js';
+import type { KometaConfig, WebhookService, WebhooksConfig } from '../schemas/config.schema.js';
+import {
+  KometaConfigSchema,
+  WebhookEventSchema,
+  WebhookServiceSchema,
+} from '../schemas/config.schema.js';
+import { OperationsSchema } from '../schemas/operations.schema.js';
+import type { ValidationIssue } from '../schemas/validation.schema.js';
+
+/**
+ * Thrown when YAML cannot be imported, with each problem located in the source
+ */
+export class YamlImportError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = 'YamlImportError';
+  }
+}
 
 /**
  * Extracts known keys from an object and puts the rest in extras
@@ -30,11 +51,80 @@ function extractWithExtras<T extends Record<string, unknown>>(
   };
 }
 
+interface LibraryPlexServers {
+  /** Profile server name of every library with its own Plex URL or token */
+  names: Record<string, string>;
+  servers: Record<string, { url?: string; token?: string }>;
+}
+
+/**
+ * Names the Plex servers libraries point at through their own `plex` block.
+ * Libraries sharing a URL and token share one server, named after the first.
+ */
+function libraryPlexServers(libraries: unknown): LibraryPlexServers {
+  const names: Record<string, string> = {};
+  const servers: Record<string, { url?: string; token?: string }> = {};
+  if (!libraries || typeof libraries !== 'object') return { names, servers };
+
+  for (const [libraryName, library] of Object.entries(libraries)) {
+    const plex = (library as Record<string, unknown> | null)?.plex as
+      | Record<string, unknown>
+      | undefined;
+    if (!plex || typeof plex !== 'object') continue;
+
+    const url = typeof plex.url === 'string' ? plex.url : undefined;
+    const token = typeof plex.token === 'string' ? plex.token : undefined;
+    if (!url && !token) continue;
+
+    const shared = Object.keys(servers).find(
+      (name) => servers[name].url === url && servers[name].token === token
+    );
+    if (!shared) {
+      servers[libraryName] = {};
+      if (url) servers[libraryName].url = url;
+      if (token) servers[libraryName].token = token;
+    }
+    names[libraryName] = shared ?? libraryName;
+  }
+
+  return { names, servers };
+}
+
 /**
  * Parses Kometa YAML and preserves unknown keys in extras fields
  */
 export function parseKometaYaml(yamlString: string, preserveExtras = true): KometaConfig {
-  const parsed = YAML.parse(yamlString);
+  return parseKometaDocument(yamlString, preserveExtras).config;
+}
+
+/**
+ * Parses Kometa YAML and also returns the source document, so comments, key
+ * order and anchors can be kept when the config is written back out
+ */
+export function parseKometaDocument(
+  yamlString: string,
+  preserveExtras = true
+): { config: KometaConfig; document: YAML.Document } {
+  // Kometa resolves `<<` merge keys, so the config sees the merged values
+  const document = YAML.parseDocument(yamlString, { merge: true });
+  if (document.errors.length > 0) {
+    const [error] = document.errors;
+    const [start, end] = error.linePos ?? [];
+    throw new YamlImportError(error.message, [
+      {
+        type: 'error',
+        path: [],
+        message: error.message,
+        code: error.code,
+        range: start && {
+          start: { line: start.line, column: start.col },
+          end: { line: (end ?? start).line, column: (end ?? start).col },
+        },
+      },
+    ]);
+  }
+
+  const parsed = document.toJS();
 
   if (!parsed || typeof parsed !== 'object') {
     throw new Error('Invalid YAML: expected an object');
@@ -52,7 +142,16 @@ export function parseKometaYaml(yamlString: string, preserveExtras = true): Kome
     'radarr',
     'sonarr',
     'trakt',
+    'omdb',
+    'anidb',
+    'mal',
+    'github',
+    'notifiarr',
+    'gotify',
+    'ntfy',
+    'webhooks',
     'libraries',
+    'playlist_files',
   ];
 
   // Settings
@@ -195,11 +294,87 @@ export function parseKometaYaml(yamlString: string, preserveExtras = true): Kome
     config.trakt = preserveExtras ? { enabled: true, ...data, extras } : { enabled: true, ...data };
   }
 
+  // OMDb
+  if (parsed.omdb) {
+    const omdbKnownKeys = ['cache_expiration'];
+    const omdbSecretKeys = ['apikey'];
+    const { data, extras } = extractWithExtras(parsed.omdb, omdbKnownKeys, omdbSecretKeys);
+    config.omdb = preserveExtras ? { enabled: true, ...data, extras } : { enabled: true, ...data };
+  }
+
+  // AniDB
+  if (parsed.anidb) {
+    const anidbKnownKeys = ['client', 'version', 'language', 'cache_expiration', 'enable_mature'];
+    const anidbSecretKeys = ['username', 'password'];
+    const { data, extras } = extractWithExtras(parsed.anidb, anidbKnownKeys, anidbSecretKeys);
+    config.anidb = preserveExtras ? { enabled: true, ...data, extras } : { enabled: true, ...data };
+  }
+
+  // MyAnimeList
+  if (parsed.mal) {
+    const malKnownKeys = ['client_id', 'localhost_url', 'cache_expiration'];
+    const malSecretKeys = ['client_secret', 'authorization'];
+    const { data, extras } = extractWithExtras(parsed.mal, malKnownKeys, malSecretKeys);
+    config.mal = preserveExtras ? { enabled: true, ...data, extras } : { enabled: true, ...data };
+  }
+
+  // GitHub
+  if (parsed.github) {
+    const githubSecretKeys = ['token'];
+    const { data, extras } = extractWithExtras(parsed.github, [], githubSecretKeys);
+    config.github = preserveExtras
+      ? { enabled: true, ...data, extras }
+      : { enabled: true, ...data };
+  }
+
+  // Notifiarr
+  if (parsed.notifiarr) {
+    const notifiarrSecretKeys = ['apikey'];
+    const { data, extras } = extractWithExtras(parsed.notifiarr, [], notifiarrSecretKeys);
+    config.notifiarr = preserveExtras
+      ? { enabled: true, ...data, extras }
+      : { enabled: true, ...data };
+  }
+
+  // Gotify
+  if (parsed.gotify) {
+    const gotifySecretKeys = ['url', 'token'];
+    const { data, extras } = extractWithExtras(parsed.gotify, [], gotifySecretKeys);
+    config.gotify = preserveExtras
+      ? { enabled: true, ...data, extras }
+      : { enabled: true, ...data };
+  }
+
+  // ntfy
+  if (parsed.ntfy) {
+    const ntfyKnownKeys = ['topic'];
+    const ntfySecretKeys = ['url', 'token'];
+    const { data, extras } = extractWithExtras(parsed.ntfy, ntfyKnownKeys, ntfySecretKeys);
+    config.ntfy = preserveExtras ? { enabled: true, ...data, extras } : { enabled: true, ...data };
+  }
+
+  // Webhooks: events routed to integrations stay in the config, custom URLs
+  // are extracted into the profile
+  if (parsed.webhooks) {
+    const { data, extras } = extractWithExtras(parsed.webhooks, [...WebhookEventSchema.options]);
+    const webhooks: WebhooksConfig = {};
+    for (const [event, targets] of Object.entries(data)) {
+      const services = (Array.isArray(targets) ? targets : [targets]).filter(
+        (target): target is WebhookService => WebhookServiceSchema.safeParse(target).success
+      );
+      if (services.length > 0) {
+        webhooks[WebhookEventSchema.parse(event)] = services;
+      }
+    }
+    config.webhooks = preserveExtras ? { ...webhooks, extras } : webhooks;
+  }
+
   // Libraries
   if (parsed.libraries) {
     config.libraries = {};
     const libraryKnownKeys = [
       'library_name',
+      'plex',
       'template_variables',
       'schedule',
       'run_order',
@@ -211,6 +386,12 @@ export function parseKometaYaml(yamlString: string, preserveExtras = true): Kome
       'settings',
     ];
 
+    const operationKnownKeys = Object.keys(OperationsSchema.shape).filter(
+      (key) => key !== 'extras'
+    );
+    const libraryPlexKnownKeys = ['timeout', 'clean_bundles', 'empty_trash', 'optimize'];
+    const plexServers = libraryPlexServers(parsed.libraries);
+
     for (const [libraryName, libraryConfig] of Object.entries(parsed.libraries)) {
       if (typeof libraryConfig !== 'object' || !libraryConfig) continue;
 
@@ -218,10 +399,40 @@ export function parseKometaYaml(yamlString: string, preserveExtras = true): Kome
         libraryConfig as Record<string, unknown>,
         libraryKnownKeys
       );
+
+      // Unknown operations round-trip through the operations' own extras
+      if (data.operations && typeof data.operations === 'object') {
+        const { data: operations, extras: operationExtras } = extractWithExtras(
+          data.operations as Record<string, unknown>,
+          operationKnownKeys
+        );
+        data.operations = preserveExtras ? { ...operations, extras: operationExtras } : operations;
+      }
+
+      // The URL and token of a library's own Plex server go to the profile
+      if (data.plex && typeof data.plex === 'object') {
+        const { data: plexData, extras: plexExtras } = extractWithExtras(
+          data.plex as Record<string, unknown>,
+          libraryPlexKnownKeys,
+          ['url', 'token']
+        );
+        const server = plexServers.names[libraryName];
+        data.plex = {
+          ...(server ? { server } : {}),
+          ...plexData,
+          ...(preserveExtras && plexExtras ? { extras: plexExtras } : {}),
+        };
+      }
+
       config.libraries[libraryName] = preserveExtras ? { ...data, extras } : data;
     }
   }
 
+  // Playlist files
+  if (Array.isArray(parsed.playlist_files)) {
+    config.playlist_files = parsed.playlist_files;
+  }
+
   // Top-level extras
   if (preserveExtras) {
     const { extras } = extractWithExtras(parsed, topLevelKnownKeys);
@@ -230,13 +441,32 @@ export function parseKometaYaml(yamlString: string, preserveExtras = true): Kome
     }
   }
 
+  // Shared blocks, so they can be written back as anchors and aliases
+  const anchors = collectAnchors(document);
+  if (Object.keys(anchors).length > 0) {
+    config.anchors = anchors;
+  }
+
   // Validate against schema
   const result = KometaConfigSchema.safeParse(config);
   if (!result.success) {
-    throw new Error(`Invalid configuration: ${result.error.message}`);
+    const locate = createPathLocator(yamlString);
+    throw new YamlImportError(
+      `Invalid configuration: ${result.error.message}`,
+      result.error.issues.map((issue) => {
+        const path = issue.path.map(String);
+        return {
+          type: 'error',
+          path,
+          message: issue.message,
+          code: issue.code,
+          range: locate(path),
+        };
+      })
+    );
   }
 
-  return config;
+  return { config, document };
 }
 
 /**
@@ -244,6 +474,7 @@ export function parseKometaYaml(yamlString: string, preserveExtras = true): Kome
  */
 export function extractSecretsFromYaml(yamlString: string): {
   plex?: { url?: string; token?: string };
+  plex_servers?: Record<string, { url?: string; token?: string }>;
   tmdb?: { apikey?: string };
   tautulli?: { url?: string; apikey?: string };
   mdblist?: { apikey?: string };
@@ -253,8 +484,24 @@ export function extractSecretsFromYaml(yamlString: string): {
     client_secret?: string;
     authorization?: { access_token?: string; refresh_token?: string };
   };
+  omdb?: { apikey?: string };
+  anidb?: { username?: string; password?: string };
+  mal?: {
+    client_secret?: string;
+    authorization?: {
+      access_token?: string;
+      token_type?: string;
+      expires_in?: number;
+      refresh_token?: string;
+    };
+  };
+  github?: { token?: string };
+  notifiarr?: { apikey?: string };
+  gotify?: { url?: string; token?: string };
+  ntfy?: { url?: string; token?: string };
+  webhooks?: Record<string, string[]>;
 } {
-  const parsed = YAML.parse(yamlString);
+  const parsed = YAML.parse(yamlString, { merge: true });
 
   if (!parsed || typeof parsed !== 'object') {
     return {};
@@ -269,6 +516,12 @@ export function extractSecretsFromYaml(yamlString: string): {
     if (parsed.plex.token) (secrets.plex as Record<string, string>).token = parsed.plex.token;
   }
 
+  // Extract the Plex servers of libraries with their own plex block
+  const { servers } = libraryPlexServers(parsed.libraries);
+  if (Object.keys(servers).length > 0) {
+    secrets.plex_servers = servers;
+  }
+
   // Extract TMDB secrets
   if (parsed.tmdb?.apikey) {
     secrets.tmdb = { apikey: parsed.tmdb.apikey };
@@ -314,5 +567,71 @@ export function extractSecretsFromYaml(yamlString: string): {
     }
   }
 
+  // Extract OMDb secrets
+  if (parsed.omdb?.apikey) {
+    secrets.omdb = { apikey: parsed.omdb.apikey };
+  }
+
+  // Extract AniDB secrets
+  if (parsed.anidb) {
+    secrets.anidb = {};
+    if (parsed.anidb.username)
+      (secrets.anidb as Record<string, string>).username = parsed.anidb.username;
+    if (parsed.anidb.password)
+      (secrets.anidb as Record<string, string>).password = parsed.anidb.password;
+  }
+
+  // Extract MyAnimeList secrets
+  if (parsed.mal) {
+    secrets.mal = {};
+    if (parsed.mal.client_secret)
+      (secrets.mal as Record<string, unknown>).client_secret = parsed.mal.client_secret;
+    if (parsed.mal.authorization) {
+      (secrets.mal as Record<string, unknown>).authorization = {
+        access_token: parsed.mal.authorization.access_token,
+        token_type: parsed.mal.authorization.token_type,
+        expires_in: parsed.mal.authorization.expires_in,
+        refresh_token: parsed.mal.authorization.refresh_token,
+      };
+    }
+  }
+
+  // Extract GitHub secrets
+  if (parsed.github?.token) {
+    secrets.github = { token: parsed.github.token };
+  }
+
+  // Extract Notifiarr secrets
+  if (parsed.notifiarr?.apikey) {
+    secrets.notifiarr = { apikey: parsed.notifiarr.apikey };
+  }
+
+  // Extract Gotify secrets
+  if (parsed.gotify) {
+    secrets.gotify = {};
+    if (parsed.gotify.url) (secrets.gotify as Record<string, string>).url = parsed.gotify.url;
+    if (parsed.gotify.token) (secrets.gotify as Record<string, string>).token = parsed.gotify.token;
+  }
+
+  // Extract ntfy secrets
+  if (parsed.ntfy) {
+    secrets.ntfy = {};
+    if (parsed.ntfy.url) (secrets.ntfy as Record<string, string>).url = parsed.ntfy.url;
+    if (parsed.ntfy.token) (secrets.ntfy as Record<string, string>).token = parsed.ntfy.token;
+  }
+
+  // Extract custom webhook URLs
+  if (parsed.webhooks && typeof parsed.webhooks === 'object') {
+    const webhooks: Record<string, string[]> = {};
+    for (const event of WebhookEventSchema.options) {
+      const targets = parsed.webhooks[event];
+      const urls = (Array.isArray(targets) ? targets : [targets]).filter(isCustomWebhook);
+      if (urls.length > 0) webhooks[event] = urls;
+    }
+    if (Object.keys(webhooks).length > 0) {
+      secrets.webhooks = webhooks;
+    }
+  }
+
   return secrets;
 }
@@ -0,0 +1,347 @@
+import type { KometaConfig } from '../schemas/config.schema.js';
+
+/**
+ * Semantic config diff and merge. Unlike a plain structural diff, libraries
+ * are compared by name and collection, overlay, metadata and playlist file
+ * lists entry by entry, so inserting a file does not show up as a change to
+ * every entry after it. File entries are identified by their source, such as
+ * `default:imdb`, which takes the place of the list index in change paths.
+ */
+
+export class ConfigMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigMergeError';
+  }
+}
+
+export type SemanticChangeKind = 'added' | 'removed' | 'changed' | 'reordered';
+
+export interface SemanticChange {
+  kind: SemanticChangeKind;
+  /** Path of the changed value, with file entries named by their key */
+  path: string[];
+  /** Old value, or the entry keys in their old order when a list was reordered */
+  before?: unknown;
+  /** New value, or the entry keys in their new order when a list was reordered */
+  after?: unknown;
+}
+
+export interface MergeConflict {
+  /** Path of the value both sides changed, with file entries named by their key */
+  path: string[];
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface MergeResult {
+  /** The merged config, keeping our side of every conflict */
+  config: KometaConfig;
+  conflicts: MergeConflict[];
+}
+
+type Keyed = Record<string, unknown>;
+
+const LIBRARY_FILE_LISTS = ['collection_files', 'overlay_files', 'metadata_files'];
+
+// Keys a file entry names its source with, in the order they are looked for
+const ENTRY_SOURCES = ['default', 'file', 'url', 'git', 'repo'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, index) => part === b[index]);
+}
+
+function isFileList(path: string[]): boolean {
+  if (path.length === 1) return path[0] === 'playlist_files';
+  return path.length === 3 && path[0] === 'libraries' && LIBRARY_FILE_LISTS.includes(path[2]);
+}
+
+/**
+ * Key a file entry is identified by: its source, such as default:imdb or
+ * file:config/Movies.yml. Repeated sources are numbered, as in default:studio#2.
+ */
+function entryKey(entry: unknown, taken: Set<string>): string {
+  const source = isPlainObject(entry)
+    ? ENTRY_SOURCES.find((name) => typeof entry[name] === 'string')
+    : undefined;
+  const base = source ? `${source}:${(entry as Keyed)[source]}` : JSON.stringify(entry);
+
+  let key = base;
+  for (let index = 2; taken.has(key); index++) key = `${base}#${index}`;
+  taken.add(key);
+  return key;
+}
+
+/**
+ * Turns file lists into objects keyed by entry, keeping their order
+ */
+function keyValue(value: unknown, path: string[]): unknown {
+  if (Array.isArray(value) && isFileList(path)) {
+    const taken = new Set<string>();
+    return Object.fromEntries(value.map((entry) => [entryKey(entry, taken), entry]));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .map(([key, item]) => [key, keyValue(item, [...path, key])])
+    );
+  }
+  return value;
+}
+
+function unkeyValue(value: unknown, path: string[]): unknown {
+  if (isPlainObject(value) && isFileList(path)) return Object.values(value);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, unkeyValue(item, [...path, key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Order of the keys of `target` that `among` also has
+ */
+function sharedOrder(target: Keyed, among: Keyed): string[] {
+  return Object.keys(target).filter((key) => key in among);
+}
+
+/**
+ * Rewrites an object in place with its keys in the given order
+ */
+function replaceEntries(target: Keyed, entries: [string, unknown][]): void {
+  for (const key of Object.keys(target)) delete target[key];
+  Object.assign(target, Object.fromEntries(entries));
+}
+
+/**
+ * Adds a key right after the last of the keys that precede it in `order`
+ */
+function insertKey(target: Keyed, key: string, value: unknown, order: string[]): void {
+  const predecessors = order.slice(0, order.indexOf(key));
+  const entries = Object.entries(target).filter(([existing]) => existing !== key);
+  let index = 0;
+  entries.forEach(([existing], position) => {
+    if (predecessors.includes(existing)) index = position + 1;
+  });
+  entries.splice(index, 0, [key, value]);
+  replaceEntries(target, entries);
+}
+
+/**
+ * Puts the keys listed in `order` in that order, leaving other keys in place
+ */
+function reorderKeys(target: Keyed, order: string[]): void {
+  const sorted = order.filter((key) => key in target);
+  let next = 0;
+  replaceEntries(
+    target,
+    Object.entries(target).map(([key, value]) => {
+      if (!order.includes(key)) return [key, value];
+      const moved = sorted[next++];
+      return [moved, target[moved]];
+    })
+  );
+}
+
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string[],
+  changes: SemanticChange[]
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      collectChanges(before[key], after[key], [...path, key], changes);
+    }
+
+    const beforeOrder = sharedOrder(before, after);
+    const afterOrder = sharedOrder(after, before);
+    if (isFileList(path) && !isEqual(beforeOrder, afterOrder)) {
+      changes.push({ kind: 'reordered', path, before: beforeOrder, after: afterOrder });
+    }
+    return;
+  }
+
+  if (isEqual(before, after)) return;
+
+  // Changes carry config values, so file lists inside them are lists again
+  if (before === undefined) {
+    changes.push({ kind: 'added', path, after: unkeyValue(after, path) });
+  } else if (after === undefined) {
+    changes.push({ kind: 'removed', path, before: unkeyValue(before, path) });
+  } else {
+    changes.push({
+      kind: 'changed',
+      path,
+      before: unkeyValue(before, path),
+      after: unkeyValue(after, path),
+    });
+  }
+}
+
+/**
+ * Lists the changes that turn one config into another, down to the smallest
+ * object key that differs. Other lists are compared as a whole.
+ */
+export function diffKometaConfigs(before: KometaConfig, after: KometaConfig): SemanticChange[] {
+  const changes: SemanticChange[] = [];
+  collectChanges(keyValue(before, []), keyValue(after, []), [], changes);
+  return changes;
+}
+
+function valueAt(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Applies some of the changes between two configs to the first: the ones at
+ * the given paths, out of those diffKometaConfigs(before, after) lists. Added
+ * values land next to the ones they follow in `after`.
+ */
+export function applyChanges(
+  before: KometaConfig,
+  after: KometaConfig,
+  paths: string[][]
+): KometaConfig {
+  const changes = diffKometaConfigs(before, after);
+  const result = keyValue(structuredClone(before), []) as Keyed;
+  const target = keyValue(after, []);
+
+  for (const path of paths) {
+    const change = changes.find((item) => samePath(item.path, path));
+    if (!change) {
+      throw new ConfigMergeError(`No change at ${path.join(' › ') || '(root)'}`);
+    }
+
+    if (change.kind === 'reordered') {
+      reorderKeys(valueAt(result, path) as Keyed, change.after as string[]);
+      continue;
+    }
+
+    const parent = valueAt(result, path.slice(0, -1)) as Keyed;
+    const key = path[path.length - 1];
+    if (change.kind === 'removed') {
+      delete parent[key];
+    } else if (change.kind === 'added') {
+      const order = Object.keys(valueAt(target, path.slice(0, -1)) as Keyed);
+      insertKey(parent, key, keyValue(structuredClone(change.after), path), order);
+    } else {
+      parent[key] = keyValue(structuredClone(change.after), path);
+    }
+  }
+
+  return unkeyValue(result, []) as KometaConfig;
+}
+
+function mergeValues(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string[],
+  conflicts: MergeConflict[]
+): unknown {
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const baseObject = isPlainObject(base) ? base : {};
+    const merged: Keyed = {};
+
+    for (const key of Object.keys(ours)) {
+      const value = mergeValues(baseObject[key], ours[key], theirs[key], [...path, key], conflicts);
+      if (value !== undefined) merged[key] = value;
+    }
+    for (const key of Object.keys(theirs)) {
+      if (key in ours) continue;
+      const value = mergeValues(baseObject[key], undefined, theirs[key], [...path, key], conflicts);
+      if (value !== undefined) insertKey(merged, key, value, Object.keys(theirs));
+    }
+
+    // A list only they reordered takes their order; when both did, ours is kept
+    const reordered = (side: Keyed) =>
+      !isEqual(sharedOrder(baseObject, side), sharedOrder(side, baseObject));
+    if (isFileList(path) && reordered(theirs) && !reordered(ours)) {
+      reorderKeys(merged, Object.keys(theirs));
+    }
+    return merged;
+  }
+
+  if (isEqual(ours, theirs) || isEqual(base, theirs)) return ours;
+  if (isEqual(base, ours)) return theirs;
+
+  conflicts.push({
+    path,
+    base: unkeyValue(base, path),
+    ours: unkeyValue(ours, path),
+    theirs: unkeyValue(theirs, path),
+  });
+  return ours;
+}
+
+/**
+ * Merges two configs that both started out as `base`. Changes only one side
+ * made are taken; where both changed the same value differently, ours is kept
+ * and the conflict is reported.
+ */
+export function mergeKometaConfigs(
+  base: KometaConfig,
+  ours: KometaConfig,
+  theirs: KometaConfig
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const merged = mergeValues(
+    keyValue(base, []),
+    keyValue(ours, []),
+    keyValue(theirs, []),
+    [],
+    conflicts
+  );
+  return { config: unkeyValue(merged, []) as KometaConfig, conflicts };
+}
+
+/**
+ * Writes conflicts with git-style conflict markers, one block per conflict.
+ * Each side is written as a JSON value, which YAML reads as well.
+ */
+export function formatConflictMarkers(conflicts: MergeConflict[]): string {
+  return conflicts
+    .map(({ path, base, ours, theirs }) => {
+      const line = (value: unknown) =>
+        value === undefined
+          ? `# ${path.join('.')} removed`
+          : `${path.join('.')}: ${JSON.stringify(value)}`;
+      return [
+        '<<<<<<< ours',
+        line(ours),
+        '||||||| base',
+        line(base),
+        '=======',
+        line(theirs),
+        '>>>>>>> theirs',
+      ].join('\n');
+    })
+    .join('\n\n');
+}
@@ -1,8 +1,21 @@
 // Export all schemas
 export * from './schemas/config.schema.js';
 export * from './schemas/profile.schema.js';
+export * from './schemas/operations.schema.js';
+export * from './schemas/collection.schema.js';
+export * from './schemas/metadata.schema.js';
 export * from './schemas/validation.schema.js';
 export * from './schemas/api.schema.js';
+export * from './schemas/backup.schema.js';
 
 // Export validation utilities
 export * from './validation/index.js';
+
+// Export diff utilities
+export * from './diff/index.js';
+
+// Export config templating utilities
+export * from './inheritance/index.js';
+
+// Export secret references
+export * from './secrets/index.js';
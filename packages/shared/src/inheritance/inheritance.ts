@@ -0,0 +1,142 @@
+import type { KometaConfig } from '../schemas/config.schema.js';
+
+/**
+ * Config templating: a config can inherit from a parent config and only store
+ * its overrides. Objects are merged key by key; lists and other values replace
+ * the parent's. Keys cannot be removed by a child, only overridden.
+ */
+
+export class ConfigInheritanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigInheritanceError';
+  }
+}
+
+/** What the chain resolution needs to know about a stored config */
+export interface InheritableConfig {
+  id: string;
+  name: string;
+  parentId?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    );
+  }
+  return a === b;
+}
+
+function mergeValues(base: unknown, override: unknown): unknown {
+  if (override === undefined) return base;
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeValues(base[key], value);
+  }
+  return merged;
+}
+
+function patchValue(base: unknown, value: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(value)) {
+    return isEqual(base, value) ? undefined : value;
+  }
+
+  const patch: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const itemPatch = patchValue(base[key], item);
+    if (itemPatch !== undefined) patch[key] = itemPatch;
+  }
+  return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+function collectRemovals(base: unknown, value: unknown, path: string[], removed: string[][]) {
+  if (!isPlainObject(base) || !isPlainObject(value)) return;
+  for (const key of Object.keys(base)) {
+    if (base[key] === undefined) continue;
+    if (value[key] === undefined) {
+      removed.push([...path, key]);
+    } else {
+      collectRemovals(base[key], value[key], [...path, key], removed);
+    }
+  }
+}
+
+/**
+ * Applies a child's overrides to the config it inherits from
+ */
+export function mergeConfigs(base: KometaConfig, overrides: KometaConfig): KometaConfig {
+  return mergeValues(base, overrides) as KometaConfig;
+}
+
+/**
+ * Returns the overrides that turn `base` into `config`: the values that differ
+ * from it, down to the smallest differing object key
+ */
+export function overridePatch(base: KometaConfig, config: KometaConfig): KometaConfig {
+  return (patchValue(base, config) ?? {}) as KometaConfig;
+}
+
+/**
+ * Lists the object keys of `base` that `config` leaves out, outermost only.
+ * Overrides cannot express these, so a child config keeps inheriting them.
+ */
+export function removedPaths(base: KometaConfig, config: KometaConfig): string[][] {
+  const removed: string[][] = [];
+  collectRemovals(base, config, [], removed);
+  return removed;
+}
+
+/**
+ * Follows parentId links from a config up to the config without a parent.
+ * Returns the chain root first, ending with the config itself, and throws a
+ * ConfigInheritanceError for missing parents and cycles.
+ */
+export function resolveInheritanceChain<T extends InheritableConfig>(
+  id: string,
+  find: (id: string) => T | null | undefined
+): T[] {
+  const chain: T[] = [];
+  let current = find(id);
+  if (!current) throw new ConfigInheritanceError(`Config ${id} does not exist`);
+
+  for (;;) {
+    chain.unshift(current);
+    const { parentId, name } = current;
+    if (!parentId) return chain;
+
+    const cycleStart = chain.findIndex((config) => config.id === parentId);
+    if (cycleStart >= 0) {
+      // From the parent down to the current config, back to the parent
+      const cycle = chain.slice(0, cycleStart + 1).reverse();
+      throw new ConfigInheritanceError(
+        `Inheritance cycle: ${[...cycle, cycle[0]].map((config) => `"${config.name}"`).join(' -> ')}`
+      );
+    }
+
+    const parent = find(parentId);
+    if (!parent) {
+      throw new ConfigInheritanceError(`Parent config ${parentId} of "${name}" does not exist`);
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Merges a chain of configs, root first, into the config the last one describes
+ */
+export function resolveConfigChain(configs: KometaConfig[]): KometaConfig {
+  return configs.reduce((resolved, config) => mergeConfigs(resolved, config), {});
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { KometaConfigSchema } from './config.schema.js';
 import { ProfileSecretsSchema } from './profile.schema.js';
+import { RuleSettingsSchema } from './validation.schema.js';
 
 // Common parameter schemas
 export const IdParamSchema = z.object({
@@ -12,31 +13,155 @@ export const CreateConfigSchema = z.object({
   name: z.string().min(1, 'Config name is required'),
   description: z.string().optional(),
   config: KometaConfigSchema,
+  // Config to inherit from; `config` is then stored as the overrides of it
+  parentId: z.string().uuid().optional(),
 });
 
 export const UpdateConfigSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
   config: KometaConfigSchema.optional(),
+  ruleSettings: RuleSettingsSchema.optional(),
+  // null detaches the config, keeping what it inherited as its own values
+  parentId: z.string().uuid().nullable().optional(),
+  note: z.string().max(500).optional(),
+});
+
+// Imported values that look like secrets but are not stored in a profile
+export const SecretLeakReasonSchema = z.enum(['key', 'pattern', 'url-credentials']);
+
+export const SecretLeakSchema = z.object({
+  path: z.array(z.string()),
+  reason: SecretLeakReasonSchema,
+  // Masked value, for telling findings apart
+  preview: z.string(),
+  // Suggested extras secret to move the value to, as group.key
+  name: z.string(),
+});
+
+export const SecretLeakResolutionSchema = z
+  .object({
+    path: z.array(z.string()),
+    action: z.enum(['move', 'keep']),
+    name: z
+      .string()
+      .regex(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, 'Secret names look like group.key')
+      .optional(),
+  })
+  .refine((resolution) => resolution.action === 'keep' || resolution.name, {
+    message: 'Moved secrets need a name',
+    path: ['name'],
+  });
+
+// Every finding of an import has to be moved to the profile or explicitly kept
+export const SecretLeakHandlingSchema = z.object({
+  profileId: z.string().uuid().optional(),
+  resolutions: z.array(SecretLeakResolutionSchema),
 });
 
 export const ImportYamlRequestSchema = z.object({
   yaml: z.string().min(1, 'YAML content is required'),
   preserveExtras: z.boolean().default(true),
+  secretLeaks: SecretLeakHandlingSchema.optional(),
 });
 
+// How secrets are written: left out, masked, in full, or as Kometa environment placeholders
+export const YamlModeSchema = z.enum(['template', 'masked', 'full', 'env']);
+
 export const RenderYamlRequestSchema = z.object({
   profileId: z.string().uuid('Invalid profile ID format').optional(),
-  mode: z.enum(['template', 'masked', 'full']).default('masked'),
+  mode: YamlModeSchema.default('masked'),
   includeComment: z.boolean().default(true),
 });
 
 export const RenderYamlResponseSchema = z.object({
   yaml: z.string(),
+  // The .env file and docker-compose.yml snippet that go with a YAML rendered in env mode
+  env: z.string().optional(),
+  compose: z.string().optional(),
 });
 
 export const ValidateConfigRequestSchema = z.object({
   profileId: z.string().uuid('Invalid profile ID format').optional(),
+  // Issue ranges point into the YAML rendered in this mode
+  mode: YamlModeSchema.default('masked'),
+  // Rule ids to leave out of the result, on top of the config's rule settings
+  suppress: z.array(z.string()).optional(),
+});
+
+export const FixIssueRequestSchema = z.object({
+  rule: z.string().min(1, 'Rule id is required'),
+  path: z.array(z.string()),
+});
+
+// Schedule preview API
+export const SchedulePreviewRequestSchema = z.object({
+  schedule: z.string(),
+  // First day to look at as YYYY-MM-DD, today when left out
+  from: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+    .optional(),
+  count: z.number().int().positive().max(366).default(30),
+});
+
+// Config revision API
+export const RevisionParamsSchema = z.object({
+  id: z.string().uuid('Invalid ID format'),
+  rev: z.coerce.number().int().positive('Revision must be a positive integer'),
+});
+
+export const RevisionDiffQuerySchema = z.object({
+  against: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const RestoreRevisionRequestSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+// Compare a YAML with a stored config before importing it
+export const CompareYamlRequestSchema = z.object({
+  yaml: z.string().min(1, 'YAML content is required'),
+  preserveExtras: z.boolean().default(true),
+  // Revision the YAML and the stored config both started from, for a three-way merge
+  baseRevision: z.number().int().positive('Revision must be a positive integer').optional(),
+});
+
+export const ApplyYamlChangesRequestSchema = z.object({
+  yaml: z.string().min(1, 'YAML content is required'),
+  preserveExtras: z.boolean().default(true),
+  // Paths of the changes to take from the YAML, as the comparison lists them
+  paths: z.array(z.array(z.string())),
+});
+
+// Multi-file project API
+export const ProjectFileSchema = z.object({
+  path: z.string().min(1, 'File path is required'),
+  content: z.string(),
+});
+
+export const ExportProjectRequestSchema = z.object({
+  profileId: z.string().uuid('Invalid profile ID format').optional(),
+  mode: YamlModeSchema.default('masked'),
+  format: z.enum(['zip', 'tree']).default('zip'),
+  pathPrefix: z.string().default('config/'),
+});
+
+export const ImportProjectRequestSchema = z
+  .object({
+    files: z.array(ProjectFileSchema).optional(),
+    zip: z.string().optional(),
+    preserveExtras: z.boolean().default(true),
+    secretLeaks: SecretLeakHandlingSchema.optional(),
+  })
+  .refine((body) => (body.files === undefined) !== (body.zip === undefined), {
+    message: 'Provide either files or a base64 zip archive',
+  });
+
+export const ImportDirectoryRequestSchema = z.object({
+  path: z.string().min(1, 'Directory path is required'),
+  preserveExtras: z.boolean().default(true),
+  secretLeaks: SecretLeakHandlingSchema.optional(),
 });
 
 // Profile API
@@ -80,6 +205,18 @@ export type UpdateConfigInput = z.input<typeof UpdateConfigSchema>;
 export type ImportYamlRequestInput = z.input<typeof ImportYamlRequestSchema>;
 export type RenderYamlRequestInput = z.input<typeof RenderYamlRequestSchema>;
 export type ValidateConfigRequestInput = z.input<typeof ValidateConfigRequestSchema>;
+export type FixIssueRequestInput = z.input<typeof FixIssueRequestSchema>;
+export type SchedulePreviewRequestInput = z.input<typeof SchedulePreviewRequestSchema>;
+export type RevisionParamsInput = z.input<typeof RevisionParamsSchema>;
+export type RevisionDiffQueryInput = z.input<typeof RevisionDiffQuerySchema>;
+export type RestoreRevisionRequestInput = z.input<typeof RestoreRevisionRequestSchema>;
+export type CompareYamlRequestInput = z.input<typeof CompareYamlRequestSchema>;
+export type ApplyYamlChangesRequestInput = z.input<typeof ApplyYamlChangesRequestSchema>;
+export type ExportProjectRequestInput = z.input<typeof ExportProjectRequestSchema>;
+export type ImportProjectRequestInput = z.input<typeof ImportProjectRequestSchema>;
+export type ImportDirectoryRequestInput = z.input<typeof ImportDirectoryRequestSchema>;
+export type SecretLeakHandlingInput = z.input<typeof SecretLeakHandlingSchema>;
+export type SecretLeakResolutionInput = z.input<typeof SecretLeakResolutionSchema>;
 export type CreateProfileInput = z.input<typeof CreateProfileSchema>;
 export type UpdateProfileInput = z.input<typeof UpdateProfileSchema>;
 export type ExportProfileRequestInput = z.input<typeof ExportProfileRequestSchema>;
@@ -91,7 +228,23 @@ export type UpdateConfig = z.output<typeof UpdateConfigSchema>;
 export type ImportYamlRequest = z.output<typeof ImportYamlRequestSchema>;
 export type RenderYamlRequest = z.output<typeof RenderYamlRequestSchema>;
 export type RenderYamlResponse = z.output<typeof RenderYamlResponseSchema>;
+export type YamlMode = z.output<typeof YamlModeSchema>;
 export type ValidateConfigRequest = z.output<typeof ValidateConfigRequestSchema>;
+export type FixIssueRequest = z.output<typeof FixIssueRequestSchema>;
+export type SchedulePreviewRequest = z.output<typeof SchedulePreviewRequestSchema>;
+export type RevisionParams = z.output<typeof RevisionParamsSchema>;
+export type RevisionDiffQuery = z.output<typeof RevisionDiffQuerySchema>;
+export type RestoreRevisionRequest = z.output<typeof RestoreRevisionRequestSchema>;
+export type CompareYamlRequest = z.output<typeof CompareYamlRequestSchema>;
+export type ApplyYamlChangesRequest = z.output<typeof ApplyYamlChangesRequestSchema>;
+export type ProjectFile = z.output<typeof ProjectFileSchema>;
+export type ExportProjectRequest = z.output<typeof ExportProjectRequestSchema>;
+export type ImportProjectRequest = z.output<typeof ImportProjectRequestSchema>;
+export type ImportDirectoryRequest = z.output<typeof ImportDirectoryRequestSchema>;
+export type SecretLeak = z.output<typeof SecretLeakSchema>;
+export type SecretLeakReason = z.output<typeof SecretLeakReasonSchema>;
+export type SecretLeakResolution = z.output<typeof SecretLeakResolutionSchema>;
+export type SecretLeakHandling = z.output<typeof SecretLeakHandlingSchema>;
 export type CreateProfile = z.output<typeof CreateProfileSchema>;
 export type UpdateProfile = z.output<typeof UpdateProfileSchema>;
 export type ExportProfileRequest = z.output<typeof ExportProfileRequestSchema>;
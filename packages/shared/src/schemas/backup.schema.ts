@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { KometaConfigSchema } from './config.schema.js';
+import { RuleSettingsSchema } from './validation.schema.js';
+
+export const BACKUP_FORMAT = 'kometa-studio-backup';
+export const BACKUP_VERSION = 1;
+
+export const BackupConfigSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  config: KometaConfigSchema,
+  sourceYaml: z.string().optional(),
+  ruleSettings: RuleSettingsSchema.optional(),
+  parentId: z.string().uuid().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Profiles are archived with their secrets still encrypted by the server's master key
+export const BackupProfileSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  secretsEncrypted: z.string().min(1),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Overlays saved from the Overlay Builder (stored under extras.custom_overlays of a config)
+export const BackupOverlaySchema = z.object({
+  configId: z.string().uuid(),
+  name: z.string().min(1),
+  definition: z.record(z.unknown()),
+});
+
+export const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  createdAt: z.string(),
+  configs: z.array(BackupConfigSchema),
+  profiles: z.array(BackupProfileSchema),
+  overlays: z.array(BackupOverlaySchema).default([]),
+});
+
+export const RestoreModeSchema = z.enum(['merge', 'replace', 'skip']);
+
+export const RestoreRequestSchema = z.object({
+  archive: BackupArchiveSchema,
+  mode: RestoreModeSchema.default('merge'),
+});
+
+export const RestoreCountsSchema = z.object({
+  created: z.number(),
+  updated: z.number(),
+  skipped: z.number(),
+});
+
+export const RestoreReportSchema = z.object({
+  mode: RestoreModeSchema,
+  configs: RestoreCountsSchema,
+  profiles: RestoreCountsSchema,
+  overlays: RestoreCountsSchema,
+});
+
+export type BackupConfig = z.infer<typeof BackupConfigSchema>;
+export type BackupProfile = z.infer<typeof BackupProfileSchema>;
+export type BackupOverlay = z.infer<typeof BackupOverlaySchema>;
+export type BackupArchive = z.infer<typeof BackupArchiveSchema>;
+export type RestoreMode = z.infer<typeof RestoreModeSchema>;
+export type RestoreRequestInput = z.input<typeof RestoreRequestSchema>;
+export type RestoreRequest = z.output<typeof RestoreRequestSchema>;
+export type RestoreCounts = z.infer<typeof RestoreCountsSchema>;
+export type RestoreReport = z.infer<typeof RestoreReportSchema>;
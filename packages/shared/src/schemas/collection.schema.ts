@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+// Builders the collection builder authors. Collections using other builders are
+// kept as they are.
+export const CollectionBuilderSchema = z.enum([
+  'tmdb_collection',
+  'trakt_list',
+  'imdb_chart',
+  'plex_search',
+]);
+
+export const ImdbChartSchema = z.enum([
+  'box_office',
+  'popular_movies',
+  'popular_shows',
+  'top_movies',
+  'top_shows',
+  'top_english',
+  'top_indian',
+  'lowest_rated',
+]);
+
+export const CollectionSyncModeSchema = z.enum(['append', 'sync']);
+
+/**
+ * A single value, which may be a comma separated string, or a list
+ */
+function listOf<T extends z.ZodTypeAny>(item: T) {
+  return z.union([item, z.array(item)]);
+}
+
+// `all` and `any` hold Plex search attributes such as `genre`, `year.gte` or
+// `title`, and may nest further `all`/`any` blocks
+export const PlexSearchBuilderSchema = z
+  .object({
+    all: z.record(z.unknown()).optional(),
+    any: z.record(z.unknown()).optional(),
+    type: z.string().optional(),
+    sort_by: z.string().optional(),
+    limit: z.number().int().positive().optional(),
+  })
+  .catchall(z.unknown());
+
+// A collection in the top-level `collections:` block of a collection file.
+// Other builders and collection attributes are kept as they are.
+export const CollectionSchema = z
+  .object({
+    tmdb_collection: listOf(z.union([z.number(), z.string()])).optional(),
+    trakt_list: listOf(z.string()).optional(),
+    imdb_chart: listOf(ImdbChartSchema).optional(),
+    plex_search: PlexSearchBuilderSchema.optional(),
+    filters: z.record(z.unknown()).optional(),
+    // release, alpha or custom, or a Plex sort such as `title.asc`
+    collection_order: z.string().optional(),
+    sync_mode: CollectionSyncModeSchema.optional(),
+    schedule: z.string().optional(),
+    summary: z.string().optional(),
+    sort_title: z.string().optional(),
+  })
+  .catchall(z.unknown());
+
+// Content of a collection file
+export const CollectionFileSchema = z
+  .object({
+    collections: z.record(CollectionSchema),
+  })
+  .catchall(z.unknown());
+
+export type CollectionBuilder = z.infer<typeof CollectionBuilderSchema>;
+export type ImdbChart = z.infer<typeof ImdbChartSchema>;
+export type CollectionSyncMode = z.infer<typeof CollectionSyncModeSchema>;
+export type PlexSearchBuilder = z.infer<typeof PlexSearchBuilderSchema>;
+export type Collection = z.infer<typeof CollectionSchema>;
+export type CollectionFile = z.infer<typeof CollectionFileSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { WebhookEventSchema } from './config.schema.js';
 
 // Profile contains secrets and endpoint URLs
 export const ProfileSecretsSchema = z.object({
@@ -9,6 +10,16 @@ export const ProfileSecretsSchema = z.object({
     })
     .optional(),
 
+  // Extra Plex servers, referenced by name from a library's `plex.server`
+  plex_servers: z
+    .record(
+      z.object({
+        url: z.string().url().optional(),
+        token: z.string().optional(),
+      })
+    )
+    .optional(),
+
   tmdb: z
     .object({
       apikey: z.string().optional(),
@@ -55,6 +66,63 @@ export const ProfileSecretsSchema = z.object({
     })
     .optional(),
 
+  omdb: z
+    .object({
+      apikey: z.string().optional(),
+    })
+    .optional(),
+
+  anidb: z
+    .object({
+      username: z.string().optional(),
+      password: z.string().optional(),
+    })
+    .optional(),
+
+  mal: z
+    .object({
+      client_id: z.string().optional(),
+      client_secret: z.string().optional(),
+      authorization: z
+        .object({
+          access_token: z.string().optional(),
+          token_type: z.string().optional(),
+          expires_in: z.number().optional(),
+          refresh_token: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+
+  github: z
+    .object({
+      token: z.string().optional(),
+    })
+    .optional(),
+
+  notifiarr: z
+    .object({
+      apikey: z.string().optional(),
+    })
+    .optional(),
+
+  gotify: z
+    .object({
+      url: z.string().url().optional(),
+      token: z.string().optional(),
+    })
+    .optional(),
+
+  ntfy: z
+    .object({
+      url: z.string().url().optional(),
+      token: z.string().optional(),
+    })
+    .optional(),
+
+  // Custom webhook URLs per event, next to the services routed in the config
+  webhooks: z.record(WebhookEventSchema, z.array(z.string())).optional(),
+
   // Allow additional services
   extras: z.record(z.record(z.string())).optional(),
 });
@@ -77,6 +145,14 @@ export const MaskedProfileSchema = ProfileSchema.extend({
         token: z.string().optional(), // Will be masked like "abcd****wxyz"
       })
       .optional(),
+    plex_servers: z
+      .record(
+        z.object({
+          url: z.string().optional(),
+          token: z.string().optional(), // Masked
+        })
+      )
+      .optional(),
     tmdb: z
       .object({
         apikey: z.string().optional(), // Masked
@@ -117,6 +193,54 @@ export const MaskedProfileSchema = ProfileSchema.extend({
           .optional(),
       })
       .optional(),
+    omdb: z
+      .object({
+        apikey: z.string().optional(), // Masked
+      })
+      .optional(),
+    anidb: z
+      .object({
+        username: z.string().optional(),
+        password: z.string().optional(), // Masked
+      })
+      .optional(),
+    mal: z
+      .object({
+        client_id: z.string().optional(),
+        client_secret: z.string().optional(), // Masked
+        authorization: z
+          .object({
+            access_token: z.string().optional(), // Masked
+            token_type: z.string().optional(),
+            expires_in: z.number().optional(),
+            refresh_token: z.string().optional(), // Masked
+          })
+          .optional(),
+      })
+      .optional(),
+    github: z
+      .object({
+        token: z.string().optional(), // Masked
+      })
+      .optional(),
+    notifiarr: z
+      .object({
+        apikey: z.string().optional(), // Masked
+      })
+      .optional(),
+    gotify: z
+      .object({
+        url: z.string().optional(),
+        token: z.string().optional(), // Masked
+      })
+      .optional(),
+    ntfy: z
+      .object({
+        url: z.string().optional(),
+        token: z.string().optional(), // Masked
+      })
+      .optional(),
+    webhooks: z.record(WebhookEventSchema, z.array(z.string())).optional(), // Masked
     extras: z.record(z.record(z.string())).optional(),
   }),
 });
@@ -0,0 +1,107 @@
+import type { ProfileSecrets } from '../schemas/profile.schema.js';
+
+/**
+ * Secret references stand in for a secret anywhere in a config, so the secret
+ * itself only lives in a profile:
+ *
+ *   {{secret:profile.extras.notifiarr.apikey}}
+ *
+ * The path after `profile.` points into the profile's secrets. A value can be
+ * a reference or contain one, as in a URL.
+ */
+
+export const SECRET_REFERENCE_PATTERN = /\{\{\s*secret:([^{}\s]*)\s*\}\}/g;
+
+const PROFILE_PREFIX = 'profile.';
+
+export interface SecretReference {
+  /** Config path of the value holding the reference */
+  path: string[];
+  /** What the reference points to, such as profile.extras.notifiarr.apikey */
+  reference: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the reference to a profile secret, for a path such as extras.notifiarr.apikey
+ */
+export function secretReference(secretPath: string): string {
+  return `{{secret:${PROFILE_PREFIX}${secretPath}}}`;
+}
+
+/**
+ * Whether a string holds a secret reference
+ */
+export function hasSecretReference(value: string): boolean {
+  return new RegExp(SECRET_REFERENCE_PATTERN.source).test(value);
+}
+
+/**
+ * Lists every secret reference in a value, with the path of the string holding it
+ */
+export function listSecretReferences(value: unknown, path: string[] = []): SecretReference[] {
+  if (typeof value === 'string') {
+    return [...value.matchAll(SECRET_REFERENCE_PATTERN)].map((match) => ({
+      path,
+      reference: match[1],
+    }));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => listSecretReferences(item, [...path, String(index)]));
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      listSecretReferences(item, [...path, key])
+    );
+  }
+  return [];
+}
+
+/**
+ * Looks up the secret a reference points to. Returns undefined when the
+ * reference is malformed or the profile has no such secret.
+ */
+export function lookupSecret(reference: string, secrets?: ProfileSecrets): string | undefined {
+  if (!reference.startsWith(PROFILE_PREFIX)) return undefined;
+
+  let value: unknown = secrets;
+  for (const key of reference.slice(PROFILE_PREFIX.length).split('.')) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[key];
+  }
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Name of the environment variable a reference is emitted as, such as
+ * KOMETA_EXTRAS_NOTIFIARR_APIKEY
+ */
+export function secretEnvName(reference: string): string {
+  const path = reference.startsWith(PROFILE_PREFIX)
+    ? reference.slice(PROFILE_PREFIX.length)
+    : reference;
+  return `KOMETA_${path.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
+
+/**
+ * Returns a copy of a value with every secret reference replaced
+ */
+export function replaceSecretReferences<T>(value: T, replace: (reference: string) => string): T {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_REFERENCE_PATTERN, (_match, reference: string) =>
+      replace(reference)
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceSecretReferences(item, replace)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceSecretReferences(item, replace)])
+    ) as T;
+  }
+  return value;
+}
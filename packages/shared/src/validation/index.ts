@@ -1 +1,4 @@
 export * from './validator.js';
+export * from './defaults.js';
+export * from './rules.js';
+export * from './schedule.js';
@@ -0,0 +1,220 @@
+/**
+ * Grammar of Kometa schedule expressions, as used by `schedule:` on libraries,
+ * file entries and collections. An expression is a comma separated list of
+ * options and runs when any of them matches:
+ *
+ *   daily | never | non_existing | not_scheduled
+ *   hourly(HH) | hourly(HH-HH)
+ *   weekly(day|day...)
+ *   monthly(DD)
+ *   yearly(MM/DD)
+ *   range(MM/DD-MM/DD|MM/DD-MM/DD...)
+ *   all[option, option...]   - runs when every option matches
+ */
+
+export interface MonthDay {
+  month: number;
+  day: number;
+}
+
+export type ScheduleOption =
+  | { type: 'daily' | 'never' | 'non_existing' | 'not_scheduled' }
+  | { type: 'hourly'; start: number; end: number }
+  | { type: 'weekly'; days: number[] }
+  | { type: 'monthly'; day: number }
+  | { type: 'yearly'; date: MonthDay }
+  | { type: 'range'; ranges: Array<{ start: MonthDay; end: MonthDay }> }
+  | { type: 'all'; options: ScheduleOption[] };
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+export const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const KEYWORDS = ['daily', 'never', 'non_existing', 'not_scheduled'] as const;
+
+// Days per month, allowing February 29
+const MONTH_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Upper bound for the run preview, long enough to reach a yearly(02/29)
+const MAX_PREVIEW_DAYS = 366 * 4 + 1;
+
+/**
+ * Splits on commas that are not inside brackets or parentheses
+ */
+function splitOptions(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of expression) {
+    if (char === '[' || char === '(') depth++;
+    if (char === ']' || char === ')') depth--;
+    if (depth < 0) throw new ScheduleError(`Unbalanced "${char}" in "${expression}"`);
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (depth > 0) throw new ScheduleError(`Unclosed bracket in "${expression}"`);
+  parts.push(current.trim());
+  return parts;
+}
+
+function parseNumber(value: string, min: number, max: number, what: string, option: string) {
+  const number = /^\d{1,2}$/.test(value) ? Number(value) : NaN;
+  if (!(number >= min && number <= max)) {
+    throw new ScheduleError(`${what} "${value}" in ${option} must be between ${min} and ${max}`);
+  }
+  return number;
+}
+
+function parseMonthDay(value: string, option: string): MonthDay {
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (!match) throw new ScheduleError(`"${value}" in ${option} is not a MM/DD date`);
+  const month = parseNumber(match[1], 1, 12, 'Month', option);
+  const day = parseNumber(match[2], 1, MONTH_DAYS[month - 1], 'Day', option);
+  return { month, day };
+}
+
+function parseOption(text: string): ScheduleOption {
+  const option = text.toLowerCase();
+  if (!option) throw new ScheduleError('Empty schedule option');
+
+  if ((KEYWORDS as readonly string[]).includes(option)) {
+    return { type: option as (typeof KEYWORDS)[number] };
+  }
+
+  const all = option.match(/^all\s*\[(.*)\]$/s);
+  if (all) {
+    const options = splitOptions(all[1]).map(parseOption);
+    if (options.some((nested) => nested.type === 'all')) {
+      throw new ScheduleError(`${text} cannot contain another all[...]`);
+    }
+    return { type: 'all', options };
+  }
+
+  const call = option.match(/^([a-z_]+)\s*\((.*)\)$/s);
+  if (!call) throw new ScheduleError(`Unknown schedule "${text}"`);
+  const [, name, rawArgs] = call;
+  const args = rawArgs.trim();
+  if (!args) throw new ScheduleError(`${name}() needs a value`);
+
+  switch (name) {
+    case 'hourly': {
+      const [start, end = start] = args.split('-').map((hour) => hour.trim());
+      return {
+        type: 'hourly',
+        start: parseNumber(start, 0, 23, 'Hour', text),
+        end: parseNumber(end, 0, 23, 'Hour', text),
+      };
+    }
+    case 'weekly':
+      return {
+        type: 'weekly',
+        days: args.split('|').map((day) => {
+          const index = WEEKDAYS.indexOf(day.trim());
+          if (index < 0) throw new ScheduleError(`Unknown day "${day.trim()}" in ${text}`);
+          return index;
+        }),
+      };
+    case 'monthly':
+      return { type: 'monthly', day: parseNumber(args, 1, 31, 'Day', text) };
+    case 'yearly':
+      return { type: 'yearly', date: parseMonthDay(args, text) };
+    case 'range':
+      return {
+        type: 'range',
+        ranges: args.split('|').map((range) => {
+          const dates = range.split('-');
+          if (dates.length !== 2) {
+            throw new ScheduleError(`"${range.trim()}" in ${text} is not a MM/DD-MM/DD range`);
+          }
+          return {
+            start: parseMonthDay(dates[0].trim(), text),
+            end: parseMonthDay(dates[1].trim(), text),
+          };
+        }),
+      };
+    default:
+      throw new ScheduleError(`Unknown schedule "${name}" in ${text}`);
+  }
+}
+
+/**
+ * Parses a schedule expression, throwing a ScheduleError that says what is wrong
+ */
+export function parseSchedule(expression: string): ScheduleOption[] {
+  if (!expression.trim()) throw new ScheduleError('The schedule is empty');
+  return splitOptions(expression).map(parseOption);
+}
+
+function compareMonthDay(a: MonthDay, b: MonthDay): number {
+  return a.month - b.month || a.day - b.day;
+}
+
+/**
+ * Whether an option lets a run on the given day go ahead. Hourly options
+ * depend on the time of the run, so they allow every day.
+ */
+function matchesDay(option: ScheduleOption, date: Date): boolean {
+  const today = { month: date.getMonth() + 1, day: date.getDate() };
+  switch (option.type) {
+    case 'daily':
+    case 'hourly':
+      return true;
+    case 'never':
+    case 'non_existing':
+    case 'not_scheduled':
+      return false;
+    case 'weekly':
+      return option.days.includes(date.getDay());
+    case 'monthly': {
+      // Days past the end of a month run on its last day
+      const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+      return today.day === Math.min(option.day, lastDay);
+    }
+    case 'yearly':
+      return compareMonthDay(today, option.date) === 0;
+    case 'range':
+      return option.ranges.some(({ start, end }) =>
+        compareMonthDay(start, end) <= 0
+          ? compareMonthDay(today, start) >= 0 && compareMonthDay(today, end) <= 0
+          : // Ranges such as 12/15-01/15 wrap around the new year
+            compareMonthDay(today, start) >= 0 || compareMonthDay(today, end) <= 0
+      );
+    case 'all':
+      return option.options.every((nested) => matchesDay(nested, date));
+  }
+}
+
+/**
+ * Lists the next days, starting with `from`, on which a schedule runs. Fewer
+ * than `count` days come back when the schedule rarely or never runs.
+ */
+export function nextScheduledDays(
+  schedule: string | ScheduleOption[],
+  from: Date,
+  count = 30
+): Date[] {
+  const options = typeof schedule === 'string' ? parseSchedule(schedule) : schedule;
+  const days: Date[] = [];
+  for (let offset = 0; offset < MAX_PREVIEW_DAYS && days.length < count; offset++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    if (options.some((option) => matchesDay(option, date))) days.push(date);
+  }
+  return days;
+}
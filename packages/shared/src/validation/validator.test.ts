@@ -77,4 +77,21 @@ describe('Config Validator', () => {
 
     expect(result.warnings.some((w) => w.path.includes('radarr'))).toBe(true);
   });
+
+  it('should report unknown defaults with a rule id', () => {
+    const config: KometaConfig = {
+      libraries: {
+        Movies: {
+          collection_files: [{ default: 'not_a_default' }],
+        },
+      },
+    };
+
+    const result = validateConfig(config);
+
+    expect(result.warnings.map((w) => w.code)).toEqual(['unknown-default']);
+    expect(
+      validateConfig(config, undefined, { suppress: ['unknown-default'] }).warnings
+    ).toHaveLength(0);
+  });
 });